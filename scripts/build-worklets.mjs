@@ -0,0 +1,13 @@
+// AudioWorklet modules are loaded by URL and can't import from the app bundle, so each entry
+// point is bundled on its own into public/worklets
+import { build } from "esbuild";
+
+await build({
+  entryPoints: { "feature-processor": "src/audio/worklet/featureProcessor.worklet.ts" },
+  outdir: "public/worklets",
+  bundle: true,
+  format: "esm",
+  target: "es2020",
+  minify: true,
+  logLevel: "info",
+});
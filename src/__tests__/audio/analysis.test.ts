@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import {
+  createAnalyserData,
+  createFrameAnalyser,
+  createSpectrumAnalyser,
+  createWindow,
+  dbToByte,
+  fft,
+  getWindowGain,
+  sampleToByte,
+} from "@/audio/analysis";
+
+const SAMPLE_RATE = 48000;
+
+function sine(frequency: number, amplitude: number, length: number) {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+}
+
+function loudestBin(data: Uint8Array) {
+  return data.indexOf(Math.max(...data));
+}
+
+describe("fft", () => {
+  it("should turn an impulse into a flat spectrum", () => {
+    const real = new Float32Array(8);
+    const imag = new Float32Array(8);
+    real[0] = 1;
+
+    fft(real, imag);
+
+    expect(Array.from(real)).toEqual(new Array(8).fill(1));
+    expect(Array.from(imag).every((value) => Math.abs(value) < 1e-7)).toBe(true);
+  });
+
+  it("should find a sine in its bin", () => {
+    // Bin 4 of 64 is exactly 4 cycles per window
+    const real = Float32Array.from({ length: 64 }, (_, i) => Math.cos((2 * Math.PI * 4 * i) / 64));
+    const imag = new Float32Array(64);
+
+    fft(real, imag);
+
+    const magnitudes = Array.from(real, (value, i) => Math.hypot(value, imag[i]));
+    expect(magnitudes[4]).toBeCloseTo(32, 3);
+    expect(magnitudes[5]).toBeCloseTo(0, 3);
+  });
+});
+
+describe("createWindow", () => {
+  it("should taper to the edges and peak in the middle", () => {
+    const hann = createWindow("hann", 1024);
+    const hamming = createWindow("hamming", 1024);
+    const blackman = createWindow("blackman", 1024);
+
+    expect(hann[0]).toBeCloseTo(0, 6);
+    expect(hamming[0]).toBeCloseTo(0.08, 6);
+    expect(blackman[0]).toBeCloseTo(0, 6);
+    for (const window of [hann, hamming, blackman]) {
+      expect(window[512]).toBeCloseTo(1, 6);
+    }
+  });
+
+  it("should report each window's average gain", () => {
+    expect(getWindowGain(createWindow("hann", 1024))).toBeCloseTo(0.5, 6);
+    expect(getWindowGain(createWindow("hamming", 1024))).toBeCloseTo(0.54, 6);
+    expect(getWindowGain(createWindow("blackman", 1024))).toBeCloseTo(0.42, 6);
+  });
+});
+
+describe("decibel scaling", () => {
+  it("should map the decibel range onto bytes and clip outside it", () => {
+    expect(dbToByte(-100, -100, -30)).toBe(0);
+    expect(dbToByte(-30, -100, -30)).toBe(255);
+    expect(dbToByte(-65, -100, -30)).toBe(127);
+    expect(dbToByte(-Infinity, -100, -30)).toBe(0);
+    expect(dbToByte(0, -100, -30)).toBe(255);
+  });
+
+  it("should map samples onto bytes with silence at 128", () => {
+    expect(sampleToByte(0)).toBe(128);
+    expect(sampleToByte(-1)).toBe(0);
+    expect(sampleToByte(1)).toBe(255);
+    expect(sampleToByte(2)).toBe(255);
+  });
+});
+
+describe("createSpectrumAnalyser", () => {
+  it("should match the AnalyserNode byte scaling for a sine", () => {
+    const analyser = createSpectrumAnalyser({ fftSize: 2048, smoothingTimeConstant: 0 });
+
+    // 1500 Hz at 48 kHz over 2048 samples lands on bin 64. At amplitude 0.05 the Blackman
+    // window's 0.42 gain puts it at -39.6 dB, 220 on the default -100 to -30 dB scale.
+    const quiet = analyser.analyse(sine(1500, 0.05, 4096), 4096);
+    expect(loudestBin(quiet.frequencyData)).toBe(64);
+    expect(quiet.frequencyData[64]).toBe(220);
+    expect(quiet.frequencyData[400]).toBe(0);
+
+    // Full scale clips at the top of the range, like the node
+    const { frequencyData, timeDomainData } = analyser.analyse(sine(1500, 1, 4096), 4096);
+    expect(frequencyData[64]).toBe(255);
+    expect(Math.max(...timeDomainData)).toBe(255);
+    expect(Math.min(...timeDomainData)).toBe(0);
+  });
+
+  it("should read samples before the start as silence", () => {
+    const analyser = createSpectrumAnalyser({ fftSize: 256 });
+
+    const { frequencyData, timeDomainData } = analyser.analyse(sine(1500, 1, 1000), 0);
+
+    expect(frequencyData.every((value) => value === 0)).toBe(true);
+    expect(timeDomainData.every((value) => value === 128)).toBe(true);
+  });
+
+  it("should smooth between analyses until reset", () => {
+    const samples = sine(1500, 0.01, 4096);
+    const silence = new Float32Array(4096);
+    const smoothed = createSpectrumAnalyser({ fftSize: 2048, smoothingTimeConstant: 0.9 });
+    const unsmoothed = createSpectrumAnalyser({ fftSize: 2048, smoothingTimeConstant: 0 });
+
+    const first = smoothed.analyse(samples, 4096).frequencyData[64];
+    expect(first).toBeLessThan(unsmoothed.analyse(samples, 4096).frequencyData[64]);
+
+    // The level decays rather than dropping to nothing
+    expect(smoothed.analyse(silence, 4096).frequencyData[64]).toBeGreaterThan(0);
+
+    smoothed.reset();
+    expect(smoothed.analyse(silence, 4096).frequencyData[64]).toBe(0);
+  });
+
+  it("should apply the chosen window", () => {
+    const samples = sine(1500, 0.05, 4096);
+    const blackman = createSpectrumAnalyser({ smoothingTimeConstant: 0 }).analyse(samples, 4096);
+    const hann = createSpectrumAnalyser({ smoothingTimeConstant: 0, window: "hann" }).analyse(samples, 4096);
+
+    // Hann's higher gain reads the same sine louder
+    expect(hann.frequencyData[64]).toBeGreaterThan(blackman.frequencyData[64]);
+  });
+
+  it("should keep full-precision results alongside the bytes", () => {
+    const analyser = createSpectrumAnalyser({ smoothingTimeConstant: 0 });
+    const samples = sine(1500, 1, 4096);
+
+    const { frequencyData } = analyser.analyse(samples, 4096);
+
+    // Not clipped at maxDecibels, unlike the byte data
+    expect(analyser.floatFrequencyData[64]).toBeGreaterThan(-30);
+    expect(dbToByte(analyser.floatFrequencyData[400], -100, -30)).toBe(frequencyData[400]);
+    expect(Array.from(analyser.floatTimeDomainData)).toEqual(Array.from(samples.subarray(2048)));
+  });
+
+  it("should reject sizes and ranges AnalyserNode would", () => {
+    expect(() => createSpectrumAnalyser({ fftSize: 1000 })).toThrow(RangeError);
+    expect(() => createSpectrumAnalyser({ fftSize: 16 })).toThrow(RangeError);
+    expect(() => createSpectrumAnalyser({ minDecibels: -20, maxDecibels: -30 })).toThrow(RangeError);
+  });
+});
+
+describe("createAnalyserData", () => {
+  it("should return the shape useAnalyser produces", () => {
+    const data = createAnalyserData(sine(1500, 0.05, 4096), { smoothingTimeConstant: 0 });
+
+    expect(data.frequencyData).toHaveLength(1024);
+    expect(data.timeDomainData).toHaveLength(2048);
+    expect(data.peakFrequency).toBe(64);
+    expect(data.averageFrequency).toBeGreaterThan(0);
+    expect(data.isBeat).toBe(false);
+    expect(data.isSectionChange).toBe(false);
+    expect(data.float).toBeUndefined();
+    expect(data.left).toBeUndefined();
+  });
+
+  it("should add float data and stereo channels when asked", () => {
+    const left = sine(1500, 0.5, 4096);
+    const right = new Float32Array(4096);
+
+    const data = createAnalyserData(
+      left,
+      { smoothingTimeConstant: 0, sampleRate: SAMPLE_RATE, float: true },
+      { left, right }
+    );
+
+    expect(data.float?.peak).toBeCloseTo(0.5, 2);
+    expect(data.float?.rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    expect(data.float?.peakFrequencyHz).toBeCloseTo(1500, 0);
+    expect(data.left?.frequencyData[64]).toBe(255);
+    expect(data.right?.frequencyData.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("createFrameAnalyser", () => {
+  it("should carry smoothing between frames until reset", () => {
+    const analyser = createFrameAnalyser({ smoothingTimeConstant: 0.9 });
+    const samples = sine(1500, 0.05, 8192);
+
+    const first = analyser.analyse(samples, 4096, 0).frequencyData[64];
+    const second = analyser.analyse(samples, 8192, 0.05).frequencyData[64];
+    expect(second).toBeGreaterThan(first);
+
+    analyser.reset();
+    expect(analyser.analyse(samples, 4096, 0).frequencyData[64]).toBe(first);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { defaultAutoLevelOptions, getAutoLevelGain } from "@/audio/autoLevel";
+
+describe("getAutoLevelGain", () => {
+  const { targetRms, minGain, maxGain } = defaultAutoLevelOptions;
+
+  // Run the loop against a source with a fixed input level
+  function settle(inputRms: number, seconds: number, startGain = 1): number {
+    let gain = startGain;
+    const step = 0.05;
+    for (let t = 0; t < seconds; t += step) {
+      gain = getAutoLevelGain(gain, inputRms * gain, step);
+    }
+    return gain;
+  }
+
+  it("should boost quiet input towards the target", () => {
+    const gain = settle(0.05, 10);
+
+    expect(gain * 0.05).toBeCloseTo(targetRms, 2);
+  });
+
+  it("should cut loud input towards the target", () => {
+    const gain = settle(0.8, 1);
+
+    expect(gain * 0.8).toBeCloseTo(targetRms, 2);
+  });
+
+  it("should turn down faster than it turns up", () => {
+    const down = 1 - getAutoLevelGain(1, targetRms * 2, 0.05);
+    const up = getAutoLevelGain(1, targetRms / 2, 0.05) - 1;
+
+    expect(down).toBeGreaterThan(up);
+  });
+
+  it("should hold the gain on silence", () => {
+    expect(getAutoLevelGain(3, 0, 0.05)).toBe(3);
+  });
+
+  it("should stay within the gain limits", () => {
+    expect(settle(0.003, 60)).toBeLessThanOrEqual(maxGain);
+    expect(settle(1, 60, 0.5)).toBeGreaterThanOrEqual(minGain);
+  });
+});
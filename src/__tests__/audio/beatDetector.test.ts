@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import { createBeatDetector, estimateTempo, getSpectralFlux, type BeatInfo } from "@/audio/beatDetector";
+
+const FRAME_RATE = 60;
+const BIN_COUNT = 256;
+
+// Small deterministic generator so the noise floor is the same every run
+function createNoise(seed: number) {
+  let value = seed;
+  return () => {
+    value = (value * 1664525 + 1013904223) % 4294967296;
+    return value / 4294967296;
+  };
+}
+
+// Analyser-like frames for a click track: each click jumps the whole spectrum up and
+// then decays over a few frames, on top of a low jittery noise floor
+function createClickTrack(bpm: number, seconds: number, { noiseLevel = 10, clickLevel = 200 } = {}) {
+  const noise = createNoise(42);
+  const period = 60 / bpm;
+  const frames: { time: number; data: Uint8Array }[] = [];
+  const clickTimes: number[] = [];
+
+  for (let t = 0; t < seconds; t += period) clickTimes.push(t);
+
+  for (let frame = 0; frame < seconds * FRAME_RATE; frame++) {
+    const time = frame / FRAME_RATE;
+    const sinceClick = time - Math.max(...clickTimes.filter((click) => click <= time + 1e-9));
+    const envelope = clickLevel * Math.exp(-sinceClick / 0.05);
+    const data = new Uint8Array(BIN_COUNT);
+    for (let i = 0; i < BIN_COUNT; i++) {
+      data[i] = Math.min(255, Math.round(noise() * noiseLevel + envelope));
+    }
+    frames.push({ time, data });
+  }
+
+  return { frames, clickTimes };
+}
+
+function runDetector(frames: { time: number; data: Uint8Array }[]) {
+  const detector = createBeatDetector();
+  const results: (BeatInfo & { time: number })[] = [];
+  for (const { time, data } of frames) {
+    results.push({ time, ...detector.update(data, time) });
+  }
+  return results;
+}
+
+describe("getSpectralFlux", () => {
+  it("should only count bins that got louder", () => {
+    const previous = new Uint8Array([100, 100, 100, 100]);
+    const current = new Uint8Array([200, 0, 100, 151]);
+
+    expect(getSpectralFlux(current, previous)).toBeCloseTo(151 / (4 * 255));
+  });
+
+  it("should be 1 going from silence to full scale", () => {
+    expect(getSpectralFlux(new Uint8Array(8).fill(255), new Uint8Array(8))).toBe(1);
+  });
+
+  it("should handle empty frames", () => {
+    expect(getSpectralFlux(new Uint8Array(0), new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe("estimateTempo", () => {
+  const onsets = (bpm: number, count: number) => Array.from({ length: count }, (_, i) => (i * 60) / bpm);
+
+  it("should find the tempo of regular onsets", () => {
+    expect(estimateTempo(onsets(120, 12))).toBeCloseTo(120, 0);
+    expect(estimateTempo(onsets(97, 12))).toBeCloseTo(97, 0);
+  });
+
+  it("should fold tempos outside the range back into it", () => {
+    expect(estimateTempo(onsets(40, 8))).toBeCloseTo(80, 0);
+    expect(estimateTempo(onsets(200, 16))).toBeCloseTo(100, 0);
+  });
+
+  it("should survive a missed onset", () => {
+    const times = onsets(120, 12).filter((_, i) => i !== 5);
+
+    expect(estimateTempo(times)).toBeCloseTo(120, 0);
+  });
+
+  it("should report no tempo from too few onsets", () => {
+    expect(estimateTempo([0, 0.5, 1])).toBe(0);
+  });
+});
+
+describe("createBeatDetector", () => {
+  it("should detect each click of a 120 BPM track", () => {
+    const { frames, clickTimes } = createClickTrack(120, 8);
+    const beats = runDetector(frames).filter((result) => result.isBeat);
+
+    // The very first click has no previous frame to rise from
+    expect(beats.length).toBeGreaterThanOrEqual(clickTimes.length - 1);
+    expect(beats.length).toBeLessThanOrEqual(clickTimes.length);
+    for (const beat of beats) {
+      const nearest = Math.min(...clickTimes.map((click) => Math.abs(click - beat.time)));
+      expect(nearest).toBeLessThan(1.5 / FRAME_RATE);
+    }
+  });
+
+  it.each([90, 120, 140])("should estimate %i BPM from a click track", (bpm) => {
+    const { frames } = createClickTrack(bpm, 10);
+    const results = runDetector(frames);
+
+    expect(results[results.length - 1].bpm).toBeGreaterThan(bpm - 1);
+    expect(results[results.length - 1].bpm).toBeLessThan(bpm + 1);
+  });
+
+  it("should report confident beats for clear clicks", () => {
+    const { frames } = createClickTrack(120, 4);
+    const beats = runDetector(frames).filter((result) => result.isBeat);
+
+    for (const beat of beats) {
+      expect(beat.beatConfidence).toBeGreaterThan(0.5);
+      expect(beat.beatConfidence).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("should track the phase through each beat", () => {
+    const { frames } = createClickTrack(120, 8);
+    const results = runDetector(frames);
+    const lastBeat = results.findLastIndex((result) => result.isBeat);
+    const previousBeat = results.findLastIndex((result, i) => result.isBeat && i < lastBeat);
+
+    expect(results[lastBeat].beatPhase).toBe(0);
+    // Half a beat at 120 BPM is 0.25s, 15 frames
+    expect(results[previousBeat + 15].beatPhase).toBeCloseTo(0.5, 1);
+  });
+
+  it("should not fire on a steady noise floor", () => {
+    const { frames } = createClickTrack(120, 4, { clickLevel: 0, noiseLevel: 20 });
+    const results = runDetector(frames);
+
+    expect(results.some((result) => result.isBeat)).toBe(false);
+    expect(results[results.length - 1].bpm).toBe(0);
+  });
+
+  it("should not fire on silence", () => {
+    const detector = createBeatDetector();
+    const silence = new Uint8Array(BIN_COUNT);
+
+    for (let frame = 0; frame < 120; frame++) {
+      expect(detector.update(silence, frame / FRAME_RATE).isBeat).toBe(false);
+    }
+  });
+
+  it("should ignore clicks closer together than the refractory period", () => {
+    // 480 BPM clicks are 0.125s apart, half the default refractory period
+    const { frames } = createClickTrack(480, 4);
+    const beats = runDetector(frames).filter((result) => result.isBeat);
+
+    for (let i = 1; i < beats.length; i++) {
+      expect(beats[i].time - beats[i - 1].time).toBeGreaterThanOrEqual(0.25);
+    }
+  });
+
+  it("should detect beats from flux measured elsewhere", () => {
+    const { frames } = createClickTrack(120, 8);
+    const spectral = runDetector(frames);
+    const detector = createBeatDetector();
+    let previous: Uint8Array | null = null;
+    const fromFlux = frames.map(({ time, data }) => {
+      const flux = previous ? getSpectralFlux(data, previous) : 0;
+      previous = data;
+      return { time, ...detector.updateFlux(flux, time) };
+    });
+
+    expect(fromFlux).toEqual(spectral);
+  });
+
+  it("should forget the tempo on reset", () => {
+    const { frames } = createClickTrack(120, 6);
+    const detector = createBeatDetector();
+    let last: BeatInfo | null = null;
+    for (const { time, data } of frames) last = detector.update(data, time);
+    expect(last?.bpm).toBeGreaterThan(0);
+
+    detector.reset();
+
+    const after = detector.update(new Uint8Array(BIN_COUNT), 10);
+    expect(after).toEqual({ isBeat: false, beatConfidence: 0, bpm: 0, beatPhase: 0 });
+  });
+});
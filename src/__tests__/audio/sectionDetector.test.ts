@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { createSectionDetector, getProfileDistance, getSpectralProfile } from "@/audio/sectionDetector";
+
+const FRAME_RATE = 30;
+const BIN_COUNT = 512;
+
+// Small deterministic generator so the texture is the same every run
+function createNoise(seed: number) {
+  let value = seed;
+  return () => {
+    value = (value * 1664525 + 1013904223) % 4294967296;
+    return value / 4294967296;
+  };
+}
+
+// Frames whose energy sits around one part of the spectrum, with frame-to-frame jitter
+function createSection(center: number, level: number, seconds: number, startTime: number, noise: () => number) {
+  const frames: { time: number; data: Uint8Array }[] = [];
+  for (let frame = 0; frame < seconds * FRAME_RATE; frame++) {
+    const data = new Uint8Array(BIN_COUNT);
+    for (let i = 0; i < BIN_COUNT; i++) {
+      const distance = Math.abs(Math.log2((i + 1) / (center * BIN_COUNT)));
+      data[i] = Math.min(255, Math.round(level * Math.exp(-distance) * (0.8 + noise() * 0.4)));
+    }
+    frames.push({ time: startTime + frame / FRAME_RATE, data });
+  }
+  return frames;
+}
+
+function getChangeTimes(frames: { time: number; data: Uint8Array }[]) {
+  const detector = createSectionDetector();
+  return frames.filter(({ time, data }) => detector.update(data, time)).map(({ time }) => time);
+}
+
+describe("getSpectralProfile", () => {
+  it("should average the spectrum into bands", () => {
+    const profile = getSpectralProfile(new Uint8Array(BIN_COUNT).fill(255));
+
+    expect(profile.length).toBe(9);
+    expect([...profile].every((level) => level === 1)).toBe(true);
+  });
+});
+
+describe("getProfileDistance", () => {
+  it("should be 0 for the same profile and relative to the reference size", () => {
+    const reference = new Float32Array([0.5, 0.5]);
+
+    expect(getProfileDistance(reference, reference)).toBe(0);
+    expect(getProfileDistance(new Float32Array([1, 1]), reference)).toBeCloseTo(1);
+  });
+});
+
+describe("createSectionDetector", () => {
+  it("should stay quiet through a steady section", () => {
+    const noise = createNoise(7);
+
+    expect(getChangeTimes(createSection(0.05, 180, 40, 0, noise))).toEqual([]);
+  });
+
+  it("should fire once shortly after the music changes", () => {
+    const noise = createNoise(7);
+    const frames = [...createSection(0.02, 200, 20, 0, noise), ...createSection(0.4, 150, 20, 20, noise)];
+
+    const changes = getChangeTimes(frames);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toBeGreaterThan(20);
+    expect(changes[0]).toBeLessThan(24);
+  });
+
+  it("should not fire before the shortest section has passed", () => {
+    const noise = createNoise(7);
+    const frames = [...createSection(0.02, 200, 3, 0, noise), ...createSection(0.4, 150, 4, 3, noise)];
+
+    expect(getChangeTimes(frames)).toEqual([]);
+  });
+
+  it("should ignore silence", () => {
+    const frames = Array.from({ length: 30 * FRAME_RATE }, (_, frame) => ({
+      time: frame / FRAME_RATE,
+      data: new Uint8Array(BIN_COUNT).fill(frame % 90 < 45 ? 0 : 2),
+    }));
+
+    expect(getChangeTimes(frames)).toEqual([]);
+  });
+
+  it("should take band levels measured elsewhere", () => {
+    const noise = createNoise(7);
+    const frames = [...createSection(0.02, 200, 20, 0, noise), ...createSection(0.4, 150, 20, 20, noise)];
+    const detector = createSectionDetector();
+
+    const changes = frames
+      .filter(({ time, data }) => detector.updateProfile(getSpectralProfile(data), time))
+      .map(({ time }) => time);
+
+    expect(changes).toEqual(getChangeTimes(frames));
+  });
+
+  it("should start over when the number of bands changes", () => {
+    const noise = createNoise(7);
+    const detector = createSectionDetector();
+    for (const { time, data } of createSection(0.02, 200, 20, 0, noise)) detector.update(data, time);
+
+    expect(detector.updateProfile([0.1, 0.8, 0.1], 20)).toBe(false);
+    expect(detector.updateProfile([0.8, 0.1, 0.1], 21)).toBe(false);
+  });
+
+  it("should start over after reset", () => {
+    const noise = createNoise(7);
+    const detector = createSectionDetector();
+    for (const { time, data } of createSection(0.02, 200, 20, 0, noise)) detector.update(data, time);
+
+    detector.reset();
+    const changes = createSection(0.4, 150, 5, 20, noise).filter(({ time, data }) => detector.update(data, time));
+
+    expect(changes).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  audioSettingsSchema,
+  dbToGain,
+  defaultAudioSettings,
+  getMicrophoneProcessing,
+  resolveAudioSettings,
+} from "@/audio/settings";
+
+describe("audio settings", () => {
+  it("should resolve to the defaults", () => {
+    expect(resolveAudioSettings()).toEqual(defaultAudioSettings);
+  });
+
+  it("should have a schema field for every setting", () => {
+    expect(Object.keys(audioSettingsSchema).sort()).toEqual(Object.keys(defaultAudioSettings).sort());
+  });
+
+  it("should only accept power-of-two FFT sizes", () => {
+    expect(resolveAudioSettings({ fftSize: 4096 }).fftSize).toBe(4096);
+    expect(resolveAudioSettings({ fftSize: 3000 }).fftSize).toBe(2048);
+    expect(resolveAudioSettings({ fftSize: "4096" }).fftSize).toBe(2048);
+  });
+
+  it("should clamp numeric settings", () => {
+    const settings = resolveAudioSettings({ smoothing: 2, inputGain: -100 });
+
+    expect(settings.smoothing).toBe(0.99);
+    expect(settings.inputGain).toBe(-24);
+  });
+
+  it("should keep the decibel range valid", () => {
+    const settings = resolveAudioSettings({ minDecibels: -40, maxDecibels: -50 });
+
+    expect(settings.minDecibels).toBe(-40);
+    expect(settings.maxDecibels).toBe(-30);
+  });
+
+  it("should extract the microphone processing constraints", () => {
+    const settings = resolveAudioSettings({ noiseSuppression: true, fftSize: 512 });
+
+    expect(getMicrophoneProcessing(settings)).toEqual({
+      echoCancellation: false,
+      noiseSuppression: true,
+      autoGainControl: false,
+    });
+  });
+
+  it("should convert decibels to linear gain", () => {
+    expect(dbToGain(0)).toBe(1);
+    expect(dbToGain(20)).toBeCloseTo(10);
+    expect(dbToGain(-6)).toBeCloseTo(0.501, 3);
+  });
+});
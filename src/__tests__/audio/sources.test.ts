@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createBufferSource,
+  createDisplayCaptureSource,
+  createMicrophoneSource,
+  createOscillatorSource,
+  AudioSourceStartError,
+} from "@/audio/sources";
+import {
+  MockAudioContext,
+  MockMediaStream,
+  MockMediaStreamTrack,
+  mockGetDisplayMedia,
+  mockGetUserMedia,
+} from "../setup";
+
+describe("audio sources", () => {
+  let ctx: AudioContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ctx = new MockAudioContext() as unknown as AudioContext;
+  });
+
+  describe("createMicrophoneSource", () => {
+    it("should request the microphone with raw constraints and analyse its stream", async () => {
+      const source = createMicrophoneSource();
+
+      const node = await source.start(ctx);
+
+      expect(mockGetUserMedia).toHaveBeenCalledWith({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+      expect(ctx.createMediaStreamSource).toHaveBeenCalled();
+      expect(node).toBeDefined();
+      expect(source.status).toBe("running");
+      expect(source.metadata).toMatchObject({ kind: "microphone", monitor: false, duration: 0 });
+    });
+
+    it("should reuse a granted stream without prompting", async () => {
+      const stream = new MockMediaStream() as unknown as MediaStream;
+      const source = createMicrophoneSource({ stream });
+
+      await source.start(ctx);
+
+      expect(mockGetUserMedia).not.toHaveBeenCalled();
+      expect(ctx.createMediaStreamSource).toHaveBeenCalledWith(stream);
+    });
+
+    it("should return the same node when started twice", async () => {
+      const source = createMicrophoneSource();
+
+      const first = await source.start(ctx);
+      const second = await source.start(ctx);
+
+      expect(second).toBe(first);
+      expect(mockGetUserMedia).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report permission errors", async () => {
+      const denied = new Error("Permission denied");
+      denied.name = "NotAllowedError";
+      mockGetUserMedia.mockRejectedValueOnce(denied);
+      const source = createMicrophoneSource();
+
+      await expect(source.start(ctx)).rejects.toBeInstanceOf(AudioSourceStartError);
+      expect(source.status).toBe("error");
+      expect(source.error?.type).toBe("NotAllowedError");
+      expect(source.error?.message).toContain("denied");
+    });
+
+    it("should stop its tracks", async () => {
+      const stream = new MockMediaStream();
+      const source = createMicrophoneSource({ stream: stream as unknown as MediaStream });
+
+      await source.start(ctx);
+      source.stop();
+
+      expect(stream.getTracks()[0].stop).toHaveBeenCalled();
+      expect(source.status).toBe("stopped");
+    });
+
+    it("should fire onended when the track ends", async () => {
+      const stream = new MockMediaStream();
+      const source = createMicrophoneSource({ stream: stream as unknown as MediaStream });
+      const onended = vi.fn();
+      source.onended = onended;
+
+      await source.start(ctx);
+      stream.getTracks()[0].dispatchEvent(new Event("ended"));
+
+      expect(onended).toHaveBeenCalledTimes(1);
+      expect(source.status).toBe("stopped");
+    });
+  });
+
+  describe("createDisplayCaptureSource", () => {
+    it("should capture tab audio", async () => {
+      const source = createDisplayCaptureSource();
+
+      await source.start(ctx);
+
+      expect(mockGetDisplayMedia).toHaveBeenCalledWith({ video: true, audio: true });
+      expect(source.status).toBe("running");
+      expect(source.metadata.kind).toBe("display-capture");
+    });
+
+    it("should fail when the shared surface has no audio", async () => {
+      const videoOnly = new MockMediaStream([new MockMediaStreamTrack("video")]);
+      mockGetDisplayMedia.mockResolvedValueOnce(videoOnly);
+      const source = createDisplayCaptureSource();
+
+      await expect(source.start(ctx)).rejects.toThrow(/no audio/);
+      expect(source.error?.type).toBe("NoAudioTrack");
+      expect(videoOnly.getTracks()[0].stop).toHaveBeenCalled();
+    });
+  });
+
+  describe("createOscillatorSource", () => {
+    it("should start a tone at the requested frequency", async () => {
+      const source = createOscillatorSource({ type: "square", frequency: 220, level: 0.25 });
+
+      const node = (await source.start(ctx)) as GainNode;
+      const oscillator = vi.mocked(ctx.createOscillator).mock.results[0].value as OscillatorNode;
+
+      expect(oscillator.type).toBe("square");
+      expect(oscillator.frequency.value).toBe(220);
+      expect(oscillator.start).toHaveBeenCalled();
+      expect(node.gain.value).toBe(0.25);
+      expect(source.metadata).toMatchObject({ kind: "oscillator", label: "220 Hz square", monitor: false });
+    });
+
+    it("should stop the oscillator", async () => {
+      const source = createOscillatorSource();
+
+      await source.start(ctx);
+      const oscillator = vi.mocked(ctx.createOscillator).mock.results[0].value as OscillatorNode;
+      source.stop();
+
+      expect(oscillator.stop).toHaveBeenCalled();
+      expect(source.status).toBe("stopped");
+    });
+  });
+
+  describe("createBufferSource", () => {
+    const buffer = { duration: 12 } as AudioBuffer;
+
+    it("should expose a transport once started", async () => {
+      const source = createBufferSource(buffer, { label: "song.wav" });
+
+      expect(source.transport).toBeNull();
+      await source.start(ctx);
+
+      expect(source.transport?.duration).toBe(12);
+      expect(source.metadata).toMatchObject({ kind: "buffer", label: "song.wav", monitor: true, duration: 12 });
+    });
+
+    it("should dispose the transport on stop", async () => {
+      const source = createBufferSource(buffer, { label: "song.wav" });
+
+      await source.start(ctx);
+      source.stop();
+
+      expect(source.transport).toBeNull();
+      expect(source.status).toBe("stopped");
+    });
+  });
+});
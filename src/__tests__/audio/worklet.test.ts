@@ -0,0 +1,215 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  allocateFeatureRing,
+  createFeatureExtractor,
+  createFeatureExtractorNode,
+  createFeatureRing,
+  decodeFeatureFrame,
+  FEATURE_FRAME_SIZE,
+  createFeatureProcessor,
+  FEATURE_PROCESSOR_NAME,
+  type AudioFeatureFrame,
+} from "@/audio/worklet";
+
+const SAMPLE_RATE = 48000;
+const QUANTUM = 128;
+
+function sine(frequency: number, amplitude: number, length: number, offset = 0) {
+  return Float32Array.from(
+    { length },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * (offset + i)) / SAMPLE_RATE)
+  );
+}
+
+// Feed a signal through the extractor one render quantum at a time, like the worklet does
+function extract(channels: (offset: number) => Float32Array[], quanta: number) {
+  const extractor = createFeatureExtractor({ sampleRate: SAMPLE_RATE, windowSize: 1024, hopSize: 512 });
+  const frames: AudioFeatureFrame[] = [];
+  for (let q = 0; q < quanta; q++) {
+    const endTime = ((q + 1) * QUANTUM) / SAMPLE_RATE;
+    extractor.process(channels(q * QUANTUM), endTime, (frame) => frames.push(decodeFeatureFrame(frame)));
+  }
+  return frames;
+}
+
+describe("createFeatureExtractor", () => {
+  it("should emit a frame every hop once the window is full", () => {
+    // 32 quanta = 4096 samples: first frame at 1024, then every 512
+    const frames = extract((offset) => [sine(440, 0.5, QUANTUM, offset)], 32);
+
+    expect(frames).toHaveLength(7);
+    expect(frames[0].time).toBeCloseTo(1024 / SAMPLE_RATE, 6);
+    expect(frames[1].time - frames[0].time).toBeCloseTo(512 / SAMPLE_RATE, 6);
+  });
+
+  it("should measure level and pitch of a sine", () => {
+    const frames = extract((offset) => [sine(1000, 0.5, QUANTUM, offset)], 16);
+    const frame = frames[frames.length - 1];
+
+    expect(frame.rms).toBeCloseTo(0.5 * Math.SQRT1_2, 2);
+    expect(frame.peak).toBeCloseTo(0.5, 2);
+    // Two sign changes per period
+    expect(frame.zeroCrossingRate).toBeCloseTo((2 * 1000) / SAMPLE_RATE, 3);
+    expect(frame.spectralCentroid).toBeGreaterThan(900);
+    expect(frame.spectralCentroid).toBeLessThan(1100);
+  });
+
+  it("should split energy into bass, mid and treble", () => {
+    const low = extract((offset) => [sine(80, 0.5, QUANTUM, offset)], 16).pop()!;
+    const mid = extract((offset) => [sine(1000, 0.5, QUANTUM, offset)], 16).pop()!;
+    const high = extract((offset) => [sine(9000, 0.5, QUANTUM, offset)], 16).pop()!;
+
+    expect(low.bass).toBeGreaterThan(0.95);
+    expect(mid.mid).toBeGreaterThan(0.95);
+    expect(high.treble).toBeGreaterThan(0.95);
+    expect(mid.bass + mid.mid + mid.treble).toBeCloseTo(1);
+  });
+
+  it("should report flux when a sound starts and not while it holds", () => {
+    const frames = extract(
+      (offset) => [offset < 2048 ? new Float32Array(QUANTUM) : sine(1000, 0.5, QUANTUM, offset)],
+      48
+    );
+    const fluxes = frames.map((frame) => frame.spectralFlux);
+
+    expect(Math.max(...fluxes)).toBeGreaterThan(0.1);
+    expect(fluxes[fluxes.length - 1]).toBeLessThan(0.01);
+  });
+
+  it("should mix channels to mono", () => {
+    // Opposite-phase channels cancel out
+    const frames = extract((offset) => {
+      const left = sine(1000, 0.5, QUANTUM, offset);
+      return [left, left.map((sample) => -sample)];
+    }, 16);
+
+    expect(frames[frames.length - 1].rms).toBe(0);
+    expect(frames[frames.length - 1].bass).toBe(0);
+  });
+
+  it("should start over after reset", () => {
+    const extractor = createFeatureExtractor({ sampleRate: SAMPLE_RATE, windowSize: 1024, hopSize: 512 });
+    const onFrame = vi.fn();
+    for (let q = 0; q < 8; q++) extractor.process([sine(440, 0.5, QUANTUM)], 0, onFrame);
+    expect(onFrame).toHaveBeenCalledTimes(1);
+
+    extractor.reset();
+    for (let q = 0; q < 7; q++) extractor.process([sine(440, 0.5, QUANTUM)], 0, onFrame);
+
+    expect(onFrame).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createFeatureRing", () => {
+  const frame = (value: number) => new Float32Array(FEATURE_FRAME_SIZE).fill(value);
+
+  it("should have nothing to read before the first write", () => {
+    const ring = createFeatureRing(allocateFeatureRing(FEATURE_FRAME_SIZE, 4), FEATURE_FRAME_SIZE);
+
+    expect(ring.readLatest(new Float32Array(FEATURE_FRAME_SIZE))).toBe(false);
+  });
+
+  it("should read the newest frame across wraparound", () => {
+    const buffers = allocateFeatureRing(FEATURE_FRAME_SIZE, 4);
+    const writer = createFeatureRing(buffers, FEATURE_FRAME_SIZE);
+    const reader = createFeatureRing(buffers, FEATURE_FRAME_SIZE);
+    const target = new Float32Array(FEATURE_FRAME_SIZE);
+
+    for (let i = 1; i <= 10; i++) writer.write(frame(i));
+
+    expect(reader.readLatest(target)).toBe(true);
+    expect(target[0]).toBe(10);
+    expect(buffers.state[0]).toBe(10);
+  });
+
+  it("should read every frame still held, oldest first", () => {
+    const buffers = allocateFeatureRing(FEATURE_FRAME_SIZE, 4);
+    const writer = createFeatureRing(buffers, FEATURE_FRAME_SIZE);
+    const values: number[] = [];
+
+    for (let i = 1; i <= 10; i++) writer.write(frame(i));
+    createFeatureRing(buffers, FEATURE_FRAME_SIZE).readAll(new Float32Array(FEATURE_FRAME_SIZE), (target) =>
+      values.push(target[0]),
+    );
+
+    // The oldest slot is left out as the one the writer fills next
+    expect(values).toEqual([8, 9, 10]);
+  });
+
+  it("should work over shared memory", () => {
+    const buffers = allocateFeatureRing(FEATURE_FRAME_SIZE, 4, true);
+    const target = new Float32Array(FEATURE_FRAME_SIZE);
+
+    createFeatureRing(buffers, FEATURE_FRAME_SIZE).write(frame(3));
+
+    expect(buffers.data.buffer).toBeInstanceOf(SharedArrayBuffer);
+    expect(createFeatureRing(buffers, FEATURE_FRAME_SIZE).readLatest(target)).toBe(true);
+    expect(target[0]).toBe(3);
+  });
+});
+
+describe("createFeatureProcessor", () => {
+  // Stand-ins for the AudioWorkletGlobalScope
+  function loadProcessor() {
+    class AudioWorkletProcessor {
+      port = { postMessage: vi.fn(), onmessage: null } as unknown as MessagePort;
+    }
+    return createFeatureProcessor({ AudioWorkletProcessor, sampleRate: SAMPLE_RATE, currentTime: 0 });
+  }
+
+  function getPostMessage(processor: InstanceType<ReturnType<typeof loadProcessor>>) {
+    return vi.mocked(processor.port.postMessage);
+  }
+
+  it("should be registered by the worklet entry point", async () => {
+    const registerProcessor = vi.fn();
+    vi.stubGlobal("registerProcessor", registerProcessor);
+    vi.stubGlobal("AudioWorkletProcessor", class {});
+
+    await import("@/audio/worklet/featureProcessor.worklet");
+    vi.unstubAllGlobals();
+
+    expect(registerProcessor).toHaveBeenCalledWith(FEATURE_PROCESSOR_NAME, expect.any(Function));
+  });
+
+  it("should post frames when there is no shared ring", () => {
+    const Processor = loadProcessor();
+    const processor = new Processor({ processorOptions: { windowSize: 1024, hopSize: 512, ring: null } });
+
+    for (let q = 0; q < 8; q++) {
+      expect(processor.process([[sine(1000, 0.5, QUANTUM, q * QUANTUM)]])).toBe(true);
+    }
+
+    expect(getPostMessage(processor)).toHaveBeenCalledTimes(1);
+    const [posted] = getPostMessage(processor).mock.calls[0];
+    expect(decodeFeatureFrame(posted).rms).toBeCloseTo(0.5 * Math.SQRT1_2, 2);
+  });
+
+  it("should write frames into a shared ring", () => {
+    const Processor = loadProcessor();
+    const buffers = allocateFeatureRing(FEATURE_FRAME_SIZE, 4, true);
+    const processor = new Processor({ processorOptions: { windowSize: 1024, hopSize: 512, ring: buffers } });
+
+    for (let q = 0; q < 8; q++) processor.process([[sine(1000, 0.5, QUANTUM, q * QUANTUM)]]);
+
+    const target = new Float32Array(FEATURE_FRAME_SIZE);
+    expect(createFeatureRing(buffers, FEATURE_FRAME_SIZE).readLatest(target)).toBe(true);
+    expect(decodeFeatureFrame(target).peak).toBeCloseTo(0.5, 2);
+    expect(getPostMessage(processor)).not.toHaveBeenCalled();
+  });
+
+  it("should keep running with no input connected", () => {
+    const Processor = loadProcessor();
+    const processor = new Processor({ processorOptions: { windowSize: 1024, hopSize: 512, ring: null } });
+
+    expect(processor.process([[]])).toBe(true);
+  });
+});
+
+describe("createFeatureExtractorNode", () => {
+  it("should resolve to null without AudioWorklet support", async () => {
+    const ctx = new AudioContext();
+
+    expect(await createFeatureExtractorNode(ctx)).toBeNull();
+  });
+});
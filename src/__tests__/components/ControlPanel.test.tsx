@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ControlPanel, SettingsSection } from "@/components/ControlPanel";
+import type { ConfigSchema, VisualizerConfig } from "@/visualizers/types";
+
+describe("ControlPanel", () => {
+  const schema: ConfigSchema = {
+    barCount: { type: "number", label: "Bar count", min: 8, max: 128, step: 1 },
+    showReflection: { type: "boolean", label: "Reflection" },
+    color: { type: "color", label: "Color" },
+    style: {
+      type: "enum",
+      label: "Style",
+      options: [
+        { value: "spectrum", label: "Spectrum" },
+        { value: "energetic", label: "Energetic" },
+      ],
+    },
+  };
+
+  const config: VisualizerConfig = {
+    barCount: 64,
+    showReflection: true,
+    color: "#00ff7f",
+    style: "spectrum",
+  };
+
+  const defaultProps = {
+    title: "Bars settings",
+    schema,
+    config,
+    onChange: vi.fn(),
+    onReset: vi.fn(),
+    onClose: vi.fn(),
+  };
+
+  it("should render a control for every schema field", () => {
+    render(<ControlPanel {...defaultProps} />);
+
+    expect(screen.getByLabelText("Bar count")).toHaveAttribute("type", "range");
+    expect(screen.getByLabelText("Reflection")).toHaveAttribute("type", "checkbox");
+    expect(screen.getByLabelText("Color")).toHaveAttribute("type", "color");
+    expect(screen.getByLabelText("Style").tagName).toBe("SELECT");
+  });
+
+  it("should reflect current config values", () => {
+    render(<ControlPanel {...defaultProps} />);
+
+    expect(screen.getByLabelText("Bar count")).toHaveValue("64");
+    expect(screen.getByLabelText("Reflection")).toBeChecked();
+    expect(screen.getByLabelText("Style")).toHaveValue("spectrum");
+    expect(screen.getByText("64")).toBeInTheDocument();
+  });
+
+  it("should use slider bounds from the schema", () => {
+    render(<ControlPanel {...defaultProps} />);
+
+    const slider = screen.getByLabelText("Bar count");
+    expect(slider).toHaveAttribute("min", "8");
+    expect(slider).toHaveAttribute("max", "128");
+    expect(slider).toHaveAttribute("step", "1");
+  });
+
+  it("should report typed values on change", () => {
+    const onChange = vi.fn();
+    render(<ControlPanel {...defaultProps} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText("Bar count"), { target: { value: "32" } });
+    expect(onChange).toHaveBeenLastCalledWith("barCount", 32);
+
+    fireEvent.click(screen.getByLabelText("Reflection"));
+    expect(onChange).toHaveBeenLastCalledWith("showReflection", false);
+
+    fireEvent.change(screen.getByLabelText("Style"), { target: { value: "energetic" } });
+    expect(onChange).toHaveBeenLastCalledWith("style", "energetic");
+
+    fireEvent.change(screen.getByLabelText("Color"), { target: { value: "#ff0000" } });
+    expect(onChange).toHaveBeenLastCalledWith("color", "#ff0000");
+  });
+
+  it("should call onReset and onClose", () => {
+    const onReset = vi.fn();
+    const onClose = vi.fn();
+    render(<ControlPanel {...defaultProps} onReset={onReset} onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Reset" }));
+    fireEvent.click(screen.getByRole("button", { name: /close settings/i }));
+
+    expect(onReset).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pass numeric enum values back as numbers", () => {
+    const onChange = vi.fn();
+    const sizeSchema: ConfigSchema = {
+      fftSize: {
+        type: "enum",
+        label: "FFT size",
+        options: [
+          { value: 1024, label: "1024" },
+          { value: 2048, label: "2048" },
+        ],
+      },
+    };
+    render(<ControlPanel {...defaultProps} schema={sizeSchema} config={{ fftSize: 2048 }} onChange={onChange} />);
+
+    expect(screen.getByLabelText("FFT size")).toHaveValue("2048");
+    fireEvent.change(screen.getByLabelText("FFT size"), { target: { value: "1024" } });
+
+    expect(onChange).toHaveBeenCalledWith("fftSize", 1024);
+  });
+
+  it("should render extra sections with their own reset", () => {
+    const onSectionChange = vi.fn();
+    const onSectionReset = vi.fn();
+    render(
+      <ControlPanel {...defaultProps}>
+        <SettingsSection
+          title="Audio settings"
+          idPrefix="audio"
+          schema={{ autoLevel: { type: "boolean", label: "Auto level" } }}
+          config={{ autoLevel: false }}
+          onChange={onSectionChange}
+          onReset={onSectionReset}
+        />
+      </ControlPanel>
+    );
+
+    fireEvent.click(screen.getByRole("switch", { name: "Auto level" }));
+    expect(onSectionChange).toHaveBeenCalledWith("autoLevel", true);
+
+    fireEvent.click(screen.getByRole("button", { name: "Reset audio settings" }));
+    expect(onSectionReset).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { EquationPresetManager } from "@/components/EquationPresetManager";
+import { builtinPresets, serializePreset } from "@/visualizers/preset";
+
+describe("EquationPresetManager", () => {
+  const defaultProps = {
+    presets: [{ ...builtinPresets.drift, name: "Saved" }],
+    currentPreset: builtinPresets.tunnel,
+    onSave: vi.fn(),
+    onSelect: vi.fn(),
+    onRemove: vi.fn(),
+  };
+
+  function importFile(text: string) {
+    fireEvent.change(screen.getByTestId("equation-preset-file-input"), {
+      target: { files: [new File([text], "preset.json")] },
+    });
+  }
+
+  it("should show and delete saved presets", () => {
+    const onSelect = vi.fn();
+    const onRemove = vi.fn();
+    render(<EquationPresetManager {...defaultProps} onSelect={onSelect} onRemove={onRemove} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Show Saved" }));
+    fireEvent.click(screen.getByRole("button", { name: "Delete Saved" }));
+
+    expect(onSelect).toHaveBeenCalledWith("Saved");
+    expect(onRemove).toHaveBeenCalledWith("Saved");
+  });
+
+  it("should import a preset file", async () => {
+    const onSave = vi.fn();
+    render(<EquationPresetManager {...defaultProps} onSave={onSave} />);
+
+    importFile(serializePreset(builtinPresets.bloom));
+
+    await waitFor(() => expect(onSave).toHaveBeenCalledWith(builtinPresets.bloom));
+    expect(screen.getByRole("status")).toHaveTextContent(`Imported "${builtinPresets.bloom.name}"`);
+  });
+
+  it("should report equations that don't compile", async () => {
+    const onSave = vi.fn();
+    render(<EquationPresetManager {...defaultProps} onSave={onSave} />);
+
+    importFile(JSON.stringify({ version: 1, name: "Broken", perFrame: "zoom = (1 +" }));
+
+    expect(await screen.findByRole("status")).toHaveTextContent('Error in "perFrame"');
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it("should report a file that isn't JSON", async () => {
+    render(<EquationPresetManager {...defaultProps} />);
+
+    importFile("zoom = 1");
+
+    expect(await screen.findByRole("status")).toHaveTextContent("Preset file is not valid JSON");
+  });
+
+  it("should only export when an equation preset is showing", () => {
+    render(<EquationPresetManager {...defaultProps} currentPreset={null} />);
+
+    expect(screen.getByRole("button", { name: "Export equation preset" })).toBeDisabled();
+  });
+});
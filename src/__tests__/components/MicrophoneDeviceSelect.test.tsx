@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { MicrophoneDeviceSelect } from "@/components/MicrophoneDeviceSelect";
+
+describe("MicrophoneDeviceSelect", () => {
+  const devices = [
+    { deviceId: "default", label: "Default - Built-in" },
+    { deviceId: "mic-1", label: "Built-in" },
+    { deviceId: "mic-2", label: "Audio Interface" },
+  ];
+
+  it("should render nothing with a single device", () => {
+    const { container } = render(
+      <MicrophoneDeviceSelect devices={devices.slice(0, 2)} deviceId={null} onChange={vi.fn()} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("should list devices after the default option", () => {
+    render(<MicrophoneDeviceSelect devices={devices} deviceId="mic-2" onChange={vi.fn()} />);
+
+    const options = screen.getAllByRole("option").map((option) => option.textContent);
+    expect(options).toEqual(["Default microphone", "Built-in", "Audio Interface"]);
+    expect(screen.getByLabelText("Microphone device")).toHaveValue("mic-2");
+  });
+
+  it("should show an unplugged device as the default", () => {
+    render(<MicrophoneDeviceSelect devices={devices} deviceId="gone" onChange={vi.fn()} />);
+
+    expect(screen.getByLabelText("Microphone device")).toHaveValue("default");
+  });
+
+  it("should report the chosen device", () => {
+    const onChange = vi.fn();
+    render(<MicrophoneDeviceSelect devices={devices} deviceId={null} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText("Microphone device"), { target: { value: "mic-1" } });
+    expect(onChange).toHaveBeenCalledWith("mic-1");
+
+    fireEvent.change(screen.getByLabelText("Microphone device"), { target: { value: "default" } });
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+});
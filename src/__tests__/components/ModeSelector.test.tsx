@@ -1,7 +1,8 @@
 import { describe, it, expect, vi } from "vitest";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, act } from "@testing-library/react";
 import { ModeSelector } from "@/components/ModeSelector";
 import type { VisualizerMode } from "@/visualizers/types";
+import { barsVisualizer, registerVisualizer } from "@/visualizers";
 
 describe("ModeSelector", () => {
   const defaultProps = {
@@ -9,13 +10,17 @@ describe("ModeSelector", () => {
     onModeChange: vi.fn(),
   };
 
-  it("should render all 4 mode buttons", () => {
+  it("should render all 7 mode buttons", () => {
     render(<ModeSelector {...defaultProps} />);
 
     expect(screen.getByRole("button", { name: /bars/i })).toBeInTheDocument();
     expect(screen.getByRole("button", { name: /wave/i })).toBeInTheDocument();
     expect(screen.getByRole("button", { name: /scope/i })).toBeInTheDocument();
     expect(screen.getByRole("button", { name: /ambiance/i })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /goniometer/i })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /warp/i })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /spectrogram/i })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /presets/i })).toBeInTheDocument();
   });
 
   it("should highlight the current mode", () => {
@@ -49,6 +54,9 @@ describe("ModeSelector", () => {
 
     fireEvent.click(screen.getByRole("button", { name: /ambiance/i }));
     expect(onModeChange).toHaveBeenLastCalledWith("ambiance");
+
+    fireEvent.click(screen.getByRole("button", { name: /goniometer/i }));
+    expect(onModeChange).toHaveBeenLastCalledWith("goniometer");
   });
 
   it("should update active state when currentMode changes", () => {
@@ -125,4 +133,17 @@ describe("ModeSelector", () => {
     // This is acceptable behavior - the parent can decide whether to act on it
     expect(onModeChange).toHaveBeenCalledWith("bars");
   });
+
+  it("should show visualizers registered at runtime", () => {
+    render(<ModeSelector {...defaultProps} />);
+
+    let unregister = () => {};
+    act(() => {
+      unregister = registerVisualizer({ id: "plugin", label: "Plugin", renderer: barsVisualizer });
+    });
+    expect(screen.getByRole("button", { name: /plugin/i })).toBeInTheDocument();
+
+    act(() => unregister());
+    expect(screen.queryByRole("button", { name: /plugin/i })).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { PaletteEditor } from "@/components/PaletteEditor";
+import { builtinPalettes, defaultCustomPalette, MAX_PALETTE_STOPS } from "@/visualizers/palettes";
+
+describe("PaletteEditor", () => {
+  it("should edit stops and role colors", () => {
+    const onChange = vi.fn();
+    render(<PaletteEditor palette={defaultCustomPalette} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText("Stop 2"), { target: { value: "#123456" } });
+    expect(onChange.mock.lastCall?.[0].stops[1]).toBe("#123456");
+
+    fireEvent.change(screen.getByLabelText("Glow"), { target: { value: "#abcdef" } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...defaultCustomPalette, glow: "#abcdef" });
+  });
+
+  it("should add and remove stops within the limits", () => {
+    const onChange = vi.fn();
+    const { rerender } = render(<PaletteEditor palette={defaultCustomPalette} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText("Add stop"));
+    expect(onChange.mock.lastCall?.[0].stops).toHaveLength(defaultCustomPalette.stops.length + 1);
+
+    fireEvent.click(screen.getByLabelText("Remove stop 1"));
+    expect(onChange.mock.lastCall?.[0].stops).toEqual(defaultCustomPalette.stops.slice(1));
+
+    rerender(
+      <PaletteEditor palette={{ ...defaultCustomPalette, stops: ["#000000", "#ffffff"] }} onChange={onChange} />
+    );
+    expect(screen.queryByLabelText("Remove stop 1")).not.toBeInTheDocument();
+
+    rerender(
+      <PaletteEditor
+        palette={{ ...defaultCustomPalette, stops: Array(MAX_PALETTE_STOPS).fill("#ffffff") }}
+        onChange={onChange}
+      />
+    );
+    expect(screen.queryByText("Add stop")).not.toBeInTheDocument();
+  });
+
+  it("should start from a built-in palette, keeping the name", () => {
+    const onChange = vi.fn();
+    render(<PaletteEditor palette={defaultCustomPalette} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText("Start from a built-in palette"), { target: { value: "monochrome" } });
+
+    expect(onChange).toHaveBeenCalledWith({ ...builtinPalettes.monochrome, name: "Custom" });
+  });
+});
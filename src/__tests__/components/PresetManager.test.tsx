@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { PresetManager } from "@/components/PresetManager";
+import { createSavedPreset, serializeSavedPreset } from "@/presets";
+import { defaultAudioSettings } from "@/audio/settings";
+import { defaultDisplaySettings } from "@/visualizers/displaySettings";
+import { defaultCustomPalette } from "@/visualizers/palettes";
+import { DEFAULT_SEED } from "@/visualizers/random";
+
+const getPreset = (name: string) =>
+  createSavedPreset(name, {
+    mode: "bars",
+    config: {},
+    audioSettings: defaultAudioSettings,
+    displaySettings: defaultDisplaySettings,
+    customPalette: defaultCustomPalette,
+    seed: DEFAULT_SEED,
+  });
+
+describe("PresetManager", () => {
+  const defaultProps = {
+    presets: [getPreset("Chill"), getPreset("Party")],
+    getPreset,
+    onApply: vi.fn(),
+    onSave: vi.fn(),
+    onRemove: vi.fn(),
+  };
+
+  it("should save the current look under the typed name", () => {
+    const onSave = vi.fn();
+    render(<PresetManager {...defaultProps} onSave={onSave} />);
+
+    fireEvent.change(screen.getByLabelText("Preset name"), { target: { value: " Late night " } });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    expect(onSave).toHaveBeenCalledWith(getPreset("Late night"));
+    expect(screen.getByRole("status")).toHaveTextContent('Saved "Late night"');
+  });
+
+  it("should load and delete saved presets", () => {
+    const onApply = vi.fn();
+    const onRemove = vi.fn();
+    render(<PresetManager {...defaultProps} onApply={onApply} onRemove={onRemove} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Load Party" }));
+    fireEvent.click(screen.getByRole("button", { name: "Delete Chill" }));
+
+    expect(onApply).toHaveBeenCalledWith(defaultProps.presets[1]);
+    expect(onRemove).toHaveBeenCalledWith("Chill");
+  });
+
+  it("should import a preset file", async () => {
+    const onApply = vi.fn();
+    const onSave = vi.fn();
+    render(<PresetManager {...defaultProps} onApply={onApply} onSave={onSave} />);
+    const file = new File([serializeSavedPreset(getPreset("Imported"))], "imported.json");
+
+    fireEvent.change(screen.getByTestId("preset-file-input"), { target: { files: [file] } });
+
+    await waitFor(() => expect(onApply).toHaveBeenCalledWith(getPreset("Imported")));
+    expect(onSave).toHaveBeenCalledWith(getPreset("Imported"));
+  });
+
+  it("should explain why a file can't be imported", async () => {
+    const onApply = vi.fn();
+    render(<PresetManager {...defaultProps} onApply={onApply} />);
+    const file = new File(['{"version":1,"name":"Broken"}'], "broken.json");
+
+    fireEvent.change(screen.getByTestId("preset-file-input"), { target: { files: [file] } });
+
+    expect(await screen.findByRole("status")).toHaveTextContent('"mode" must name a visualizer');
+    expect(onApply).not.toHaveBeenCalled();
+  });
+
+  it("should show a share link", async () => {
+    render(<PresetManager {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Share" }));
+
+    const link = (await screen.findByLabelText("Share link")) as HTMLInputElement;
+    expect(new URL(link.value).searchParams.has("preset")).toBe(true);
+  });
+});
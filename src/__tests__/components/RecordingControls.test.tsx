@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { RecordingControls } from "@/components/RecordingControls";
+
+describe("RecordingControls", () => {
+  const defaultProps = {
+    status: "idle" as const,
+    elapsed: 0,
+    recording: null,
+    error: null,
+    onStart: vi.fn(),
+    onStop: vi.fn(),
+    onDiscard: vi.fn(),
+  };
+
+  it("should start and stop recording", () => {
+    const onStart = vi.fn();
+    const onStop = vi.fn();
+    const { rerender } = render(<RecordingControls {...defaultProps} onStart={onStart} onStop={onStop} />);
+
+    fireEvent.click(screen.getByLabelText("Start recording"));
+    expect(onStart).toHaveBeenCalled();
+
+    rerender(
+      <RecordingControls {...defaultProps} status="recording" elapsed={65000} onStart={onStart} onStop={onStop} />
+    );
+    expect(screen.getByLabelText("Recording time")).toHaveTextContent("1:05");
+
+    fireEvent.click(screen.getByLabelText("Stop recording"));
+    expect(onStop).toHaveBeenCalled();
+  });
+
+  it("should offer the finished video for download", () => {
+    const onDiscard = vi.fn();
+    render(
+      <RecordingControls
+        {...defaultProps}
+        status="finished"
+        recording={{ blob: new Blob(), url: "blob:video", fileName: "clip.webm", duration: 12000 }}
+        onDiscard={onDiscard}
+      />
+    );
+
+    const link = screen.getByText("Download video (0:12)");
+    expect(link).toHaveAttribute("href", "blob:video");
+    expect(link).toHaveAttribute("download", "clip.webm");
+
+    fireEvent.click(screen.getByText("Discard"));
+    expect(onDiscard).toHaveBeenCalled();
+  });
+
+  it("should show errors", () => {
+    render(<RecordingControls {...defaultProps} status="error" error="Recording failed" />);
+
+    expect(screen.getByText("Recording failed")).toBeInTheDocument();
+  });
+});
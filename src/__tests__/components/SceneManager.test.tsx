@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { SceneManager } from "@/components/SceneManager";
+import { builtinScenes, serializeScene } from "@/visualizers/scene";
+
+describe("SceneManager", () => {
+  const defaultProps = {
+    scenes: [{ ...builtinScenes.scopeBars, name: "Saved" }],
+    currentScene: builtinScenes.fireflyWave,
+    onSave: vi.fn(),
+    onSelect: vi.fn(),
+    onRemove: vi.fn(),
+  };
+
+  it("should show and delete saved scenes", () => {
+    const onSelect = vi.fn();
+    const onRemove = vi.fn();
+    render(<SceneManager {...defaultProps} onSelect={onSelect} onRemove={onRemove} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Show Saved" }));
+    fireEvent.click(screen.getByRole("button", { name: "Delete Saved" }));
+
+    expect(onSelect).toHaveBeenCalledWith("Saved");
+    expect(onRemove).toHaveBeenCalledWith("Saved");
+  });
+
+  it("should import a scene file", async () => {
+    const onSave = vi.fn();
+    render(<SceneManager {...defaultProps} onSave={onSave} />);
+    const file = new File([serializeScene(builtinScenes.mirrorBars)], "mirror.json");
+
+    fireEvent.change(screen.getByTestId("scene-file-input"), { target: { files: [file] } });
+
+    await waitFor(() => expect(onSave).toHaveBeenCalledWith(builtinScenes.mirrorBars));
+    expect(screen.getByRole("status")).toHaveTextContent('Imported "Mirrored bars"');
+  });
+
+  it("should explain why a file can't be imported", async () => {
+    const onSave = vi.fn();
+    render(<SceneManager {...defaultProps} onSave={onSave} />);
+    const file = new File(['{"version":1,"name":"Empty","layers":[]}'], "empty.json");
+
+    fireEvent.change(screen.getByTestId("scene-file-input"), { target: { files: [file] } });
+
+    expect(await screen.findByRole("status")).toHaveTextContent('"layers" must be a list with at least one layer');
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it("should only export when a scene is showing", () => {
+    render(<SceneManager {...defaultProps} currentScene={null} />);
+
+    expect(screen.getByRole("button", { name: "Export scene" })).toBeDisabled();
+  });
+});
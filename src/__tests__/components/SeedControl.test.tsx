@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { SeedControl } from "@/components/SeedControl";
+
+describe("SeedControl", () => {
+  it("should edit the seed, ignoring values that aren't seeds", () => {
+    const onChange = vi.fn();
+    render(<SeedControl seed={1} onChange={onChange} />);
+
+    const input = screen.getByLabelText("Seed");
+    expect(input).toHaveValue(1);
+
+    fireEvent.change(input, { target: { value: "1234" } });
+    expect(onChange).toHaveBeenCalledWith(1234);
+
+    onChange.mockClear();
+    fireEvent.change(input, { target: { value: "-3" } });
+    fireEvent.change(input, { target: { value: "2.5" } });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("should pick a new seed", () => {
+    const onChange = vi.fn();
+    render(<SeedControl seed={1} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText("New seed"));
+
+    const [seed] = onChange.mock.calls[0];
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { TransportControls } from "@/components/TransportControls";
+
+describe("TransportControls", () => {
+  const defaultProps = {
+    trackName: "track.mp3",
+    duration: 125,
+    isPlaying: false,
+    loop: false,
+    error: null,
+    getCurrentTime: () => 0,
+    onPlay: vi.fn(),
+    onPause: vi.fn(),
+    onSeek: vi.fn(),
+    onLoopChange: vi.fn(),
+    onClose: vi.fn(),
+  };
+
+  it("should show the track name and duration", () => {
+    render(<TransportControls {...defaultProps} />);
+
+    expect(screen.getByText("track.mp3")).toBeInTheDocument();
+    expect(screen.getByText("2:05")).toBeInTheDocument();
+  });
+
+  it("should toggle between play and pause", () => {
+    const onPlay = vi.fn();
+    const onPause = vi.fn();
+    const { rerender } = render(<TransportControls {...defaultProps} onPlay={onPlay} onPause={onPause} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Play" }));
+    expect(onPlay).toHaveBeenCalledTimes(1);
+
+    rerender(<TransportControls {...defaultProps} isPlaying={true} onPlay={onPlay} onPause={onPause} />);
+    fireEvent.click(screen.getByRole("button", { name: "Pause" }));
+    expect(onPause).toHaveBeenCalledTimes(1);
+  });
+
+  it("should seek to the slider position", () => {
+    const onSeek = vi.fn();
+    render(<TransportControls {...defaultProps} onSeek={onSeek} />);
+
+    fireEvent.change(screen.getByLabelText("Seek"), { target: { value: "42" } });
+
+    expect(onSeek).toHaveBeenCalledWith(42);
+    expect(screen.getByText("0:42")).toBeInTheDocument();
+  });
+
+  it("should disable seeking for live streams", () => {
+    render(<TransportControls {...defaultProps} duration={0} />);
+
+    expect(screen.getByLabelText("Seek")).toBeDisabled();
+    expect(screen.getByText("Live")).toBeInTheDocument();
+  });
+
+  it("should toggle loop and close", () => {
+    const onLoopChange = vi.fn();
+    const onClose = vi.fn();
+    render(<TransportControls {...defaultProps} onLoopChange={onLoopChange} onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Loop" }));
+    expect(onLoopChange).toHaveBeenCalledWith(true);
+
+    fireEvent.click(screen.getByRole("button", { name: /close audio/i }));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should show playback errors", () => {
+    render(<TransportControls {...defaultProps} error="Playback was blocked by the browser." />);
+
+    expect(screen.getByText(/blocked/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, act } from "@testing-library/react";
+import { VisualizerCanvas } from "@/components/VisualizerCanvas";
+import { barsVisualizer } from "@/visualizers";
+import type { CanvasRenderer } from "@/visualizers/canvasRenderer";
+import { createWorkerRenderer, type WorkerRendererOptions } from "@/visualizers/worker";
+
+const workerRenderer = vi.hoisted(() => ({
+  options: null as WorkerRendererOptions | null,
+}));
+
+vi.mock("@/visualizers/worker", () => ({
+  canRenderInWorker: () => true,
+  createWorkerRenderer: vi.fn((_canvas: HTMLCanvasElement, _mode: string, options: WorkerRendererOptions) => {
+    workerRenderer.options = options;
+    return {
+      contextType: "2d",
+      setMode: vi.fn(),
+      resize: vi.fn(),
+      reset: vi.fn(),
+      render: vi.fn(),
+      setCustomPalette: vi.fn(),
+      setSeed: vi.fn(),
+      drawIdle: vi.fn(),
+      dispose: vi.fn(),
+    } satisfies CanvasRenderer;
+  }),
+}));
+
+describe("VisualizerCanvas", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workerRenderer.options = null;
+  });
+
+  it("should move back to the main thread on a new canvas when the worker fails", () => {
+    const { container } = render(
+      <VisualizerCanvas
+        getData={vi.fn()}
+        mode="bars"
+        config={barsVisualizer.defaultConfig}
+        isActive={false}
+        renderInWorker
+      />
+    );
+    const workerCanvas = container.querySelector("canvas");
+    const renderer = vi.mocked(createWorkerRenderer).mock.results[0].value as CanvasRenderer;
+
+    act(() => workerRenderer.options?.onError?.("Boom"));
+
+    expect(renderer.dispose).toHaveBeenCalled();
+    expect(container.querySelector("canvas")).not.toBe(workerCanvas);
+    expect(createWorkerRenderer).toHaveBeenCalledTimes(1);
+  });
+});
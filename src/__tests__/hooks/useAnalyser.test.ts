@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import { useAnalyser } from "@/hooks/useAnalyser";
+import type { AudioFeatureFrame, FeatureExtractorNode } from "@/audio/worklet";
 
 // Create a mock analyser for testing
 function createMockAnalyser(): AnalyserNode {
@@ -10,6 +11,7 @@ function createMockAnalyser(): AnalyserNode {
     smoothingTimeConstant: 0.8,
     minDecibels: -90,
     maxDecibels: -10,
+    context: { sampleRate: 48000 },
     connect: vi.fn(),
     disconnect: vi.fn(),
     getByteFrequencyData: vi.fn((array: Uint8Array) => {
@@ -22,9 +24,46 @@ function createMockAnalyser(): AnalyserNode {
         array[i] = 128 + Math.floor(Math.sin(i * 0.1) * 50);
       }
     }),
+    getFloatFrequencyData: vi.fn((array: Float32Array) => {
+      array.fill(-90);
+      array[64] = -6;
+    }),
+    getFloatTimeDomainData: vi.fn((array: Float32Array) => {
+      // Square wave: peak equals RMS
+      for (let i = 0; i < array.length; i++) {
+        array[i] = i % 2 === 0 ? 0.5 : -0.5;
+      }
+    }),
   } as unknown as AnalyserNode;
 }
 
+function createFeatureFrame(time: number, spectralFlux = 0): AudioFeatureFrame {
+  return {
+    time,
+    rms: 0.3,
+    peak: 0.6,
+    zeroCrossingRate: 0.05,
+    spectralCentroid: 1200,
+    spectralFlux,
+    bass: 0.2,
+    mid: 0.7,
+    treble: 0.1,
+  };
+}
+
+// Worklet stand-in whose ring holds whatever frames the test pushes
+function createFakeFeatureExtractor() {
+  const frames: AudioFeatureFrame[] = [];
+  const extractor: FeatureExtractorNode = {
+    node: {} as AudioWorkletNode,
+    readLatest: () => frames.at(-1) ?? null,
+    readSince: (time, onFrame) => frames.filter((frame) => frame.time > time).forEach((frame) => onFrame(frame)),
+    reset: vi.fn(),
+    dispose: vi.fn(),
+  };
+  return { frames, extractor };
+}
+
 describe("useAnalyser", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -39,6 +78,8 @@ describe("useAnalyser", () => {
     expect(data.timeDomainData.length).toBe(0);
     expect(data.averageFrequency).toBe(0);
     expect(data.peakFrequency).toBe(0);
+    expect(data.isBeat).toBe(false);
+    expect(data.bpm).toBe(0);
   });
 
   it("should set analyser and pre-allocate arrays", () => {
@@ -145,4 +186,171 @@ describe("useAnalyser", () => {
     expect(data1.frequencyData).toBe(data2.frequencyData);
     expect(data1.timeDomainData).toBe(data2.timeDomainData);
   });
+
+  it("should report beat info with every frame", () => {
+    const { result } = renderHook(() => useAnalyser());
+
+    act(() => {
+      result.current.setAnalyser(createMockAnalyser());
+    });
+
+    // A steady spectrum has no onsets
+    const data = result.current.getData();
+    expect(data.isBeat).toBe(false);
+    expect(data.beatConfidence).toBe(0);
+    expect(data.bpm).toBe(0);
+    expect(data.beatPhase).toBe(0);
+  });
+
+  it("should resize its arrays when the FFT size changes", () => {
+    const { result } = renderHook(() => useAnalyser());
+    const mockAnalyser = createMockAnalyser();
+
+    act(() => {
+      result.current.setAnalyser(mockAnalyser);
+    });
+
+    mockAnalyser.fftSize = 512;
+    (mockAnalyser as { frequencyBinCount: number }).frequencyBinCount = 256;
+    const data = result.current.getData();
+
+    expect(data.frequencyData.length).toBe(256);
+    expect(data.timeDomainData.length).toBe(512);
+  });
+
+  it("should only report channel data for stereo sources", () => {
+    const { result } = renderHook(() => useAnalyser());
+
+    act(() => {
+      result.current.setAnalyser(createMockAnalyser());
+    });
+    const mono = result.current.getData();
+
+    expect(mono.left).toBeUndefined();
+    expect(mono.right).toBeUndefined();
+
+    const left = createMockAnalyser();
+    const right = createMockAnalyser();
+    act(() => {
+      result.current.setAnalyser(createMockAnalyser(), { left, right });
+    });
+    const stereo = result.current.getData();
+
+    expect(left.getByteTimeDomainData).toHaveBeenCalledWith(stereo.left!.timeDomainData);
+    expect(right.getByteFrequencyData).toHaveBeenCalledWith(stereo.right!.frequencyData);
+    expect(stereo.left!.timeDomainData.length).toBe(2048);
+  });
+
+  it("should only read float data in float mode", () => {
+    const { result } = renderHook(() => useAnalyser());
+    const mockAnalyser = createMockAnalyser();
+
+    act(() => {
+      result.current.setAnalyser(mockAnalyser);
+    });
+
+    expect(result.current.getData().float).toBeUndefined();
+    expect(mockAnalyser.getFloatFrequencyData).not.toHaveBeenCalled();
+
+    act(() => {
+      result.current.setFloatMode(true);
+    });
+    const data = result.current.getData();
+
+    // The byte path is still filled for the renderers
+    expect(data.frequencyData.length).toBe(1024);
+    expect(data.float?.frequencyData.length).toBe(1024);
+    expect(data.float?.timeDomainData.length).toBe(2048);
+    expect(data.float?.rms).toBeCloseTo(0.5);
+    expect(data.float?.peak).toBeCloseTo(0.5);
+    expect(data.float?.rmsDb).toBeCloseTo(-6.02, 2);
+    expect(data.float?.crestFactor).toBeCloseTo(0);
+    // Bin 64 at 48 kHz with 1024 bins
+    expect(data.float?.peakFrequencyHz).toBeCloseTo(64 * 23.4375);
+  });
+
+  it("should drop float data when float mode is turned off", () => {
+    const { result } = renderHook(() => useAnalyser());
+
+    act(() => {
+      result.current.setAnalyser(createMockAnalyser());
+      result.current.setFloatMode(true);
+    });
+    expect(result.current.getData().float).toBeDefined();
+
+    act(() => {
+      result.current.setFloatMode(false);
+    });
+    expect(result.current.getData().float).toBeUndefined();
+  });
+
+  it("should attach the latest worklet feature frame", () => {
+    const { result } = renderHook(() => useAnalyser());
+    const worklet = createFakeFeatureExtractor();
+    const frame = createFeatureFrame(1);
+    worklet.frames.push(frame);
+
+    act(() => {
+      result.current.setFeatureExtractor(worklet.extractor);
+      result.current.setAnalyser(createMockAnalyser());
+    });
+
+    expect(result.current.getData().features).toBe(frame);
+    // A new source drops the worklet's history
+    expect(worklet.extractor.reset).toHaveBeenCalled();
+  });
+
+  it("should take beats from the worklet frame and level and peak from the spectrum", () => {
+    const { result } = renderHook(() => useAnalyser());
+    const worklet = createFakeFeatureExtractor();
+    act(() => {
+      result.current.setFeatureExtractor(worklet.extractor);
+      result.current.setAnalyser(createMockAnalyser());
+    });
+
+    // Half a second of steady frames, every 10ms, to settle the beat threshold
+    for (let i = 1; i <= 50; i++) {
+      worklet.frames.push(createFeatureFrame(i / 100));
+      expect(result.current.getData().isBeat).toBe(false);
+    }
+    worklet.frames.push(createFeatureFrame(0.51, 0.5));
+    const data = result.current.getData();
+
+    // Level and peak stay on the byte spectrum the renderers are tuned to; the mock fills bin i with i % 256
+    expect(data.averageFrequency).toBeCloseTo(127.5 / 255, 5);
+    expect(data.peakFrequency).toBe(255);
+    expect(data.features?.rms).toBe(0.3);
+    expect(data.isBeat).toBe(true);
+    // The same frame read again isn't a second beat
+    expect(result.current.getData().isBeat).toBe(false);
+  });
+
+  it("should catch an onset in a frame written between two reads", () => {
+    const { result } = renderHook(() => useAnalyser());
+    const worklet = createFakeFeatureExtractor();
+    act(() => {
+      result.current.setFeatureExtractor(worklet.extractor);
+      result.current.setAnalyser(createMockAnalyser());
+    });
+    for (let i = 1; i <= 50; i++) {
+      worklet.frames.push(createFeatureFrame(i / 100));
+      result.current.getData();
+    }
+
+    // Three frames per draw, with the onset in the middle one
+    worklet.frames.push(createFeatureFrame(0.51), createFeatureFrame(0.52, 0.5), createFeatureFrame(0.53));
+
+    expect(result.current.getData().isBeat).toBe(true);
+  });
+
+  it("should leave features out until the worklet has a frame", () => {
+    const { result } = renderHook(() => useAnalyser());
+
+    act(() => {
+      result.current.setFeatureExtractor(createFakeFeatureExtractor().extractor);
+      result.current.setAnalyser(createMockAnalyser());
+    });
+
+    expect(result.current.getData().features).toBeUndefined();
+  });
 });
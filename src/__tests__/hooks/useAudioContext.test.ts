@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import { useAudioContext } from "@/hooks/useAudioContext";
+import { defaultAudioSettings } from "@/audio/settings";
 
 describe("useAudioContext", () => {
   beforeEach(() => {
@@ -63,6 +64,136 @@ describe("useAudioContext", () => {
     expect(analyser).not.toBeNull();
   });
 
+  it("should route connected nodes through the input gain and monitor only when asked", async () => {
+    const { result } = renderHook(() => useAudioContext());
+
+    await act(async () => {
+      await result.current.initializeAudioContext();
+    });
+
+    const ctx = result.current.audioContext!;
+    const inputGain = vi.mocked(ctx.createGain).mock.results[0].value as GainNode;
+    const node = { connect: vi.fn(), disconnect: vi.fn() } as unknown as AudioNode;
+
+    expect(inputGain.connect).toHaveBeenCalledWith(result.current.analyser);
+
+    act(() => {
+      result.current.connectNode(node, { monitor: true });
+    });
+
+    expect(node.connect).toHaveBeenCalledWith(inputGain);
+    expect(node.connect).toHaveBeenCalledWith(ctx.destination);
+
+    const stream = new MediaStream();
+    act(() => {
+      result.current.connectSource(stream);
+    });
+
+    // Switching to the microphone disconnects the previous node and doesn't monitor
+    const micNode = vi.mocked(ctx.createMediaStreamSource).mock.results[0].value as AudioNode;
+    expect(node.disconnect).toHaveBeenCalled();
+    expect(micNode.connect).toHaveBeenCalledWith(inputGain);
+    expect(micNode.connect).not.toHaveBeenCalledWith(ctx.destination);
+  });
+
+  it("should feed every source to the recording stream", async () => {
+    const { result } = renderHook(() => useAudioContext());
+    expect(result.current.getRecordingStream()).toBeNull();
+
+    await act(async () => {
+      await result.current.initializeAudioContext();
+    });
+
+    const ctx = result.current.audioContext!;
+    const destination = vi.mocked(ctx.createMediaStreamDestination).mock.results[0]
+      .value as MediaStreamAudioDestinationNode;
+    const node = { connect: vi.fn(), disconnect: vi.fn() } as unknown as AudioNode;
+
+    act(() => {
+      result.current.connectNode(node);
+    });
+
+    expect(node.connect).toHaveBeenCalledWith(destination);
+    expect(result.current.getRecordingStream()).toBe(destination.stream);
+  });
+
+  it("should apply settings to the live analyser and gain", async () => {
+    const { result } = renderHook(() => useAudioContext());
+
+    await act(async () => {
+      await result.current.initializeAudioContext();
+    });
+
+    const ctx = result.current.audioContext!;
+    const inputGain = vi.mocked(ctx.createGain).mock.results[0].value as GainNode;
+
+    act(() => {
+      result.current.applySettings({
+        ...defaultAudioSettings,
+        fftSize: 8192,
+        smoothing: 0.5,
+        minDecibels: -50,
+        maxDecibels: -5,
+        inputGain: 20,
+      });
+    });
+
+    const analyser = result.current.analyser!;
+    expect(analyser.fftSize).toBe(8192);
+    expect(analyser.smoothingTimeConstant).toBe(0.5);
+    expect(analyser.minDecibels).toBe(-50);
+    expect(analyser.maxDecibels).toBe(-5);
+    expect(inputGain.gain.value).toBeCloseTo(10);
+  });
+
+  it("should use settings applied before initialization", async () => {
+    const { result } = renderHook(() => useAudioContext());
+
+    act(() => {
+      result.current.applySettings({ ...defaultAudioSettings, fftSize: 512 });
+    });
+    await act(async () => {
+      await result.current.initializeAudioContext();
+    });
+
+    expect(result.current.analyser!.fftSize).toBe(512);
+  });
+
+  it("should steer the input gain while auto level is on", async () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useAudioContext());
+
+    await act(async () => {
+      await result.current.initializeAudioContext();
+    });
+
+    const ctx = result.current.audioContext!;
+    const inputGain = vi.mocked(ctx.createGain).mock.results[0].value as GainNode;
+    const analyser = result.current.analyser!;
+    // A quiet, steady signal
+    vi.mocked(analyser.getByteTimeDomainData).mockImplementation((array: Uint8Array) => {
+      for (let i = 0; i < array.length; i++) array[i] = i % 2 === 0 ? 133 : 123;
+    });
+
+    act(() => {
+      result.current.connectNode({ connect: vi.fn(), disconnect: vi.fn() } as unknown as AudioNode);
+      result.current.applySettings({ ...defaultAudioSettings, autoLevel: true });
+    });
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(inputGain.gain.value).toBeGreaterThan(1);
+
+    // Turning it off restores the manual gain
+    act(() => {
+      result.current.applySettings({ ...defaultAudioSettings, autoLevel: false });
+    });
+    expect(inputGain.gain.value).toBe(1);
+
+    vi.useRealTimers();
+  });
+
   it("should return null when connecting source without initialization", () => {
     const { result } = renderHook(() => useAudioContext());
 
@@ -94,6 +225,20 @@ describe("useAudioContext", () => {
     expect(result.current.isInitialized).toBe(false);
   });
 
+  it("should not report a context cleaned up while it was starting", async () => {
+    const { result } = renderHook(() => useAudioContext());
+
+    await act(async () => {
+      const starting = result.current.initializeAudioContext();
+      result.current.cleanup();
+      await starting;
+    });
+
+    expect(result.current.audioContext).toBeNull();
+    expect(result.current.isInitialized).toBe(false);
+    expect(result.current.getFeatureExtractor()).toBeNull();
+  });
+
   it("should configure analyser with correct defaults", async () => {
     const { result } = renderHook(() => useAudioContext());
 
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useAudioPlayer } from "@/hooks/useAudioPlayer";
+import type { PlaybackSource } from "@/audio/sources";
+import { MockAudioContext } from "../setup";
+
+describe("useAudioPlayer", () => {
+  let ctx: MockAudioContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ctx = new MockAudioContext();
+  });
+
+  function audioFile(name = "track.mp3", type = "audio/mpeg") {
+    return new File([new Uint8Array(16)], name, { type });
+  }
+
+  it("should initialize with nothing loaded", () => {
+    const { result } = renderHook(() => useAudioPlayer());
+
+    expect(result.current.isLoaded).toBe(false);
+    expect(result.current.isPlaying).toBe(false);
+    expect(result.current.trackName).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+
+  it("should decode a file and return a started source", async () => {
+    const { result } = renderHook(() => useAudioPlayer());
+
+    let source: PlaybackSource | null = null;
+    await act(async () => {
+      source = await result.current.loadFile(ctx as unknown as AudioContext, audioFile());
+    });
+
+    expect(ctx.decodeAudioData).toHaveBeenCalled();
+    expect(source!.status).toBe("running");
+    expect(source!.metadata).toMatchObject({ kind: "buffer", label: "track.mp3", monitor: true });
+    expect(source!.transport).not.toBeNull();
+    expect(result.current.isLoaded).toBe(true);
+    expect(result.current.trackName).toBe("track.mp3");
+    expect(result.current.duration).toBe(10);
+  });
+
+  it("should reject unsupported files without decoding", async () => {
+    const { result } = renderHook(() => useAudioPlayer());
+
+    let source: PlaybackSource | null = null;
+    await act(async () => {
+      source = await result.current.loadFile(
+        ctx as unknown as AudioContext,
+        audioFile("notes.txt", "text/plain")
+      );
+    });
+
+    expect(source).toBeNull();
+    expect(ctx.decodeAudioData).not.toHaveBeenCalled();
+    expect(result.current.isLoaded).toBe(false);
+    expect(result.current.error).toContain("Unsupported");
+  });
+
+  it("should report decode failures", async () => {
+    const { result } = renderHook(() => useAudioPlayer());
+    ctx.decodeAudioData.mockRejectedValueOnce(new Error("EncodingError"));
+
+    await act(async () => {
+      await result.current.loadFile(ctx as unknown as AudioContext, audioFile());
+    });
+
+    expect(result.current.isLoaded).toBe(false);
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.error).toContain("Could not decode");
+  });
+
+  it("should play and pause", async () => {
+    const { result } = renderHook(() => useAudioPlayer());
+
+    await act(async () => {
+      await result.current.loadFile(ctx as unknown as AudioContext, audioFile());
+    });
+    await act(async () => {
+      await result.current.play();
+    });
+
+    expect(result.current.isPlaying).toBe(true);
+
+    act(() => {
+      result.current.pause();
+    });
+
+    expect(result.current.isPlaying).toBe(false);
+  });
+
+  it("should keep the loop setting across tracks", async () => {
+    const { result } = renderHook(() => useAudioPlayer());
+
+    act(() => {
+      result.current.setLoop(true);
+    });
+    await act(async () => {
+      await result.current.loadFile(ctx as unknown as AudioContext, audioFile());
+    });
+
+    expect(result.current.loop).toBe(true);
+  });
+
+  it("should reset state on unload", async () => {
+    const { result } = renderHook(() => useAudioPlayer());
+
+    await act(async () => {
+      await result.current.loadFile(ctx as unknown as AudioContext, audioFile());
+    });
+    act(() => {
+      result.current.unload();
+    });
+
+    expect(result.current.isLoaded).toBe(false);
+    expect(result.current.trackName).toBeNull();
+    expect(result.current.getCurrentTime()).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { getEquationPresetMode, useEquationPresets } from "@/hooks/useEquationPresets";
+import { getVisualizerDefinition, hasVisualizer } from "@/visualizers";
+import { loadEquationPresets, storeEquationPresets } from "@/presets";
+import { builtinPresets, parsePreset, serializePreset, type Preset } from "@/visualizers/preset";
+
+const preset: Preset = {
+  version: 1,
+  name: "Pulse",
+  author: "Tester",
+  values: { decay: 0.9 },
+  perFrame: "zoom = 1 + bass * 0.1;",
+};
+
+describe("useEquationPresets", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should keep an imported preset across visits and export it unchanged", async () => {
+    const text = serializePreset(preset);
+    const { result, unmount } = renderHook(() => useEquationPresets());
+    await act(async () => {});
+
+    act(() => {
+      result.current.savePreset(parsePreset(text).preset);
+    });
+    unmount();
+
+    const { result: reloaded } = renderHook(() => useEquationPresets());
+    await act(async () => {});
+    const mode = getEquationPresetMode(preset.name);
+
+    expect(reloaded.current.presets).toEqual([preset]);
+    expect(serializePreset(reloaded.current.getPreset(mode, {})!)).toBe(text);
+  });
+
+  it("should load saved presets after the first render", async () => {
+    storeEquationPresets([preset]);
+    const { result, unmount } = renderHook(() => useEquationPresets());
+
+    // Matching the server render, which can't see storage
+    expect(result.current.presets).toEqual([]);
+    await act(async () => {});
+    expect(result.current.presets).toEqual([preset]);
+
+    // Leaving before the load finishes keeps what was stored
+    unmount();
+    renderHook(() => useEquationPresets());
+    expect(loadEquationPresets()).toEqual([preset]);
+  });
+
+  it("should offer each saved preset as a mode while mounted", async () => {
+    const { result, unmount } = renderHook(() => useEquationPresets());
+    await act(async () => {});
+    const mode = getEquationPresetMode(preset.name);
+
+    act(() => {
+      result.current.savePreset(preset);
+    });
+    expect(getVisualizerDefinition(mode)?.label).toBe(preset.name);
+
+    act(() => {
+      result.current.removePreset(preset.name);
+    });
+    expect(hasVisualizer(mode)).toBe(false);
+
+    act(() => {
+      result.current.savePreset(preset);
+    });
+    unmount();
+    expect(hasVisualizer(mode)).toBe(false);
+  });
+
+  it("should find the built-in preset picked in the presets mode", () => {
+    const { result } = renderHook(() => useEquationPresets());
+
+    expect(result.current.getPreset("preset", { preset: "drift" })).toBe(builtinPresets.drift);
+    expect(result.current.getPreset("bars", {})).toBeNull();
+  });
+});
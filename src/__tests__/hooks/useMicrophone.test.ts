@@ -1,12 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { renderHook, act, waitFor } from "@testing-library/react";
 import { useMicrophone } from "@/hooks/useMicrophone";
+import { MockMediaStream, MockMediaStreamTrack, mockEnumerateDevices } from "../setup";
+
+function audioInput(deviceId: string, label = ""): MediaDeviceInfo {
+  return { deviceId, label, kind: "audioinput", groupId: "" } as MediaDeviceInfo;
+}
 
 describe("useMicrophone", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     // Reset the mock to default behavior
     vi.spyOn(navigator.mediaDevices, "getUserMedia").mockResolvedValue(new MediaStream());
+    mockEnumerateDevices.mockResolvedValue([]);
+    localStorage.clear();
   });
 
   it("should initialize with default state", () => {
@@ -159,4 +166,108 @@ describe("useMicrophone", () => {
 
     expect(result.current.isRequesting).toBe(false);
   });
+
+  describe("devices", () => {
+    it("should list audio inputs", async () => {
+      mockEnumerateDevices.mockResolvedValue([
+        audioInput("mic-1", "Built-in"),
+        audioInput("mic-2"),
+        { deviceId: "cam", label: "Camera", kind: "videoinput", groupId: "" } as MediaDeviceInfo,
+      ]);
+
+      const { result } = renderHook(() => useMicrophone());
+
+      await waitFor(() => {
+        expect(result.current.devices).toEqual([
+          { deviceId: "mic-1", label: "Built-in" },
+          { deviceId: "mic-2", label: "Microphone 2" },
+        ]);
+      });
+    });
+
+    it("should request the selected device and remember it", async () => {
+      const { result } = renderHook(() => useMicrophone());
+
+      act(() => {
+        result.current.selectDevice("mic-2");
+      });
+      await act(async () => {
+        await result.current.requestMicrophone();
+      });
+
+      expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledWith({
+        audio: expect.objectContaining({ deviceId: { exact: "mic-2" } }),
+      });
+      expect(localStorage.getItem("dancing-lights:microphone-device")).toBe("mic-2");
+
+      // A fresh mount picks the remembered device up
+      const { result: next } = renderHook(() => useMicrophone());
+      expect(next.current.deviceId).toBe("mic-2");
+    });
+
+    it("should fall back to the default device when the remembered one is gone", async () => {
+      localStorage.setItem("dancing-lights:microphone-device", "unplugged");
+      const missing = new Error("Not found");
+      missing.name = "OverconstrainedError";
+      vi.spyOn(navigator.mediaDevices, "getUserMedia").mockRejectedValueOnce(missing);
+
+      const { result } = renderHook(() => useMicrophone());
+
+      await act(async () => {
+        await result.current.requestMicrophone();
+      });
+
+      expect(navigator.mediaDevices.getUserMedia).toHaveBeenLastCalledWith({
+        audio: expect.not.objectContaining({ deviceId: expect.anything() }),
+      });
+      expect(result.current.isActive).toBe(true);
+      expect(result.current.deviceId).toBeNull();
+      expect(result.current.error).toBeNull();
+    });
+
+    it("should deactivate when the track ends", async () => {
+      const track = new MockMediaStreamTrack();
+      vi.spyOn(navigator.mediaDevices, "getUserMedia").mockResolvedValue(
+        new MockMediaStream([track]) as unknown as MediaStream
+      );
+      const onDisconnect = vi.fn();
+      const { result } = renderHook(() => useMicrophone({ onDisconnect }));
+
+      await act(async () => {
+        await result.current.requestMicrophone();
+      });
+      act(() => {
+        track.dispatchEvent(new Event("ended"));
+      });
+
+      expect(result.current.isActive).toBe(false);
+      expect(result.current.stream).toBeNull();
+      expect(result.current.error?.message).toContain("disconnected");
+      expect(onDisconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it("should deactivate when the active device disappears from the list", async () => {
+      mockEnumerateDevices.mockResolvedValue([audioInput("usb-mic"), audioInput("mic-1")]);
+      vi.spyOn(navigator.mediaDevices, "getUserMedia").mockResolvedValue(
+        new MockMediaStream([new MockMediaStreamTrack("audio", "usb-mic")]) as unknown as MediaStream
+      );
+      const onDisconnect = vi.fn();
+      const { result } = renderHook(() => useMicrophone({ onDisconnect }));
+
+      await act(async () => {
+        await result.current.requestMicrophone();
+      });
+      expect(result.current.isActive).toBe(true);
+
+      mockEnumerateDevices.mockResolvedValue([audioInput("mic-1")]);
+      await act(async () => {
+        navigator.mediaDevices.dispatchEvent(new Event("devicechange"));
+      });
+
+      await waitFor(() => {
+        expect(result.current.isActive).toBe(false);
+      });
+      expect(onDisconnect).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useSavedPresets } from "@/hooks/useSavedPresets";
+import { createSavedPreset, loadSavedPresets, storeSavedPresets } from "@/presets";
+import { defaultAudioSettings } from "@/audio/settings";
+import { defaultDisplaySettings } from "@/visualizers/displaySettings";
+import { defaultCustomPalette } from "@/visualizers/palettes";
+import { DEFAULT_SEED } from "@/visualizers/random";
+
+const getPreset = (name: string, mode = "bars") =>
+  createSavedPreset(name, {
+    mode,
+    config: {},
+    audioSettings: defaultAudioSettings,
+    displaySettings: defaultDisplaySettings,
+    customPalette: defaultCustomPalette,
+    seed: DEFAULT_SEED,
+  });
+
+describe("useSavedPresets", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should load saved presets after the first render", async () => {
+    storeSavedPresets([getPreset("Chill")]);
+    const { result, unmount } = renderHook(() => useSavedPresets());
+
+    // The server has no storage, so the first render has to match its empty list
+    expect(result.current.presets).toEqual([]);
+    await act(async () => {});
+    expect(result.current.presets).toEqual([getPreset("Chill")]);
+
+    // Leaving before the load finishes keeps what was stored
+    unmount();
+    renderHook(() => useSavedPresets());
+    expect(loadSavedPresets()).toEqual([getPreset("Chill")]);
+  });
+
+  it("should keep saved presets across visits", async () => {
+    const { result, unmount } = renderHook(() => useSavedPresets());
+    await act(async () => {});
+
+    act(() => {
+      result.current.savePreset(getPreset("Chill"));
+      result.current.savePreset(getPreset("Party"));
+    });
+    act(() => {
+      result.current.removePreset("Chill");
+    });
+    unmount();
+
+    const { result: reloaded } = renderHook(() => useSavedPresets());
+    await act(async () => {});
+
+    expect(reloaded.current.presets).toEqual([getPreset("Party")]);
+  });
+
+  it("should replace a saved preset with the same name", async () => {
+    const { result } = renderHook(() => useSavedPresets());
+    await act(async () => {});
+
+    act(() => {
+      result.current.savePreset(getPreset("Chill"));
+    });
+    act(() => {
+      result.current.savePreset(getPreset("Chill", "wave"));
+    });
+
+    expect(result.current.presets).toEqual([getPreset("Chill", "wave")]);
+  });
+});
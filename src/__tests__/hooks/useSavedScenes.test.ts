@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { getSavedSceneMode, useSavedScenes } from "@/hooks/useSavedScenes";
+import { getVisualizerDefinition, hasVisualizer } from "@/visualizers";
+import { loadSavedScenes, storeSavedScenes } from "@/presets";
+import { builtinScenes, createLayer, parseScene, serializeScene, type Scene } from "@/visualizers/scene";
+
+const scene: Scene = {
+  version: 1,
+  name: "Scope over warp",
+  layers: [createLayer("warp"), createLayer("scope", { opacity: 0.7, blend: "screen" })],
+};
+
+describe("useSavedScenes", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should keep an imported scene across visits and export it unchanged", async () => {
+    const text = serializeScene(scene);
+    const { result, unmount } = renderHook(() => useSavedScenes());
+    await act(async () => {});
+
+    act(() => {
+      result.current.saveScene(parseScene(text));
+    });
+    unmount();
+
+    const { result: reloaded } = renderHook(() => useSavedScenes());
+    await act(async () => {});
+    const mode = getSavedSceneMode(scene.name);
+
+    expect(reloaded.current.scenes).toEqual([scene]);
+    expect(serializeScene(reloaded.current.getScene(mode, {})!)).toBe(text);
+  });
+
+  it("should load saved scenes after the first render", async () => {
+    storeSavedScenes([scene]);
+    const { result, unmount } = renderHook(() => useSavedScenes());
+
+    // The server render has no storage, so hydration starts from nothing too
+    expect(result.current.scenes).toEqual([]);
+    await act(async () => {});
+    expect(result.current.scenes).toEqual([scene]);
+
+    unmount();
+    renderHook(() => useSavedScenes());
+    expect(loadSavedScenes()).toEqual([scene]);
+  });
+
+  it("should offer each saved scene as a mode while mounted", async () => {
+    const { result, unmount } = renderHook(() => useSavedScenes());
+    await act(async () => {});
+    const mode = getSavedSceneMode(scene.name);
+
+    act(() => {
+      result.current.saveScene(scene);
+    });
+    expect(getVisualizerDefinition(mode)?.label).toBe(scene.name);
+
+    act(() => {
+      result.current.removeScene(scene.name);
+    });
+    expect(hasVisualizer(mode)).toBe(false);
+
+    act(() => {
+      result.current.saveScene(scene);
+    });
+    unmount();
+    expect(hasVisualizer(mode)).toBe(false);
+  });
+
+  it("should replace a saved scene with the same name", async () => {
+    const { result } = renderHook(() => useSavedScenes());
+    await act(async () => {});
+    const changed = { ...scene, layers: [createLayer("bars")] };
+
+    act(() => {
+      result.current.saveScene(scene);
+    });
+    act(() => {
+      result.current.saveScene(changed);
+    });
+
+    expect(result.current.scenes).toEqual([changed]);
+  });
+
+  it("should find the built-in scene picked in the layers mode", () => {
+    const { result } = renderHook(() => useSavedScenes());
+
+    expect(result.current.getScene("scene", { scene: "scopeBars" })).toBe(builtinScenes.scopeBars);
+    expect(result.current.getScene("bars", {})).toBeNull();
+  });
+});
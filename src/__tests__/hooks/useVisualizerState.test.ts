@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useVisualizerState } from "@/hooks/useVisualizerState";
+import type { AudioSource, AudioSourceMetadata } from "@/audio/sources";
+import { createSavedPreset, loadLastSession, storeLastSession } from "@/presets";
+import { defaultAudioSettings } from "@/audio/settings";
+import { defaultDisplaySettings } from "@/visualizers/displaySettings";
+import { builtinPalettes } from "@/visualizers/palettes";
+import { MockMediaStream, MockMediaStreamTrack, mockGetUserMedia } from "../setup";
+
+function createFakeSource(metadata: Partial<AudioSourceMetadata> = {}, fail = false): AudioSource {
+  const node = { connect: vi.fn(), disconnect: vi.fn() } as unknown as AudioNode;
+  const source: AudioSource = {
+    metadata: { kind: "oscillator", label: "Fake", monitor: false, duration: 0, channels: 1, ...metadata },
+    status: "idle",
+    error: fail ? { type: "NotAllowedError", message: "Access denied" } : null,
+    start: vi.fn(() => (fail ? Promise.reject(new Error("denied")) : Promise.resolve(node))),
+    stop: vi.fn(),
+    onended: null,
+  };
+  return source;
+}
+
+describe("useVisualizerState", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // The last session would otherwise carry over between tests
+    localStorage.clear();
+  });
+
+  it("should start with no source", () => {
+    const { result } = renderHook(() => useVisualizerState());
+
+    expect(result.current.source).toBeNull();
+    expect(result.current.isActive).toBe(false);
+  });
+
+  it("should start a source and report its metadata", async () => {
+    const { result } = renderHook(() => useVisualizerState());
+    const source = createFakeSource({ label: "Tone" });
+
+    await act(async () => {
+      await result.current.setSource(source);
+    });
+
+    expect(source.start).toHaveBeenCalled();
+    expect(result.current.source?.label).toBe("Tone");
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.getData().frequencyData.length).toBeGreaterThan(0);
+  });
+
+  it("should stop the previous source when switching", async () => {
+    const { result } = renderHook(() => useVisualizerState());
+    const first = createFakeSource();
+    const second = createFakeSource({ kind: "display-capture" });
+
+    await act(async () => {
+      await result.current.setSource(first);
+    });
+    await act(async () => {
+      await result.current.setSource(second);
+    });
+
+    expect(first.stop).toHaveBeenCalled();
+    expect(result.current.source?.kind).toBe("display-capture");
+  });
+
+  it("should clear the source when it ends on its own", async () => {
+    const { result } = renderHook(() => useVisualizerState());
+    const source = createFakeSource();
+
+    await act(async () => {
+      await result.current.setSource(source);
+    });
+    act(() => {
+      source.onended?.();
+    });
+
+    expect(result.current.source).toBeNull();
+    expect(result.current.isActive).toBe(false);
+  });
+
+  it("should surface start errors", async () => {
+    const { result } = renderHook(() => useVisualizerState());
+
+    await act(async () => {
+      await result.current.setSource(createFakeSource({}, true));
+    });
+
+    expect(result.current.source).toBeNull();
+    expect(result.current.sourceError?.message).toBe("Access denied");
+  });
+
+  it("should report the microphone as active once granted", async () => {
+    const { result } = renderHook(() => useVisualizerState());
+
+    await act(async () => {
+      await result.current.toggleMicrophone();
+    });
+
+    expect(result.current.isMicrophoneActive).toBe(true);
+    expect(result.current.source?.kind).toBe("microphone");
+
+    await act(async () => {
+      await result.current.toggleMicrophone();
+    });
+
+    expect(result.current.isMicrophoneActive).toBe(false);
+    expect(result.current.isActive).toBe(false);
+  });
+
+  it("should switch to the default microphone when the active one is unplugged", async () => {
+    const track = new MockMediaStreamTrack("audio", "usb-mic");
+    mockGetUserMedia.mockResolvedValueOnce(new MockMediaStream([track]));
+    const { result } = renderHook(() => useVisualizerState());
+
+    await act(async () => {
+      await result.current.toggleMicrophone();
+    });
+    await act(async () => {
+      track.dispatchEvent(new Event("ended"));
+    });
+
+    expect(mockGetUserMedia).toHaveBeenCalledTimes(2);
+    expect(result.current.isMicrophoneActive).toBe(true);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("should stop when no microphone is left after an unplug", async () => {
+    const track = new MockMediaStreamTrack("audio", "usb-mic");
+    const missing = new Error("Requested device not found");
+    missing.name = "NotFoundError";
+    mockGetUserMedia.mockResolvedValueOnce(new MockMediaStream([track])).mockRejectedValueOnce(missing);
+    const { result } = renderHook(() => useVisualizerState());
+
+    await act(async () => {
+      await result.current.toggleMicrophone();
+    });
+    await act(async () => {
+      track.dispatchEvent(new Event("ended"));
+    });
+
+    expect(result.current.isActive).toBe(false);
+    expect(result.current.error?.type).toBe("NotFoundError");
+  });
+
+  it("should reopen a live microphone when processing settings change", async () => {
+    const { result } = renderHook(() => useVisualizerState());
+
+    await act(async () => {
+      await result.current.toggleMicrophone();
+    });
+    await act(async () => {
+      await result.current.updateAudioSetting("noiseSuppression", true);
+    });
+
+    expect(result.current.audioSettings.noiseSuppression).toBe(true);
+    expect(mockGetUserMedia).toHaveBeenCalledTimes(2);
+    expect(mockGetUserMedia).toHaveBeenLastCalledWith({
+      audio: expect.objectContaining({ noiseSuppression: true, echoCancellation: false }),
+    });
+    expect(result.current.isMicrophoneActive).toBe(true);
+  });
+
+  it("should apply analyser settings without reopening the microphone", async () => {
+    const { result } = renderHook(() => useVisualizerState());
+
+    await act(async () => {
+      await result.current.toggleMicrophone();
+    });
+    await act(async () => {
+      await result.current.updateAudioSetting("fftSize", 4096);
+    });
+
+    expect(mockGetUserMedia).toHaveBeenCalledTimes(1);
+    expect(result.current.getData().timeDomainData.length).toBe(4096);
+
+    await act(async () => {
+      await result.current.resetAudioSettings();
+    });
+
+    expect(result.current.audioSettings.fftSize).toBe(2048);
+  });
+
+  it("should read per-channel data only for stereo sources", async () => {
+    const { result } = renderHook(() => useVisualizerState());
+
+    await act(async () => {
+      await result.current.setSource(createFakeSource({ channels: 1 }));
+    });
+    expect(result.current.getData().left).toBeUndefined();
+
+    await act(async () => {
+      await result.current.setSource(createFakeSource({ channels: 2 }));
+    });
+    const data = result.current.getData();
+    expect(data.left?.timeDomainData.length).toBe(2048);
+    expect(data.right?.timeDomainData.length).toBe(2048);
+  });
+
+  it("should restore the last session after mounting", async () => {
+    const { result, unmount } = renderHook(() => useVisualizerState());
+    act(() => {
+      result.current.setMode("scope");
+    });
+    act(() => {
+      result.current.updateConfig("barWidth", 5);
+    });
+    unmount();
+
+    const { result: restored } = renderHook(() => useVisualizerState());
+    // Applying the session finishes with the audio settings, which is async
+    await act(async () => {});
+
+    expect(loadLastSession()?.mode).toBe("scope");
+    expect(restored.current.currentMode).toBe("scope");
+    expect(restored.current.config.barWidth).toBe(5);
+  });
+
+  it("should render the same first frame whether or not a session is stored", async () => {
+    const firstRender = () => {
+      const renders: ReturnType<typeof useVisualizerState>[] = [];
+      const { unmount } = renderHook(() => {
+        const state = useVisualizerState();
+        renders.push(state);
+        return state;
+      });
+      unmount();
+      const { currentMode, config, audioSettings, displaySettings, customPalette, seed } = renders[0];
+      return { currentMode, config, audioSettings, displaySettings, customPalette, seed };
+    };
+    const withoutSession = firstRender();
+
+    localStorage.clear();
+    storeLastSession(
+      createSavedPreset("Last session", {
+        mode: "scope",
+        config: { barWidth: 5 },
+        audioSettings: defaultAudioSettings,
+        displaySettings: defaultDisplaySettings,
+        customPalette: builtinPalettes.monochrome,
+        seed: 7,
+      })
+    );
+    const withSession = firstRender();
+
+    expect(withSession).toEqual(withoutSession);
+  });
+
+  it("should start in a shared preset and apply saved presets", async () => {
+    const shared = createSavedPreset("Shared", {
+      mode: "waveform",
+      config: { lineWidth: 6 },
+      audioSettings: { ...defaultAudioSettings, fftSize: 4096 },
+      displaySettings: { ...defaultDisplaySettings, transition: "wipe" },
+      customPalette: { ...builtinPalettes.monochrome, name: "Grey" },
+      seed: 42,
+    });
+    const { result } = renderHook(() => useVisualizerState({ initialPreset: shared }));
+
+    expect(result.current.currentMode).toBe("waveform");
+    expect(result.current.config.lineWidth).toBe(6);
+    expect(result.current.displaySettings.transition).toBe("wipe");
+    expect(result.current.customPalette.name).toBe("Grey");
+    expect(result.current.seed).toBe(42);
+
+    await act(async () => {
+      await result.current.setSource(createFakeSource());
+    });
+    expect(result.current.getData().timeDomainData.length).toBe(4096);
+
+    const saved = result.current.getPreset("Saved");
+    await act(async () => {
+      await result.current.applyPreset({ ...saved, mode: "bars", config: { barCount: 32 }, seed: 7 });
+    });
+
+    expect(result.current.currentMode).toBe("bars");
+    expect(result.current.config.barCount).toBe(32);
+    expect(result.current.audioSettings.fftSize).toBe(4096);
+    expect(result.current.seed).toBe(7);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createSavedPreset,
+  decodeSharedPreset,
+  encodeSharedPreset,
+  getShareUrl,
+  loadLastSession,
+  loadEquationPresets,
+  loadSavedPresets,
+  loadSavedScenes,
+  parseSavedPreset,
+  serializeSavedPreset,
+  storeSavedPresets,
+  storeEquationPresets,
+  storeSavedScenes,
+  validateSavedPreset,
+  SavedPresetError,
+  SHARE_PARAM,
+} from "@/presets";
+import { defaultAudioSettings } from "@/audio/settings";
+import { defaultDisplaySettings } from "@/visualizers/displaySettings";
+import { builtinPalettes, defaultCustomPalette } from "@/visualizers/palettes";
+import { DEFAULT_SEED } from "@/visualizers/random";
+import { builtinScenes } from "@/visualizers/scene";
+import { builtinPresets } from "@/visualizers/preset";
+
+function createPreset(name = "Night drive") {
+  return createSavedPreset(name, {
+    mode: "waveform",
+    config: { lineWidth: 4, color: "#ff00ff", fillMode: false },
+    audioSettings: { ...defaultAudioSettings, smoothing: 0.5 },
+    displaySettings: { ...defaultDisplaySettings, transition: "dissolve" },
+    customPalette: { ...builtinPalettes.highContrast, name: "Bright" },
+    seed: 1234,
+  });
+}
+
+describe("saved preset format", () => {
+  it("should round-trip through serialization", () => {
+    const preset = createPreset();
+
+    expect(parseSavedPreset(serializeSavedPreset(preset))).toEqual(preset);
+  });
+
+  it("should fill in missing settings and clamp bad ones", () => {
+    const preset = validateSavedPreset({
+      version: 1,
+      name: "  Loud  ",
+      mode: "bars",
+      audioSettings: { smoothing: 5, unknown: true },
+    });
+
+    expect(preset.name).toBe("Loud");
+    expect(preset.config).toEqual({});
+    expect(preset.audioSettings).toEqual({ ...defaultAudioSettings, smoothing: 0.99 });
+    expect(preset.displaySettings).toEqual(defaultDisplaySettings);
+    expect(preset.customPalette).toEqual(defaultCustomPalette);
+  });
+
+  it("should upgrade version 1 presets, which had no palette or seed", () => {
+    const preset = validateSavedPreset({ version: 1, name: "Old", mode: "bars" });
+
+    expect(preset.version).toBe(3);
+    expect(preset.customPalette).toEqual(defaultCustomPalette);
+    expect(preset.seed).toBe(DEFAULT_SEED);
+  });
+
+  it("should only accept unsigned 32-bit seeds", () => {
+    expect(validateSavedPreset({ version: 3, name: "A", mode: "bars", seed: 4294967295 }).seed).toBe(4294967295);
+    expect(() => validateSavedPreset({ version: 3, name: "A", mode: "bars", seed: 1.5 })).toThrow(
+      '"seed" must be a whole number from 0 to 4294967295'
+    );
+    expect(() => validateSavedPreset({ version: 3, name: "A", mode: "bars", seed: "7" })).toThrow(SavedPresetError);
+  });
+
+  it("should name what is wrong with a custom palette", () => {
+    expect(() =>
+      validateSavedPreset({ version: 2, name: "A", mode: "bars", customPalette: { ...defaultCustomPalette, glow: "red" } })
+    ).toThrow('"customPalette" is invalid: "glow" must be a hex color');
+  });
+
+  it("should reject malformed presets", () => {
+    expect(() => parseSavedPreset("nope")).toThrow("Preset file is not valid JSON");
+    expect(() => validateSavedPreset([])).toThrow("Preset must be an object");
+    expect(() => validateSavedPreset({ version: 1, name: "", mode: "bars" })).toThrow("Preset needs a name");
+    expect(() => validateSavedPreset({ version: 1, name: "A" })).toThrow('"mode" must name a visualizer');
+    expect(() => validateSavedPreset({ version: 1, name: "A", mode: "bars", config: { size: {} } })).toThrow(
+      '"config.size" must be a number, boolean or string'
+    );
+    expect(() => validateSavedPreset({ version: 1, name: "A", mode: "bars", audioSettings: 3 })).toThrow(
+      '"audioSettings" must map names to values'
+    );
+  });
+
+  it("should refuse versions it can't migrate", () => {
+    expect(() => validateSavedPreset({ version: 99, name: "A", mode: "bars" })).toThrow(SavedPresetError);
+    expect(() => validateSavedPreset({ name: "A", mode: "bars" })).toThrow("Unsupported preset version undefined");
+  });
+});
+
+describe("share links", () => {
+  it("should round-trip a preset", () => {
+    const preset = createPreset("Ünïcode ✨");
+
+    expect(decodeSharedPreset(encodeSharedPreset(preset))).toEqual(preset);
+  });
+
+  it("should leave default values out of the link", () => {
+    const plain = encodeSharedPreset(
+      createSavedPreset("A", {
+        mode: "bars",
+        config: {},
+        audioSettings: defaultAudioSettings,
+        displaySettings: defaultDisplaySettings,
+        customPalette: defaultCustomPalette,
+        seed: DEFAULT_SEED,
+      })
+    );
+
+    expect(plain).toMatch(/^[\w-]+$/);
+    expect(plain.length).toBeLessThan(encodeSharedPreset(createPreset("A")).length);
+    expect(JSON.parse(atob(plain))).toEqual({ v: 3, n: "A", m: "bars" });
+  });
+
+  it("should put the preset in the query string", () => {
+    const url = new URL(getShareUrl(createPreset(), "https://example.com/app?old=1#top"));
+
+    expect(url.pathname).toBe("/app");
+    expect(url.hash).toBe("");
+    expect([...url.searchParams.keys()]).toEqual([SHARE_PARAM]);
+    expect(decodeSharedPreset(url.searchParams.get(SHARE_PARAM)!).name).toBe("Night drive");
+  });
+
+  it("should report damaged links", () => {
+    expect(() => decodeSharedPreset("%%%")).toThrow("Shared preset link is damaged");
+    expect(() => decodeSharedPreset(btoa("[1]"))).toThrow("Shared preset link is damaged");
+    expect(() => decodeSharedPreset(btoa('{"v":1,"n":"A"}'))).toThrow('"mode" must name a visualizer');
+  });
+});
+
+describe("preset storage", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should keep saved presets and drop ones that no longer load", () => {
+    storeSavedPresets([createPreset("One"), createPreset("Two")]);
+    const stored = JSON.parse(localStorage.getItem("dancing-lights:presets")!);
+    localStorage.setItem("dancing-lights:presets", JSON.stringify([stored[0], { version: 7 }, stored[1]]));
+
+    expect(loadSavedPresets().map(({ name }) => name)).toEqual(["One", "Two"]);
+  });
+
+  it("should keep saved scenes and drop ones that no longer load", () => {
+    storeSavedScenes([builtinScenes.scopeBars, builtinScenes.mirrorBars]);
+    const stored = JSON.parse(localStorage.getItem("dancing-lights:scenes")!);
+    localStorage.setItem("dancing-lights:scenes", JSON.stringify([stored[0], { version: 1, layers: [] }, stored[1]]));
+
+    expect(loadSavedScenes()).toEqual([builtinScenes.scopeBars, builtinScenes.mirrorBars]);
+  });
+
+  it("should keep equation presets and drop ones whose equations no longer compile", () => {
+    const broken = { version: 1, name: "Broken", perFrame: "zoom = (" };
+    localStorage.setItem("dancing-lights:equation-presets", JSON.stringify([builtinPresets.tunnel, broken]));
+
+    expect(loadEquationPresets()).toEqual([builtinPresets.tunnel]);
+
+    storeEquationPresets([builtinPresets.drift]);
+    expect(loadEquationPresets()).toEqual([builtinPresets.drift]);
+  });
+
+  it("should treat missing or corrupt storage as empty", () => {
+    expect(loadSavedPresets()).toEqual([]);
+    expect(loadSavedScenes()).toEqual([]);
+    expect(loadEquationPresets()).toEqual([]);
+    expect(loadLastSession()).toBeNull();
+
+    localStorage.setItem("dancing-lights:session", "{");
+    expect(loadLastSession()).toBeNull();
+  });
+});
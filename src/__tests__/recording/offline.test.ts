@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getFrameFileName, getOfflineFrameCount, renderOffline, type OfflineFrame } from "@/recording";
+import { createSeededRandom } from "@/visualizers/random";
+import { getVisualizer } from "@/visualizers";
+import { createMockCanvasContext } from "../setup";
+
+const SAMPLE_RATE = 8000;
+
+// Just enough of an AudioBuffer for offline rendering
+function createAudioBuffer(channels: Float32Array[]): AudioBuffer {
+  return {
+    sampleRate: SAMPLE_RATE,
+    length: channels[0].length,
+    duration: channels[0].length / SAMPLE_RATE,
+    numberOfChannels: channels.length,
+    getChannelData: (channel: number) => channels[channel],
+  } as unknown as AudioBuffer;
+}
+
+function tone(seconds: number) {
+  return Float32Array.from(
+    { length: seconds * SAMPLE_RATE },
+    (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE)
+  );
+}
+
+describe("offline rendering helpers", () => {
+  it("should cover the whole file in frames", () => {
+    expect(getOfflineFrameCount(2, 60)).toBe(120);
+    expect(getOfflineFrameCount(2.01, 60)).toBe(121);
+    expect(getOfflineFrameCount(0, 60)).toBe(0);
+  });
+
+  it("should number frame files from 1", () => {
+    expect(getFrameFileName(0, 120)).toBe("frame-000001.png");
+    expect(getFrameFileName(1234566, 2000000)).toBe("frame-1234567.png");
+  });
+
+  it("should repeat a seeded sequence", () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const values = Array.from({ length: 100 }, () => a());
+
+    expect(values).toEqual(Array.from({ length: 100 }, () => b()));
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createSeededRandom(43)()).not.toBe(values[0]);
+  });
+});
+
+describe("renderOffline", () => {
+  let ctx: CanvasRenderingContext2D;
+
+  beforeEach(() => {
+    ctx = createMockCanvasContext();
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(ctx);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Everything the visualizer positioned on the canvas, frame by frame
+  async function recordDrawing(mode: string, seed: number) {
+    const calls: unknown[] = [];
+    await renderOffline({
+      audio: createAudioBuffer([tone(0.5)]),
+      mode,
+      config: getVisualizer(mode).defaultConfig,
+      width: 320,
+      height: 180,
+      frameRate: 30,
+      seed,
+      onFrame: () => {
+        calls.push(
+          vi.mocked(ctx.moveTo).mock.calls.slice(),
+          vi.mocked(ctx.lineTo).mock.calls.slice(),
+          vi.mocked(ctx.createRadialGradient).mock.calls.slice()
+        );
+        vi.clearAllMocks();
+      },
+    });
+    return calls;
+  }
+
+  it("should draw every frame at a fixed step", async () => {
+    const frames: OfflineFrame[] = [];
+    const create = vi.spyOn(getVisualizer("bars"), "create");
+
+    const count = await renderOffline({
+      audio: createAudioBuffer([tone(1)]),
+      mode: "bars",
+      config: getVisualizer("bars").defaultConfig,
+      width: 320,
+      height: 180,
+      frameRate: 60,
+      onFrame: (canvas, frame) => {
+        expect(canvas.width).toBe(320);
+        frames.push(frame);
+      },
+    });
+
+    expect(count).toBe(60);
+    expect(frames).toHaveLength(60);
+    expect(frames[30]).toEqual({ index: 30, count: 60, time: 0.5 });
+    expect(create).toHaveBeenCalledWith({ random: expect.any(Function) });
+  });
+
+  it("should give the same frames for the same seed", async () => {
+    for (const mode of ["bars", "scope", "ambiance"]) {
+      const first = await recordDrawing(mode, 7);
+      const second = await recordDrawing(mode, 7);
+      expect(second).toEqual(first);
+    }
+
+    expect(await recordDrawing("ambiance", 8)).not.toEqual(await recordDrawing("ambiance", 7));
+  });
+
+  it("should analyse the audio as it plays", async () => {
+    const levels: number[] = [];
+    const silenceThenTone = new Float32Array(SAMPLE_RATE);
+    silenceThenTone.set(tone(0.5), SAMPLE_RATE / 2);
+    const render = vi.fn();
+    vi.spyOn(getVisualizer("waveform"), "create").mockReturnValue({
+      render,
+      resize: vi.fn(),
+      reset: vi.fn(),
+      dispose: vi.fn(),
+    });
+
+    await renderOffline({
+      audio: createAudioBuffer([silenceThenTone, silenceThenTone]),
+      mode: "waveform",
+      config: getVisualizer("waveform").defaultConfig,
+      width: 320,
+      height: 180,
+      frameRate: 10,
+      onFrame: () => {
+        levels.push(render.mock.lastCall?.[1].averageFrequency);
+      },
+    });
+
+    expect(levels.slice(0, 5).every((level) => level === 0)).toBe(true);
+    expect(levels[8]).toBeGreaterThan(0);
+    const [, data, , , deltaTime] = render.mock.lastCall!;
+    expect(deltaTime).toBe(100);
+    expect(data.left.frequencyData).toEqual(data.frequencyData);
+    expect(data.right).toBeDefined();
+  });
+
+  it("should stop when aborted", async () => {
+    const controller = new AbortController();
+    const onFrame = vi.fn((_canvas: unknown, frame: OfflineFrame) => {
+      if (frame.index === 2) controller.abort();
+    });
+
+    await expect(
+      renderOffline({
+        audio: createAudioBuffer([tone(1)]),
+        mode: "bars",
+        config: getVisualizer("bars").defaultConfig,
+        width: 320,
+        height: 180,
+        onFrame,
+        signal: controller.signal,
+      })
+    ).rejects.toThrow();
+    expect(onFrame).toHaveBeenCalledTimes(3);
+  });
+});
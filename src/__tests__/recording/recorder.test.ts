@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createVideoRecorder,
+  fitFrame,
+  getRecordingFileName,
+  getRecordingSize,
+  pickMimeType,
+  resolveRecordingSettings,
+  type RecorderState,
+} from "@/recording";
+import { MockMediaStream, MockMediaStreamTrack, createMockCanvasContext } from "../setup";
+
+class MockMediaRecorder {
+  state: RecordingState = "inactive";
+  ondataavailable: ((event: BlobEvent) => void) | null = null;
+  onstop: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  start = vi.fn(() => {
+    this.state = "recording";
+  });
+  stop = vi.fn(() => {
+    this.state = "inactive";
+  });
+
+  constructor(
+    public stream: MockMediaStream,
+    public mimeType: string
+  ) {}
+
+  // What the browser does after stop(): hand over the last data, then fire stop
+  finish(...chunks: string[]) {
+    chunks.forEach((chunk) => this.ondataavailable?.({ data: new Blob([chunk]) } as BlobEvent));
+    this.onstop?.(new Event("stop"));
+  }
+}
+
+describe("recording helpers", () => {
+  it("should pick the best supported WebM type", () => {
+    expect(pickMimeType(() => true)).toBe("video/webm;codecs=vp9,opus");
+    expect(pickMimeType((type) => type === "video/webm")).toBe("video/webm");
+    expect(pickMimeType(() => false)).toBeNull();
+  });
+
+  it("should letterbox the canvas into the video frame", () => {
+    expect(fitFrame({ width: 800, height: 400 }, { width: 1280, height: 720 })).toEqual({
+      x: 0,
+      y: 40,
+      width: 1280,
+      height: 640,
+    });
+    expect(fitFrame({ width: 0, height: 400 }, { width: 1280, height: 720 }).width).toBe(0);
+  });
+
+  it("should size the video from the setting", () => {
+    expect(getRecordingSize("1080p", { width: 10, height: 10 })).toEqual({ width: 1920, height: 1080 });
+    expect(getRecordingSize("canvas", { width: 1001, height: 599 })).toEqual({ width: 1002, height: 600 });
+  });
+
+  it("should name files after the time they were made", () => {
+    expect(getRecordingFileName(new Date(2024, 0, 5, 9, 3, 7))).toBe("dancing-lights-20240105-090307.webm");
+  });
+});
+
+describe("createVideoRecorder", () => {
+  const settings = resolveRecordingSettings({ resolution: "720p", frameRate: 30 });
+  let sourceCanvas: HTMLCanvasElement | null;
+  let audioTrack: MockMediaStreamTrack;
+  let videoTrack: MockMediaStreamTrack;
+  let frameCtx: CanvasRenderingContext2D;
+  let mediaRecorders: MockMediaRecorder[];
+  let states: RecorderState[];
+
+  function createRecorder(options: { isTypeSupported?: (type: string) => boolean } = {}) {
+    return createVideoRecorder({
+      getCanvas: () => sourceCanvas,
+      getAudioStream: () => new MockMediaStream([audioTrack]) as unknown as MediaStream,
+      onChange: (state) => states.push(state),
+      createMediaRecorder: (stream, mimeType) => {
+        const mediaRecorder = new MockMediaRecorder(stream as unknown as MockMediaStream, mimeType);
+        mediaRecorders.push(mediaRecorder);
+        return mediaRecorder as unknown as MediaRecorder;
+      },
+      isTypeSupported: options.isTypeSupported ?? (() => true),
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sourceCanvas = document.createElement("canvas");
+    sourceCanvas.width = 800;
+    sourceCanvas.height = 400;
+    audioTrack = new MockMediaStreamTrack("audio");
+    videoTrack = new MockMediaStreamTrack("video");
+    frameCtx = createMockCanvasContext();
+    mediaRecorders = [];
+    states = [];
+
+    HTMLCanvasElement.prototype.captureStream = vi.fn(
+      () => new MockMediaStream([videoTrack]) as unknown as MediaStream
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(frameCtx);
+    URL.createObjectURL = vi.fn(() => "blob:video");
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>).captureStream;
+  });
+
+  it("should record the canvas copy together with the audio", () => {
+    const recorder = createRecorder();
+
+    recorder.start(settings);
+
+    const [mediaRecorder] = mediaRecorders;
+    expect(mediaRecorder.mimeType).toBe("video/webm;codecs=vp9,opus");
+    expect(mediaRecorder.stream.getTracks()).toEqual([videoTrack, audioTrack]);
+    expect(mediaRecorder.start).toHaveBeenCalledWith(1000);
+    expect(HTMLCanvasElement.prototype.captureStream).toHaveBeenCalledWith(30);
+    expect(frameCtx.drawImage).toHaveBeenCalledWith(sourceCanvas, 0, 40, 1280, 640);
+    expect(recorder.getState()).toEqual({ status: "recording", elapsed: 0, recording: null, error: null });
+  });
+
+  it("should keep copying frames and count the time in whole seconds", () => {
+    const recorder = createRecorder();
+    recorder.start(settings);
+    const changes = states.length;
+
+    vi.advanceTimersByTime(2100);
+
+    expect(vi.mocked(frameCtx.drawImage).mock.calls.length).toBeGreaterThan(60);
+    expect(recorder.getState().elapsed).toBeGreaterThanOrEqual(2000);
+    expect(states.length - changes).toBe(2);
+  });
+
+  it("should go through stopping to a finished recording", () => {
+    const recorder = createRecorder();
+    recorder.start(settings);
+    vi.advanceTimersByTime(3000);
+
+    recorder.stop();
+    expect(recorder.getState().status).toBe("stopping");
+    mediaRecorders[0].finish("part one", "part two");
+
+    const { status, recording } = recorder.getState();
+    expect(status).toBe("finished");
+    expect(recording?.url).toBe("blob:video");
+    expect(recording?.duration).toBe(3000);
+    expect(recording?.fileName).toMatch(/^dancing-lights-\d{8}-\d{6}\.webm$/);
+    expect(recording?.blob.size).toBe("part onepart two".length);
+    expect(recording?.blob.type).toBe("video/webm");
+    // The audio track belongs to the audio graph, which keeps running
+    expect(videoTrack.stop).toHaveBeenCalled();
+    expect(audioTrack.stop).not.toHaveBeenCalled();
+
+    // No more frames once stopped
+    const frames = vi.mocked(frameCtx.drawImage).mock.calls.length;
+    vi.advanceTimersByTime(1000);
+    expect(vi.mocked(frameCtx.drawImage).mock.calls.length).toBe(frames);
+  });
+
+  it("should replace or discard the last recording, releasing its URL", () => {
+    const recorder = createRecorder();
+    recorder.start(settings);
+    recorder.stop();
+    mediaRecorders[0].finish("take one");
+
+    recorder.start(settings);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:video");
+    expect(recorder.getState().recording).toBeNull();
+
+    recorder.stop();
+    mediaRecorders[1].finish("take two");
+    recorder.discard();
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledTimes(2);
+    expect(recorder.getState().status).toBe("idle");
+  });
+
+  it("should ignore calls that don't fit the current state", () => {
+    const recorder = createRecorder();
+
+    recorder.stop();
+    expect(states).toEqual([]);
+
+    recorder.start(settings);
+    recorder.start(settings);
+    recorder.discard();
+
+    expect(mediaRecorders).toHaveLength(1);
+    expect(recorder.getState().status).toBe("recording");
+  });
+
+  it("should report what stopped it from recording", () => {
+    sourceCanvas = null;
+    const recorder = createRecorder();
+    recorder.start(settings);
+    expect(recorder.getState()).toMatchObject({ status: "error", error: "There is nothing to record yet" });
+
+    sourceCanvas = document.createElement("canvas");
+    const unsupported = createRecorder({ isTypeSupported: () => false });
+    unsupported.start(settings);
+    expect(unsupported.getState().error).toBe("Recording isn't supported in this browser");
+    expect(mediaRecorders).toHaveLength(0);
+  });
+
+  it("should clean up when the browser fails mid-recording", () => {
+    const recorder = createRecorder();
+    recorder.start(settings);
+
+    mediaRecorders[0].onerror?.(new Event("error"));
+
+    expect(recorder.getState()).toMatchObject({ status: "error", error: "Recording failed" });
+    expect(mediaRecorders[0].stop).toHaveBeenCalled();
+    expect(videoTrack.stop).toHaveBeenCalled();
+
+    // Can try again
+    recorder.start(settings);
+    expect(recorder.getState().status).toBe("recording");
+  });
+
+  it("should stop everything when disposed", () => {
+    const recorder = createRecorder();
+    recorder.start(settings);
+
+    recorder.dispose();
+
+    expect(mediaRecorders[0].stop).toHaveBeenCalled();
+    expect(videoTrack.stop).toHaveBeenCalled();
+    expect(recorder.getState().status).toBe("idle");
+  });
+});
@@ -31,10 +31,14 @@ global.ResizeObserver = MockResizeObserver as unknown as typeof ResizeObserver;
 // Mock AudioContext
 class MockAnalyserNode {
   fftSize = 2048;
-  frequencyBinCount = 1024;
   smoothingTimeConstant = 0.8;
   minDecibels = -90;
   maxDecibels = -10;
+  context = { sampleRate: 44100 };
+
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
 
   connect = vi.fn();
   disconnect = vi.fn();
@@ -50,6 +54,14 @@ class MockAnalyserNode {
       array[i] = 128 + Math.floor(Math.sin(i * 0.1) * 50);
     }
   });
+  getFloatFrequencyData = vi.fn((array: Float32Array) => {
+    array.fill(-100);
+  });
+  getFloatTimeDomainData = vi.fn((array: Float32Array) => {
+    for (let i = 0; i < array.length; i++) {
+      array[i] = Math.sin(i * 0.1) * 0.4;
+    }
+  });
 }
 
 class MockMediaStreamAudioSourceNode {
@@ -57,11 +69,59 @@ class MockMediaStreamAudioSourceNode {
   disconnect = vi.fn();
 }
 
+class MockChannelSplitterNode {
+  connect = vi.fn();
+  disconnect = vi.fn();
+}
+
+class MockGainNode {
+  gain = { value: 1 };
+  connect = vi.fn();
+  disconnect = vi.fn();
+}
+
+class MockOscillatorNode {
+  type: OscillatorType = "sine";
+  frequency = { value: 440 };
+  connect = vi.fn();
+  disconnect = vi.fn();
+  start = vi.fn();
+  stop = vi.fn();
+}
+
+class MockAudioBufferSourceNode {
+  buffer: AudioBuffer | null = null;
+  loop = false;
+  onended: (() => void) | null = null;
+  connect = vi.fn();
+  disconnect = vi.fn();
+  start = vi.fn();
+  stop = vi.fn();
+}
+
+class MockMediaStreamAudioDestinationNode {
+  stream = new MockMediaStream();
+  connect = vi.fn();
+  disconnect = vi.fn();
+}
+
 class MockAudioContext {
   state: AudioContextState = "running";
+  currentTime = 0;
+  sampleRate = 44100;
+  destination = {};
 
   createAnalyser = vi.fn(() => new MockAnalyserNode());
   createMediaStreamSource = vi.fn(() => new MockMediaStreamAudioSourceNode());
+  createMediaElementSource = vi.fn(() => new MockMediaStreamAudioSourceNode());
+  createGain = vi.fn(() => new MockGainNode());
+  createChannelSplitter = vi.fn(() => new MockChannelSplitterNode());
+  createBufferSource = vi.fn(() => new MockAudioBufferSourceNode());
+  createOscillator = vi.fn(() => new MockOscillatorNode());
+  createMediaStreamDestination = vi.fn(() => new MockMediaStreamAudioDestinationNode());
+  decodeAudioData = vi.fn(() =>
+    Promise.resolve({ duration: 10, sampleRate: 44100, numberOfChannels: 2, length: 441000 } as AudioBuffer)
+  );
   resume = vi.fn(() => Promise.resolve());
   close = vi.fn(() => Promise.resolve());
 }
@@ -70,32 +130,79 @@ global.AudioContext = MockAudioContext as unknown as typeof AudioContext;
 (global as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext = MockAudioContext as unknown as typeof AudioContext;
 
 // Mock MediaStream
-class MockMediaStreamTrack {
-  kind = "audio";
+class MockMediaStreamTrack extends EventTarget {
+  kind: string;
+  label = "";
   enabled = true;
+  deviceId: string;
   stop = vi.fn();
+
+  constructor(kind = "audio", deviceId = "default") {
+    super();
+    this.kind = kind;
+    this.deviceId = deviceId;
+  }
+
+  getSettings() {
+    return { deviceId: this.deviceId };
+  }
 }
 
 class MockMediaStream {
-  private tracks: MockMediaStreamTrack[] = [new MockMediaStreamTrack()];
+  private tracks: MockMediaStreamTrack[];
+
+  constructor(tracks: MockMediaStreamTrack[] = [new MockMediaStreamTrack()]) {
+    this.tracks = tracks;
+  }
 
   getTracks() {
     return this.tracks;
   }
   getAudioTracks() {
-    return this.tracks;
+    return this.tracks.filter((track) => track.kind === "audio");
   }
 }
 
 global.MediaStream = MockMediaStream as unknown as typeof MediaStream;
 
+// jsdom's Blob has no arrayBuffer(); read through FileReader instead
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+
+// Nor text()
+if (!Blob.prototype.text) {
+  Blob.prototype.text = function (this: Blob) {
+    return new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(this);
+    });
+  };
+}
+
 // Mock navigator.mediaDevices
 const mockGetUserMedia = vi.fn(() => Promise.resolve(new MockMediaStream()));
+const mockGetDisplayMedia = vi.fn(() =>
+  Promise.resolve(new MockMediaStream([new MockMediaStreamTrack("video"), new MockMediaStreamTrack()]))
+);
+
+const mockEnumerateDevices = vi.fn(() => Promise.resolve([] as MediaDeviceInfo[]));
 
 Object.defineProperty(global.navigator, "mediaDevices", {
-  value: {
+  value: Object.assign(new EventTarget(), {
     getUserMedia: mockGetUserMedia,
-  },
+    getDisplayMedia: mockGetDisplayMedia,
+    enumerateDevices: mockEnumerateDevices,
+  }),
   writable: true,
   configurable: true,
 });
@@ -137,6 +244,7 @@ function createMockCanvasContext(): CanvasRenderingContext2D {
     textAlign: "start",
     textBaseline: "alphabetic",
     globalCompositeOperation: "source-over",
+    globalAlpha: 1,
 
     fillRect: vi.fn(),
     clearRect: vi.fn(),
@@ -151,8 +259,19 @@ function createMockCanvasContext(): CanvasRenderingContext2D {
     fillText: vi.fn(),
     setLineDash: vi.fn(),
     scale: vi.fn(),
+    translate: vi.fn(),
+    rotate: vi.fn(),
     save: vi.fn(),
     restore: vi.fn(),
+    drawImage: vi.fn(),
+    rect: vi.fn(),
+    clip: vi.fn(),
+    createImageData: vi.fn((width: number, height: number) => ({
+      width,
+      height,
+      data: new Uint8ClampedArray(width * height * 4),
+    })),
+    putImageData: vi.fn(),
     createLinearGradient: vi.fn(() => ({
       addColorStop: vi.fn(),
     })),
@@ -164,19 +283,27 @@ function createMockCanvasContext(): CanvasRenderingContext2D {
 
 // Patch HTMLCanvasElement.prototype.getContext
 const originalGetContext = HTMLCanvasElement.prototype.getContext;
-HTMLCanvasElement.prototype.getContext = function (contextId: string, options?: unknown) {
+HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement, contextId: string, options?: unknown) {
   if (contextId === "2d") {
     return createMockCanvasContext();
   }
+  // No WebGL headless, so WebGL modes take their 2D fallback
+  if (contextId === "webgl2") {
+    return null;
+  }
   return originalGetContext.call(this, contextId, options);
 } as typeof HTMLCanvasElement.prototype.getContext;
 
 // Export mocks for test files to use
 export {
   mockGetUserMedia,
+  mockGetDisplayMedia,
+  mockEnumerateDevices,
   mockPermissionsQuery,
   MockAudioContext,
   MockAnalyserNode,
+  MockAudioBufferSourceNode,
   MockMediaStream,
+  MockMediaStreamTrack,
   createMockCanvasContext,
 };
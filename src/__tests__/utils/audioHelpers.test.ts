@@ -4,10 +4,21 @@ import {
   getMicrophoneErrorMessage,
   getAverageAmplitude,
   getPeakFrequencyIndex,
+  getFloatRms,
+  getFloatPeak,
+  amplitudeToDb,
+  getPeakFrequencyHz,
   getBassEnergy,
   getTrebleEnergy,
   lerp,
   getLogarithmicIndex,
+  hzToMel,
+  melToHz,
+  hzToBark,
+  barkToHz,
+  getScaledIndex,
+  getBandRange,
+  getBandLevel,
 } from "@/utils/audioHelpers";
 
 describe("audioHelpers", () => {
@@ -115,6 +126,65 @@ describe("audioHelpers", () => {
     });
   });
 
+  describe("float metering", () => {
+    const sine = (length: number, amplitude: number) =>
+      Float32Array.from({ length }, (_, i) => amplitude * Math.sin((i / length) * Math.PI * 2 * 8));
+
+    it("should measure RMS and peak of a sine", () => {
+      const data = sine(1024, 0.5);
+
+      expect(getFloatRms(data)).toBeCloseTo(0.5 * Math.SQRT1_2, 4);
+      expect(getFloatPeak(data)).toBeCloseTo(0.5, 2);
+    });
+
+    it("should use the absolute value for the peak", () => {
+      expect(getFloatPeak(new Float32Array([0.1, -0.9, 0.5]))).toBeCloseTo(0.9);
+    });
+
+    it("should return 0 for empty data", () => {
+      expect(getFloatRms(new Float32Array(0))).toBe(0);
+      expect(getFloatPeak(new Float32Array(0))).toBe(0);
+    });
+
+    it("should convert amplitude to dBFS", () => {
+      expect(amplitudeToDb(1)).toBe(0);
+      expect(amplitudeToDb(0.5)).toBeCloseTo(-6.02, 2);
+      expect(amplitudeToDb(0)).toBe(-Infinity);
+    });
+  });
+
+  describe("getPeakFrequencyHz", () => {
+    it("should return the center of a lone peak bin", () => {
+      const data = new Float32Array(1024).fill(-100);
+      data[100] = -10;
+
+      // 48 kHz over 1024 bins is 23.4375 Hz per bin
+      expect(getPeakFrequencyHz(data, 48000)).toBeCloseTo(100 * 23.4375);
+    });
+
+    it("should interpolate between bins", () => {
+      const data = new Float32Array(1024).fill(-100);
+      data[100] = -10;
+      data[101] = -12;
+      data[99] = -30;
+
+      const hz = getPeakFrequencyHz(data, 48000);
+      expect(hz).toBeGreaterThan(100 * 23.4375);
+      expect(hz).toBeLessThan(100.5 * 23.4375);
+    });
+
+    it("should ignore silent neighbours", () => {
+      const data = new Float32Array(8).fill(-Infinity);
+      data[3] = -20;
+
+      expect(getPeakFrequencyHz(data, 16000)).toBe(3000);
+    });
+
+    it("should return 0 when every bin is silent", () => {
+      expect(getPeakFrequencyHz(new Float32Array(8).fill(-Infinity), 44100)).toBe(0);
+    });
+  });
+
   describe("getBassEnergy", () => {
     it("should calculate energy from first 10% of frequencies", () => {
       // 10 elements, bass range = first 1 element
@@ -195,4 +265,61 @@ describe("audioHelpers", () => {
       expect(gap2).toBeGreaterThan(gap1);
     });
   });
+
+  describe("frequency scale conversions", () => {
+    it("should round-trip mel values", () => {
+      expect(melToHz(hzToMel(1000))).toBeCloseTo(1000, 6);
+      expect(hzToMel(1000)).toBeCloseTo(1000, 0);
+    });
+
+    it("should round-trip bark values", () => {
+      expect(barkToHz(hzToBark(4000))).toBeCloseTo(4000, 6);
+    });
+  });
+
+  describe("getScaledIndex", () => {
+    it("should map linearly on the linear scale", () => {
+      expect(getScaledIndex(0, 64, 1024, "linear")).toBe(0);
+      expect(getScaledIndex(32, 64, 1024, "linear")).toBe(512);
+      expect(getScaledIndex(64, 64, 1024, "linear")).toBe(1024);
+    });
+
+    it("should match getLogarithmicIndex on the log scale", () => {
+      expect(getScaledIndex(20, 64, 1024, "log")).toBe(getLogarithmicIndex(20, 64, 1024));
+    });
+
+    it("should devote more bars to low frequencies on perceptual scales", () => {
+      const linearMid = getScaledIndex(32, 64, 1024, "linear");
+      expect(getScaledIndex(32, 64, 1024, "mel")).toBeLessThan(linearMid);
+      expect(getScaledIndex(32, 64, 1024, "bark")).toBeLessThan(linearMid);
+    });
+
+    it("should stay within data bounds for every scale", () => {
+      for (const scale of ["linear", "log", "mel", "bark"] as const) {
+        expect(getScaledIndex(0, 64, 1024, scale)).toBe(0);
+        expect(getScaledIndex(64, 64, 1024, scale)).toBe(1024);
+      }
+    });
+  });
+
+  describe("getBandRange", () => {
+    it("should cover at least one bin per bar", () => {
+      for (let i = 0; i < 64; i++) {
+        const { start, end } = getBandRange(i, 64, 1024, "log");
+        expect(end).toBeGreaterThan(start);
+      }
+    });
+  });
+
+  describe("getBandLevel", () => {
+    it("should average the bins in range", () => {
+      const data = new Uint8Array([0, 255, 255, 0]);
+      expect(getBandLevel(data, 1, 3)).toBe(1);
+      expect(getBandLevel(data, 0, 4)).toBe(0.5);
+    });
+
+    it("should return 0 for an empty range", () => {
+      expect(getBandLevel(new Uint8Array(4), 2, 2)).toBe(0);
+    });
+  });
 });
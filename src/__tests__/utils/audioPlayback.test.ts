@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  isSupportedAudioFile,
+  formatTime,
+  createBufferPlayback,
+} from "@/utils/audioPlayback";
+import { MockAudioContext, MockAudioBufferSourceNode } from "../setup";
+
+describe("audioPlayback", () => {
+  describe("isSupportedAudioFile", () => {
+    it("should accept audio MIME types", () => {
+      expect(isSupportedAudioFile(new File([], "track", { type: "audio/mpeg" }))).toBe(true);
+    });
+
+    it("should accept known extensions without a MIME type", () => {
+      for (const name of ["a.mp3", "b.WAV", "c.ogg", "d.flac"]) {
+        expect(isSupportedAudioFile(new File([], name))).toBe(true);
+      }
+    });
+
+    it("should reject other files", () => {
+      expect(isSupportedAudioFile(new File([], "notes.txt", { type: "text/plain" }))).toBe(false);
+      expect(isSupportedAudioFile(new File([], "video.mp4", { type: "video/mp4" }))).toBe(false);
+    });
+  });
+
+  describe("formatTime", () => {
+    it("should format seconds as m:ss", () => {
+      expect(formatTime(0)).toBe("0:00");
+      expect(formatTime(7.9)).toBe("0:07");
+      expect(formatTime(125)).toBe("2:05");
+    });
+
+    it("should handle invalid values", () => {
+      expect(formatTime(NaN)).toBe("0:00");
+      expect(formatTime(Infinity)).toBe("0:00");
+      expect(formatTime(-1)).toBe("0:00");
+    });
+  });
+
+  describe("createBufferPlayback", () => {
+    let ctx: MockAudioContext;
+    const buffer = { duration: 10 } as AudioBuffer;
+    const output = {} as AudioNode;
+
+    beforeEach(() => {
+      ctx = new MockAudioContext();
+    });
+
+    function create(onEnded = vi.fn()) {
+      return createBufferPlayback(ctx as unknown as AudioContext, buffer, output, onEnded);
+    }
+
+    function lastSource(): MockAudioBufferSourceNode {
+      const results = ctx.createBufferSource.mock.results;
+      return results[results.length - 1].value;
+    }
+
+    it("should start a buffer source from the beginning", async () => {
+      const engine = create();
+      await engine.play();
+
+      expect(engine.isPlaying).toBe(true);
+      expect(lastSource().connect).toHaveBeenCalledWith(output);
+      expect(lastSource().start).toHaveBeenCalledWith(0, 0);
+    });
+
+    it("should track position from the context clock", async () => {
+      const engine = create();
+      await engine.play();
+      ctx.currentTime = 3;
+
+      expect(engine.getCurrentTime()).toBe(3);
+    });
+
+    it("should resume from the paused position", async () => {
+      const engine = create();
+      await engine.play();
+      ctx.currentTime = 4;
+      engine.pause();
+
+      expect(engine.isPlaying).toBe(false);
+      expect(engine.getCurrentTime()).toBe(4);
+
+      ctx.currentTime = 20;
+      await engine.play();
+      expect(lastSource().start).toHaveBeenCalledWith(0, 4);
+      expect(engine.getCurrentTime()).toBe(4);
+    });
+
+    it("should restart the source when seeking while playing", async () => {
+      const engine = create();
+      await engine.play();
+      const first = lastSource();
+
+      engine.seek(7);
+
+      expect(first.stop).toHaveBeenCalled();
+      expect(lastSource()).not.toBe(first);
+      expect(lastSource().start).toHaveBeenCalledWith(0, 7);
+    });
+
+    it("should clamp seeks to the buffer", () => {
+      const engine = create();
+      engine.seek(42);
+      expect(engine.getCurrentTime()).toBe(10);
+      engine.seek(-5);
+      expect(engine.getCurrentTime()).toBe(0);
+    });
+
+    it("should wrap position when looping", async () => {
+      const engine = create();
+      engine.setLoop(true);
+      await engine.play();
+
+      expect(lastSource().loop).toBe(true);
+      ctx.currentTime = 13;
+      expect(engine.getCurrentTime()).toBe(3);
+    });
+
+    it("should rewind and notify when the track ends", async () => {
+      const onEnded = vi.fn();
+      const engine = create(onEnded);
+      await engine.play();
+      ctx.currentTime = 10;
+
+      lastSource().onended?.();
+
+      expect(onEnded).toHaveBeenCalledTimes(1);
+      expect(engine.isPlaying).toBe(false);
+      expect(engine.getCurrentTime()).toBe(0);
+    });
+
+    it("should not report an end when paused manually", async () => {
+      const onEnded = vi.fn();
+      const engine = create(onEnded);
+      await engine.play();
+      const source = lastSource();
+      engine.pause();
+
+      expect(source.onended).toBeNull();
+      expect(onEnded).not.toHaveBeenCalled();
+    });
+  });
+});
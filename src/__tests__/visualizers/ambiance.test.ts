@@ -1,15 +1,17 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { ambianceVisualizer } from "@/visualizers/ambiance";
-import type { AnalyserData } from "@/visualizers/types";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
 import { createMockCanvasContext } from "../setup";
 
 describe("ambianceVisualizer", () => {
   let ctx: CanvasRenderingContext2D;
+  let instance: VisualizerInstance;
   const dimensions = { width: 800, height: 600 };
   const deltaTime = 16;
 
   beforeEach(() => {
     ctx = createMockCanvasContext();
+    instance = ambianceVisualizer.create();
     vi.clearAllMocks();
   });
 
@@ -25,6 +27,11 @@ describe("ambianceVisualizer", () => {
       timeDomainData: new Uint8Array(2048).fill(128),
       averageFrequency: 0.5,
       peakFrequency: 50,
+      isBeat: false,
+      beatConfidence: 0,
+      bpm: 0,
+      beatPhase: 0,
+      isSectionChange: false,
       ...options,
     };
   }
@@ -46,14 +53,14 @@ describe("ambianceVisualizer", () => {
 
   it("should clear canvas with heavy fade for trails", () => {
     const data = createMockData();
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
 
     expect(ctx.fillRect).toHaveBeenCalled();
   });
 
   it("should draw particles", () => {
     const data = createMockData();
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Particles are drawn with arc
     expect(ctx.arc).toHaveBeenCalled();
@@ -62,7 +69,7 @@ describe("ambianceVisualizer", () => {
 
   it("should create radial gradients for particles", () => {
     const data = createMockData();
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
 
     expect(ctx.createRadialGradient).toHaveBeenCalled();
   });
@@ -72,14 +79,14 @@ describe("ambianceVisualizer", () => {
 
     // Fewer particles
     const config1 = { ...ambianceVisualizer.defaultConfig, particleCount: 20 };
-    ambianceVisualizer.render(ctx, data, config1, dimensions, deltaTime);
+    instance.render(ctx, data, config1, dimensions, deltaTime);
     const arcCalls1 = (ctx.arc as ReturnType<typeof vi.fn>).mock.calls.length;
 
     vi.clearAllMocks();
 
     // More particles
     const config2 = { ...ambianceVisualizer.defaultConfig, particleCount: 100 };
-    ambianceVisualizer.render(ctx, data, config2, dimensions, deltaTime);
+    instance.render(ctx, data, config2, dimensions, deltaTime);
     const arcCalls2 = (ctx.arc as ReturnType<typeof vi.fn>).mock.calls.length;
 
     // More particles should result in more draw calls
@@ -91,7 +98,7 @@ describe("ambianceVisualizer", () => {
       frequencyData: new Uint8Array(1024).map((_, i) => i < 100 ? 255 : 0),
     });
 
-    ambianceVisualizer.render(ctx, highBassData, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, highBassData, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Should still render
     expect(ctx.arc).toHaveBeenCalled();
@@ -99,7 +106,7 @@ describe("ambianceVisualizer", () => {
 
   it("should apply glow effects", () => {
     const data = createMockData();
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Shadow should be set for glow
     expect(ctx.shadowBlur).toBeDefined();
@@ -107,7 +114,7 @@ describe("ambianceVisualizer", () => {
 
   it("should draw background gradient", () => {
     const data = createMockData();
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Background gradient for ambient effect
     expect(ctx.createRadialGradient).toHaveBeenCalled();
@@ -118,7 +125,7 @@ describe("ambianceVisualizer", () => {
     const data = createMockData({ frequencyData: new Uint8Array(0) });
 
     expect(() => {
-      ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+      instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
     }).not.toThrow();
   });
 
@@ -126,9 +133,9 @@ describe("ambianceVisualizer", () => {
     const data = createMockData();
 
     // Render multiple frames
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Should continue to render
     expect(ctx.arc).toHaveBeenCalled();
@@ -139,20 +146,20 @@ describe("ambianceVisualizer", () => {
 
     // Low reactivity
     const config1 = { ...ambianceVisualizer.defaultConfig, reactivity: 0.5 };
-    ambianceVisualizer.render(ctx, data, config1, dimensions, deltaTime);
+    instance.render(ctx, data, config1, dimensions, deltaTime);
     expect(ctx.arc).toHaveBeenCalled();
 
     vi.clearAllMocks();
 
     // High reactivity
     const config2 = { ...ambianceVisualizer.defaultConfig, reactivity: 5 };
-    ambianceVisualizer.render(ctx, data, config2, dimensions, deltaTime);
+    instance.render(ctx, data, config2, dimensions, deltaTime);
     expect(ctx.arc).toHaveBeenCalled();
   });
 
   it("should draw inner bright cores on particles", () => {
     const data = createMockData();
-    ambianceVisualizer.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, ambianceVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Multiple arcs per particle (main + core)
     const arcCalls = (ctx.arc as ReturnType<typeof vi.fn>).mock.calls.length;
@@ -1,15 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { barsVisualizer } from "@/visualizers/bars";
-import type { AnalyserData } from "@/visualizers/types";
+import { getBandRange } from "@/utils/audioHelpers";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
 import { createMockCanvasContext } from "../setup";
 
 describe("barsVisualizer", () => {
   let ctx: CanvasRenderingContext2D;
+  let instance: VisualizerInstance;
   const dimensions = { width: 800, height: 600 };
   const deltaTime = 16;
 
   beforeEach(() => {
     ctx = createMockCanvasContext();
+    instance = barsVisualizer.create();
     vi.clearAllMocks();
   });
 
@@ -19,6 +22,11 @@ describe("barsVisualizer", () => {
       timeDomainData: new Uint8Array(2048).fill(128),
       averageFrequency: 0.5,
       peakFrequency: 512,
+      isBeat: false,
+      beatConfidence: 0,
+      bpm: 0,
+      beatPhase: 0,
+      isSectionChange: false,
       ...options,
     };
   }
@@ -35,11 +43,14 @@ describe("barsVisualizer", () => {
     expect(config.barWidthRatio).toBe(0.75);
     expect(config.showReflection).toBe(true);
     expect(config.smoothing).toBe(0.3);
+    expect(config.style).toBe("spectrum");
+    expect(config.frequencyScale).toBe("log");
+    expect(config.showPeaks).toBe(true);
   });
 
   it("should clear canvas before rendering", () => {
     const data = createMockData();
-    barsVisualizer.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
 
     expect(ctx.fillRect).toHaveBeenCalled();
     // First call should be the clear
@@ -50,13 +61,13 @@ describe("barsVisualizer", () => {
     const data = createMockData({ frequencyData: new Uint8Array(0) });
 
     expect(() => {
-      barsVisualizer.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
+      instance.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
     }).not.toThrow();
   });
 
   it("should render correct number of bars", () => {
     const data = createMockData();
-    barsVisualizer.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
 
     // fillRect is called for each bar + clear + reflection + baseline
     // At minimum, should be called more than just once for clear
@@ -69,7 +80,7 @@ describe("barsVisualizer", () => {
     const data = createMockData();
     const config = { ...barsVisualizer.defaultConfig, barCount: 32 };
 
-    barsVisualizer.render(ctx, data, config, dimensions, deltaTime);
+    instance.render(ctx, data, config, dimensions, deltaTime);
 
     expect(ctx.fillRect).toHaveBeenCalled();
   });
@@ -78,7 +89,7 @@ describe("barsVisualizer", () => {
     const data = createMockData();
     const config = { ...barsVisualizer.defaultConfig, showReflection: true };
 
-    barsVisualizer.render(ctx, data, config, dimensions, deltaTime);
+    instance.render(ctx, data, config, dimensions, deltaTime);
 
     // Should create gradient for reflection
     expect(ctx.createLinearGradient).toHaveBeenCalled();
@@ -89,14 +100,14 @@ describe("barsVisualizer", () => {
     const config = { ...barsVisualizer.defaultConfig, showReflection: false };
 
     vi.clearAllMocks();
-    barsVisualizer.render(ctx, data, config, dimensions, deltaTime);
+    instance.render(ctx, data, config, dimensions, deltaTime);
 
     // Gradient might still be called for other effects, but less frequently
     const gradientCalls = (ctx.createLinearGradient as ReturnType<typeof vi.fn>).mock.calls.length;
 
     vi.clearAllMocks();
     const configWithReflection = { ...config, showReflection: true };
-    barsVisualizer.render(ctx, data, configWithReflection, dimensions, deltaTime);
+    instance.render(ctx, data, configWithReflection, dimensions, deltaTime);
 
     const gradientCallsWithReflection = (ctx.createLinearGradient as ReturnType<typeof vi.fn>).mock.calls.length;
 
@@ -105,7 +116,7 @@ describe("barsVisualizer", () => {
 
   it("should draw baseline", () => {
     const data = createMockData();
-    barsVisualizer.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
 
     expect(ctx.beginPath).toHaveBeenCalled();
     expect(ctx.moveTo).toHaveBeenCalled();
@@ -118,7 +129,7 @@ describe("barsVisualizer", () => {
     const highAmplitudeData = new Uint8Array(1024).fill(200);
     const data = createMockData({ frequencyData: highAmplitudeData });
 
-    barsVisualizer.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, barsVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Shadow blur should be set for glow effect
     expect(ctx.shadowBlur).toBeDefined();
@@ -128,13 +139,132 @@ describe("barsVisualizer", () => {
     const data = createMockData();
 
     // Small dimensions
-    barsVisualizer.render(ctx, data, barsVisualizer.defaultConfig, { width: 200, height: 150 }, deltaTime);
+    instance.render(ctx, data, barsVisualizer.defaultConfig, { width: 200, height: 150 }, deltaTime);
     expect(ctx.fillRect).toHaveBeenCalled();
 
     vi.clearAllMocks();
 
     // Large dimensions
-    barsVisualizer.render(ctx, data, barsVisualizer.defaultConfig, { width: 1920, height: 1080 }, deltaTime);
+    instance.render(ctx, data, barsVisualizer.defaultConfig, { width: 1920, height: 1080 }, deltaTime);
     expect(ctx.fillRect).toHaveBeenCalled();
   });
+
+  describe("spectrum style", () => {
+    const baseY = dimensions.height * 0.9;
+    const config = {
+      ...barsVisualizer.defaultConfig,
+      barCount: 16,
+      smoothing: 0,
+      showReflection: false,
+      showPeaks: false,
+      frequencyScale: "linear",
+    };
+
+    // Height of each bar keyed by its x position (bars sit on the baseline)
+    function getBarHeights(): number[] {
+      const heights = new Map<number, number>();
+      for (const [x, y, , h] of (ctx.fillRect as ReturnType<typeof vi.fn>).mock.calls) {
+        if (Math.abs(y + h - baseY) < 0.001) {
+          heights.set(x, Math.max(heights.get(x) ?? 0, h));
+        }
+      }
+      return [...heights.entries()].sort((a, b) => a[0] - b[0]).map(([, h]) => h);
+    }
+
+    it("should follow the spectrum instead of the average level", () => {
+      // Energy only in the lowest quarter of the spectrum
+      const frequencyData = new Uint8Array(1024);
+      frequencyData.fill(255, 0, 256);
+      const data = createMockData({ frequencyData, averageFrequency: 0.25 });
+
+      instance.render(ctx, data, config, dimensions, deltaTime);
+      const heights = getBarHeights();
+
+      expect(heights).toHaveLength(16);
+      expect(heights[0]).toBeGreaterThan(100);
+      expect(heights[3]).toBeGreaterThan(100);
+      expect(heights[8]).toBeLessThanOrEqual(2);
+      expect(heights[15]).toBeLessThanOrEqual(2);
+    });
+
+    it("should draw peak caps that hold above a falling bar", () => {
+      const loud = createMockData({ frequencyData: new Uint8Array(1024).fill(255) });
+      const quiet = createMockData({ frequencyData: new Uint8Array(1024) });
+      const peakConfig = { ...config, showPeaks: true, peakHoldTime: 1000 };
+
+      instance.render(ctx, loud, peakConfig, dimensions, deltaTime);
+      vi.clearAllMocks();
+      instance.render(ctx, quiet, peakConfig, dimensions, deltaTime);
+
+      // Peak cap drawn well above the now-flat bars
+      const capCalls = (ctx.fillRect as ReturnType<typeof vi.fn>).mock.calls.filter(
+        ([, y, , h]) => h === 2 && y < baseY - 100
+      );
+      expect(capCalls.length).toBe(16);
+    });
+
+    it("should place mel bands using the analyser's sample rate", () => {
+      // Energy only in the bins bar 8 covers at 48 kHz
+      const { start, end } = getBandRange(8, 16, 1024, "mel", 48000);
+      const frequencyData = new Uint8Array(1024);
+      frequencyData.fill(255, start, end);
+      const melConfig = { ...config, frequencyScale: "mel" };
+
+      instance.render(ctx, createMockData({ frequencyData, sampleRate: 48000 }), melConfig, dimensions, deltaTime);
+      const at48k = getBarHeights()[8];
+      vi.clearAllMocks();
+      instance.reset();
+      instance.render(ctx, createMockData({ frequencyData, sampleRate: 44100 }), melConfig, dimensions, deltaTime);
+      const at44k = getBarHeights()[8];
+
+      expect(at48k).toBeCloseTo(dimensions.height * 0.85, 5);
+      expect(at44k).toBeLessThan(at48k);
+    });
+  });
+
+  describe("energetic style", () => {
+    it("should still render bars from the average level", () => {
+      const data = createMockData({ frequencyData: new Uint8Array(1024) });
+      const config = { ...barsVisualizer.defaultConfig, style: "energetic" };
+
+      instance.render(ctx, data, config, dimensions, deltaTime);
+
+      const calls = (ctx.fillRect as ReturnType<typeof vi.fn>).mock.calls;
+      expect(calls.length).toBeGreaterThan(64);
+    });
+  });
+
+  describe("lifecycle", () => {
+    const baseY = dimensions.height * 0.9;
+    const config = { ...barsVisualizer.defaultConfig, smoothing: 0, peakHoldTime: 1000 };
+    const loud = () => createMockData({ frequencyData: new Uint8Array(1024).fill(255) });
+    const quiet = () => createMockData({ frequencyData: new Uint8Array(1024) });
+
+    // Peak caps still held high above the baseline
+    function getRaisedCaps() {
+      return (ctx.fillRect as ReturnType<typeof vi.fn>).mock.calls.filter(
+        ([, y, , h]) => h === 2 && y < baseY - 100
+      );
+    }
+
+    it("should not share animation state between instances", () => {
+      instance.render(ctx, loud(), config, dimensions, deltaTime);
+
+      vi.clearAllMocks();
+      const other = barsVisualizer.create();
+      other.render(ctx, quiet(), config, dimensions, deltaTime);
+
+      expect(getRaisedCaps()).toHaveLength(0);
+    });
+
+    it("should drop held peaks on reset", () => {
+      instance.render(ctx, loud(), config, dimensions, deltaTime);
+      instance.reset();
+
+      vi.clearAllMocks();
+      instance.render(ctx, quiet(), config, dimensions, deltaTime);
+
+      expect(getRaisedCaps()).toHaveLength(0);
+    });
+  });
 });
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createCanvasRenderer } from "@/visualizers/canvasRenderer";
+import { barsVisualizer, scopeVisualizer, warpVisualizer } from "@/visualizers";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
+
+function createMockInstance(): VisualizerInstance {
+  return { render: vi.fn(), resize: vi.fn(), reset: vi.fn(), dispose: vi.fn() };
+}
+
+const data: AnalyserData = {
+  frequencyData: new Uint8Array(1024),
+  timeDomainData: new Uint8Array(2048).fill(128),
+  averageFrequency: 0,
+  peakFrequency: 0,
+  isBeat: false,
+  beatConfidence: 0,
+  bpm: 0,
+  beatPhase: 0,
+  isSectionChange: false,
+};
+
+describe("createCanvasRenderer", () => {
+  let canvas: HTMLCanvasElement;
+  let ctx: CanvasRenderingContext2D;
+  let barsInstance: VisualizerInstance;
+  let scopeInstance: VisualizerInstance;
+
+  beforeEach(() => {
+    canvas = document.createElement("canvas");
+    // Keep one context so calls on it can be checked
+    ctx = canvas.getContext("2d")!;
+    vi.spyOn(canvas, "getContext").mockReturnValue(ctx);
+
+    barsInstance = createMockInstance();
+    scopeInstance = createMockInstance();
+    vi.spyOn(barsVisualizer, "create").mockReturnValue(barsInstance);
+    vi.spyOn(scopeVisualizer, "create").mockReturnValue(scopeInstance);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should size the backing store for the pixel ratio", () => {
+    const renderer = createCanvasRenderer(canvas, "bars");
+
+    renderer.resize({ width: 400, height: 300 }, 2);
+
+    expect(canvas.width).toBe(800);
+    expect(canvas.height).toBe(600);
+    expect(ctx.scale).toHaveBeenCalledWith(2, 2);
+    expect(barsInstance.resize).toHaveBeenCalledWith({ width: 400, height: 300 });
+  });
+
+  it("should render the current instance in CSS pixels", () => {
+    const renderer = createCanvasRenderer(canvas, "bars");
+    const config = { barCount: 32 };
+    renderer.resize({ width: 400, height: 300 }, 2);
+
+    renderer.render(data, config, 16);
+
+    expect(barsInstance.render).toHaveBeenCalledWith(ctx, data, config, { width: 400, height: 300 }, 16);
+  });
+
+  it("should replace the instance when the mode changes", () => {
+    const renderer = createCanvasRenderer(canvas, "bars");
+    renderer.resize({ width: 400, height: 300 }, 1);
+
+    renderer.setMode("scope");
+    renderer.render(data, {}, 16);
+
+    expect(barsInstance.dispose).toHaveBeenCalled();
+    expect(scopeInstance.resize).toHaveBeenCalledWith({ width: 400, height: 300 });
+    expect(scopeInstance.render).toHaveBeenCalled();
+    expect(barsInstance.render).not.toHaveBeenCalled();
+  });
+
+  it("should forward reset and dispose to the instance", () => {
+    const renderer = createCanvasRenderer(canvas, "bars");
+
+    renderer.reset();
+    renderer.dispose();
+
+    expect(barsInstance.reset).toHaveBeenCalled();
+    expect(barsInstance.dispose).toHaveBeenCalled();
+  });
+
+  it("should restart the seeded random sequence on reset and on a new seed", () => {
+    const create = vi.mocked(barsVisualizer.create);
+    const renderer = createCanvasRenderer(canvas, "bars", 5);
+    const { random } = create.mock.calls[0][0]!;
+    const first = [random!(), random!()];
+
+    renderer.reset();
+    expect([random!(), random!()]).toEqual(first);
+
+    renderer.setSeed(6);
+    expect(barsInstance.reset).toHaveBeenCalledTimes(2);
+    expect(random!()).not.toBe(first[0]);
+
+    // Each renderer gets its own sequence from the same seed
+    createCanvasRenderer(canvas, "bars", 5);
+    const other = create.mock.calls[1][0]!.random!;
+    expect([other(), other()]).toEqual(first);
+  });
+
+  it("should draw the idle message centered", () => {
+    const renderer = createCanvasRenderer(canvas, "bars");
+    renderer.resize({ width: 400, height: 300 }, 1);
+
+    renderer.drawIdle("Waiting for audio");
+
+    expect(ctx.fillText).toHaveBeenCalledWith("Waiting for audio", 200, 150);
+  });
+
+  it("should blend the outgoing mode into the incoming one during a transition", () => {
+    const renderer = createCanvasRenderer(canvas, "bars");
+    renderer.resize({ width: 400, height: 300 }, 1);
+    renderer.render(data, { barCount: 32 }, 16);
+
+    renderer.setMode("scope", { kind: "fade", duration: 100 });
+    renderer.render(data, {}, 50);
+
+    // Both modes draw into their own buffers while the blend goes to the canvas
+    expect(barsInstance.dispose).not.toHaveBeenCalled();
+    const barsCall = vi.mocked(barsInstance.render).mock.calls[1];
+    expect(barsCall[0]).not.toBe(ctx);
+    expect(barsCall[2]).toEqual({ barCount: 32 });
+    expect(vi.mocked(scopeInstance.render).mock.calls[0][0]).not.toBe(ctx);
+    expect(ctx.drawImage).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop the outgoing mode once the transition has run its length", () => {
+    const renderer = createCanvasRenderer(canvas, "bars");
+    renderer.resize({ width: 400, height: 300 }, 1);
+
+    renderer.setMode("scope", { kind: "wipe", duration: 100 });
+    renderer.render(data, {}, 60);
+    renderer.render(data, {}, 60);
+    expect(barsInstance.dispose).toHaveBeenCalled();
+
+    renderer.render(data, {}, 16);
+    expect(scopeInstance.render).toHaveBeenLastCalledWith(ctx, data, {}, { width: 400, height: 300 }, 16);
+    expect(barsInstance.render).toHaveBeenCalledTimes(2);
+  });
+
+  it("should switch at once without a transition", () => {
+    const renderer = createCanvasRenderer(canvas, "bars");
+    renderer.resize({ width: 400, height: 300 }, 1);
+
+    renderer.setMode("scope", { kind: "none", duration: 800 });
+    renderer.render(data, {}, 16);
+
+    expect(barsInstance.dispose).toHaveBeenCalled();
+    expect(barsInstance.render).not.toHaveBeenCalled();
+    expect(scopeInstance.render).toHaveBeenCalledWith(ctx, data, {}, { width: 400, height: 300 }, 16);
+  });
+
+  it("should use the 2D fallback for WebGL modes without WebGL2", () => {
+    const fallback = createMockInstance();
+    const create = vi.spyOn(warpVisualizer, "create");
+    vi.spyOn(warpVisualizer, "createFallback").mockReturnValue(fallback);
+    vi.mocked(canvas.getContext).mockImplementation(((contextId: string) =>
+      contextId === "2d" ? ctx : null) as typeof canvas.getContext);
+
+    const renderer = createCanvasRenderer(canvas, "warp");
+    renderer.resize({ width: 400, height: 300 }, 2);
+    renderer.render(data, {}, 16);
+
+    expect(renderer.contextType).toBe("webgl2");
+    expect(create).not.toHaveBeenCalled();
+    expect(ctx.scale).toHaveBeenCalledWith(2, 2);
+    expect(fallback.render).toHaveBeenCalledWith(ctx, data, {}, { width: 400, height: 300 }, 16);
+  });
+});
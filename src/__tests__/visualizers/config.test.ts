@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { barsVisualizer, scopeVisualizer, listVisualizers } from "@/visualizers";
+import { coerceConfigValue, resolveConfig } from "@/visualizers/config";
+import type { ConfigField } from "@/visualizers/types";
+
+describe("visualizer config", () => {
+  describe("schemas", () => {
+    const renderers = listVisualizers().map(({ id, renderer }) => [id, renderer] as const);
+
+    it.each(renderers)("%s schema should describe its default config", (_, renderer) => {
+      for (const [key, field] of Object.entries(renderer.configSchema)) {
+        expect(renderer.defaultConfig).toHaveProperty(key);
+        const value = renderer.defaultConfig[key];
+
+        // Defaults must already be valid for their own schema, so the fallback is never used
+        expect(coerceConfigValue(field as ConfigField, value, "__invalid__")).toBe(value);
+      }
+    });
+  });
+
+  describe("coerceConfigValue", () => {
+    const numberField: ConfigField = { type: "number", label: "Count", min: 0, max: 10, step: 1 };
+
+    it("should clamp numbers to the schema range", () => {
+      expect(coerceConfigValue(numberField, 20, 5)).toBe(10);
+      expect(coerceConfigValue(numberField, -3, 5)).toBe(0);
+      expect(coerceConfigValue(numberField, 7, 5)).toBe(7);
+    });
+
+    it("should fall back for values of the wrong type", () => {
+      expect(coerceConfigValue(numberField, "7", 5)).toBe(5);
+      expect(coerceConfigValue(numberField, NaN, 5)).toBe(5);
+      expect(coerceConfigValue({ type: "boolean", label: "On" }, "yes", false)).toBe(false);
+    });
+
+    it("should only accept hex colors", () => {
+      const field: ConfigField = { type: "color", label: "Color" };
+      expect(coerceConfigValue(field, "#a1b2c3", "#000000")).toBe("#a1b2c3");
+      expect(coerceConfigValue(field, "red", "#000000")).toBe("#000000");
+    });
+
+    it("should only accept listed enum options", () => {
+      const field: ConfigField = {
+        type: "enum",
+        label: "Layout",
+        options: [{ value: "full", label: "Full" }],
+      };
+      expect(coerceConfigValue(field, "full", "mirrored")).toBe("full");
+      expect(coerceConfigValue(field, "spiral", "mirrored")).toBe("mirrored");
+    });
+  });
+
+  describe("resolveConfig", () => {
+    it("should return a copy of the defaults without overrides", () => {
+      const config = resolveConfig(barsVisualizer);
+      expect(config).toEqual(barsVisualizer.defaultConfig);
+      expect(config).not.toBe(barsVisualizer.defaultConfig);
+    });
+
+    it("should apply valid overrides and drop unknown keys", () => {
+      const config = resolveConfig(barsVisualizer, { barCount: 32, bogus: 1 });
+      expect(config.barCount).toBe(32);
+      expect(config).not.toHaveProperty("bogus");
+    });
+
+    it("should drop keys that only exist on the object prototype", () => {
+      const config = resolveConfig(barsVisualizer, JSON.parse('{"constructor": 1, "toString": "x", "barCount": 32}'));
+
+      expect(config).toEqual({ ...barsVisualizer.defaultConfig, barCount: 32 });
+      expect(Object.hasOwn(config, "constructor")).toBe(false);
+      expect(Object.hasOwn(config, "toString")).toBe(false);
+    });
+
+    it("should replace out-of-schema values", () => {
+      const config = resolveConfig(scopeVisualizer, { layout: "spiral", barCount: 10000 });
+      expect(config.layout).toBe(scopeVisualizer.defaultConfig.layout);
+      expect(config.barCount).toBe(256);
+    });
+  });
+});
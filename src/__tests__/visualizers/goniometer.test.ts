@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  goniometerVisualizer,
+  getPhaseCorrelation,
+  getStereoChannels,
+} from "@/visualizers/goniometer";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
+import { createMockCanvasContext } from "../setup";
+
+function sine(length: number, phase = 0, amplitude = 100): Uint8Array {
+  const data = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    data[i] = Math.round(128 + Math.sin(i * 0.1 + phase) * amplitude);
+  }
+  return data;
+}
+
+describe("goniometerVisualizer", () => {
+  let ctx: CanvasRenderingContext2D;
+  let instance: VisualizerInstance;
+  const dimensions = { width: 800, height: 600 };
+  const deltaTime = 16;
+
+  beforeEach(() => {
+    ctx = createMockCanvasContext();
+    instance = goniometerVisualizer.create();
+    vi.clearAllMocks();
+  });
+
+  function createMockData(left?: Uint8Array, right?: Uint8Array): AnalyserData {
+    const data: AnalyserData = {
+      frequencyData: new Uint8Array(1024).fill(128),
+      timeDomainData: sine(2048),
+      averageFrequency: 0.5,
+      peakFrequency: 10,
+      isBeat: false,
+      beatConfidence: 0,
+      bpm: 0,
+      beatPhase: 0,
+      isSectionChange: false,
+    };
+    if (left && right) {
+      data.left = { frequencyData: new Uint8Array(1024), timeDomainData: left };
+      data.right = {
+        frequencyData: new Uint8Array(1024),
+        timeDomainData: right,
+      };
+    }
+    return data;
+  }
+
+  it("should have correct metadata", () => {
+    expect(goniometerVisualizer.name).toBe("Goniometer");
+    expect(goniometerVisualizer.description).toContain("correlation");
+    expect(Object.keys(goniometerVisualizer.configSchema).sort()).toEqual(
+      Object.keys(goniometerVisualizer.defaultConfig).sort(),
+    );
+  });
+
+  describe("getPhaseCorrelation", () => {
+    it("should be +1 for identical channels", () => {
+      const signal = sine(1024);
+      expect(getPhaseCorrelation(signal, signal)).toBeCloseTo(1, 5);
+    });
+
+    it("should be -1 for inverted channels", () => {
+      expect(getPhaseCorrelation(sine(1024), sine(1024, Math.PI))).toBeCloseTo(
+        -1,
+        2,
+      );
+    });
+
+    it("should be near 0 for channels 90 degrees apart", () => {
+      expect(
+        Math.abs(getPhaseCorrelation(sine(2048), sine(2048, Math.PI / 2))),
+      ).toBeLessThan(0.05);
+    });
+
+    it("should be 0 for silence", () => {
+      const silence = new Uint8Array(1024).fill(128);
+      expect(getPhaseCorrelation(silence, silence)).toBe(0);
+    });
+  });
+
+  describe("getStereoChannels", () => {
+    it("should use the per-channel buffers when present", () => {
+      const left = sine(64);
+      const right = sine(64, 1);
+      const channels = getStereoChannels(createMockData(left, right));
+
+      expect(channels).toEqual({ left, right, isMono: false });
+    });
+
+    it("should fall back to the mixed signal for mono input", () => {
+      const data = createMockData();
+      const channels = getStereoChannels(data);
+
+      expect(channels.isMono).toBe(true);
+      expect(channels.left).toBe(data.timeDomainData);
+      expect(channels.right).toBe(data.timeDomainData);
+    });
+  });
+
+  it("should trace stereo input as a path", () => {
+    instance.render(
+      ctx,
+      createMockData(sine(2048), sine(2048, 1)),
+      goniometerVisualizer.defaultConfig,
+      dimensions,
+      deltaTime,
+    );
+
+    expect(ctx.moveTo).toHaveBeenCalled();
+    expect(ctx.lineTo).toHaveBeenCalled();
+    expect(ctx.stroke).toHaveBeenCalled();
+  });
+
+  it("should draw mono input on the vertical axis", () => {
+    const config = {
+      ...goniometerVisualizer.defaultConfig,
+      showGrid: false,
+      showCorrelation: false,
+    };
+    instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+
+    const xs = vi.mocked(ctx.lineTo).mock.calls.map(([x]) => x);
+    expect(xs.length).toBeGreaterThan(0);
+    xs.forEach((x) => expect(x).toBeCloseTo(dimensions.width / 2, 5));
+  });
+
+  it("should label mono input on the correlation meter", () => {
+    instance.render(
+      ctx,
+      createMockData(),
+      goniometerVisualizer.defaultConfig,
+      dimensions,
+      deltaTime,
+    );
+
+    expect(ctx.fillText).toHaveBeenCalledWith(
+      "MONO",
+      expect.any(Number),
+      expect.any(Number),
+    );
+  });
+
+  it("should draw dots instead of a path", () => {
+    const config = {
+      ...goniometerVisualizer.defaultConfig,
+      style: "dots",
+      showGrid: false,
+      showCorrelation: false,
+    };
+    instance.render(
+      ctx,
+      createMockData(sine(2048), sine(2048, 1)),
+      config,
+      dimensions,
+      deltaTime,
+    );
+
+    expect(ctx.lineTo).not.toHaveBeenCalled();
+    expect(vi.mocked(ctx.fillRect).mock.calls.length).toBeGreaterThan(100);
+  });
+
+  it("should ease the correlation needle towards the measured value", () => {
+    const data = createMockData(sine(2048), sine(2048));
+    const config = { ...goniometerVisualizer.defaultConfig, showGrid: false };
+    const readout = () => {
+      const labels = vi.mocked(ctx.fillText).mock.calls.map(([text]) => text);
+      return Number(labels[labels.length - 1]);
+    };
+
+    instance.render(ctx, data, config, dimensions, deltaTime);
+    const first = readout();
+    for (let i = 0; i < 60; i++) {
+      instance.render(ctx, data, config, dimensions, deltaTime);
+    }
+
+    expect(first).toBeGreaterThan(0);
+    expect(first).toBeLessThan(0.5);
+    expect(readout()).toBeCloseTo(1, 1);
+
+    instance.reset();
+    vi.mocked(ctx.fillText).mockClear();
+    instance.render(ctx, data, config, dimensions, deltaTime);
+    expect(readout()).toBeCloseTo(first, 5);
+  });
+
+  it("should handle empty data", () => {
+    const data: AnalyserData = {
+      frequencyData: new Uint8Array(0),
+      timeDomainData: new Uint8Array(0),
+      averageFrequency: 0,
+      peakFrequency: 0,
+      isBeat: false,
+      beatConfidence: 0,
+      bpm: 0,
+      beatPhase: 0,
+      isSectionChange: false,
+    };
+
+    expect(() =>
+      instance.render(
+        ctx,
+        data,
+        goniometerVisualizer.defaultConfig,
+        dimensions,
+        deltaTime,
+      ),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  builtinPalettes,
+  defaultCustomPalette,
+  getGradientRgb,
+  getPalette,
+  getPaletteCssVariables,
+  paletteField,
+  parseHexColor,
+  setCustomPalette,
+  toRgba,
+  validatePalette,
+  CUSTOM_PALETTE,
+  MAX_PALETTE_STOPS,
+  PaletteError,
+} from "@/visualizers/palettes";
+import { listVisualizers, resolveConfig } from "@/visualizers";
+import type { AnalyserData } from "@/visualizers/types";
+import { createMockCanvasContext } from "../setup";
+
+function createMockData(): AnalyserData {
+  return {
+    frequencyData: new Uint8Array(1024).fill(200),
+    timeDomainData: new Uint8Array(2048).fill(160),
+    averageFrequency: 0.7,
+    peakFrequency: 10,
+    isBeat: true,
+    beatConfidence: 1,
+    bpm: 120,
+    beatPhase: 0,
+    isSectionChange: false,
+  };
+}
+
+describe("palettes", () => {
+  afterEach(() => {
+    setCustomPalette(defaultCustomPalette);
+  });
+
+  it("should offer every built-in palette and the custom one", () => {
+    expect(paletteField.options.map((option) => option.value)).toEqual([
+      ...Object.keys(builtinPalettes),
+      CUSTOM_PALETTE,
+    ]);
+    for (const palette of Object.values(builtinPalettes)) {
+      expect(validatePalette(palette)).toEqual(palette);
+    }
+  });
+
+  it("should look palettes up by id, falling back to the default", () => {
+    const custom = { ...builtinPalettes.monochrome, name: "Mine" };
+
+    expect(getPalette("synthwave")).toBe(builtinPalettes.synthwave);
+    expect(getPalette("nope")).toBe(builtinPalettes.classic);
+    expect(getPalette(undefined)).toBe(builtinPalettes.classic);
+    // Names every object inherits aren't palettes
+    expect(getPalette("toString")).toBe(builtinPalettes.classic);
+    expect(getPalette("constructor")).toBe(builtinPalettes.classic);
+    expect(getPalette(CUSTOM_PALETTE)).toBe(defaultCustomPalette);
+    expect(getPalette(CUSTOM_PALETTE, custom)).toBe(custom);
+
+    setCustomPalette(custom);
+    expect(getPalette(CUSTOM_PALETTE)).toBe(custom);
+  });
+
+  it("should blend between gradient stops", () => {
+    const palette = { ...defaultCustomPalette, stops: ["#000000", "#ff0000", "#ffffff"] };
+
+    expect(getGradientRgb(palette, 0)).toEqual([0, 0, 0]);
+    expect(getGradientRgb(palette, 0.25)).toEqual([128, 0, 0]);
+    expect(getGradientRgb(palette, 0.5)).toEqual([255, 0, 0]);
+    expect(getGradientRgb(palette, 1)).toEqual([255, 255, 255]);
+    expect(getGradientRgb(palette, 2)).toEqual([255, 255, 255]);
+  });
+
+  it("should format colors for the canvas", () => {
+    expect(parseHexColor("#0a0A0f")).toEqual([10, 10, 15]);
+    expect(toRgba([10, 10, 15])).toBe("rgb(10, 10, 15)");
+    expect(toRgba([10, 10, 15], 0.5)).toBe("rgba(10, 10, 15, 0.5)");
+  });
+
+  it("should reject malformed palettes", () => {
+    const palette = builtinPalettes.classic;
+
+    expect(() => validatePalette("red")).toThrow(PaletteError);
+    expect(() => validatePalette({ ...palette, name: " " })).toThrow("Palette needs a name");
+    expect(() => validatePalette({ ...palette, stops: ["#ffffff"] })).toThrow('"stops"');
+    expect(() => validatePalette({ ...palette, stops: Array(MAX_PALETTE_STOPS + 1).fill("#ffffff") })).toThrow(
+      '"stops"'
+    );
+    expect(() => validatePalette({ ...palette, accent: "blue" })).toThrow('"accent" must be a hex color');
+  });
+
+  it("should match the stylesheet's colors for the classic palette", () => {
+    expect(getPaletteCssVariables(builtinPalettes.classic)).toEqual({
+      "--bg-primary": "#0a0a0f",
+      "--accent-blue": "#00bfff",
+      "--accent-cyan": "rgb(0, 255, 255)",
+      "--accent-green": "rgb(0, 255, 127)",
+      "--glow-blue": "rgba(0, 191, 255, 0.4)",
+      "--glow-green": "rgba(0, 255, 127, 0.4)",
+    });
+  });
+
+  it("should let every built-in visualizer draw with every palette", () => {
+    const ctx = createMockCanvasContext();
+    const dimensions = { width: 400, height: 300 };
+
+    for (const { renderer } of listVisualizers()) {
+      if (renderer.contextType !== "2d" || !renderer.configSchema.palette) continue;
+      const instance = renderer.create();
+      for (const { value } of paletteField.options) {
+        const config = resolveConfig(renderer, { palette: value });
+        expect(config.palette).toBe(value);
+        expect(() => instance.render(ctx, createMockData(), config, dimensions, 16)).not.toThrow();
+      }
+      instance.dispose();
+    }
+  });
+});
@@ -0,0 +1,337 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  parseProgram,
+  compileSource,
+  createScope,
+  ExpressionSyntaxError,
+  ExpressionCompileError,
+  parsePreset,
+  serializePreset,
+  validatePreset,
+  compilePreset,
+  PresetFormatError,
+  createPresetEngine,
+  getFrameStep,
+  FRAME_DEFAULTS,
+  builtinPresets,
+  presetVisualizer,
+  createPresetRenderer,
+  type Preset,
+} from "@/visualizers/preset";
+import { resolveConfig } from "@/visualizers";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
+import { createMockCanvasContext } from "../setup";
+
+function run(source: string, values: Record<string, number> = {}) {
+  const scope = createScope(values);
+  compileSource(source)(scope);
+  return scope;
+}
+
+function createMockData(overrides: Partial<AnalyserData> = {}): AnalyserData {
+  const timeDomainData = new Uint8Array(2048);
+  for (let i = 0; i < timeDomainData.length; i++) {
+    timeDomainData[i] = Math.round(128 + Math.sin(i * 0.05) * 64);
+  }
+  return {
+    frequencyData: new Uint8Array(1024).fill(128),
+    timeDomainData,
+    averageFrequency: 0.5,
+    peakFrequency: 10,
+    isBeat: false,
+    beatConfidence: 0,
+    bpm: 120,
+    beatPhase: 0.25,
+    isSectionChange: false,
+    ...overrides,
+  };
+}
+
+describe("preset expressions", () => {
+  it("should follow operator precedence", () => {
+    const scope = run("a = 1 + 2 * 3; b = (1 + 2) * 3; c = -2 ^ 2; d = 2 ^ 3 ^ 2; e = 7 % 4 - 1");
+
+    expect(scope.a).toBe(7);
+    expect(scope.b).toBe(9);
+    expect(scope.c).toBe(-4);
+    expect(scope.d).toBe(512);
+    expect(scope.e).toBe(2);
+  });
+
+  it("should treat comparisons and logic as 1 and 0", () => {
+    const scope = run("a = 2 > 1; b = 1 == 2; c = !0; d = 1 && 0; e = 0 || 3; f = 1 < 2 && 3 >= 3");
+
+    expect([scope.a, scope.b, scope.c, scope.d, scope.e, scope.f]).toEqual([1, 0, 1, 0, 1, 1]);
+  });
+
+  it("should update variables with compound assignments", () => {
+    const scope = run("x += 2; y *= 3; z -= 1; w /= 2", { x: 1, y: 2, z: 0, w: 5 });
+
+    expect([scope.x, scope.y, scope.z, scope.w]).toEqual([3, 6, -1, 2.5]);
+  });
+
+  it("should read missing variables as 0 and ignore case", () => {
+    const scope = run("Zoom = Missing + 1; total = ZOOM * 2");
+
+    expect(scope.zoom).toBe(1);
+    expect(scope.total).toBe(2);
+  });
+
+  it("should call built-in functions", () => {
+    const scope = run("a = max(2, 5); b = clamp(3, 0, 1); c = sqr(3); d = if(above(2, 1), 10, 20); e = abs(-4)");
+
+    expect([scope.a, scope.b, scope.c, scope.d, scope.e]).toEqual([5, 1, 9, 10, 4]);
+  });
+
+  it("should draw rand() from the source it is run with", () => {
+    const scope = createScope();
+    compileSource("a = rand(10); b = rand(2) + rand(2)")(scope, () => 0.25);
+
+    expect([scope.a, scope.b]).toEqual([2.5, 1]);
+    expect(() => compileSource("a = rand()")).toThrow("rand() takes 1 argument but was given 0");
+  });
+
+  it("should keep results finite", () => {
+    const scope = run("a = 1 / 0; b = 5 % 0; c = log(0); d = sqrt(-4)");
+
+    expect([scope.a, scope.b, scope.c, scope.d]).toEqual([0, 0, 0, 2]);
+  });
+
+  it("should allow comments, blank statements and newlines", () => {
+    const scope = run(`
+      // starting value
+      a = 1;;
+      b = a + 1; // trailing
+    `);
+
+    expect(scope.b).toBe(2);
+  });
+
+  it("should report syntax errors with a position", () => {
+    expect(() => parseProgram("a = 1;\nb = (2 + ")).toThrow(ExpressionSyntaxError);
+    expect(() => parseProgram("a = 1;\nb = 2 $ 3")).toThrow('Unexpected character "$" at line 2, column 7');
+  });
+
+  it("should reject statements that aren't assignments", () => {
+    expect(() => parseProgram("a + 1")).toThrow(/Expected an assignment/);
+    expect(() => parseProgram("a = 1 b = 2")).toThrow(ExpressionSyntaxError);
+  });
+
+  it("should reject unknown functions and wrong argument counts", () => {
+    expect(() => compileSource("a = eval(1)")).toThrow(ExpressionCompileError);
+    expect(() => compileSource("a = sin(1, 2)")).toThrow("sin() takes 1 argument but was given 2");
+    expect(() => compileSource("a = constructor(1)")).toThrow('Unknown function "constructor"');
+  });
+
+  it("should keep scope names away from object prototypes", () => {
+    const scope = run("constructor = 1; __proto__ = 2; tostring = constructor + 1");
+
+    expect(scope.constructor).toBe(1);
+    expect(scope.tostring).toBe(2);
+    expect(Object.getPrototypeOf(scope)).toBeNull();
+  });
+});
+
+describe("preset format", () => {
+  const preset: Preset = {
+    version: 1,
+    name: "Test",
+    values: { decay: 0.9 },
+    perFrame: "zoom = 1.1",
+  };
+
+  it("should round-trip through serialization", () => {
+    const compiled = parsePreset(serializePreset(preset));
+
+    expect(compiled.preset).toEqual(preset);
+    expect(compiled.init).toBeNull();
+    expect(compiled.perPoint).toBeNull();
+  });
+
+  it("should reject malformed files", () => {
+    expect(() => parsePreset("{")).toThrow("Preset file is not valid JSON");
+    expect(() => validatePreset([])).toThrow(PresetFormatError);
+    expect(() => validatePreset({ ...preset, version: 2 })).toThrow("Unsupported preset version 2");
+    expect(() => validatePreset({ ...preset, name: " " })).toThrow("Preset needs a name");
+    expect(() => validatePreset({ ...preset, perFrame: undefined })).toThrow('"perFrame" equations are required');
+    expect(() => validatePreset({ ...preset, perPoint: 5 })).toThrow('"perPoint" must be a string of equations');
+    expect(() => validatePreset({ ...preset, values: { zoom: "big" } })).toThrow('"values.zoom" must be a number');
+  });
+
+  it("should drop unknown fields", () => {
+    expect(validatePreset({ ...preset, script: "alert(1)" })).not.toHaveProperty("script");
+  });
+
+  it("should name the equations that fail to compile", () => {
+    expect(() => compilePreset({ ...preset, perPoint: "y = " })).toThrow(/Error in "perPoint"/);
+  });
+
+  it("should compile every built-in preset", () => {
+    for (const builtin of Object.values(builtinPresets)) {
+      expect(() => compilePreset(validatePreset(builtin))).not.toThrow();
+    }
+  });
+});
+
+describe("createPresetEngine", () => {
+  const deltaTime = 1000 / 60;
+
+  function createEngine(fields: Partial<Preset>) {
+    return createPresetEngine(compilePreset({ version: 1, name: "Test", perFrame: "", ...fields }));
+  }
+
+  it("should expose audio variables to the equations", () => {
+    const engine = createEngine({ perFrame: "zoom = 1 + vol; rot = beat; dx = bpm / 1000; dy = beat_phase" });
+
+    const values = engine.runFrame(createMockData({ isBeat: true }), deltaTime);
+
+    expect(values.zoom).toBe(1.5);
+    expect(values.rot).toBe(1);
+    expect(values.dx).toBe(0.12);
+    expect(values.dy).toBe(0.25);
+  });
+
+  it("should reset frame values each frame but keep custom variables", () => {
+    const engine = createEngine({ values: { decay: 0.8 }, init: "count = 10", perFrame: "count += 1; zoom = count" });
+
+    engine.runFrame(createMockData(), deltaTime);
+    const values = engine.runFrame(createMockData(), deltaTime);
+
+    expect(values.zoom).toBe(12);
+    expect(values.decay).toBe(0.8);
+    expect(values.rot).toBe(FRAME_DEFAULTS.rot);
+  });
+
+  it("should advance time and frame count", () => {
+    const engine = createEngine({ perFrame: "dx = frame; dy = time" });
+
+    engine.runFrame(createMockData(), 500);
+    const values = engine.runFrame(createMockData(), 500);
+
+    expect(values.dx).toBe(1);
+    expect(values.dy).toBeCloseTo(0.5);
+  });
+
+  it("should feed its random source to the equations", () => {
+    const compiled = compilePreset({ version: 1, name: "Test", init: "seed = rand(100)", perFrame: "dx = seed" });
+
+    const values = createPresetEngine(compiled, () => 0.5).runFrame(createMockData(), deltaTime);
+
+    expect(values.dx).toBe(50);
+  });
+
+  it("should run init again after reset", () => {
+    const engine = createEngine({ init: "count = 0", perFrame: "count += 1; zoom = count" });
+
+    engine.runFrame(createMockData(), deltaTime);
+    engine.runFrame(createMockData(), deltaTime);
+    engine.reset();
+
+    expect(engine.runFrame(createMockData(), deltaTime).zoom).toBe(1);
+  });
+
+  it("should let per-point equations place and color each point", () => {
+    const engine = createEngine({ perPoint: "y = sample; r = 0.5; a = value * 0" });
+    const values = engine.runFrame(createMockData(), deltaTime);
+
+    const points = engine.runPoints(createMockData(), values, 1);
+
+    expect(points).toHaveLength(256);
+    expect(points[0]).toMatchObject({ x: 0, y: 0, r: 0.5, g: 1, a: 0 });
+    expect(points[255]).toMatchObject({ x: 1, y: 1 });
+  });
+
+  it("should lay the waveform out as a ring in wave mode 1", () => {
+    const engine = createEngine({ values: { wave_mode: 1 } });
+    const values = engine.runFrame(createMockData({ timeDomainData: new Uint8Array(512).fill(128) }), deltaTime);
+
+    const points = engine.runPoints(createMockData({ timeDomainData: new Uint8Array(512).fill(128) }), values, 1);
+
+    expect(points[0].x).toBeCloseTo(0.75);
+    expect(points[0].y).toBeCloseTo(0.5);
+  });
+
+  it("should scale feedback to the frame length", () => {
+    const step = getFrameStep({ ...FRAME_DEFAULTS, zoom: 1.1, rot: 0.1, decay: 0.9 }, deltaTime * 2);
+
+    expect(step.zoom).toBeCloseTo(1.21);
+    expect(step.rot).toBeCloseTo(0.2);
+    expect(step.decay).toBeCloseTo(0.81);
+  });
+});
+
+describe("presetVisualizer", () => {
+  let ctx: CanvasRenderingContext2D;
+  let instance: VisualizerInstance;
+  const dimensions = { width: 800, height: 600 };
+
+  beforeEach(() => {
+    ctx = createMockCanvasContext();
+    instance = presetVisualizer.create();
+    vi.clearAllMocks();
+  });
+
+  it("should have correct metadata", () => {
+    expect(presetVisualizer.name).toBe("Presets");
+    expect(presetVisualizer.contextType).toBe("2d");
+    expect(Object.keys(presetVisualizer.configSchema).sort()).toEqual(
+      Object.keys(presetVisualizer.defaultConfig).sort(),
+    );
+  });
+
+  it("should offer every built-in preset", () => {
+    const field = presetVisualizer.configSchema.preset;
+
+    expect(field?.type === "enum" && field.options.map((option) => option.value)).toEqual(Object.keys(builtinPresets));
+  });
+
+  it("should feed back the last frame and draw the wave", () => {
+    instance.render(ctx, createMockData(), presetVisualizer.defaultConfig, dimensions, 16);
+
+    expect(ctx.drawImage).toHaveBeenCalledWith(ctx.canvas, -400, -300, 800, 600);
+    expect(ctx.stroke).toHaveBeenCalledTimes(255);
+  });
+
+  it("should render every built-in preset", () => {
+    for (const preset of Object.keys(builtinPresets)) {
+      const config = resolveConfig(presetVisualizer, { preset });
+      expect(() => instance.render(ctx, createMockData({ isBeat: true }), config, dimensions, 16)).not.toThrow();
+    }
+  });
+
+  it("should fall back to the default preset for inherited property names", () => {
+    const config = { ...presetVisualizer.defaultConfig, preset: "toString" };
+
+    instance.render(ctx, createMockData(), config, dimensions, 16);
+    const fallback = createMockCanvasContext();
+    presetVisualizer.create().render(fallback, createMockData(), presetVisualizer.defaultConfig, dimensions, 16);
+
+    expect(vi.mocked(ctx.lineTo).mock.calls).toEqual(vi.mocked(fallback.lineTo).mock.calls);
+    expect(vi.mocked(ctx.drawImage).mock.calls).toEqual(vi.mocked(fallback.drawImage).mock.calls);
+  });
+
+  it("should handle empty data", () => {
+    const data = createMockData({ frequencyData: new Uint8Array(0), timeDomainData: new Uint8Array(0) });
+
+    expect(() => instance.render(ctx, data, presetVisualizer.defaultConfig, dimensions, 16)).not.toThrow();
+    expect(ctx.stroke).not.toHaveBeenCalled();
+  });
+
+  it("should reset and dispose without errors", () => {
+    instance.render(ctx, createMockData(), presetVisualizer.defaultConfig, dimensions, 16);
+
+    expect(() => instance.reset()).not.toThrow();
+    expect(() => instance.dispose()).not.toThrow();
+  });
+
+  it("should build a renderer for a loaded preset", () => {
+    const renderer = createPresetRenderer(parsePreset(serializePreset({ ...builtinPresets.drift, author: "Someone" })));
+    const loaded = renderer.create();
+
+    loaded.render(ctx, createMockData(), renderer.defaultConfig, dimensions, 16);
+
+    expect(renderer.name).toBe("Drift");
+    expect(renderer.description).toBe("Preset by Someone");
+    expect(ctx.stroke).toHaveBeenCalled();
+  });
+});
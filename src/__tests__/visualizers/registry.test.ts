@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  DEFAULT_MODE,
+  VisualizerRegistryError,
+  barsVisualizer,
+  getVisualizer,
+  getVisualizerDefinition,
+  hasVisualizer,
+  isBuiltinVisualizer,
+  listVisualizers,
+  loadVisualizerModule,
+  registerVisualizer,
+  subscribeVisualizers,
+  unregisterVisualizer,
+  type VisualizerDefinition,
+} from "@/visualizers";
+
+function createDefinition(id = "plugin"): VisualizerDefinition {
+  return {
+    id,
+    label: "Plugin",
+    renderer: {
+      name: "Plugin",
+      description: "Test plugin",
+      contextType: "2d",
+      create: () => ({ render: vi.fn(), resize: vi.fn(), reset: vi.fn(), dispose: vi.fn() }),
+      defaultConfig: { size: 1 },
+      configSchema: {},
+    },
+  };
+}
+
+describe("visualizer registry", () => {
+  afterEach(() => {
+    for (const { id } of listVisualizers()) {
+      unregisterVisualizer(id);
+    }
+  });
+
+  it("should list the built-in visualizers in order", () => {
+    expect(listVisualizers().map(({ id }) => id)).toEqual([
+      "bars",
+      "waveform",
+      "scope",
+      "ambiance",
+      "goniometer",
+      "warp",
+      "spectrogram",
+      "preset",
+      "scene",
+    ]);
+    expect(listVisualizers().every(({ icon }) => icon?.includes("<"))).toBe(true);
+    expect(getVisualizer("bars")).toBe(barsVisualizer);
+  });
+
+  it("should add and remove visualizers at runtime", () => {
+    const definition = createDefinition();
+
+    const unregister = registerVisualizer(definition);
+
+    expect(hasVisualizer("plugin")).toBe(true);
+    expect(isBuiltinVisualizer("plugin")).toBe(false);
+    expect(getVisualizerDefinition("plugin")).toBe(definition);
+    expect(listVisualizers().at(-1)).toBe(definition);
+
+    unregister();
+
+    expect(hasVisualizer("plugin")).toBe(false);
+  });
+
+  it("should notify subscribers with a new snapshot", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeVisualizers(listener);
+    const before = listVisualizers();
+
+    registerVisualizer(createDefinition());
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listVisualizers()).not.toBe(before);
+    // Unchanged between updates, as useSyncExternalStore needs
+    expect(listVisualizers()).toBe(listVisualizers());
+
+    unsubscribe();
+    unregisterVisualizer("plugin");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject duplicate ids", () => {
+    registerVisualizer(createDefinition());
+
+    expect(() => registerVisualizer(createDefinition())).toThrow(VisualizerRegistryError);
+    expect(() => registerVisualizer(createDefinition("bars"))).toThrow('"bars" is already registered');
+  });
+
+  it("should keep built-ins registered", () => {
+    expect(unregisterVisualizer("bars")).toBe(false);
+    expect(hasVisualizer("bars")).toBe(true);
+    expect(unregisterVisualizer("missing")).toBe(false);
+  });
+
+  it("should fall back to the default mode for unknown ids", () => {
+    expect(getVisualizer("missing")).toBe(getVisualizer(DEFAULT_MODE));
+  });
+
+  it("should validate definitions", () => {
+    const definition = createDefinition();
+
+    expect(() => registerVisualizer({ ...definition, id: "" })).toThrow("needs an id");
+    expect(() => registerVisualizer({ ...definition, label: "" })).toThrow("needs a label");
+    expect(() =>
+      registerVisualizer({ ...definition, renderer: { ...definition.renderer, create: undefined } as never })
+    ).toThrow("invalid renderer");
+    expect(() =>
+      registerVisualizer({ ...definition, renderer: { ...definition.renderer, contextType: "webgl2" } as never })
+    ).toThrow("needs a 2D fallback");
+  });
+
+  describe("loadVisualizerModule", () => {
+    it("should register the module's default export", async () => {
+      const definition = createDefinition("loaded");
+      const importer = vi.fn(() => Promise.resolve({ default: definition }));
+
+      await expect(loadVisualizerModule("/plugins/loaded.js", importer)).resolves.toBe(definition);
+
+      expect(importer).toHaveBeenCalledWith(`${window.location.origin}/plugins/loaded.js`);
+      expect(hasVisualizer("loaded")).toBe(true);
+    });
+
+    it("should only load from the page's origin", async () => {
+      const importer = vi.fn();
+
+      await expect(loadVisualizerModule("https://example.com/plugin.js", importer)).rejects.toThrow(
+        VisualizerRegistryError
+      );
+      expect(importer).not.toHaveBeenCalled();
+    });
+
+    it("should report modules that fail to load or export nothing usable", async () => {
+      await expect(
+        loadVisualizerModule("/plugins/missing.js", () => Promise.reject(new Error("404")))
+      ).rejects.toThrow("Could not load visualizer module: 404");
+      await expect(loadVisualizerModule("/plugins/empty.js", () => Promise.resolve({}))).rejects.toThrow(
+        "Visualizer definition must be an object"
+      );
+    });
+  });
+});
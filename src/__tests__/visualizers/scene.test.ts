@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  builtinScenes,
+  compositeLayer,
+  createLayer,
+  createSceneRenderer,
+  parseScene,
+  sceneVisualizer,
+  serializeScene,
+  validateScene,
+  MAX_LAYERS,
+  SceneFormatError,
+  type Scene,
+} from "@/visualizers/scene";
+import { registerVisualizer, resolveConfig } from "@/visualizers";
+import { builtinPalettes } from "@/visualizers/palettes";
+import type { AnalyserData, Canvas2DVisualizerRenderer, VisualizerInstance } from "@/visualizers/types";
+import { createMockCanvasContext } from "../setup";
+
+function createMockData(): AnalyserData {
+  return {
+    frequencyData: new Uint8Array(1024).fill(128),
+    timeDomainData: new Uint8Array(2048).fill(128),
+    averageFrequency: 0.5,
+    peakFrequency: 10,
+    isBeat: false,
+    beatConfidence: 0,
+    bpm: 0,
+    beatPhase: 0,
+    isSectionChange: false,
+  };
+}
+
+function createMockRenderer(instance: VisualizerInstance): Canvas2DVisualizerRenderer {
+  return {
+    name: "Test",
+    description: "Test layer",
+    contextType: "2d",
+    create: () => instance,
+    defaultConfig: { size: 1 },
+    configSchema: { size: { type: "number", label: "Size", min: 0, max: 10, step: 1 } },
+  };
+}
+
+describe("scene format", () => {
+  it("should round-trip through serialization", () => {
+    const scene = builtinScenes.mirrorBars;
+
+    expect(parseScene(serializeScene(scene))).toEqual(scene);
+  });
+
+  it("should fill in defaults for optional layer fields", () => {
+    const scene = validateScene({ version: 1, name: "Minimal", layers: [{ mode: "bars" }] });
+
+    expect(scene.layers[0]).toEqual(createLayer("bars"));
+    expect(scene.layers[0]).toEqual({
+      mode: "bars",
+      config: {},
+      opacity: 1,
+      blend: "source-over",
+      transform: { x: 0, y: 0, scale: 1, rotation: 0 },
+    });
+  });
+
+  it("should reject malformed files", () => {
+    const layers = [{ mode: "bars" }];
+
+    expect(() => parseScene("{")).toThrow(SceneFormatError);
+    expect(() => validateScene({ version: 2, name: "A", layers })).toThrow("Unsupported scene version 2");
+    expect(() => validateScene({ version: 1, name: "", layers })).toThrow("Scene needs a name");
+    expect(() => validateScene({ version: 1, name: "A", layers: [] })).toThrow("at least one layer");
+    expect(() => validateScene({ version: 1, name: "A", layers: [{}] })).toThrow('"layers[0].mode"');
+    expect(() => validateScene({ version: 1, name: "A", layers: Array(MAX_LAYERS + 1).fill(layers[0]) })).toThrow(
+      `at most ${MAX_LAYERS} layers`
+    );
+  });
+
+  it("should name the layer field at fault", () => {
+    const scene = (layer: object) => ({ version: 1, name: "A", layers: [{ mode: "bars" }, { mode: "scope", ...layer }] });
+
+    expect(() => validateScene(scene({ opacity: 2 }))).toThrow('"layers[1].opacity" must be a number from 0 to 1');
+    expect(() => validateScene(scene({ blend: "glow" }))).toThrow('"layers[1].blend" is not a known blend mode');
+    expect(() => validateScene(scene({ config: { color: null } }))).toThrow('"layers[1].config.color"');
+    expect(() => validateScene(scene({ transform: { scale: 0 } }))).toThrow('"layers[1].transform.scale"');
+  });
+});
+
+describe("compositeLayer", () => {
+  it("should draw the layer with its opacity, blend mode and transform", () => {
+    const ctx = createMockCanvasContext();
+    const source = document.createElement("canvas");
+    const layer = createLayer("bars", {
+      opacity: 0.5,
+      blend: "screen",
+      transform: { x: 0.25, y: 0, scale: 2, rotation: 90 },
+    });
+
+    compositeLayer(ctx, source, layer, { width: 400, height: 300 });
+
+    expect(ctx.globalAlpha).toBe(0.5);
+    expect(ctx.globalCompositeOperation).toBe("screen");
+    expect(ctx.translate).toHaveBeenCalledWith(300, 150);
+    expect(ctx.rotate).toHaveBeenCalledWith(Math.PI / 2);
+    expect(ctx.scale).toHaveBeenCalledWith(2, 2);
+    expect(ctx.drawImage).toHaveBeenCalledWith(source, -200, -150, 400, 300);
+    expect(ctx.restore).toHaveBeenCalled();
+  });
+
+  it("should skip invisible layers", () => {
+    const ctx = createMockCanvasContext();
+
+    compositeLayer(ctx, document.createElement("canvas"), createLayer("bars", { opacity: 0 }), {
+      width: 400,
+      height: 300,
+    });
+
+    expect(ctx.drawImage).not.toHaveBeenCalled();
+  });
+});
+
+describe("sceneVisualizer", () => {
+  const dimensions = { width: 400, height: 300 };
+  let ctx: CanvasRenderingContext2D;
+  let layerInstance: VisualizerInstance;
+  let unregister: () => void;
+
+  beforeEach(() => {
+    ctx = createMockCanvasContext();
+    layerInstance = { render: vi.fn(), resize: vi.fn(), reset: vi.fn(), dispose: vi.fn() };
+    unregister = registerVisualizer({ id: "test-layer", label: "Test", renderer: createMockRenderer(layerInstance) });
+  });
+
+  afterEach(() => {
+    unregister();
+  });
+
+  it("should have correct metadata", () => {
+    expect(sceneVisualizer.name).toBe("Layers");
+    expect(sceneVisualizer.contextType).toBe("2d");
+    expect(Object.keys(sceneVisualizer.configSchema).sort()).toEqual(Object.keys(sceneVisualizer.defaultConfig).sort());
+  });
+
+  it("should offer every built-in scene", () => {
+    const field = sceneVisualizer.configSchema.scene;
+
+    expect(field?.type === "enum" && field.options.map((option) => option.value)).toEqual(Object.keys(builtinScenes));
+  });
+
+  it("should render every built-in scene", () => {
+    const instance = sceneVisualizer.create();
+
+    for (const scene of Object.keys(builtinScenes)) {
+      const config = resolveConfig(sceneVisualizer, { scene });
+      expect(() => instance.render(ctx, createMockData(), config, dimensions, 16)).not.toThrow();
+    }
+    instance.dispose();
+  });
+
+  it("should fall back to the default scene for inherited property names", () => {
+    const instance = sceneVisualizer.create();
+    const config = { ...sceneVisualizer.defaultConfig, scene: "constructor" };
+
+    expect(() => instance.render(ctx, createMockData(), config, dimensions, 16)).not.toThrow();
+    expect(ctx.drawImage).toHaveBeenCalledTimes(builtinScenes.fireflyWave.layers.length);
+    instance.dispose();
+  });
+
+  it("should draw each layer into its own buffer with its config", () => {
+    const scene: Scene = {
+      version: 1,
+      name: "Test",
+      layers: [createLayer("test-layer", { config: { size: 4, unknown: true } })],
+    };
+    const instance = createSceneRenderer(scene).create();
+    const data = createMockData();
+
+    instance.render(ctx, data, {}, dimensions, 16);
+
+    const [layerCtx, layerData, layerConfig] = vi.mocked(layerInstance.render).mock.calls[0];
+    expect(layerCtx).not.toBe(ctx);
+    expect(layerData).toBe(data);
+    expect(layerConfig).toEqual({ size: 4 });
+    expect(ctx.drawImage).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fill the background from the selected palette", () => {
+    const renderer = createSceneRenderer({ version: 1, name: "Test", layers: [createLayer("test-layer")] });
+    const backgrounds: unknown[] = [];
+    vi.mocked(ctx.fillRect).mockImplementation(() => backgrounds.push(ctx.fillStyle));
+
+    renderer.create().render(ctx, createMockData(), { palette: "synthwave" }, dimensions, 16);
+
+    expect(backgrounds).toEqual([builtinPalettes.synthwave.background]);
+  });
+
+  it("should skip layers whose visualizer isn't registered or is itself a scene", () => {
+    const scene: Scene = {
+      version: 1,
+      name: "Test",
+      layers: [createLayer("missing"), createLayer("scene"), createLayer("test-layer")],
+    };
+    const instance = createSceneRenderer(scene).create();
+
+    instance.render(ctx, createMockData(), {}, dimensions, 16);
+
+    expect(layerInstance.render).toHaveBeenCalledTimes(1);
+    expect(ctx.drawImage).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pass resize, reset and dispose on to the layers", () => {
+    const renderer = createSceneRenderer({ version: 1, name: "Test", layers: [createLayer("test-layer")] });
+    const instance = renderer.create();
+    instance.render(ctx, createMockData(), renderer.defaultConfig, dimensions, 16);
+
+    instance.resize({ width: 800, height: 600 });
+    instance.reset();
+    instance.dispose();
+
+    expect(layerInstance.resize).toHaveBeenCalledWith({ width: 800, height: 600 });
+    expect(layerInstance.reset).toHaveBeenCalled();
+    expect(layerInstance.dispose).toHaveBeenCalled();
+    expect(renderer.name).toBe("Test");
+  });
+});
@@ -1,15 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { scopeVisualizer } from "@/visualizers/scope";
-import type { AnalyserData } from "@/visualizers/types";
+import { scopeVisualizer, getScopeBarLevels } from "@/visualizers/scope";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
+import { createSeededRandom } from "@/visualizers/random";
 import { createMockCanvasContext } from "../setup";
 
 describe("scopeVisualizer", () => {
   let ctx: CanvasRenderingContext2D;
+  let instance: VisualizerInstance;
   const dimensions = { width: 800, height: 600 };
   const deltaTime = 16;
 
   beforeEach(() => {
     ctx = createMockCanvasContext();
+    instance = scopeVisualizer.create();
     vi.clearAllMocks();
   });
 
@@ -19,10 +22,45 @@ describe("scopeVisualizer", () => {
       timeDomainData: new Uint8Array(2048).fill(128),
       averageFrequency: 0.5,
       peakFrequency: 512,
+      isBeat: false,
+      beatConfidence: 0,
+      bpm: 0,
+      beatPhase: 0,
+      isSectionChange: false,
       ...options,
     };
   }
 
+  // Spectrum with full energy in bins [start, end) and silence elsewhere
+  function createBandData(start: number, end: number): Uint8Array {
+    const data = new Uint8Array(1024);
+    data.fill(255, start, end);
+    return data;
+  }
+
+  // Radial bar lengths in draw order, read back from moveTo/lineTo pairs that
+  // straddle the base ring (each bar is stroked twice: glow then core)
+  function getRadialBarLengths(baseR: number): number[] {
+    const moveCalls = (ctx.moveTo as ReturnType<typeof vi.fn>).mock.calls;
+    const lineCalls = (ctx.lineTo as ReturnType<typeof vi.fn>).mock.calls;
+    const moveOrder = (ctx.moveTo as ReturnType<typeof vi.fn>).mock.invocationCallOrder;
+    const lineOrder = (ctx.lineTo as ReturnType<typeof vi.fn>).mock.invocationCallOrder;
+    const center = { x: dimensions.width / 2, y: dimensions.height / 2 };
+    const radius = ([x, y]: number[]) => Math.hypot(x - center.x, y - center.y);
+
+    const lengths: number[] = [];
+    moveCalls.forEach((move, index) => {
+      const lineIndex = lineOrder.indexOf(moveOrder[index] + 1);
+      if (lineIndex === -1) return;
+      const r1 = radius(move);
+      const r2 = radius(lineCalls[lineIndex]);
+      if (r1 <= baseR + 0.001 && r2 >= baseR - 0.001) {
+        lengths.push(r2 - r1);
+      }
+    });
+    return lengths.filter((_, i) => i % 2 === 0);
+  }
+
   it("should have correct metadata", () => {
     expect(scopeVisualizer.name).toBe("Scope");
     expect(scopeVisualizer.description).toContain("Circular");
@@ -31,123 +69,204 @@ describe("scopeVisualizer", () => {
 
   it("should have valid default config", () => {
     const config = scopeVisualizer.defaultConfig;
-    expect(config.pointCount).toBe(64);
-    expect(config.baseRadius).toBe(0.25);
-    expect(config.maxExpansion).toBe(0.15);
-    expect(config.rotationSpeed).toBe(0.5);
-    expect(config.showConnections).toBe(true);
-    expect(config.dotSize).toBe(4);
+    expect(config.barCount).toBe(128);
+    expect(config.baseRadius).toBe(0.22);
+    expect(config.maxBarHeight).toBe(0.18);
+    expect(config.rotationSpeed).toBe(0.15);
+    expect(config.layout).toBe("mirrored");
+    expect(config.lowFrequencyAngle).toBe(-90);
+    expect(config.showWaveformRing).toBe(true);
   });
 
   it("should clear canvas with fade effect", () => {
     const data = createMockData();
-    scopeVisualizer.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
 
     expect(ctx.fillRect).toHaveBeenCalled();
   });
 
-  it("should draw points in a circle", () => {
+  it("should draw the base ring", () => {
     const data = createMockData();
-    scopeVisualizer.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
 
-    // Arc is used for drawing points
     expect(ctx.arc).toHaveBeenCalled();
-    expect(ctx.fill).toHaveBeenCalled();
-  });
-
-  it("should draw connections when enabled", () => {
-    const data = createMockData();
-    const config = { ...scopeVisualizer.defaultConfig, showConnections: true };
-
-    scopeVisualizer.render(ctx, data, config, dimensions, deltaTime);
-
-    expect(ctx.beginPath).toHaveBeenCalled();
-    expect(ctx.closePath).toHaveBeenCalled();
     expect(ctx.stroke).toHaveBeenCalled();
   });
 
-  it("should handle different point counts", () => {
+  it("should draw background gradients", () => {
     const data = createMockData();
+    instance.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
 
-    // Fewer points
-    const config1 = { ...scopeVisualizer.defaultConfig, pointCount: 16 };
-    scopeVisualizer.render(ctx, data, config1, dimensions, deltaTime);
-    expect(ctx.arc).toHaveBeenCalled();
+    expect(ctx.createRadialGradient).toHaveBeenCalled();
+  });
 
-    vi.clearAllMocks();
+  it("should handle empty frequency data", () => {
+    const data = createMockData({
+      frequencyData: new Uint8Array(0),
+      timeDomainData: new Uint8Array(0),
+    });
 
-    // More points
-    const config2 = { ...scopeVisualizer.defaultConfig, pointCount: 128 };
-    scopeVisualizer.render(ctx, data, config2, dimensions, deltaTime);
-    expect(ctx.arc).toHaveBeenCalled();
+    expect(() => {
+      instance.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+    }).not.toThrow();
   });
 
-  it("should apply rotation based on delta time", () => {
-    const data = createMockData();
+  describe("getScopeBarLevels", () => {
+    it("should only lift the bars of the band that has energy", () => {
+      // 16 bars over 1024 bins on a linear scale: bar 4 covers bins 256-319
+      const levels = getScopeBarLevels(createBandData(256, 320), 16, "full", "linear");
 
-    // Render first frame
-    scopeVisualizer.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
-    const calls1 = (ctx.arc as ReturnType<typeof vi.fn>).mock.calls.slice();
+      expect(levels[4]).toBe(1);
+      levels.forEach((level, i) => {
+        if (i !== 4) expect(level).toBe(0);
+      });
+    });
 
-    vi.clearAllMocks();
+    it("should mirror bands around the low-frequency bar", () => {
+      // 16 mirrored bars = 8 bands of 128 bins; band 2 covers bins 256-383
+      const levels = getScopeBarLevels(createBandData(256, 384), 16, "mirrored", "linear");
 
-    // Render second frame with same data - rotation should change
-    scopeVisualizer.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
-    const calls2 = (ctx.arc as ReturnType<typeof vi.fn>).mock.calls.slice();
+      expect(levels[2]).toBe(1);
+      expect(levels[14]).toBe(1);
+      levels.forEach((level, i) => {
+        if (i !== 2 && i !== 14) expect(level).toBe(0);
+      });
+    });
 
-    // Points should be at different positions due to rotation
-    expect(calls2.length).toBeGreaterThan(0);
+    it("should return silence for empty data", () => {
+      const levels = getScopeBarLevels(new Uint8Array(0), 8, "full", "log");
+      expect(levels).toEqual(new Array(8).fill(0));
+    });
   });
 
-  it("should draw center circle", () => {
-    const data = createMockData();
-    scopeVisualizer.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+  describe("rendering", () => {
+    const baseR = Math.min(dimensions.width, dimensions.height) * 0.22;
+    const maxHeight = Math.min(dimensions.width, dimensions.height) * 0.18;
+    const config = {
+      ...scopeVisualizer.defaultConfig,
+      barCount: 16,
+      layout: "full",
+      frequencyScale: "linear",
+      showWaveformRing: false,
+    };
 
-    // Should create radial gradient for center
-    expect(ctx.createRadialGradient).toHaveBeenCalled();
-  });
+    it("should draw one radial bar per configured bar", () => {
+      const data = createMockData({ frequencyData: createBandData(0, 0) });
+      instance.render(ctx, data, config, dimensions, deltaTime);
 
-  it("should draw outer ring", () => {
-    const data = createMockData();
-    scopeVisualizer.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+      expect(getRadialBarLengths(baseR)).toHaveLength(16);
+    });
 
-    // Arc for outer ring
-    const arcCalls = (ctx.arc as ReturnType<typeof vi.fn>).mock.calls;
-    expect(arcCalls.length).toBeGreaterThan(0);
-    expect(ctx.stroke).toHaveBeenCalled();
-  });
+    it("should size radial bars from their own frequency band", () => {
+      const data = createMockData({ frequencyData: createBandData(448, 512) });
+      instance.render(ctx, data, config, dimensions, deltaTime);
 
-  it("should expand radius based on frequency amplitude", () => {
-    const lowData = createMockData({
-      frequencyData: new Uint8Array(1024).fill(0)
+      const lengths = getRadialBarLengths(baseR);
+      expect(lengths[7]).toBeCloseTo(maxHeight, 3);
+      lengths.forEach((length, i) => {
+        if (i !== 7) expect(length).toBeCloseTo(0, 3);
+      });
     });
-    const highData = createMockData({
-      frequencyData: new Uint8Array(1024).fill(255)
+
+    it("should start the lowest band at the configured angle", () => {
+      const data = createMockData({ frequencyData: createBandData(0, 64) });
+      const outerR = baseR + maxHeight * 0.7;
+
+      // Angle of the single lit bar's outer end
+      const renderLitAngle = (lowFrequencyAngle: number) => {
+        vi.clearAllMocks();
+        // Zero rotation speed keeps the instance rotation fixed between renders
+        instance.render(ctx, data, { ...config, lowFrequencyAngle, rotationSpeed: 0 }, dimensions, deltaTime);
+        const [x, y] = (ctx.lineTo as ReturnType<typeof vi.fn>).mock.calls.find(
+          ([px, py]) => Math.abs(Math.hypot(px - 400, py - 300) - outerR) < 0.001
+        )!;
+        return Math.atan2(y - 300, x - 400);
+      };
+
+      const atZero = renderLitAngle(0);
+      const atNinety = renderLitAngle(90);
+      const diff = (atNinety - atZero + Math.PI * 2) % (Math.PI * 2);
+
+      expect(diff).toBeCloseTo(Math.PI / 2, 5);
     });
 
-    // Both should render without error
-    scopeVisualizer.render(ctx, lowData, scopeVisualizer.defaultConfig, dimensions, deltaTime);
-    expect(ctx.arc).toHaveBeenCalled();
+    it("should trace the waveform ring when enabled", () => {
+      const timeDomainData = new Uint8Array(2048);
+      for (let i = 0; i < timeDomainData.length; i++) {
+        timeDomainData[i] = 128 + Math.round(Math.sin(i * 0.05) * 60);
+      }
+      const data = createMockData({ timeDomainData });
 
-    vi.clearAllMocks();
+      instance.render(ctx, data, { ...config, showWaveformRing: false }, dimensions, deltaTime);
+      const withoutRing = (ctx.lineTo as ReturnType<typeof vi.fn>).mock.calls.length;
 
-    scopeVisualizer.render(ctx, highData, scopeVisualizer.defaultConfig, dimensions, deltaTime);
-    expect(ctx.arc).toHaveBeenCalled();
+      vi.clearAllMocks();
+      instance.render(ctx, data, { ...config, showWaveformRing: true }, dimensions, deltaTime);
+      const withRing = (ctx.lineTo as ReturnType<typeof vi.fn>).mock.calls.length;
+
+      expect(withRing).toBeGreaterThan(withoutRing + 200);
+    });
   });
 
-  it("should handle empty frequency data", () => {
-    const data = createMockData({ frequencyData: new Uint8Array(0) });
+  describe("lifecycle", () => {
+    function getTriangleXs(): number[] {
+      return (ctx.translate as ReturnType<typeof vi.fn>).mock.calls.map(([x]) => x);
+    }
+
+    it("should rescale background triangles on resize", () => {
+      const data = createMockData();
+      instance.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+      const before = getTriangleXs();
+
+      vi.clearAllMocks();
+      const wide = { width: dimensions.width * 2, height: dimensions.height };
+      instance.resize(wide);
+      instance.render(ctx, data, scopeVisualizer.defaultConfig, wide, deltaTime);
+      const after = getTriangleXs();
+
+      expect(after).toHaveLength(before.length);
+      after.forEach((x, i) => {
+        expect(Math.abs(x - before[i] * 2)).toBeLessThan(2);
+      });
+    });
 
-    expect(() => {
-      scopeVisualizer.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
-    }).not.toThrow();
+    it("should respawn triangles after reset", () => {
+      const data = createMockData();
+      instance.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+      const before = getTriangleXs();
+
+      vi.clearAllMocks();
+      instance.reset();
+      instance.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+
+      expect(getTriangleXs()).not.toEqual(before);
+    });
   });
 
-  it("should apply glow effects to points", () => {
-    const data = createMockData();
-    scopeVisualizer.render(ctx, data, scopeVisualizer.defaultConfig, dimensions, deltaTime);
+  describe("seeding", () => {
+    it("should lay out triangles from the random source", () => {
+      const seeded = scopeVisualizer.create({ random: () => 0.5 });
+      seeded.render(ctx, createMockData(), scopeVisualizer.defaultConfig, dimensions, deltaTime);
 
-    // Shadow blur should be set for glow
-    expect(ctx.shadowBlur).toBeDefined();
+      // Every draw at 0.5: centered, half a turn, 32.5px, not drifting
+      expect(ctx.translate).toHaveBeenCalledTimes(25);
+      expect(vi.mocked(ctx.translate).mock.calls.every(([x, y]) => x === 400 && y === 300)).toBe(true);
+      expect(ctx.rotate).toHaveBeenCalledWith(Math.PI);
+      expect(ctx.moveTo).toHaveBeenCalledWith(0, -16.25);
+    });
+
+    it("should draw the same frames for the same seed", () => {
+      const draw = (seed: number) => {
+        const target = createMockCanvasContext();
+        const seeded = scopeVisualizer.create({ random: createSeededRandom(seed) });
+        for (let frame = 0; frame < 3; frame++) {
+          seeded.render(target, createMockData(), scopeVisualizer.defaultConfig, dimensions, deltaTime);
+        }
+        return vi.mocked(target.translate).mock.calls;
+      };
+
+      expect(draw(9)).toEqual(draw(9));
+      expect(draw(9)).not.toEqual(draw(10));
+    });
   });
 });
@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  spectrogramVisualizer,
+  createIntensityColors,
+  formatFrequency,
+  getFrequencyPosition,
+  getGridFrequencies,
+  getPositionFrequency,
+  sampleSpectrum,
+} from "@/visualizers/spectrogram";
+import { builtinPalettes, parseHexColor } from "@/visualizers/palettes";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
+import { createMockCanvasContext } from "../setup";
+
+describe("spectrogramVisualizer", () => {
+  let ctx: CanvasRenderingContext2D;
+  let instance: VisualizerInstance;
+  const dimensions = { width: 400, height: 300 };
+  // 120 px/s at 50 ms a frame scrolls 6 px
+  const deltaTime = 50;
+
+  beforeEach(() => {
+    ctx = createMockCanvasContext();
+    instance = spectrogramVisualizer.create();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createMockData(frequencyData = new Uint8Array(1024), sampleRate = 48000): AnalyserData {
+    return {
+      frequencyData,
+      timeDomainData: new Uint8Array(2048).fill(128),
+      averageFrequency: 0,
+      peakFrequency: 0,
+      sampleRate,
+      isBeat: false,
+      beatConfidence: 0,
+      bpm: 0,
+      beatPhase: 0,
+      isSectionChange: false,
+    };
+  }
+
+  // The offscreen buffer's canvas and context, the first ones created after the spy is set up
+  function spyOnBuffer() {
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, "getContext");
+    return () => ({
+      canvas: getContext.mock.contexts[0] as HTMLCanvasElement,
+      ctx: getContext.mock.results[0]?.value as CanvasRenderingContext2D,
+    });
+  }
+
+  it("should have correct metadata", () => {
+    expect(spectrogramVisualizer.name).toBe("Spectrogram");
+    expect(spectrogramVisualizer.description).toContain("waterfall");
+    expect(Object.keys(spectrogramVisualizer.configSchema).sort()).toEqual(
+      Object.keys(spectrogramVisualizer.defaultConfig).sort()
+    );
+  });
+
+  describe("frequency axis", () => {
+    it("should place frequencies evenly on a linear axis", () => {
+      expect(getFrequencyPosition(12000, "linear", 24000)).toBe(0.5);
+      expect(getPositionFrequency(0.25, "linear", 24000)).toBe(6000);
+    });
+
+    it("should place frequencies by octave on a log axis", () => {
+      expect(getFrequencyPosition(20, "log", 20480)).toBe(0);
+      expect(getFrequencyPosition(640, "log", 20480)).toBeCloseTo(0.5, 6);
+      expect(getFrequencyPosition(20480, "log", 20480)).toBeCloseTo(1, 6);
+      expect(getPositionFrequency(0.5, "log", 20480)).toBeCloseTo(640, 6);
+    });
+
+    it("should pick gridlines below the Nyquist frequency", () => {
+      expect(getGridFrequencies("log", 22050)).toEqual([50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]);
+      expect(getGridFrequencies("log", 8000)).toEqual([50, 100, 200, 500, 1000, 2000, 5000]);
+      expect(getGridFrequencies("linear", 24000)).toEqual([5000, 10000, 15000, 20000]);
+      expect(getGridFrequencies("linear", 4000)).toEqual([1000, 2000, 3000]);
+    });
+
+    it("should label frequencies in Hz and kHz", () => {
+      expect(formatFrequency(500)).toBe("500 Hz");
+      expect(formatFrequency(2000)).toBe("2 kHz");
+      expect(formatFrequency(12500)).toBe("12.5 kHz");
+    });
+  });
+
+  describe("sampleSpectrum", () => {
+    it("should spread bins evenly on a linear axis", () => {
+      const frequencyData = Uint8Array.from({ length: 8 }, (_, i) => i * 10);
+
+      expect(Array.from(sampleSpectrum(frequencyData, 16000, "linear", new Uint8Array(4)))).toEqual([10, 30, 50, 70]);
+    });
+
+    it("should keep the loudest bin each point covers", () => {
+      const frequencyData = new Uint8Array(1024);
+      frequencyData[700] = 200;
+
+      const values = sampleSpectrum(frequencyData, 48000, "linear", new Uint8Array(16));
+
+      expect(values[10]).toBe(200);
+      expect(values.filter((value) => value > 0)).toHaveLength(1);
+    });
+
+    it("should give low frequencies more room on a log axis", () => {
+      const frequencyData = new Uint8Array(1024);
+      // Bin 4 of 1024 at 48 kHz is around 100 Hz
+      frequencyData[4] = 255;
+
+      const linear = sampleSpectrum(frequencyData, 48000, "linear", new Uint8Array(100));
+      const log = sampleSpectrum(frequencyData, 48000, "log", new Uint8Array(100));
+
+      expect(linear.filter((value) => value > 0)).toHaveLength(1);
+      expect(log.filter((value) => value > 0).length).toBeGreaterThan(1);
+    });
+
+    it("should read an empty spectrum as silence", () => {
+      expect(Array.from(sampleSpectrum(new Uint8Array(0), 48000, "log", new Uint8Array(4).fill(9)))).toEqual([
+        0, 0, 0, 0,
+      ]);
+    });
+  });
+
+  it("should map silence to the background and full level to the loudest stop", () => {
+    const palette = builtinPalettes.classic;
+    const colors = createIntensityColors(palette);
+
+    expect(Array.from(colors.subarray(0, 3))).toEqual(parseHexColor(palette.background));
+    expect(Array.from(colors.subarray(255 * 3))).toEqual(parseHexColor(palette.stops.at(-1)!));
+  });
+
+  it("should scroll the history left and paint the new column on the right", () => {
+    const getBuffer = spyOnBuffer();
+
+    instance.render(ctx, createMockData(), spectrogramVisualizer.defaultConfig, dimensions, deltaTime);
+
+    const { canvas, ctx: buffer } = getBuffer();
+    expect(buffer.drawImage).toHaveBeenCalledWith(canvas, -6, 0);
+    expect(buffer.createImageData).toHaveBeenCalledWith(1, 300);
+    expect(vi.mocked(buffer.putImageData).mock.calls.map(([, x, y]) => [x, y])).toEqual(
+      [394, 395, 396, 397, 398, 399].map((x) => [x, 0])
+    );
+    expect(ctx.drawImage).toHaveBeenCalledWith(canvas, 0, 0, 400, 300);
+  });
+
+  it("should scroll the history down when vertical", () => {
+    const getBuffer = spyOnBuffer();
+    const config = { ...spectrogramVisualizer.defaultConfig, view: "vertical" };
+
+    instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+
+    const { canvas, ctx: buffer } = getBuffer();
+    expect(buffer.drawImage).toHaveBeenCalledWith(canvas, 0, 6);
+    expect(buffer.createImageData).toHaveBeenCalledWith(400, 1);
+    expect(vi.mocked(buffer.putImageData).mock.calls.map(([, x, y]) => [x, y])).toEqual(
+      [0, 1, 2, 3, 4, 5].map((y) => [0, y])
+    );
+  });
+
+  it("should color the column by level, low frequencies at the bottom", () => {
+    const getBuffer = spyOnBuffer();
+    const frequencyData = new Uint8Array(1024);
+    frequencyData[0] = 255;
+    const config = { ...spectrogramVisualizer.defaultConfig, scale: "linear" };
+
+    instance.render(ctx, createMockData(frequencyData), config, dimensions, deltaTime);
+
+    const image = vi.mocked(getBuffer().ctx.putImageData).mock.calls[0][0];
+    const pixel = (row: number) => Array.from(image.data.subarray(row * 4, row * 4 + 3));
+    expect(pixel(299)).toEqual(parseHexColor(builtinPalettes.classic.stops.at(-1)!));
+    expect(pixel(0)).toEqual(parseHexColor(builtinPalettes.classic.background));
+  });
+
+  it("should carry partial pixels of scroll to later frames", () => {
+    const getBuffer = spyOnBuffer();
+    const config = { ...spectrogramVisualizer.defaultConfig, speed: 20 };
+
+    // 20 px/s at 16 ms a frame is 0.32 px, so the first whole pixel comes on the fourth frame
+    for (let i = 0; i < 3; i++) {
+      instance.render(ctx, createMockData(), config, dimensions, 16);
+    }
+    expect(getBuffer().ctx.putImageData).not.toHaveBeenCalled();
+
+    instance.render(ctx, createMockData(), config, dimensions, 16);
+    expect(getBuffer().ctx.putImageData).toHaveBeenCalledTimes(1);
+  });
+
+  it("should label gridlines using the sample rate", () => {
+    const config = { ...spectrogramVisualizer.defaultConfig, scale: "linear" };
+
+    instance.render(ctx, createMockData(new Uint8Array(1024), 8000), config, dimensions, deltaTime);
+
+    const labels = vi.mocked(ctx.fillText).mock.calls.map(([text]) => text);
+    expect(labels).toEqual(["1 kHz", "2 kHz", "3 kHz"]);
+  });
+
+  it("should leave out the grid when turned off", () => {
+    const config = { ...spectrogramVisualizer.defaultConfig, showGrid: false };
+
+    instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+
+    expect(ctx.fillText).not.toHaveBeenCalled();
+  });
+
+  it("should start a new buffer after a resize", () => {
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, "getContext");
+
+    instance.render(ctx, createMockData(), spectrogramVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, createMockData(), spectrogramVisualizer.defaultConfig, dimensions, deltaTime);
+    expect(getContext).toHaveBeenCalledTimes(1);
+
+    instance.resize({ width: 200, height: 100 });
+    instance.render(ctx, createMockData(), spectrogramVisualizer.defaultConfig, { width: 200, height: 100 }, deltaTime);
+    expect(getContext).toHaveBeenCalledTimes(2);
+  });
+
+  describe("waterfall", () => {
+    const config = { ...spectrogramVisualizer.defaultConfig, view: "waterfall" };
+
+    function countRows() {
+      return vi.mocked(ctx.closePath).mock.calls.length;
+    }
+
+    it("should draw recent spectra as stacked rows", () => {
+      instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+      expect(countRows()).toBe(1);
+
+      // Each 6 px of scroll adds a row
+      vi.mocked(ctx.closePath).mockClear();
+      instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+      expect(countRows()).toBe(2);
+      expect(ctx.drawImage).not.toHaveBeenCalled();
+    });
+
+    it("should shrink older rows towards the horizon", () => {
+      instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+      vi.mocked(ctx.moveTo).mockClear();
+      instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+
+      // Rows are drawn back to front, each starting at its left edge on its baseline
+      const [older, newer] = vi.mocked(ctx.moveTo).mock.calls;
+      expect(older[0]).toBeGreaterThan(newer[0]);
+      expect(older[1]).toBeLessThan(newer[1]);
+    });
+
+    it("should keep a bounded history and clear it on reset", () => {
+      for (let i = 0; i < 100; i++) {
+        instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+      }
+      vi.mocked(ctx.closePath).mockClear();
+      instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+      expect(countRows()).toBe(40);
+
+      instance.reset();
+      vi.mocked(ctx.closePath).mockClear();
+      instance.render(ctx, createMockData(), config, dimensions, deltaTime);
+      expect(countRows()).toBe(1);
+    });
+  });
+
+  it("should fall back to a default sample rate", () => {
+    const data = createMockData();
+    delete data.sampleRate;
+
+    instance.render(ctx, data, spectrogramVisualizer.defaultConfig, dimensions, deltaTime);
+
+    expect(vi.mocked(ctx.fillText).mock.calls.map(([text]) => text)).toContain("20 kHz");
+  });
+});
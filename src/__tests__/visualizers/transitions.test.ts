@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { drawTransition, easeInOut, getDissolveThreshold } from "@/visualizers/transitions";
+import { createMockCanvasContext } from "../setup";
+
+const dims = { width: 400, height: 300 };
+
+describe("easeInOut", () => {
+  it("should run from 0 to 1 through the midpoint", () => {
+    expect(easeInOut(0)).toBe(0);
+    expect(easeInOut(0.5)).toBe(0.5);
+    expect(easeInOut(1)).toBe(1);
+  });
+
+  it("should clamp progress outside 0-1", () => {
+    expect(easeInOut(-1)).toBe(0);
+    expect(easeInOut(2)).toBe(1);
+  });
+});
+
+describe("getDissolveThreshold", () => {
+  it("should give the same value for the same cell", () => {
+    expect(getDissolveThreshold(3, 7)).toBe(getDissolveThreshold(3, 7));
+  });
+
+  it("should spread cells across 0-1", () => {
+    const values: number[] = [];
+    for (let row = 0; row < 20; row++) {
+      for (let column = 0; column < 20; column++) {
+        values.push(getDissolveThreshold(column, row));
+      }
+    }
+
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    const early = values.filter((value) => value < 0.5).length;
+    expect(early / values.length).toBeGreaterThan(0.4);
+    expect(early / values.length).toBeLessThan(0.6);
+  });
+});
+
+describe("drawTransition", () => {
+  const from = document.createElement("canvas");
+  const to = document.createElement("canvas");
+
+  it("should fade the incoming frame over the outgoing one", () => {
+    const ctx = createMockCanvasContext();
+
+    drawTransition(ctx, from, to, "fade", 0.5, dims);
+
+    expect(ctx.drawImage).toHaveBeenNthCalledWith(1, from, 0, 0, 400, 300);
+    expect(ctx.drawImage).toHaveBeenNthCalledWith(2, to, 0, 0, 400, 300);
+    expect(ctx.globalAlpha).toBe(0.5);
+  });
+
+  it("should clip the incoming frame behind the wipe edge", () => {
+    const ctx = createMockCanvasContext();
+
+    drawTransition(ctx, from, to, "wipe", 0.5, dims);
+
+    expect(ctx.rect).toHaveBeenCalledWith(0, 0, 200, 300);
+    expect(ctx.clip).toHaveBeenCalled();
+  });
+
+  it("should cover the frame with dissolve cells by the end", () => {
+    const ctx = createMockCanvasContext();
+
+    drawTransition(ctx, from, to, "dissolve", 1, dims);
+
+    // 17 columns by 13 rows of 24px cells
+    expect(ctx.rect).toHaveBeenCalledTimes(17 * 13);
+  });
+
+  it("should scale the frames about the center when zooming", () => {
+    const ctx = createMockCanvasContext();
+
+    drawTransition(ctx, from, to, "zoom", 0, dims);
+
+    expect(ctx.drawImage).toHaveBeenCalledWith(from, 0, 0, 400, 300);
+    expect(ctx.drawImage).toHaveBeenCalledWith(to, 100, 75, 200, 150);
+  });
+
+  it("should restore the context state afterwards", () => {
+    const ctx = createMockCanvasContext();
+
+    drawTransition(ctx, from, to, "fade", 0.25, dims);
+
+    expect(ctx.save).toHaveBeenCalled();
+    expect(ctx.restore).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { warpVisualizer, getFeedbackStep } from "@/visualizers/warp";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
+import { createMockCanvasContext } from "../setup";
+
+// Just enough of WebGL2 for the renderer to run: every call is recorded, objects are placeholders
+function createMockGL() {
+  const calls = new Map<string, ReturnType<typeof vi.fn>>();
+  const constants: Record<string, number> = { drawingBufferWidth: 800, drawingBufferHeight: 600 };
+  return new Proxy({} as Record<string, unknown>, {
+    get(_target, key: string) {
+      if (key in constants) return constants[key];
+      if (/^[A-Z_0-9]+$/.test(key)) return key;
+      if (!calls.has(key)) {
+        calls.set(key, vi.fn((...args: unknown[]) => (key.startsWith("get") && key.endsWith("Parameter") ? true : { key, args })));
+      }
+      return calls.get(key);
+    },
+  }) as unknown as WebGL2RenderingContext & Record<string, ReturnType<typeof vi.fn>>;
+}
+
+describe("warpVisualizer", () => {
+  const dimensions = { width: 800, height: 600 };
+  const deltaTime = 1000 / 60;
+
+  function createMockData(overrides: Partial<AnalyserData> = {}): AnalyserData {
+    const timeDomainData = new Uint8Array(2048);
+    for (let i = 0; i < timeDomainData.length; i++) {
+      timeDomainData[i] = Math.round(128 + Math.sin(i * 0.05) * 80);
+    }
+    return {
+      frequencyData: new Uint8Array(1024).fill(128),
+      timeDomainData,
+      averageFrequency: 0.5,
+      peakFrequency: 10,
+      isBeat: false,
+      beatConfidence: 0,
+      bpm: 0,
+      beatPhase: 0,
+      isSectionChange: false,
+      ...overrides,
+    };
+  }
+
+  it("should have correct metadata", () => {
+    expect(warpVisualizer.name).toBe("Warp");
+    expect(warpVisualizer.contextType).toBe("webgl2");
+    expect(warpVisualizer.description).toContain("WebGL");
+    expect(Object.keys(warpVisualizer.configSchema).sort()).toEqual(
+      Object.keys(warpVisualizer.defaultConfig).sort(),
+    );
+  });
+
+  describe("getFeedbackStep", () => {
+    const config = warpVisualizer.defaultConfig as Parameters<typeof getFeedbackStep>[2];
+
+    it("should apply the per-frame values once per 60 fps frame", () => {
+      const step = getFeedbackStep({ time: 0, beatKick: 0 }, createMockData(), config, deltaTime);
+
+      expect(step.zoom).toBeCloseTo(config.zoom as number, 5);
+      expect(step.decay).toBeCloseTo(config.decay as number, 5);
+      expect(step.angle).toBeCloseTo((config.rotation * Math.PI) / 180 / 60, 5);
+    });
+
+    it("should compound over longer frames", () => {
+      const step = getFeedbackStep({ time: 0, beatKick: 0 }, createMockData(), config, deltaTime * 2);
+
+      expect(step.decay).toBeCloseTo(config.decay ** 2, 5);
+      expect(step.zoom).toBeCloseTo(config.zoom ** 2, 5);
+    });
+
+    it("should zoom in harder on a beat", () => {
+      const state = { time: 0, beatKick: 0 };
+      const beat = getFeedbackStep(state, createMockData({ isBeat: true, beatConfidence: 1 }), config, deltaTime);
+
+      expect(beat.zoom).toBeGreaterThan(config.zoom);
+      expect(state.beatKick).toBe(1);
+    });
+
+    it("should ignore beats when beat zoom is off", () => {
+      const state = { time: 0, beatKick: 0 };
+      getFeedbackStep(state, createMockData({ isBeat: true, beatConfidence: 1 }), { ...config, beatZoom: false }, deltaTime);
+
+      expect(state.beatKick).toBe(0);
+    });
+  });
+
+  describe("2D fallback", () => {
+    let ctx: CanvasRenderingContext2D;
+    let instance: VisualizerInstance;
+
+    beforeEach(() => {
+      ctx = createMockCanvasContext();
+      instance = warpVisualizer.createFallback();
+      vi.clearAllMocks();
+    });
+
+    it("should feed the previous frame back in and draw the waveform", () => {
+      instance.render(ctx, createMockData(), warpVisualizer.defaultConfig, dimensions, deltaTime);
+
+      expect(ctx.drawImage).toHaveBeenCalledWith(ctx.canvas, -400, -300, 800, 600);
+      expect(ctx.scale).toHaveBeenCalled();
+      expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 800, 600);
+      expect(ctx.stroke).toHaveBeenCalled();
+      expect(ctx.lineTo).toHaveBeenCalled();
+    });
+
+    it("should only fade when there is no waveform", () => {
+      instance.render(
+        ctx,
+        createMockData({ timeDomainData: new Uint8Array(0) }),
+        warpVisualizer.defaultConfig,
+        dimensions,
+        deltaTime,
+      );
+
+      expect(ctx.drawImage).toHaveBeenCalled();
+      expect(ctx.stroke).not.toHaveBeenCalled();
+    });
+
+    it("should reset and dispose without errors", () => {
+      instance.render(ctx, createMockData(), warpVisualizer.defaultConfig, dimensions, deltaTime);
+
+      expect(() => instance.reset()).not.toThrow();
+      expect(() => instance.dispose()).not.toThrow();
+    });
+  });
+
+  describe("WebGL", () => {
+    it("should warp into an offscreen target and copy it to the screen", () => {
+      const gl = createMockGL();
+      const instance = warpVisualizer.create();
+
+      instance.render(gl, createMockData(), warpVisualizer.defaultConfig, dimensions, deltaTime);
+
+      expect(gl.createProgram).toHaveBeenCalledTimes(3);
+      expect(gl.createFramebuffer).toHaveBeenCalledTimes(2);
+      expect(gl.drawArrays).toHaveBeenCalledWith("LINE_STRIP", 0, 512);
+      // Last pass draws to the canvas
+      expect(gl.bindFramebuffer).toHaveBeenLastCalledWith("FRAMEBUFFER", null);
+    });
+
+    it("should keep its resources between frames and release them on dispose", () => {
+      const gl = createMockGL();
+      const instance = warpVisualizer.create();
+
+      instance.render(gl, createMockData(), warpVisualizer.defaultConfig, dimensions, deltaTime);
+      instance.render(gl, createMockData(), warpVisualizer.defaultConfig, dimensions, deltaTime);
+      instance.dispose();
+
+      expect(gl.createProgram).toHaveBeenCalledTimes(3);
+      expect(gl.deleteProgram).toHaveBeenCalledTimes(3);
+      expect(gl.deleteFramebuffer).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -1,15 +1,17 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { waveformVisualizer } from "@/visualizers/waveform";
-import type { AnalyserData } from "@/visualizers/types";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
 import { createMockCanvasContext } from "../setup";
 
 describe("waveformVisualizer", () => {
   let ctx: CanvasRenderingContext2D;
+  let instance: VisualizerInstance;
   const dimensions = { width: 800, height: 600 };
   const deltaTime = 16;
 
   beforeEach(() => {
     ctx = createMockCanvasContext();
+    instance = waveformVisualizer.create();
     vi.clearAllMocks();
   });
 
@@ -25,6 +27,11 @@ describe("waveformVisualizer", () => {
       timeDomainData,
       averageFrequency: 0.5,
       peakFrequency: 512,
+      isBeat: false,
+      beatConfidence: 0,
+      bpm: 0,
+      beatPhase: 0,
+      isSectionChange: false,
       ...options,
     };
   }
@@ -45,7 +52,7 @@ describe("waveformVisualizer", () => {
 
   it("should clear canvas with fade effect", () => {
     const data = createMockData();
-    waveformVisualizer.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
 
     // First fillRect should be for fade effect (not full clear)
     expect(ctx.fillRect).toHaveBeenCalled();
@@ -55,7 +62,7 @@ describe("waveformVisualizer", () => {
     const data = createMockData({ timeDomainData: new Uint8Array(0) });
 
     expect(() => {
-      waveformVisualizer.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
+      instance.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
     }).not.toThrow();
 
     // Should draw idle line
@@ -64,7 +71,7 @@ describe("waveformVisualizer", () => {
 
   it("should draw waveform path", () => {
     const data = createMockData();
-    waveformVisualizer.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
 
     expect(ctx.beginPath).toHaveBeenCalled();
     expect(ctx.moveTo).toHaveBeenCalled();
@@ -74,7 +81,7 @@ describe("waveformVisualizer", () => {
 
   it("should apply glow effect", () => {
     const data = createMockData();
-    waveformVisualizer.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Shadow should be set for glow
     expect(ctx.shadowColor).toBeDefined();
@@ -84,7 +91,7 @@ describe("waveformVisualizer", () => {
     const data = createMockData();
     const config = { ...waveformVisualizer.defaultConfig, fillMode: true };
 
-    waveformVisualizer.render(ctx, data, config, dimensions, deltaTime);
+    instance.render(ctx, data, config, dimensions, deltaTime);
 
     expect(ctx.fill).toHaveBeenCalled();
     expect(ctx.createLinearGradient).toHaveBeenCalled();
@@ -92,7 +99,7 @@ describe("waveformVisualizer", () => {
 
   it("should draw grid lines", () => {
     const data = createMockData();
-    waveformVisualizer.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Grid lines are drawn with moveTo/lineTo
     const moveToCount = (ctx.moveTo as ReturnType<typeof vi.fn>).mock.calls.length;
@@ -105,7 +112,7 @@ describe("waveformVisualizer", () => {
 
   it("should draw center line", () => {
     const data = createMockData();
-    waveformVisualizer.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, data, waveformVisualizer.defaultConfig, dimensions, deltaTime);
 
     expect(ctx.setLineDash).toHaveBeenCalled();
   });
@@ -114,7 +121,7 @@ describe("waveformVisualizer", () => {
     const data = createMockData();
     const config = { ...waveformVisualizer.defaultConfig, lineWidth: 4 };
 
-    waveformVisualizer.render(ctx, data, config, dimensions, deltaTime);
+    instance.render(ctx, data, config, dimensions, deltaTime);
 
     // lineWidth is set during rendering
     expect(ctx.lineWidth).toBeDefined();
@@ -125,12 +132,12 @@ describe("waveformVisualizer", () => {
     const highData = createMockData({ averageFrequency: 0.9 });
 
     // Render with low frequency
-    waveformVisualizer.render(ctx, lowData, waveformVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, lowData, waveformVisualizer.defaultConfig, dimensions, deltaTime);
 
     vi.clearAllMocks();
 
     // Render with high frequency - glow should be more intense
-    waveformVisualizer.render(ctx, highData, waveformVisualizer.defaultConfig, dimensions, deltaTime);
+    instance.render(ctx, highData, waveformVisualizer.defaultConfig, dimensions, deltaTime);
 
     // Both should render successfully
     expect(ctx.stroke).toHaveBeenCalled();
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { createProgram, hexToRgb } from "@/visualizers/webgl";
+
+function createMockGL({ compiles = true, links = true } = {}) {
+  return {
+    VERTEX_SHADER: 1,
+    FRAGMENT_SHADER: 2,
+    COMPILE_STATUS: 3,
+    LINK_STATUS: 4,
+    createShader: vi.fn(() => ({})),
+    shaderSource: vi.fn(),
+    compileShader: vi.fn(),
+    getShaderParameter: vi.fn(() => compiles),
+    getShaderInfoLog: vi.fn(() => "ERROR: 0:1: syntax error"),
+    deleteShader: vi.fn(),
+    createProgram: vi.fn(() => ({})),
+    attachShader: vi.fn(),
+    bindAttribLocation: vi.fn(),
+    linkProgram: vi.fn(),
+    getProgramParameter: vi.fn(() => links),
+    getProgramInfoLog: vi.fn(() => "varyings mismatch"),
+    deleteProgram: vi.fn(),
+  };
+}
+
+describe("webgl helpers", () => {
+  describe("createProgram", () => {
+    it("should link both shaders and free them", () => {
+      const gl = createMockGL();
+
+      const program = createProgram(gl as unknown as WebGL2RenderingContext, "vertex", "fragment");
+
+      expect(program).toBeDefined();
+      expect(gl.attachShader).toHaveBeenCalledTimes(2);
+      expect(gl.bindAttribLocation).toHaveBeenCalledWith(program, 0, "position");
+      expect(gl.deleteShader).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report the compile log", () => {
+      const gl = createMockGL({ compiles: false });
+
+      expect(() => createProgram(gl as unknown as WebGL2RenderingContext, "vertex", "fragment")).toThrow(
+        "Shader compile failed: ERROR: 0:1: syntax error",
+      );
+      expect(gl.deleteShader).toHaveBeenCalled();
+    });
+
+    it("should report the link log", () => {
+      const gl = createMockGL({ links: false });
+
+      expect(() => createProgram(gl as unknown as WebGL2RenderingContext, "vertex", "fragment")).toThrow(
+        "Program link failed: varyings mismatch",
+      );
+      expect(gl.deleteProgram).toHaveBeenCalled();
+    });
+  });
+
+  describe("hexToRgb", () => {
+    it("should convert to 0-1 components", () => {
+      expect(hexToRgb("#ff8000")).toEqual([1, 128 / 255, 0]);
+    });
+
+    it("should fall back to white for invalid input", () => {
+      expect(hexToRgb("not a color")).toEqual([1, 1, 1]);
+    });
+  });
+});
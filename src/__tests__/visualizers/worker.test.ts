@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { canRenderInWorker, createRenderHost, createWorkerRenderer } from "@/visualizers/worker";
+import { barsVisualizer } from "@/visualizers";
+import { builtinPalettes } from "@/visualizers/palettes";
+import type { AnalyserData, VisualizerInstance } from "@/visualizers/types";
+
+const data: AnalyserData = {
+  frequencyData: new Uint8Array(1024),
+  timeDomainData: new Uint8Array(2048).fill(128),
+  averageFrequency: 0,
+  peakFrequency: 0,
+  isBeat: false,
+  beatConfidence: 0,
+  bpm: 0,
+  beatPhase: 0,
+  isSectionChange: false,
+};
+
+function createMockWorker() {
+  return {
+    postMessage: vi.fn(),
+    terminate: vi.fn(),
+    onmessage: null as ((event: MessageEvent) => void) | null,
+    onerror: null as ((event: ErrorEvent) => void) | null,
+    onmessageerror: null as ((event: MessageEvent) => void) | null,
+  };
+}
+
+// A canvas whose control can be handed off, as in browsers with OffscreenCanvas
+function createTransferableCanvas() {
+  const offscreen = document.createElement("canvas") as unknown as OffscreenCanvas;
+  const canvas = document.createElement("canvas");
+  canvas.transferControlToOffscreen = vi.fn(() => offscreen);
+  return { canvas, offscreen };
+}
+
+describe("canRenderInWorker", () => {
+  it("should fall back without OffscreenCanvas support", () => {
+    // jsdom has neither Worker nor transferControlToOffscreen
+    expect(canRenderInWorker(document.createElement("canvas"))).toBe(false);
+  });
+});
+
+describe("createWorkerRenderer", () => {
+  let worker: ReturnType<typeof createMockWorker>;
+
+  beforeEach(() => {
+    worker = createMockWorker();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function respond(message: unknown) {
+    worker.onmessage?.({ data: message } as MessageEvent);
+  }
+
+  it("should transfer the canvas to the worker", () => {
+    const { canvas, offscreen } = createTransferableCanvas();
+
+    createWorkerRenderer(canvas, "scope", { worker: worker as unknown as Worker });
+
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: "init", canvas: offscreen, mode: "scope" }, [offscreen]);
+  });
+
+  it("should forward calls as messages", () => {
+    const { canvas } = createTransferableCanvas();
+    const renderer = createWorkerRenderer(canvas, "bars", { worker: worker as unknown as Worker });
+
+    renderer.setMode("waveform");
+    renderer.resize({ width: 300, height: 200 }, 2);
+    renderer.reset();
+    renderer.setCustomPalette(builtinPalettes.monochrome);
+    renderer.setSeed(42);
+    renderer.drawIdle("Idle");
+
+    const messages = worker.postMessage.mock.calls.map(([message]) => message);
+    expect(messages.slice(1)).toEqual([
+      { type: "mode", mode: "waveform" },
+      { type: "resize", dimensions: { width: 300, height: 200 }, pixelRatio: 2 },
+      { type: "reset" },
+      { type: "palette", palette: builtinPalettes.monochrome },
+      { type: "seed", seed: 42 },
+      { type: "idle", message: "Idle" },
+    ]);
+  });
+
+  it("should skip frames while the worker is busy and carry their time over", () => {
+    const { canvas } = createTransferableCanvas();
+    const renderer = createWorkerRenderer(canvas, "bars", { worker: worker as unknown as Worker });
+    const config = { barCount: 32 };
+
+    renderer.render(data, config, 16);
+    renderer.render(data, config, 17);
+    renderer.render(data, config, 15);
+    respond({ type: "rendered" });
+    renderer.render(data, config, 16);
+
+    const frames = worker.postMessage.mock.calls.map(([message]) => message).filter((m) => m.type === "render");
+    expect(frames).toHaveLength(2);
+    expect(frames[0].deltaTime).toBe(16);
+    expect(frames[1].deltaTime).toBe(48);
+    expect(frames[1].config).toBe(config);
+  });
+
+  it("should stop waiting for the frame in flight and report a worker error", () => {
+    const { canvas } = createTransferableCanvas();
+    const onError = vi.fn();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const renderer = createWorkerRenderer(canvas, "bars", { worker: worker as unknown as Worker, onError });
+
+    renderer.render(data, {}, 16);
+    renderer.render(data, {}, 16);
+    worker.onerror?.({ message: "Boom", preventDefault: vi.fn() } as unknown as ErrorEvent);
+    renderer.render(data, {}, 16);
+
+    const frames = worker.postMessage.mock.calls.map(([message]) => message).filter((m) => m.type === "render");
+    expect(frames).toHaveLength(2);
+    expect(frames[1].deltaTime).toBe(16);
+    expect(onError).toHaveBeenCalledWith("Boom");
+
+    worker.onmessageerror?.({} as MessageEvent);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report a frame the worker failed to draw", () => {
+    const { canvas } = createTransferableCanvas();
+    const onError = vi.fn();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    createWorkerRenderer(canvas, "bars", { worker: worker as unknown as Worker, onError }).render(data, {}, 16);
+
+    worker.onmessage?.({ data: { type: "error", message: "Boom" } } as MessageEvent);
+
+    expect(onError).toHaveBeenCalledWith("Boom");
+  });
+
+  it("should terminate the worker on dispose", () => {
+    const { canvas } = createTransferableCanvas();
+    const renderer = createWorkerRenderer(canvas, "bars", { worker: worker as unknown as Worker });
+
+    renderer.dispose();
+
+    expect(worker.terminate).toHaveBeenCalled();
+    expect(worker.onmessage).toBeNull();
+    expect(worker.onerror).toBeNull();
+  });
+});
+
+describe("createRenderHost", () => {
+  let instance: VisualizerInstance;
+
+  beforeEach(() => {
+    instance = { render: vi.fn(), resize: vi.fn(), reset: vi.fn(), dispose: vi.fn() };
+    vi.spyOn(barsVisualizer, "create").mockReturnValue(instance);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should ignore messages before init", () => {
+    const post = vi.fn();
+    const handle = createRenderHost(post);
+
+    handle({ type: "render", data, config: {}, deltaTime: 16 });
+
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it("should render each frame and acknowledge it", () => {
+    const post = vi.fn();
+    const handle = createRenderHost(post);
+    const { offscreen } = createTransferableCanvas();
+
+    handle({ type: "init", canvas: offscreen, mode: "bars" });
+    handle({ type: "resize", dimensions: { width: 300, height: 200 }, pixelRatio: 1 });
+    handle({ type: "render", data, config: {}, deltaTime: 16 });
+
+    expect(instance.render).toHaveBeenCalledWith(
+      expect.anything(),
+      data,
+      {},
+      { width: 300, height: 200 },
+      16
+    );
+    expect(post).toHaveBeenCalledWith({ type: "rendered" });
+  });
+
+  it("should report a failing frame and still acknowledge it", () => {
+    const post = vi.fn();
+    const handle = createRenderHost(post);
+    const { offscreen } = createTransferableCanvas();
+    vi.mocked(instance.render).mockImplementation(() => {
+      throw new Error("boom");
+    });
+
+    handle({ type: "init", canvas: offscreen, mode: "bars" });
+    handle({ type: "render", data, config: {}, deltaTime: 16 });
+
+    expect(post).toHaveBeenCalledWith({ type: "error", message: "boom" });
+    expect(post).toHaveBeenCalledWith({ type: "rendered" });
+  });
+});
@@ -1,5 +1,12 @@
 import { Visualizer } from "@/components/Visualizer";
+import { SHARE_PARAM } from "@/presets";
 
-export default function Home() {
-  return <Visualizer />;
+interface HomeProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// A share link opens the app in the preset it carries
+export default async function Home({ searchParams }: HomeProps) {
+  const sharedPreset = (await searchParams)[SHARE_PARAM];
+  return <Visualizer sharedPreset={typeof sharedPreset === "string" ? sharedPreset : undefined} />;
 }
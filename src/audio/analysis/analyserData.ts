@@ -0,0 +1,116 @@
+import type { AnalyserData, FloatAnalyserData } from "@/visualizers/types";
+import {
+  amplitudeToDb,
+  getAverageAmplitude,
+  getFloatPeak,
+  getFloatRms,
+  getPeakFrequencyHz,
+  getPeakFrequencyIndex,
+} from "@/utils/audioHelpers";
+import { createBeatDetector } from "@/audio/beatDetector";
+import { createSectionDetector } from "@/audio/sectionDetector";
+import { createSpectrumAnalyser, type SpectrumAnalyser, type SpectrumAnalyserOptions } from "./spectrum";
+
+export interface AnalyserDataOptions extends SpectrumAnalyserOptions {
+  // Of the samples, reported as AnalyserData.sampleRate
+  sampleRate: number;
+  // Also fill AnalyserData.float, as useAnalyser does in float mode
+  float: boolean;
+}
+
+export interface StereoSamples {
+  left: Float32Array;
+  right: Float32Array;
+}
+
+export interface FrameAnalyser {
+  // AnalyserData for the fftSize samples ending just before index end, time seconds into the
+  // audio. Call once per frame, in order: smoothing and the beat and section detectors carry
+  // over between calls. Arrays in the result are reused by the next call.
+  analyse: (samples: Float32Array, end: number, time: number, channels?: StereoSamples | null) => AnalyserData;
+  reset: () => void;
+}
+
+// The float summary useAnalyser attaches in float mode: the spectrum in dB and the raw samples,
+// with level, crest factor and peak frequency worked out from them
+export function createFloatAnalyserData(
+  frequencyData: Float32Array,
+  timeDomainData: Float32Array,
+  sampleRate: number
+): FloatAnalyserData {
+  const rms = getFloatRms(timeDomainData);
+  const peak = getFloatPeak(timeDomainData);
+  const rmsDb = amplitudeToDb(rms);
+  const peakDb = amplitudeToDb(peak);
+
+  return {
+    frequencyData,
+    timeDomainData,
+    rms,
+    rmsDb,
+    peak,
+    peakDb,
+    crestFactor: rms > 0 ? peakDb - rmsDb : 0,
+    peakFrequencyHz: getPeakFrequencyHz(frequencyData, sampleRate),
+  };
+}
+
+// useAnalyser's getData for sample arrays instead of AnalyserNodes, so it runs in tests,
+// workers and offline renders
+export function createFrameAnalyser(options: Partial<AnalyserDataOptions> = {}): FrameAnalyser {
+  const { sampleRate = 44100, float = false, ...spectrumOptions } = options;
+  const analyser = createSpectrumAnalyser(spectrumOptions);
+  // Created on the first stereo frame
+  let channelAnalysers: { left: SpectrumAnalyser; right: SpectrumAnalyser } | null = null;
+  const beatDetector = createBeatDetector();
+  const sectionDetector = createSectionDetector();
+
+  function analyse(samples: Float32Array, end: number, time: number, channels: StereoSamples | null = null) {
+    const { frequencyData, timeDomainData } = analyser.analyse(samples, end);
+    const data: AnalyserData = {
+      frequencyData,
+      timeDomainData,
+      averageFrequency: getAverageAmplitude(frequencyData),
+      peakFrequency: getPeakFrequencyIndex(frequencyData),
+      sampleRate,
+      ...beatDetector.update(frequencyData, time),
+      isSectionChange: sectionDetector.update(frequencyData, time),
+    };
+
+    if (float) {
+      data.float = createFloatAnalyserData(analyser.floatFrequencyData, analyser.floatTimeDomainData, sampleRate);
+    }
+
+    if (channels) {
+      channelAnalysers ??= {
+        left: createSpectrumAnalyser(spectrumOptions),
+        right: createSpectrumAnalyser(spectrumOptions),
+      };
+      data.left = channelAnalysers.left.analyse(channels.left, end);
+      data.right = channelAnalysers.right.analyse(channels.right, end);
+    }
+
+    return data;
+  }
+
+  return {
+    analyse,
+    reset() {
+      analyser.reset();
+      channelAnalysers?.left.reset();
+      channelAnalysers?.right.reset();
+      beatDetector.reset();
+      sectionDetector.reset();
+    },
+  };
+}
+
+// AnalyserData for the last fftSize samples, as a freshly created AnalyserNode would report it
+// (smoothing starts from silence). For a sequence of frames use createFrameAnalyser instead.
+export function createAnalyserData(
+  samples: Float32Array,
+  options: Partial<AnalyserDataOptions> = {},
+  channels: StereoSamples | null = null
+): AnalyserData {
+  return createFrameAnalyser(options).analyse(samples, samples.length, 0, channels);
+}
@@ -0,0 +1,27 @@
+// The steps AnalyserNode takes from FFT magnitudes to the values its get*Data methods return,
+// as laid out in the Web Audio spec
+
+import { amplitudeToDb } from "@/utils/audioHelpers";
+
+// Blend this block's magnitude with the last smoothed one. 0 keeps no history, values near 1
+// respond slowly. A result that isn't finite is dropped to 0, as the spec requires.
+export function smoothMagnitude(previous: number, magnitude: number, smoothingTimeConstant: number): number {
+  const value = smoothingTimeConstant * previous + (1 - smoothingTimeConstant) * magnitude;
+  return Number.isFinite(value) ? value : 0;
+}
+
+// Smoothed magnitude to dB, what getFloatFrequencyData returns; silence is -Infinity
+export function magnitudeToDb(magnitude: number): number {
+  return amplitudeToDb(magnitude);
+}
+
+// getByteFrequencyData's mapping of minDecibels..maxDecibels onto 0-255, clipped at both ends
+export function dbToByte(db: number, minDecibels: number, maxDecibels: number): number {
+  const scaled = Math.floor((255 / (maxDecibels - minDecibels)) * (db - minDecibels));
+  return Math.max(0, Math.min(255, scaled));
+}
+
+// getByteTimeDomainData's mapping of -1..1 onto 0-255, with silence at 128
+export function sampleToByte(sample: number): number {
+  return Math.max(0, Math.min(255, Math.floor(128 * (sample + 1))));
+}
@@ -0,0 +1,5 @@
+export * from "./fft";
+export * from "./windows";
+export * from "./decibels";
+export * from "./spectrum";
+export * from "./analyserData";
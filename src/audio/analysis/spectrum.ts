@@ -0,0 +1,96 @@
+import type { ChannelData } from "@/visualizers/types";
+import { fft, isPowerOfTwo } from "./fft";
+import { createWindow, type WindowType } from "./windows";
+import { dbToByte, magnitudeToDb, sampleToByte, smoothMagnitude } from "./decibels";
+
+// The AnalyserNode parameters, with the same meaning and defaults, plus the window to apply
+export interface SpectrumAnalyserOptions {
+  fftSize: number;
+  smoothingTimeConstant: number;
+  minDecibels: number;
+  maxDecibels: number;
+  // AnalyserNode always uses Blackman
+  window: WindowType;
+}
+
+export const defaultSpectrumAnalyserOptions: SpectrumAnalyserOptions = {
+  fftSize: 2048,
+  smoothingTimeConstant: 0.8,
+  minDecibels: -100,
+  maxDecibels: -30,
+  window: "blackman",
+};
+
+export interface SpectrumAnalyser {
+  readonly fftSize: number;
+  readonly frequencyBinCount: number;
+  // Analyse the fftSize samples that end just before index end, as an AnalyserNode would see
+  // them at that moment. Samples before the start read as silence. The returned arrays are
+  // reused by the next call.
+  analyse: (samples: Float32Array, end: number) => ChannelData;
+  // Full-precision results of the last analysis: smoothed dB per bin (not clipped to the
+  // decibel range) and the raw samples
+  readonly floatFrequencyData: Float32Array;
+  readonly floatTimeDomainData: Float32Array;
+  // Forget the smoothed spectrum
+  reset: () => void;
+}
+
+// AnalyserNode's output computed in plain JavaScript, for analysis without an audio graph.
+// Like the node, smoothing runs once per analysis, so call it once per frame.
+export function createSpectrumAnalyser(options: Partial<SpectrumAnalyserOptions> = {}): SpectrumAnalyser {
+  const { fftSize, smoothingTimeConstant, minDecibels, maxDecibels, window: windowType } = {
+    ...defaultSpectrumAnalyserOptions,
+    ...options,
+  };
+  if (!isPowerOfTwo(fftSize) || fftSize < 32) {
+    throw new RangeError(`FFT size must be a power of two of at least 32, got ${fftSize}`);
+  }
+  if (minDecibels >= maxDecibels) {
+    throw new RangeError("minDecibels must be below maxDecibels");
+  }
+
+  const binCount = fftSize / 2;
+  const window = createWindow(windowType, fftSize);
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const smoothed = new Float32Array(binCount);
+  const frequencyData = new Uint8Array(binCount);
+  const timeDomainData = new Uint8Array(fftSize);
+  const floatFrequencyData = new Float32Array(binCount).fill(-Infinity);
+  const floatTimeDomainData = new Float32Array(fftSize);
+
+  function analyse(samples: Float32Array, end: number): ChannelData {
+    const start = end - fftSize;
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      const sample = index >= 0 && index < samples.length ? samples[index] : 0;
+      floatTimeDomainData[i] = sample;
+      timeDomainData[i] = sampleToByte(sample);
+      real[i] = sample * window[i];
+      imag[i] = 0;
+    }
+
+    fft(real, imag);
+
+    for (let bin = 0; bin < binCount; bin++) {
+      const magnitude = Math.sqrt(real[bin] * real[bin] + imag[bin] * imag[bin]) / fftSize;
+      smoothed[bin] = smoothMagnitude(smoothed[bin], magnitude, smoothingTimeConstant);
+      floatFrequencyData[bin] = magnitudeToDb(smoothed[bin]);
+      frequencyData[bin] = dbToByte(floatFrequencyData[bin], minDecibels, maxDecibels);
+    }
+
+    return { frequencyData, timeDomainData };
+  }
+
+  return {
+    fftSize,
+    frequencyBinCount: binCount,
+    analyse,
+    floatFrequencyData,
+    floatTimeDomainData,
+    reset() {
+      smoothed.fill(0);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+// Window functions applied to a block of samples before the FFT, to cut spectral leakage.
+// AnalyserNode always uses Blackman; Hann and Hamming trade a narrower peak for more leakage.
+export type WindowType = "hann" | "hamming" | "blackman";
+
+export const WINDOW_TYPES: WindowType[] = ["hann", "hamming", "blackman"];
+
+// Periodic windows (divided by size, not size - 1), which is what AnalyserNode's Blackman uses
+export function createWindow(type: WindowType, size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / size;
+    switch (type) {
+      case "hann":
+        window[i] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case "hamming":
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case "blackman":
+        // The alpha = 0.16 form from the Web Audio spec
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+    }
+  }
+  return window;
+}
+
+// Average of the window, which is how much it scales a steady sine's peak
+export function getWindowGain(window: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < window.length; i++) sum += window[i];
+  return window.length > 0 ? sum / window.length : 0;
+}
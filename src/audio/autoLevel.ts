@@ -0,0 +1,42 @@
+// Software auto-level: steer the input gain so the analysed signal sits near a target RMS
+
+export interface AutoLevelOptions {
+  targetRms: number;
+  // Seconds to settle when turning down (loud input) and up (quiet input)
+  attackTime: number;
+  releaseTime: number;
+  minGain: number;
+  maxGain: number;
+  // Below this RMS the input counts as silence and the gain is held
+  noiseFloor: number;
+}
+
+export const defaultAutoLevelOptions: AutoLevelOptions = {
+  targetRms: 0.2,
+  attackTime: 0.05,
+  releaseTime: 1.5,
+  minGain: 0.25,
+  maxGain: 16,
+  noiseFloor: 0.002,
+};
+
+// How often the auto-level loop measures the signal
+export const AUTO_LEVEL_INTERVAL_MS = 50;
+
+// rms is measured after the current gain, so the gain that would hit the target
+// is currentGain * target / rms. Move towards it with a one-pole smoother.
+export function getAutoLevelGain(
+  currentGain: number,
+  rms: number,
+  deltaTime: number,
+  options: AutoLevelOptions = defaultAutoLevelOptions
+): number {
+  if (rms < options.noiseFloor) {
+    return currentGain;
+  }
+
+  const desired = Math.max(options.minGain, Math.min(options.maxGain, (currentGain * options.targetRms) / rms));
+  const time = desired < currentGain ? options.attackTime : options.releaseTime;
+  const k = 1 - Math.exp(-deltaTime / time);
+  return currentGain + (desired - currentGain) * k;
+}
@@ -0,0 +1,195 @@
+// Beat/onset detection from byte frequency frames: spectral flux with an adaptive
+// threshold for onsets, and an inter-onset interval histogram for tempo
+
+export interface BeatInfo {
+  isBeat: boolean;
+  // Onset strength on beat frames, 0-1; 0 otherwise
+  beatConfidence: number;
+  // 0 until enough onsets have been seen
+  bpm: number;
+  // 0-1 through the current beat, 0 on the beat
+  beatPhase: number;
+}
+
+export interface BeatDetectorOptions {
+  // Seconds of flux history the threshold adapts to
+  thresholdWindow: number;
+  // Standard deviations above the mean flux an onset must reach
+  sensitivity: number;
+  // Fraction above the mean flux an onset must also reach, so steady noise never counts
+  margin: number;
+  // Flux below this never counts, so silence and hiss stay quiet
+  minFlux: number;
+  // Shortest gap between beats, in seconds
+  refractoryPeriod: number;
+  // Seconds of onsets the tempo estimate looks back over
+  tempoWindow: number;
+  minBpm: number;
+  maxBpm: number;
+}
+
+export interface BeatDetector {
+  // time is in seconds and must increase between calls
+  update: (frequencyData: Uint8Array, time: number) => BeatInfo;
+  // Same, for flux already measured elsewhere such as the feature worklet
+  updateFlux: (flux: number, time: number) => BeatInfo;
+  reset: () => void;
+}
+
+export const defaultBeatDetectorOptions: BeatDetectorOptions = {
+  thresholdWindow: 1.5,
+  sensitivity: 1.5,
+  margin: 0.5,
+  minFlux: 0.01,
+  refractoryPeriod: 0.25,
+  tempoWindow: 8,
+  minBpm: 60,
+  maxBpm: 180,
+};
+
+// Onsets needed before a tempo is reported
+const MIN_TEMPO_ONSETS = 4;
+// Seconds of flux history needed before the threshold is trusted
+const MIN_HISTORY = 0.25;
+// Votes within this fraction of the histogram peak are averaged into the final tempo
+const TEMPO_TOLERANCE = 0.05;
+
+export const silentBeatInfo: BeatInfo = {
+  isBeat: false,
+  beatConfidence: 0,
+  bpm: 0,
+  beatPhase: 0,
+};
+
+// Sum of per-bin increases since the previous frame, normalized to 0-1
+export function getSpectralFlux(current: Uint8Array, previous: Uint8Array): number {
+  const length = Math.min(current.length, previous.length);
+  if (length === 0) return 0;
+
+  let flux = 0;
+  for (let i = 0; i < length; i++) {
+    const rise = current[i] - previous[i];
+    if (rise > 0) flux += rise;
+  }
+  return flux / (length * 255);
+}
+
+// Most likely tempo for a list of onset times. Every pair of onsets votes for the
+// tempo its gap implies, folded into [minBpm, maxBpm) so half and double time agree.
+export function estimateTempo(
+  onsetTimes: number[],
+  minBpm = defaultBeatDetectorOptions.minBpm,
+  maxBpm = defaultBeatDetectorOptions.maxBpm
+): number {
+  if (onsetTimes.length < MIN_TEMPO_ONSETS) return 0;
+
+  const bins = new Float64Array(maxBpm - minBpm);
+  const votes: { bpm: number; weight: number }[] = [];
+  const maxInterval = (60 / minBpm) * 2;
+
+  for (let i = 0; i < onsetTimes.length; i++) {
+    for (let j = i + 1; j < onsetTimes.length; j++) {
+      const interval = onsetTimes[j] - onsetTimes[i];
+      if (interval > maxInterval) break;
+      if (interval <= 0) continue;
+
+      let bpm = 60 / interval;
+      while (bpm < minBpm) bpm *= 2;
+      while (bpm >= maxBpm) bpm /= 2;
+
+      // Neighbouring onsets are the most reliable evidence
+      const weight = 1 / (j - i);
+      votes.push({ bpm, weight });
+
+      const center = bpm - minBpm;
+      for (let bin = Math.floor(center) - 2; bin <= Math.ceil(center) + 2; bin++) {
+        if (bin < 0 || bin >= bins.length) continue;
+        const distance = bin - center;
+        bins[bin] += weight * Math.exp(-(distance * distance) / 2);
+      }
+    }
+  }
+
+  let best = 0;
+  for (let bin = 1; bin < bins.length; bin++) {
+    if (bins[bin] > bins[best]) best = bin;
+  }
+  if (bins[best] === 0) return 0;
+
+  // Onsets land on frame boundaries, so gaps jitter around the true period.
+  // Averaging the periods near the peak recovers it.
+  const peak = minBpm + best;
+  let periodSum = 0;
+  let weightSum = 0;
+  for (const { bpm, weight } of votes) {
+    if (Math.abs(bpm - peak) > peak * TEMPO_TOLERANCE) continue;
+    periodSum += (60 / bpm) * weight;
+    weightSum += weight;
+  }
+  return weightSum > 0 ? 60 / (periodSum / weightSum) : peak;
+}
+
+export function createBeatDetector(options: Partial<BeatDetectorOptions> = {}): BeatDetector {
+  const settings = { ...defaultBeatDetectorOptions, ...options };
+
+  let previous: Uint8Array | null = null;
+  let fluxHistory: { time: number; flux: number }[] = [];
+  let onsetTimes: number[] = [];
+  let lastBeatTime = -Infinity;
+  let bpm = 0;
+
+  const getThreshold = () => {
+    if (fluxHistory.length === 0) return settings.minFlux;
+
+    let sum = 0;
+    for (const { flux } of fluxHistory) sum += flux;
+    const mean = sum / fluxHistory.length;
+
+    let variance = 0;
+    for (const { flux } of fluxHistory) variance += (flux - mean) * (flux - mean);
+    const deviation = Math.sqrt(variance / fluxHistory.length);
+
+    return Math.max(settings.minFlux, mean * (1 + settings.margin), mean + settings.sensitivity * deviation);
+  };
+
+  const updateFlux = (flux: number, time: number): BeatInfo => {
+    // Compare against the recent past, not including this frame
+    fluxHistory = fluxHistory.filter((entry) => time - entry.time <= settings.thresholdWindow);
+    const threshold = getThreshold();
+    const isSettled = fluxHistory.length > 0 && time - fluxHistory[0].time >= MIN_HISTORY;
+    fluxHistory.push({ time, flux });
+
+    const isBeat = isSettled && flux > threshold && time - lastBeatTime >= settings.refractoryPeriod;
+    let beatConfidence = 0;
+
+    if (isBeat) {
+      beatConfidence = Math.min(1, (flux - threshold) / threshold);
+      lastBeatTime = time;
+      onsetTimes.push(time);
+      onsetTimes = onsetTimes.filter((onset) => time - onset <= settings.tempoWindow);
+      bpm = estimateTempo(onsetTimes, settings.minBpm, settings.maxBpm);
+    }
+
+    const period = bpm > 0 ? 60 / bpm : 0;
+    const beatPhase = period > 0 && Number.isFinite(lastBeatTime) ? ((time - lastBeatTime) / period) % 1 : 0;
+
+    return { isBeat, beatConfidence, bpm, beatPhase };
+  };
+
+  const update = (frequencyData: Uint8Array, time: number): BeatInfo => {
+    const flux = previous && previous.length === frequencyData.length ? getSpectralFlux(frequencyData, previous) : 0;
+    // The analyser reuses its array, so keep a copy
+    previous = Uint8Array.from(frequencyData);
+    return updateFlux(flux, time);
+  };
+
+  const reset = () => {
+    previous = null;
+    fluxHistory = [];
+    onsetTimes = [];
+    lastBeatTime = -Infinity;
+    bpm = 0;
+  };
+
+  return { update, updateFlux, reset };
+}
@@ -0,0 +1,120 @@
+// Detects changes of musical section (verse to chorus, drop, breakdown) from byte frequency
+// frames, by comparing a short-term spectral profile against a long-term one
+
+import { getBandLevel } from "@/utils/audioHelpers";
+
+export interface SectionDetectorOptions {
+  // Seconds the short-term profile averages over
+  shortWindow: number;
+  // Most seconds the long-term profile averages over. It covers only the current section,
+  // so it starts out as short as the short-term one and grows to this.
+  longWindow: number;
+  // Distance between the two profiles, relative to the long-term level, that counts as a change
+  threshold: number;
+  // Shortest section, in seconds; also how long the detector listens before the first change
+  minSectionLength: number;
+  // Average band level (0-1) below which the input counts as silence and never changes section
+  minLevel: number;
+}
+
+export interface SectionDetector {
+  // time is in seconds and must increase between calls. True on the frame a new section starts.
+  update: (frequencyData: Uint8Array, time: number) => boolean;
+  // Same, for band levels (0-1) measured elsewhere such as the feature worklet. A profile with a
+  // different number of bands starts over.
+  updateProfile: (profile: ArrayLike<number>, time: number) => boolean;
+  reset: () => void;
+}
+
+export const defaultSectionDetectorOptions: SectionDetectorOptions = {
+  shortWindow: 2,
+  longWindow: 12,
+  threshold: 0.35,
+  minSectionLength: 8,
+  minLevel: 0.02,
+};
+
+// Band edges as fractions of the spectrum, roughly an octave each from the top down
+const BAND_EDGES = [0, 1 / 256, 1 / 128, 1 / 64, 1 / 32, 1 / 16, 1 / 8, 1 / 4, 1 / 2, 1];
+
+// Average level of each band, 0-1
+export function getSpectralProfile(frequencyData: Uint8Array, target = new Float32Array(BAND_EDGES.length - 1)) {
+  const length = frequencyData.length;
+  for (let band = 0; band < target.length; band++) {
+    const start = Math.floor(BAND_EDGES[band] * length);
+    const end = Math.max(start + 1, Math.floor(BAND_EDGES[band + 1] * length));
+    target[band] = getBandLevel(frequencyData, start, end);
+  }
+  return target;
+}
+
+// Euclidean distance between two profiles, relative to the size of the reference
+export function getProfileDistance(profile: Float32Array, reference: Float32Array, minLevel = 0): number {
+  let distance = 0;
+  let size = 0;
+  for (let i = 0; i < profile.length; i++) {
+    distance += (profile[i] - reference[i]) ** 2;
+    size += reference[i] ** 2;
+  }
+  return Math.sqrt(distance) / Math.max(Math.sqrt(size), minLevel);
+}
+
+export function createSectionDetector(options: Partial<SectionDetectorOptions> = {}): SectionDetector {
+  const settings = { ...defaultSectionDetectorOptions, ...options };
+  const frame = new Float32Array(BAND_EDGES.length - 1);
+  let short: Float32Array | null = null;
+  let long: Float32Array | null = null;
+  let lastTime = 0;
+  // When the current section started, or when listening began
+  let sectionStart = 0;
+
+  const updateProfile = (profile: ArrayLike<number>, time: number): boolean => {
+    const bands = profile.length;
+
+    // Both averages start from the first frame rather than rising from 0
+    if (!short || !long || short.length !== bands) {
+      short = Float32Array.from(profile);
+      long = Float32Array.from(profile);
+      lastTime = time;
+      sectionStart = time;
+      return false;
+    }
+
+    const dt = Math.max(0, time - lastTime);
+    lastTime = time;
+    const longWindow = Math.min(settings.longWindow, Math.max(settings.shortWindow, time - sectionStart));
+    const shortRate = 1 - Math.exp(-dt / settings.shortWindow);
+    const longRate = 1 - Math.exp(-dt / longWindow);
+    for (let i = 0; i < bands; i++) {
+      short[i] += (profile[i] - short[i]) * shortRate;
+      long[i] += (profile[i] - long[i]) * longRate;
+    }
+
+    if (time - sectionStart < settings.minSectionLength) return false;
+
+    let level = 0;
+    for (let i = 0; i < bands; i++) level += Math.max(short[i], long[i]);
+    if (level / bands < settings.minLevel) return false;
+
+    if (getProfileDistance(short, long, settings.minLevel) < settings.threshold) return false;
+
+    // The new section becomes the reference, and the long average relearns it from here
+    long.set(short);
+    sectionStart = time;
+    return true;
+  };
+
+  const update = (frequencyData: Uint8Array, time: number): boolean => {
+    if (frequencyData.length === 0) return false;
+    return updateProfile(getSpectralProfile(frequencyData, frame), time);
+  };
+
+  const reset = () => {
+    short = null;
+    long = null;
+    lastTime = 0;
+    sectionStart = 0;
+  };
+
+  return { update, updateProfile, reset };
+}
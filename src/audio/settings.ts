@@ -0,0 +1,85 @@
+import type { ConfigSchema, VisualizerConfig } from "@/visualizers/types";
+import { resolveSchemaConfig } from "@/visualizers/config";
+
+export interface AudioSettings extends VisualizerConfig {
+  // Browser processing, applied to the microphone stream
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  // AnalyserNode parameters
+  fftSize: number;
+  smoothing: number;
+  minDecibels: number;
+  maxDecibels: number;
+  // Software gain before the analyser, in dB. Ignored while autoLevel is on.
+  inputGain: number;
+  autoLevel: boolean;
+  // Adds full-precision dB, RMS and peak readings to the analyser data
+  floatAnalysis: boolean;
+}
+
+export type MicrophoneProcessing = Pick<AudioSettings, "echoCancellation" | "noiseSuppression" | "autoGainControl">;
+
+export const MICROPHONE_PROCESSING_KEYS: (keyof MicrophoneProcessing)[] = [
+  "echoCancellation",
+  "noiseSuppression",
+  "autoGainControl",
+];
+
+// Tuned for visuals: raw input, fast response, quiet sounds still register
+export const defaultAudioSettings: AudioSettings = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+  fftSize: 2048,
+  smoothing: 0.15,
+  minDecibels: -80,
+  maxDecibels: -20,
+  inputGain: 0,
+  autoLevel: false,
+  floatAnalysis: false,
+};
+
+export const audioSettingsSchema = {
+  echoCancellation: { type: "boolean", label: "Echo cancellation" },
+  noiseSuppression: { type: "boolean", label: "Noise suppression" },
+  autoGainControl: { type: "boolean", label: "Browser auto gain" },
+  fftSize: {
+    type: "enum",
+    label: "FFT size",
+    options: [256, 512, 1024, 2048, 4096, 8192, 16384, 32768].map((size) => ({
+      value: size,
+      label: String(size),
+    })),
+  },
+  smoothing: { type: "number", label: "Smoothing", min: 0, max: 0.99, step: 0.01 },
+  minDecibels: { type: "number", label: "Min dB", min: -120, max: -40, step: 1 },
+  maxDecibels: { type: "number", label: "Max dB", min: -60, max: 0, step: 1 },
+  inputGain: { type: "number", label: "Input gain (dB)", min: -24, max: 24, step: 1 },
+  autoLevel: { type: "boolean", label: "Auto level" },
+  floatAnalysis: { type: "boolean", label: "Float analysis" },
+} satisfies ConfigSchema<AudioSettings>;
+
+// Validate settings against the schema. The analyser rejects a range where min >= max,
+// so the ceiling is pushed up to keep at least 10 dB of range.
+export function resolveAudioSettings(overrides: Record<string, unknown> = {}): AudioSettings {
+  const settings = resolveSchemaConfig(defaultAudioSettings, audioSettingsSchema, overrides);
+
+  if (settings.minDecibels >= settings.maxDecibels) {
+    settings.maxDecibels = Math.min(0, settings.minDecibels + 10);
+  }
+
+  return settings;
+}
+
+export function getMicrophoneProcessing(settings: AudioSettings): MicrophoneProcessing {
+  return {
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
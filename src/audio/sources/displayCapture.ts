@@ -0,0 +1,27 @@
+import type { AudioSource } from "./types";
+import { createStreamSource } from "./streamSource";
+import { AudioSourceStartError } from "./sourceErrors";
+
+// Captures the audio of a browser tab, window or screen. Browsers only offer
+// audio alongside video, so the video track is requested and left unused.
+export function createDisplayCaptureSource(): AudioSource {
+  return createStreamSource({
+    metadata: {
+      kind: "display-capture",
+      label: "Tab audio",
+      monitor: false,
+      channels: 2,
+    },
+    device: "tab audio",
+    acquire: () => {
+      if (typeof navigator === "undefined" || !navigator.mediaDevices?.getDisplayMedia) {
+        throw new AudioSourceStartError({
+          type: "NotSupportedError",
+          message: "Tab audio capture is not supported in this browser.",
+        });
+      }
+
+      return navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    },
+  });
+}
@@ -0,0 +1,15 @@
+export { createMicrophoneSource } from "./microphone";
+export { createDisplayCaptureSource } from "./displayCapture";
+export { createOscillatorSource } from "./oscillator";
+export { createBufferSource, createMediaElementSource } from "./playback";
+export { createStreamSource } from "./streamSource";
+export { AudioSourceStartError, toAudioSourceError } from "./sourceErrors";
+export type {
+  AudioSource,
+  AudioSourceError,
+  AudioSourceErrorType,
+  AudioSourceKind,
+  AudioSourceMetadata,
+  AudioSourceStatus,
+  PlaybackSource,
+} from "./types";
@@ -0,0 +1,50 @@
+import type { AudioSource } from "./types";
+import { createStreamSource } from "./streamSource";
+import { AudioSourceStartError } from "./sourceErrors";
+
+interface MicrophoneSourceOptions {
+  // Use a stream that was already granted instead of prompting again
+  stream?: MediaStream;
+  constraints?: MediaTrackConstraints;
+}
+
+// Raw input suits visualisation better than the voice-call processing browsers default to
+const defaultConstraints: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
+export function createMicrophoneSource(options: MicrophoneSourceOptions = {}): AudioSource {
+  let initialStream = options.stream ?? null;
+
+  return createStreamSource({
+    metadata: {
+      kind: "microphone",
+      label: initialStream?.getAudioTracks()[0]?.label || "Microphone",
+      monitor: false,
+      // Most microphones are mono; the track settings say otherwise if not
+      channels: 1,
+    },
+    device: "microphone",
+    acquire: async () => {
+      // The provided stream is only good for the first start; later starts prompt as usual
+      if (initialStream) {
+        const stream = initialStream;
+        initialStream = null;
+        return stream;
+      }
+
+      if (typeof navigator === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+        throw new AudioSourceStartError({
+          type: "NotSupportedError",
+          message: "Microphone access is not supported in this browser.",
+        });
+      }
+
+      return navigator.mediaDevices.getUserMedia({
+        audio: { ...defaultConstraints, ...options.constraints },
+      });
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import type { AudioSource, AudioSourceStatus } from "./types";
+
+interface OscillatorSourceOptions {
+  type?: OscillatorType;
+  frequency?: number;
+  // Linear gain, 0-1
+  level?: number;
+  // Test tones are silent by default
+  monitor?: boolean;
+}
+
+// A steady test signal, handy for checking visualizers without any input
+export function createOscillatorSource({
+  type = "sine",
+  frequency = 440,
+  level = 0.5,
+  monitor = false,
+}: OscillatorSourceOptions = {}): AudioSource {
+  let status: AudioSourceStatus = "idle";
+  let oscillator: OscillatorNode | null = null;
+  let output: GainNode | null = null;
+
+  const release = () => {
+    oscillator?.stop();
+    oscillator?.disconnect();
+    oscillator = null;
+    output?.disconnect();
+    output = null;
+  };
+
+  return {
+    metadata: {
+      kind: "oscillator",
+      label: `${frequency} Hz ${type}`,
+      monitor,
+      duration: 0,
+      channels: 1,
+    },
+    get status() {
+      return status;
+    },
+    // Creating an oscillator can't fail once there is a context
+    error: null,
+    start: async (ctx) => {
+      if (status === "running" && output) return output;
+
+      const osc = ctx.createOscillator();
+      osc.type = type;
+      osc.frequency.value = frequency;
+
+      const gain = ctx.createGain();
+      gain.gain.value = level;
+
+      osc.connect(gain);
+      osc.start();
+
+      oscillator = osc;
+      output = gain;
+      status = "running";
+      return gain;
+    },
+    stop: () => {
+      release();
+      status = "stopped";
+    },
+    onended: null,
+  };
+}
@@ -0,0 +1,77 @@
+import type { PlaybackSource, AudioSourceKind, AudioSourceStatus } from "./types";
+import { createBufferPlayback, createElementPlayback, type PlaybackEngine } from "@/utils/audioPlayback";
+
+interface PlaybackSourceOptions {
+  label: string;
+  // Called when the track reaches its end (not when the source is stopped)
+  onPlaybackEnded?: () => void;
+}
+
+// Shared lifecycle for sources built on a PlaybackEngine
+function createPlaybackSource(
+  kind: AudioSourceKind,
+  duration: number,
+  channels: number,
+  label: string,
+  createEngine: (ctx: AudioContext, output: GainNode) => PlaybackEngine
+): PlaybackSource {
+  let status: AudioSourceStatus = "idle";
+  let engine: PlaybackEngine | null = null;
+  let output: GainNode | null = null;
+
+  return {
+    metadata: {
+      kind,
+      label,
+      monitor: true,
+      duration,
+      channels,
+    },
+    get status() {
+      return status;
+    },
+    error: null,
+    get transport() {
+      return engine;
+    },
+    start: async (ctx) => {
+      if (status === "running" && output) return output;
+
+      output = ctx.createGain();
+      engine = createEngine(ctx, output);
+      status = "running";
+      return output;
+    },
+    stop: () => {
+      engine?.dispose();
+      engine = null;
+      output?.disconnect();
+      output = null;
+      status = "stopped";
+    },
+    onended: null,
+  };
+}
+
+// A fully decoded file. The buffer can be restarted any number of times.
+export function createBufferSource(
+  buffer: AudioBuffer,
+  { label, onPlaybackEnded }: PlaybackSourceOptions
+): PlaybackSource {
+  return createPlaybackSource("buffer", buffer.duration, buffer.numberOfChannels, label, (ctx, output) =>
+    createBufferPlayback(ctx, buffer, output, () => onPlaybackEnded?.())
+  );
+}
+
+// An <audio> element the browser streams. An element can only be wired into a
+// context once, so this source can't be started again after stop().
+export function createMediaElementSource(
+  element: HTMLMediaElement,
+  { label, onPlaybackEnded }: PlaybackSourceOptions
+): PlaybackSource {
+  const duration = Number.isFinite(element.duration) ? element.duration : 0;
+  // Channel count isn't exposed for elements; mono files come through as identical channels
+  return createPlaybackSource("media-element", duration, 2, label, (ctx, output) =>
+    createElementPlayback(ctx, element, output, () => onPlaybackEnded?.())
+  );
+}
@@ -0,0 +1,54 @@
+import type { AudioSourceError, AudioSourceErrorType } from "./types";
+
+// Thrown by AudioSource.start so callers get a displayable message
+export class AudioSourceStartError extends Error {
+  readonly type: AudioSourceErrorType;
+
+  constructor({ type, message }: AudioSourceError) {
+    super(message);
+    this.name = "AudioSourceStartError";
+    this.type = type;
+  }
+}
+
+const captureErrorMessages: Record<string, (device: string) => AudioSourceError> = {
+  NotFoundError: (device) => ({
+    type: "NotFoundError",
+    message: `No ${device} found. Please connect one and try again.`,
+  }),
+  NotAllowedError: (device) => ({
+    type: "NotAllowedError",
+    message: `${capitalize(device)} access denied. Please allow access in your browser settings.`,
+  }),
+  NotReadableError: (device) => ({
+    type: "NotReadableError",
+    message: `The ${device} is in use by another application.`,
+  }),
+  SecurityError: (device) => ({
+    type: "SecurityError",
+    message: `${capitalize(device)} access requires HTTPS. Please use a secure connection.`,
+  }),
+  OverconstrainedError: (device) => ({
+    type: "OverconstrainedError",
+    message: `No ${device} meets the requested requirements.`,
+  }),
+  NotSupportedError: (device) => ({
+    type: "NotSupportedError",
+    message: `${capitalize(device)} capture is not supported in this browser.`,
+  }),
+};
+
+// Map a getUserMedia/getDisplayMedia failure to a source error
+export function toAudioSourceError(err: unknown, device: string): AudioSourceError {
+  if (err instanceof AudioSourceStartError) {
+    return { type: err.type, message: err.message };
+  }
+
+  const error = err instanceof Error ? err : new Error(String(err));
+  const mapped = captureErrorMessages[error.name];
+  return mapped ? mapped(device) : { type: "Unknown", message: `Unexpected error: ${error.message}` };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,96 @@
+import type { AudioSource, AudioSourceError, AudioSourceMetadata, AudioSourceStatus } from "./types";
+import { AudioSourceStartError, toAudioSourceError } from "./sourceErrors";
+
+interface StreamSourceOptions {
+  metadata: Omit<AudioSourceMetadata, "duration">;
+  // Resolves the stream to analyse. Called on every start after a stop.
+  acquire: () => Promise<MediaStream>;
+  // Used in error messages, e.g. "microphone"
+  device: string;
+}
+
+// Shared plumbing for anything that hands us a MediaStream (microphone, tab capture)
+export function createStreamSource({ metadata, acquire, device }: StreamSourceOptions): AudioSource {
+  let status: AudioSourceStatus = "idle";
+  let error: AudioSourceError | null = null;
+  let stream: MediaStream | null = null;
+  let node: MediaStreamAudioSourceNode | null = null;
+  let pending: Promise<AudioNode> | null = null;
+
+  const handleTrackEnded = () => {
+    if (status !== "running") return;
+    release();
+    status = "stopped";
+    source.onended?.();
+  };
+
+  const release = () => {
+    stream?.getTracks().forEach((track) => {
+      track.removeEventListener("ended", handleTrackEnded);
+      track.stop();
+    });
+    stream = null;
+    node?.disconnect();
+    node = null;
+  };
+
+  const open = async (ctx: AudioContext): Promise<AudioNode> => {
+    status = "starting";
+    error = null;
+
+    try {
+      const next = await acquire();
+      const audioTracks = next.getAudioTracks();
+      if (audioTracks.length === 0) {
+        next.getTracks().forEach((track) => track.stop());
+        throw new AudioSourceStartError({
+          type: "NoAudioTrack",
+          message: `The selected ${device} has no audio. Make sure audio sharing is enabled.`,
+        });
+      }
+
+      // Aborted while waiting for permission
+      if (status !== "starting") {
+        next.getTracks().forEach((track) => track.stop());
+        throw new AudioSourceStartError({ type: "Unknown", message: `The ${device} was stopped before it started.` });
+      }
+
+      stream = next;
+      audioTracks.forEach((track) => track.addEventListener("ended", handleTrackEnded));
+      source.metadata.channels = audioTracks[0].getSettings().channelCount ?? metadata.channels;
+      node = ctx.createMediaStreamSource(next);
+      status = "running";
+      return node;
+    } catch (err) {
+      release();
+      error = toAudioSourceError(err, device);
+      status = "error";
+      throw new AudioSourceStartError(error);
+    }
+  };
+
+  const source: AudioSource = {
+    metadata: { ...metadata, duration: 0 },
+    get status() {
+      return status;
+    },
+    get error() {
+      return error;
+    },
+    start: (ctx) => {
+      if (status === "running" && node) return Promise.resolve(node);
+      if (status === "starting" && pending) return pending;
+      pending = open(ctx).finally(() => {
+        pending = null;
+      });
+      return pending;
+    },
+    stop: () => {
+      release();
+      status = "stopped";
+    },
+    onended: null,
+  };
+
+  return source;
+}
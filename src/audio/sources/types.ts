@@ -0,0 +1,48 @@
+import type { PlaybackEngine } from "@/utils/audioPlayback";
+
+export type AudioSourceKind = "microphone" | "media-element" | "buffer" | "oscillator" | "display-capture";
+
+export type AudioSourceStatus = "idle" | "starting" | "running" | "stopped" | "error";
+
+export type AudioSourceErrorType =
+  | "NotFoundError"
+  | "NotAllowedError"
+  | "NotReadableError"
+  | "SecurityError"
+  | "OverconstrainedError"
+  | "NotSupportedError"
+  | "NoAudioTrack"
+  | "Unknown";
+
+export interface AudioSourceError {
+  type: AudioSourceErrorType;
+  message: string;
+}
+
+export interface AudioSourceMetadata {
+  kind: AudioSourceKind;
+  label: string;
+  // Route the analysed audio to the speakers. Off for live inputs to avoid feedback.
+  monitor: boolean;
+  // Seconds, or 0 when unknown or live
+  duration: number;
+  // 1 for mono, 2 for stereo. Live inputs update this once started.
+  channels: number;
+}
+
+export interface AudioSource {
+  readonly metadata: AudioSourceMetadata;
+  readonly status: AudioSourceStatus;
+  readonly error: AudioSourceError | null;
+  // Build the node graph in ctx and return the node to analyse. Starting a running source returns the same node.
+  start: (ctx: AudioContext) => Promise<AudioNode>;
+  stop: () => void;
+  // Fired when the source ends on its own, e.g. the device is unplugged or the user stops sharing
+  onended: (() => void) | null;
+}
+
+// Sources with a transport (files and URLs)
+export interface PlaybackSource extends AudioSource {
+  // Null until start() resolves
+  readonly transport: PlaybackEngine | null;
+}
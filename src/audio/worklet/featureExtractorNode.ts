@@ -0,0 +1,77 @@
+import { decodeFeatureFrame, defaultFeatureExtractorOptions, FEATURE_FRAME_SIZE, type AudioFeatureFrame } from "./features";
+import { allocateFeatureRing, canShareFeatureRing, createFeatureRing } from "./featureRing";
+import { FEATURE_PROCESSOR_NAME, FEATURE_PROCESSOR_URL, type FeatureProcessorOptions } from "./featureProcessor";
+
+export interface FeatureExtractorNode {
+  // Connect the signal to analyse into this node
+  node: AudioWorkletNode;
+  // Newest frame, or null before the first one. The same object is reused between calls.
+  readLatest: () => AudioFeatureFrame | null;
+  // Every frame still held that ends after the given time, oldest first, so a reader slower than
+  // the worklet misses none. The frame object is reused, like readLatest's.
+  readSince: (time: number, onFrame: (frame: AudioFeatureFrame) => void) => void;
+  // Drop the analysis history, e.g. when the source changes
+  reset: () => void;
+  dispose: () => void;
+}
+
+// addModule only needs to run once per context
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+function loadProcessor(ctx: BaseAudioContext): Promise<void> {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    loading = ctx.audioWorklet.addModule(FEATURE_PROCESSOR_URL);
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+}
+
+// Resolves to null where AudioWorklet is unavailable (insecure origins, older browsers);
+// the analyser data then simply has no features
+export async function createFeatureExtractorNode(ctx: BaseAudioContext): Promise<FeatureExtractorNode | null> {
+  if (!ctx.audioWorklet || typeof AudioWorkletNode === "undefined") return null;
+
+  try {
+    await loadProcessor(ctx);
+  } catch (err) {
+    console.warn("Audio feature worklet unavailable:", err);
+    return null;
+  }
+
+  const shared = canShareFeatureRing();
+  const buffers = allocateFeatureRing(FEATURE_FRAME_SIZE, undefined, shared);
+  const ring = createFeatureRing(buffers, FEATURE_FRAME_SIZE);
+  const processorOptions: FeatureProcessorOptions = {
+    ...defaultFeatureExtractorOptions,
+    ring: shared ? buffers : null,
+  };
+
+  // No outputs: the node only listens, and browsers still pull nodes with a connected input
+  const node = new AudioWorkletNode(ctx, FEATURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    processorOptions,
+  });
+
+  if (!shared) {
+    node.port.onmessage = (event: MessageEvent<Float32Array>) => ring.write(event.data);
+  }
+
+  const raw = new Float32Array(FEATURE_FRAME_SIZE);
+  const latest = {} as AudioFeatureFrame;
+
+  return {
+    node,
+    readLatest: () => (ring.readLatest(raw) ? decodeFeatureFrame(raw, latest) : null),
+    readSince: (time, onFrame) =>
+      ring.readAll(raw, (frame) => {
+        if (frame[0] > time) onFrame(decodeFeatureFrame(frame, latest));
+      }),
+    reset: () => node.port.postMessage("reset"),
+    dispose: () => {
+      node.port.onmessage = null;
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { createFeatureExtractor, FEATURE_FRAME_SIZE, type FeatureExtractor } from "./features";
+import { createFeatureRing, type FeatureRing } from "./featureRing";
+
+export const FEATURE_PROCESSOR_NAME = "feature-extractor";
+
+// Built from featureProcessor.worklet.ts by scripts/build-worklets.mjs
+export const FEATURE_PROCESSOR_URL = "/worklets/feature-processor.js";
+
+export interface FeatureProcessorOptions {
+  windowSize: number;
+  hopSize: number;
+  // Write straight into shared memory; without it frames are posted on the port
+  ring: { data: Float32Array; state: Int32Array } | null;
+}
+
+// The parts of the AudioWorkletGlobalScope the processor uses, which the DOM typings leave out
+export interface FeatureWorkletScope {
+  AudioWorkletProcessor: new () => { readonly port: MessagePort };
+  sampleRate: number;
+  currentTime: number;
+}
+
+// Takes the scope rather than reading globals, so the processor can run outside a worklet in tests
+export function createFeatureProcessor(scope: FeatureWorkletScope) {
+  return class FeatureProcessor extends scope.AudioWorkletProcessor {
+    private readonly extractor: FeatureExtractor;
+    private readonly ring: FeatureRing | null;
+
+    constructor({ processorOptions }: { processorOptions: FeatureProcessorOptions }) {
+      super();
+      const { windowSize, hopSize, ring } = processorOptions;
+      this.extractor = createFeatureExtractor({ sampleRate: scope.sampleRate, windowSize, hopSize });
+      this.ring = ring ? createFeatureRing(ring, FEATURE_FRAME_SIZE) : null;
+      this.port.onmessage = (event) => {
+        if (event.data === "reset") this.extractor.reset();
+      };
+    }
+
+    process(inputs: Float32Array[][]) {
+      const channels = inputs[0];
+      if (channels && channels.length > 0) {
+        const endTime = scope.currentTime + channels[0].length / scope.sampleRate;
+        this.extractor.process(channels, endTime, (frame) => {
+          if (this.ring) {
+            this.ring.write(frame);
+          } else {
+            const copy = frame.slice(0, FEATURE_FRAME_SIZE);
+            this.port.postMessage(copy, [copy.buffer]);
+          }
+        });
+      }
+      return true;
+    }
+  };
+}
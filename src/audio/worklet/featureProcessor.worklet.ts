@@ -0,0 +1,7 @@
+// Entry point of the feature worklet module. It runs in the AudioWorkletGlobalScope, which the
+// app bundle can't reach, so scripts/build-worklets.mjs bundles it into public/ on its own.
+import { createFeatureProcessor, FEATURE_PROCESSOR_NAME, type FeatureWorkletScope } from "./featureProcessor";
+
+declare function registerProcessor(name: string, processor: ReturnType<typeof createFeatureProcessor>): void;
+
+registerProcessor(FEATURE_PROCESSOR_NAME, createFeatureProcessor(globalThis as unknown as FeatureWorkletScope));
@@ -0,0 +1,74 @@
+// Fixed-size ring of feature frames shared between the worklet and the main thread
+
+export interface FeatureRingBuffers {
+  // capacity * frameSize floats
+  data: Float32Array;
+  // [0] counts frames ever written
+  state: Int32Array;
+}
+
+export interface FeatureRing {
+  write: (frame: Float32Array) => void;
+  // Copy the newest frame into target; false until something has been written
+  readLatest: (target: Float32Array) => boolean;
+  // Copy each frame still held into target in turn, oldest first, calling onFrame after each
+  readAll: (target: Float32Array, onFrame: (frame: Float32Array) => void) => void;
+}
+
+export const FEATURE_RING_CAPACITY = 16;
+
+// Shared memory needs a cross-origin isolated page; otherwise each side keeps its own
+// ring and frames are posted across
+export function canShareFeatureRing(): boolean {
+  return typeof SharedArrayBuffer !== "undefined" && globalThis.crossOriginIsolated === true;
+}
+
+export function allocateFeatureRing(frameSize: number, capacity = FEATURE_RING_CAPACITY, shared = false): FeatureRingBuffers {
+  const Buffer = shared ? SharedArrayBuffer : ArrayBuffer;
+  return {
+    data: new Float32Array(new Buffer(capacity * frameSize * Float32Array.BYTES_PER_ELEMENT)),
+    state: new Int32Array(new Buffer(Int32Array.BYTES_PER_ELEMENT)),
+  };
+}
+
+export function createFeatureRing(buffers: FeatureRingBuffers, frameSize: number): FeatureRing {
+  const data = buffers.data;
+  const state = buffers.state;
+  const capacity = data.length / frameSize;
+
+  function write(frame: Float32Array) {
+    const count = Atomics.load(state, 0);
+    data.set(frame.subarray(0, frameSize), (count % capacity) * frameSize);
+    // Publish only once the frame is complete
+    Atomics.store(state, 0, count + 1);
+  }
+
+  function readLatest(target: Float32Array) {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const count = Atomics.load(state, 0);
+      if (count === 0) return false;
+
+      const offset = ((count - 1) % capacity) * frameSize;
+      for (let i = 0; i < frameSize; i++) target[i] = data[offset + i];
+
+      // The writer lapped the whole ring mid-copy; try again on the new newest frame
+      if (Atomics.load(state, 0) - count < capacity - 1) return true;
+    }
+    return true;
+  }
+
+  function readAll(target: Float32Array, onFrame: (frame: Float32Array) => void) {
+    const count = Atomics.load(state, 0);
+    // The oldest slot is the next one written, so it may be mid-write
+    for (let index = Math.max(0, count - capacity + 1); index < count; index++) {
+      const offset = (index % capacity) * frameSize;
+      for (let i = 0; i < frameSize; i++) target[i] = data[offset + i];
+
+      // Skip a frame the writer lapped while it was copied
+      if (Atomics.load(state, 0) - index >= capacity) continue;
+      onFrame(target);
+    }
+  }
+
+  return { write, readLatest, readAll };
+}
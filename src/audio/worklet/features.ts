@@ -0,0 +1,170 @@
+// Audio-rate feature extraction. createFeatureExtractor runs inside the AudioWorklet, so it and
+// its imports must not touch the DOM.
+
+import { fft } from "../analysis/fft";
+import { createWindow } from "../analysis/windows";
+
+// One compact frame as laid out in the ring buffer
+export interface AudioFeatureFrame {
+  // AudioContext time at the end of the analysed window, in seconds
+  time: number;
+  // Linear 0-1
+  rms: number;
+  peak: number;
+  // Sign changes per sample, 0-1; high for noise and bright sounds
+  zeroCrossingRate: number;
+  // Center of mass of the magnitude spectrum, in Hz
+  spectralCentroid: number;
+  // Normalized rise in magnitude since the previous frame
+  spectralFlux: number;
+  // Share of spectral energy below 250 Hz, 250 Hz-4 kHz and above 4 kHz; sums to 1 unless silent
+  bass: number;
+  mid: number;
+  treble: number;
+}
+
+export const FEATURE_FRAME_SIZE = 9;
+
+export interface FeatureExtractorOptions {
+  sampleRate: number;
+  // Power of two
+  windowSize: number;
+  // Samples between frames
+  hopSize: number;
+}
+
+export interface FeatureExtractor {
+  // Feed one render quantum per channel; onFrame receives a reused FEATURE_FRAME_SIZE array
+  process: (channels: Float32Array[], endTime: number, onFrame: (frame: Float32Array) => void) => void;
+  reset: () => void;
+}
+
+export const defaultFeatureExtractorOptions: Omit<FeatureExtractorOptions, "sampleRate"> = {
+  windowSize: 1024,
+  hopSize: 512,
+};
+
+export function createFeatureExtractor(options: FeatureExtractorOptions): FeatureExtractor {
+  const { sampleRate, windowSize, hopSize } = options;
+  const binCount = windowSize / 2;
+
+  // Last windowSize mono samples, oldest first once unrolled from writeIndex
+  const history = new Float32Array(windowSize);
+  let writeIndex = 0;
+  let filled = 0;
+  let sinceFrame = 0;
+
+  const hann = createWindow("hann", windowSize);
+
+  const real = new Float32Array(windowSize);
+  const imag = new Float32Array(windowSize);
+  const magnitudes = new Float32Array(binCount);
+  const previousMagnitudes = new Float32Array(binCount);
+  let hasPrevious = false;
+  const frame = new Float32Array(FEATURE_FRAME_SIZE);
+
+  const binHz = sampleRate / windowSize;
+  const bassEnd = Math.min(binCount, Math.ceil(250 / binHz));
+  const midEnd = Math.min(binCount, Math.ceil(4000 / binHz));
+
+  function analyse(endTime: number) {
+    let sumSquares = 0;
+    let peak = 0;
+    let crossings = 0;
+    let previousSample = 0;
+
+    for (let i = 0; i < windowSize; i++) {
+      const sample = history[(writeIndex + i) % windowSize];
+      sumSquares += sample * sample;
+      const magnitude = Math.abs(sample);
+      if (magnitude > peak) peak = magnitude;
+      if (i > 0 && (sample >= 0) !== (previousSample >= 0)) crossings++;
+      previousSample = sample;
+
+      real[i] = sample * hann[i];
+      imag[i] = 0;
+    }
+
+    fft(real, imag);
+
+    let total = 0;
+    let weighted = 0;
+    let bass = 0;
+    let mid = 0;
+    let flux = 0;
+    let magnitudeSum = 0;
+    for (let bin = 0; bin < binCount; bin++) {
+      const magnitude = Math.sqrt(real[bin] * real[bin] + imag[bin] * imag[bin]);
+      const energy = magnitude * magnitude;
+      magnitudes[bin] = magnitude;
+      magnitudeSum += magnitude;
+      total += energy;
+      weighted += magnitude * bin * binHz;
+      if (bin < bassEnd) bass += energy;
+      else if (bin < midEnd) mid += energy;
+
+      const rise = magnitude - previousMagnitudes[bin];
+      if (hasPrevious && rise > 0) flux += rise;
+      previousMagnitudes[bin] = magnitude;
+    }
+    hasPrevious = true;
+
+    frame[0] = endTime;
+    frame[1] = Math.sqrt(sumSquares / windowSize);
+    frame[2] = peak;
+    frame[3] = crossings / (windowSize - 1);
+    frame[4] = magnitudeSum > 0 ? weighted / magnitudeSum : 0;
+    // A full-scale sine under a Hann window peaks at windowSize / 4
+    frame[5] = flux / (windowSize / 4);
+    frame[6] = total > 0 ? bass / total : 0;
+    frame[7] = total > 0 ? mid / total : 0;
+    frame[8] = total > 0 ? (total - bass - mid) / total : 0;
+  }
+
+  function process(channels: Float32Array[], endTime: number, onFrame: (frame: Float32Array) => void) {
+    const channelCount = channels.length;
+    if (channelCount === 0) return;
+    const length = channels[0].length;
+
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channelCount; c++) sample += channels[c][i];
+      history[writeIndex] = sample / channelCount;
+      writeIndex = (writeIndex + 1) % windowSize;
+      if (filled < windowSize) filled++;
+      sinceFrame++;
+
+      if (filled === windowSize && sinceFrame >= hopSize) {
+        sinceFrame = 0;
+        analyse(endTime - (length - 1 - i) / sampleRate);
+        onFrame(frame);
+      }
+    }
+  }
+
+  function reset() {
+    history.fill(0);
+    previousMagnitudes.fill(0);
+    hasPrevious = false;
+    writeIndex = 0;
+    filled = 0;
+    sinceFrame = 0;
+  }
+
+  return { process, reset };
+}
+
+// Unpack a raw frame, writing into target so the reader can reuse one object
+export function decodeFeatureFrame(frame: ArrayLike<number>, target?: AudioFeatureFrame): AudioFeatureFrame {
+  const result = target ?? ({} as AudioFeatureFrame);
+  result.time = frame[0];
+  result.rms = frame[1];
+  result.peak = frame[2];
+  result.zeroCrossingRate = frame[3];
+  result.spectralCentroid = frame[4];
+  result.spectralFlux = frame[5];
+  result.bass = frame[6];
+  result.mid = frame[7];
+  result.treble = frame[8];
+  return result;
+}
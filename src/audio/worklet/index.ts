@@ -0,0 +1,4 @@
+export * from "./features";
+export * from "./featureRing";
+export * from "./featureProcessor";
+export * from "./featureExtractorNode";
@@ -0,0 +1,126 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { AUDIO_FILE_ACCEPT } from "@/utils/audioPlayback";
+
+interface AudioFileInputProps {
+  isLoading: boolean;
+  onFileSelect: (file: File) => void;
+  onUrlSubmit: (url: string) => void;
+}
+
+export function AudioFileInput({ isLoading, onFileSelect, onUrlSubmit }: AudioFileInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showUrlInput, setShowUrlInput] = useState(false);
+  const [url, setUrl] = useState("");
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onFileSelect(file);
+    }
+    // Allow picking the same file again
+    e.target.value = "";
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (trimmed) {
+      onUrlSubmit(trimmed);
+      setShowUrlInput(false);
+    }
+  };
+
+  const buttonClass =
+    "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors disabled:cursor-wait disabled:opacity-60";
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className={buttonClass}
+          aria-label="Open audio file"
+        >
+          <FileIcon />
+          <span>{isLoading ? "Loading..." : "Open file"}</span>
+        </button>
+        <button
+          onClick={() => setShowUrlInput((prev) => !prev)}
+          disabled={isLoading}
+          className={buttonClass}
+          aria-label="Open audio URL"
+          aria-expanded={showUrlInput}
+        >
+          <LinkIcon />
+          <span>URL</span>
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={AUDIO_FILE_ACCEPT}
+        onChange={handleFileChange}
+        className="hidden"
+        data-testid="audio-file-input"
+      />
+
+      {showUrlInput && (
+        <form onSubmit={handleUrlSubmit} className="flex items-center gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/track.mp3"
+            className="w-64 px-3 py-1.5 rounded-full text-sm bg-[var(--bg-secondary)] text-[var(--text-primary)] placeholder:text-[var(--text-secondary)]"
+            aria-label="Audio URL"
+            autoFocus
+          />
+          <button type="submit" className={buttonClass}>
+            Load
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+function FileIcon() {
+  return (
+    <svg
+      width="18"
+      height="18"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M9 18V5l12-2v13" />
+      <circle cx="6" cy="18" r="3" />
+      <circle cx="18" cy="16" r="3" />
+    </svg>
+  );
+}
+
+function LinkIcon() {
+  return (
+    <svg
+      width="18"
+      height="18"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+      <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+    </svg>
+  );
+}
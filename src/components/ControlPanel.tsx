@@ -0,0 +1,210 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { ConfigField, ConfigSchema, ConfigValue, VisualizerConfig } from "@/visualizers/types";
+
+interface ControlPanelProps {
+  title: string;
+  schema: ConfigSchema;
+  config: VisualizerConfig;
+  onChange: (key: string, value: ConfigValue) => void;
+  onReset: () => void;
+  onClose: () => void;
+  // Extra sections shown below the visualizer settings
+  children?: ReactNode;
+}
+
+const resetButtonClass =
+  "px-2 py-1 rounded-md text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors";
+
+export function ControlPanel({ title, schema, config, onChange, onReset, onClose, children }: ControlPanelProps) {
+  return (
+    <aside
+      className="absolute top-16 right-4 w-72 max-h-[calc(100vh-8rem)] overflow-y-auto p-4 rounded-xl bg-[var(--bg-secondary)]/95 text-sm shadow-lg"
+      aria-label={`${title} settings`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-medium text-[var(--text-primary)]">{title}</h2>
+        <div className="flex items-center gap-2">
+          <button onClick={onReset} className={resetButtonClass}>
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors"
+            aria-label="Close settings"
+          >
+            <CloseIcon />
+          </button>
+        </div>
+      </div>
+
+      <ConfigFields idPrefix="config" schema={schema} config={config} onChange={onChange} />
+
+      {children}
+    </aside>
+  );
+}
+
+interface SettingsSectionProps {
+  title: string;
+  idPrefix: string;
+  schema: ConfigSchema;
+  config: VisualizerConfig;
+  onChange: (key: string, value: ConfigValue) => void;
+  onReset: () => void;
+}
+
+// A titled group of fields inside the panel, with its own reset
+export function SettingsSection({ title, idPrefix, schema, config, onChange, onReset }: SettingsSectionProps) {
+  return (
+    <section className="mt-6 pt-4 border-t border-[var(--bg-tertiary)]" aria-label={title}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-medium text-[var(--text-primary)]">{title}</h3>
+        <button onClick={onReset} className={resetButtonClass} aria-label={`Reset ${title.toLowerCase()}`}>
+          Reset
+        </button>
+      </div>
+      <ConfigFields idPrefix={idPrefix} schema={schema} config={config} onChange={onChange} />
+    </section>
+  );
+}
+
+interface ConfigFieldsProps {
+  idPrefix: string;
+  schema: ConfigSchema;
+  config: VisualizerConfig;
+  onChange: (key: string, value: ConfigValue) => void;
+}
+
+function ConfigFields({ idPrefix, schema, config, onChange }: ConfigFieldsProps) {
+  const fields = Object.entries(schema).filter(
+    (entry): entry is [string, ConfigField] => entry[1] !== undefined
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      {fields.map(([key, field]) => (
+        <ConfigControl
+          key={key}
+          id={`${idPrefix}-${key}`}
+          field={field}
+          value={config[key]}
+          onChange={(value) => onChange(key, value)}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface ConfigControlProps {
+  id: string;
+  field: ConfigField;
+  value: ConfigValue;
+  onChange: (value: ConfigValue) => void;
+}
+
+function ConfigControl({ id, field, value, onChange }: ConfigControlProps) {
+  const labelClass = "text-[var(--text-secondary)]";
+
+  switch (field.type) {
+    case "number":
+      return (
+        <div className="flex flex-col gap-1">
+          <div className="flex justify-between">
+            <label htmlFor={id} className={labelClass}>
+              {field.label}
+            </label>
+            <span className="tabular-nums text-[var(--text-primary)]">{formatNumber(value as number, field.step)}</span>
+          </div>
+          <input
+            id={id}
+            type="range"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={value as number}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="w-full accent-[var(--accent-blue)]"
+          />
+        </div>
+      );
+
+    case "boolean":
+      return (
+        <label htmlFor={id} className="flex items-center justify-between cursor-pointer">
+          <span className={labelClass}>{field.label}</span>
+          <input
+            id={id}
+            type="checkbox"
+            role="switch"
+            checked={value as boolean}
+            onChange={(e) => onChange(e.target.checked)}
+            className="w-4 h-4 accent-[var(--accent-green)]"
+          />
+        </label>
+      );
+
+    case "color":
+      return (
+        <label htmlFor={id} className="flex items-center justify-between cursor-pointer">
+          <span className={labelClass}>{field.label}</span>
+          <input
+            id={id}
+            type="color"
+            value={value as string}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-8 h-6 rounded bg-transparent border-0 cursor-pointer"
+          />
+        </label>
+      );
+
+    case "enum":
+      return (
+        <div className="flex items-center justify-between gap-2">
+          <label htmlFor={id} className={labelClass}>
+            {field.label}
+          </label>
+          <select
+            id={id}
+            value={String(value)}
+            // Options may be numbers; hand back the option's own value rather than the DOM string
+            onChange={(e) =>
+              onChange(field.options.find((option) => String(option.value) === e.target.value)?.value ?? e.target.value)
+            }
+            className="px-2 py-1 rounded-md bg-[var(--bg-tertiary)] text-[var(--text-primary)]"
+          >
+            {field.options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      );
+  }
+}
+
+// Show as many decimals as the slider step uses
+function formatNumber(value: number, step: number): string {
+  const decimals = step >= 1 ? 0 : Math.min(3, Math.ceil(-Math.log10(step)));
+  return value.toFixed(decimals);
+}
+
+function CloseIcon() {
+  return (
+    <svg
+      width="16"
+      height="16"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <line x1="18" x2="6" y1="6" y2="18" />
+      <line x1="6" x2="18" y1="6" y2="18" />
+    </svg>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { parsePreset, serializePreset, PresetFormatError, type Preset } from "@/visualizers/preset";
+
+interface EquationPresetManagerProps {
+  presets: Preset[];
+  // The equation preset being shown, if the current mode draws one
+  currentPreset: Preset | null;
+  onSave: (preset: Preset) => void;
+  onSelect: (name: string) => void;
+  onRemove: (name: string) => void;
+}
+
+interface StatusMessage {
+  text: string;
+  isError: boolean;
+}
+
+const buttonClass =
+  "px-2 py-1 rounded-md text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors";
+
+// Import, export and pick saved equation presets, as a section of the settings panel
+export function EquationPresetManager({
+  presets,
+  currentPreset,
+  onSave,
+  onSelect,
+  onRemove,
+}: EquationPresetManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  const handleExport = () => {
+    if (currentPreset) downloadPreset(currentPreset);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      // Compiled here so broken equations are reported now rather than skipped when drawn
+      const { preset } = parsePreset(await file.text());
+      onSave(preset);
+      setStatus({ text: `Imported "${preset.name}"`, isError: false });
+    } catch (err) {
+      setStatus({ text: err instanceof PresetFormatError ? err.message : "Could not read the preset file", isError: true });
+    }
+  };
+
+  return (
+    <section className="mt-6 pt-4 border-t border-[var(--bg-tertiary)]" aria-label="Equation presets">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-medium text-[var(--text-primary)]">Equation presets</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={buttonClass}
+            aria-label="Import equation preset"
+          >
+            Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!currentPreset}
+            className={`${buttonClass} disabled:opacity-50`}
+            aria-label="Export equation preset"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+        data-testid="equation-preset-file-input"
+      />
+
+      {presets.length > 0 && (
+        <ul className="flex flex-col gap-1 mb-3">
+          {presets.map((preset) => (
+            <li key={preset.name} className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => onSelect(preset.name)}
+                className="flex-1 min-w-0 truncate text-left text-[var(--text-primary)] hover:text-[var(--accent-blue)]"
+                aria-label={`Show ${preset.name}`}
+              >
+                {preset.name}
+              </button>
+              <button
+                onClick={() => onRemove(preset.name)}
+                className={buttonClass}
+                aria-label={`Delete ${preset.name}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {status && (
+        <p className={`text-xs ${status.isError ? "text-red-400" : "text-[var(--text-secondary)]"}`} role="status">
+          {status.text}
+        </p>
+      )}
+    </section>
+  );
+}
+
+function downloadPreset(preset: Preset) {
+  const blob = new Blob([serializePreset(preset)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${preset.name.replace(/[^\w-]+/g, "-").toLowerCase() || "preset"}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import type { AudioInputDevice } from "@/hooks/useMicrophone";
+
+interface MicrophoneDeviceSelectProps {
+  devices: AudioInputDevice[];
+  deviceId: string | null;
+  disabled?: boolean;
+  onChange: (deviceId: string | null) => void;
+}
+
+const DEFAULT_DEVICE = "default";
+
+export function MicrophoneDeviceSelect({ devices, deviceId, disabled, onChange }: MicrophoneDeviceSelectProps) {
+  // Chrome lists the default as its own entry; it's covered by the first option
+  const choices = devices.filter((device) => device.deviceId !== DEFAULT_DEVICE);
+
+  // Nothing to choose between
+  if (choices.length < 2) {
+    return null;
+  }
+
+  // A remembered device that is currently unplugged shows as the default
+  const value = deviceId && choices.some((device) => device.deviceId === deviceId) ? deviceId : DEFAULT_DEVICE;
+
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value === DEFAULT_DEVICE ? null : e.target.value)}
+      className="max-w-48 px-3 py-3 rounded-full text-sm bg-[var(--bg-secondary)] text-[var(--text-primary)] disabled:opacity-60"
+      aria-label="Microphone device"
+    >
+      <option value={DEFAULT_DEVICE}>Default microphone</option>
+      {choices.map((device) => (
+        <option key={device.deviceId} value={device.deviceId}>
+          {device.label}
+        </option>
+      ))}
+    </select>
+  );
+}
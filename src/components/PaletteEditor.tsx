@@ -0,0 +1,119 @@
+"use client";
+
+import {
+  builtinPalettes,
+  MAX_PALETTE_STOPS,
+  type BuiltinPaletteId,
+  type Palette,
+} from "@/visualizers/palettes";
+
+interface PaletteEditorProps {
+  palette: Palette;
+  onChange: (palette: Palette) => void;
+}
+
+const buttonClass =
+  "px-2 py-1 rounded-md text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors";
+const labelClass = "text-[var(--text-secondary)]";
+const colorInputClass = "w-8 h-6 rounded bg-transparent border-0 cursor-pointer";
+
+const roles = [
+  { key: "background", label: "Background" },
+  { key: "accent", label: "Accent" },
+  { key: "glow", label: "Glow" },
+] as const;
+
+// Edit the palette visualizers draw with when their Palette setting is "Custom",
+// as a section of the settings panel
+export function PaletteEditor({ palette, onChange }: PaletteEditorProps) {
+  const { stops } = palette;
+
+  const setStop = (index: number, color: string) => {
+    onChange({ ...palette, stops: stops.map((stop, i) => (i === index ? color : stop)) });
+  };
+
+  const addStop = () => {
+    onChange({ ...palette, stops: [...stops, stops[stops.length - 1]] });
+  };
+
+  const removeStop = (index: number) => {
+    onChange({ ...palette, stops: stops.filter((_, i) => i !== index) });
+  };
+
+  const startFrom = (id: BuiltinPaletteId) => {
+    const builtin = builtinPalettes[id];
+    onChange({ ...builtin, name: palette.name, stops: [...builtin.stops] });
+  };
+
+  return (
+    <section className="mt-6 pt-4 border-t border-[var(--bg-tertiary)]" aria-label="Custom palette">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="font-medium text-[var(--text-primary)]">Custom palette</h3>
+        <select
+          value=""
+          onChange={(e) => startFrom(e.target.value as BuiltinPaletteId)}
+          className="min-w-0 px-2 py-1 rounded-md text-xs bg-[var(--bg-tertiary)] text-[var(--text-secondary)]"
+          aria-label="Start from a built-in palette"
+        >
+          <option value="" disabled>
+            Start from…
+          </option>
+          {Object.entries(builtinPalettes).map(([id, builtin]) => (
+            <option key={id} value={id}>
+              {builtin.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div
+        className="h-3 mb-3 rounded"
+        style={{ background: `linear-gradient(to right, ${stops.join(", ")})` }}
+        data-testid="palette-preview"
+      />
+
+      <div className="flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {stops.map((stop, index) => (
+            <span key={index} className="flex items-center">
+              <input
+                type="color"
+                value={stop}
+                onChange={(e) => setStop(index, e.target.value)}
+                className={colorInputClass}
+                aria-label={`Stop ${index + 1}`}
+              />
+              {stops.length > 2 && (
+                <button
+                  onClick={() => removeStop(index)}
+                  className="px-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                  aria-label={`Remove stop ${index + 1}`}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+          {stops.length < MAX_PALETTE_STOPS && (
+            <button onClick={addStop} className={buttonClass}>
+              Add stop
+            </button>
+          )}
+        </div>
+
+        {roles.map(({ key, label }) => (
+          <label key={key} htmlFor={`palette-${key}`} className="flex items-center justify-between cursor-pointer">
+            <span className={labelClass}>{label}</span>
+            <input
+              id={`palette-${key}`}
+              type="color"
+              value={palette[key]}
+              onChange={(e) => onChange({ ...palette, [key]: e.target.value })}
+              className={colorInputClass}
+            />
+          </label>
+        ))}
+      </div>
+    </section>
+  );
+}
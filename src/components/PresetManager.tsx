@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { getShareUrl, parseSavedPreset, serializeSavedPreset, SavedPresetError, type SavedPreset } from "@/presets";
+
+interface PresetManagerProps {
+  presets: SavedPreset[];
+  // The current look as a preset with this name
+  getPreset: (name: string) => SavedPreset;
+  onApply: (preset: SavedPreset) => void;
+  onSave: (preset: SavedPreset) => void;
+  onRemove: (name: string) => void;
+}
+
+interface StatusMessage {
+  text: string;
+  isError: boolean;
+}
+
+const buttonClass =
+  "px-2 py-1 rounded-md text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors";
+
+// Save, load, import, export and share presets, as a section of the settings panel
+export function PresetManager({ presets, getPreset, onApply, onSave, onRemove }: PresetManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState("");
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  // Export and share use the typed name when there is one
+  const currentPreset = (fallback: string) => getPreset(name.trim() || fallback);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(getPreset(trimmed));
+    setName("");
+    setStatus({ text: `Saved "${trimmed}"`, isError: false });
+  };
+
+  const handleExport = () => {
+    downloadPreset(currentPreset("Untitled"));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const preset = parseSavedPreset(await file.text());
+      onSave(preset);
+      onApply(preset);
+      setStatus({ text: `Imported "${preset.name}"`, isError: false });
+    } catch (err) {
+      setStatus({ text: err instanceof SavedPresetError ? err.message : "Could not read the preset file", isError: true });
+    }
+  };
+
+  const handleShare = async () => {
+    const url = getShareUrl(currentPreset("Shared"), window.location.href);
+    setShareUrl(url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus({ text: "Link copied", isError: false });
+    } catch {
+      // Clipboard access can be refused; the link is still shown to copy by hand
+      setStatus(null);
+    }
+  };
+
+  return (
+    <section className="mt-6 pt-4 border-t border-[var(--bg-tertiary)]" aria-label="Presets">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-medium text-[var(--text-primary)]">Presets</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            Import
+          </button>
+          <button onClick={handleExport} className={buttonClass}>
+            Export
+          </button>
+          <button onClick={handleShare} className={buttonClass}>
+            Share
+          </button>
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+        data-testid="preset-file-input"
+      />
+
+      <form onSubmit={handleSave} className="flex items-center gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          maxLength={60}
+          className="flex-1 min-w-0 px-2 py-1 rounded-md bg-[var(--bg-tertiary)] text-[var(--text-primary)] placeholder:text-[var(--text-secondary)]"
+          aria-label="Preset name"
+        />
+        <button type="submit" disabled={!name.trim()} className={`${buttonClass} disabled:opacity-50`}>
+          Save
+        </button>
+      </form>
+
+      {presets.length > 0 && (
+        <ul className="flex flex-col gap-1 mb-3">
+          {presets.map((preset) => (
+            <li key={preset.name} className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => onApply(preset)}
+                className="flex-1 min-w-0 truncate text-left text-[var(--text-primary)] hover:text-[var(--accent-blue)]"
+                aria-label={`Load ${preset.name}`}
+              >
+                {preset.name}
+              </button>
+              <button
+                onClick={() => onRemove(preset.name)}
+                className={buttonClass}
+                aria-label={`Delete ${preset.name}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {shareUrl && (
+        <input
+          type="text"
+          readOnly
+          value={shareUrl}
+          onFocus={(e) => e.target.select()}
+          className="w-full px-2 py-1 mb-2 rounded-md text-xs bg-[var(--bg-tertiary)] text-[var(--text-secondary)]"
+          aria-label="Share link"
+        />
+      )}
+
+      {status && (
+        <p className={`text-xs ${status.isError ? "text-red-400" : "text-[var(--text-secondary)]"}`} role="status">
+          {status.text}
+        </p>
+      )}
+    </section>
+  );
+}
+
+function downloadPreset(preset: SavedPreset) {
+  const blob = new Blob([serializeSavedPreset(preset)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${preset.name.replace(/[^\w-]+/g, "-").toLowerCase() || "preset"}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import type { Recording, RecorderStatus } from "@/recording";
+import { formatTime } from "@/utils/audioPlayback";
+
+interface RecordingControlsProps {
+  status: RecorderStatus;
+  // Milliseconds
+  elapsed: number;
+  recording: Recording | null;
+  error: string | null;
+  onStart: () => void;
+  onStop: () => void;
+  onDiscard: () => void;
+}
+
+const linkClass =
+  "px-3 py-1 rounded-full text-sm bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors";
+
+// Record button with the running time, then a link to download the video
+export function RecordingControls({
+  status,
+  elapsed,
+  recording,
+  error,
+  onStart,
+  onStop,
+  onDiscard,
+}: RecordingControlsProps) {
+  const isRecording = status === "recording" || status === "stopping";
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button
+          onClick={isRecording ? onStop : onStart}
+          disabled={status === "stopping"}
+          className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-[var(--bg-secondary)] transition-colors disabled:cursor-wait ${
+            isRecording ? "text-red-400" : "text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+          }`}
+          aria-label={isRecording ? "Stop recording" : "Start recording"}
+          aria-pressed={isRecording}
+        >
+          {isRecording ? <StopIcon /> : <RecordIcon />}
+          <span>{isRecording ? "Stop" : "Record"}</span>
+          {isRecording && (
+            <span className="tabular-nums" aria-label="Recording time">
+              {formatTime(elapsed / 1000)}
+            </span>
+          )}
+        </button>
+
+        {status === "finished" && recording && (
+          <>
+            <a href={recording.url} download={recording.fileName} className={linkClass}>
+              Download video ({formatTime(recording.duration / 1000)})
+            </a>
+            <button onClick={onDiscard} className={linkClass}>
+              Discard
+            </button>
+          </>
+        )}
+      </div>
+
+      {status === "error" && error && <p className="text-red-400 text-sm max-w-xs text-center">{error}</p>}
+    </div>
+  );
+}
+
+function RecordIcon() {
+  return (
+    <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
+      <circle cx="12" cy="12" r="7" />
+    </svg>
+  );
+}
+
+function StopIcon() {
+  return (
+    <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor">
+      <rect x="6" y="6" width="12" height="12" rx="2" />
+    </svg>
+  );
+}
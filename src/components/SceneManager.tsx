@@ -0,0 +1,115 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { parseScene, serializeScene, SceneFormatError, type Scene } from "@/visualizers/scene";
+
+interface SceneManagerProps {
+  scenes: Scene[];
+  // The scene being shown, if the current mode draws one
+  currentScene: Scene | null;
+  onSave: (scene: Scene) => void;
+  onSelect: (name: string) => void;
+  onRemove: (name: string) => void;
+}
+
+interface StatusMessage {
+  text: string;
+  isError: boolean;
+}
+
+const buttonClass =
+  "px-2 py-1 rounded-md text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors";
+
+// Import, export and pick saved layer scenes, as a section of the settings panel
+export function SceneManager({ scenes, currentScene, onSave, onSelect, onRemove }: SceneManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  const handleExport = () => {
+    if (currentScene) downloadScene(currentScene);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const scene = parseScene(await file.text());
+      onSave(scene);
+      setStatus({ text: `Imported "${scene.name}"`, isError: false });
+    } catch (err) {
+      setStatus({ text: err instanceof SceneFormatError ? err.message : "Could not read the scene file", isError: true });
+    }
+  };
+
+  return (
+    <section className="mt-6 pt-4 border-t border-[var(--bg-tertiary)]" aria-label="Scenes">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-medium text-[var(--text-primary)]">Scenes</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass} aria-label="Import scene">
+            Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!currentScene}
+            className={`${buttonClass} disabled:opacity-50`}
+            aria-label="Export scene"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+        data-testid="scene-file-input"
+      />
+
+      {scenes.length > 0 && (
+        <ul className="flex flex-col gap-1 mb-3">
+          {scenes.map((scene) => (
+            <li key={scene.name} className="flex items-center justify-between gap-2">
+              <button
+                onClick={() => onSelect(scene.name)}
+                className="flex-1 min-w-0 truncate text-left text-[var(--text-primary)] hover:text-[var(--accent-blue)]"
+                aria-label={`Show ${scene.name}`}
+              >
+                {scene.name}
+              </button>
+              <button
+                onClick={() => onRemove(scene.name)}
+                className={buttonClass}
+                aria-label={`Delete ${scene.name}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {status && (
+        <p className={`text-xs ${status.isError ? "text-red-400" : "text-[var(--text-secondary)]"}`} role="status">
+          {status.text}
+        </p>
+      )}
+    </section>
+  );
+}
+
+function downloadScene(scene: Scene) {
+  const blob = new Blob([serializeScene(scene)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${scene.name.replace(/[^\w-]+/g, "-").toLowerCase() || "scene"}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { createRandomSeed, isValidSeed, MAX_SEED } from "@/visualizers/random";
+
+interface SeedControlProps {
+  seed: number;
+  onChange: (seed: number) => void;
+}
+
+const buttonClass =
+  "px-2 py-1 rounded-md text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors";
+
+// The seed behind particles and other random motion, as a section of the settings panel.
+// The same seed replays the same look.
+export function SeedControl({ seed, onChange }: SeedControlProps) {
+  return (
+    <section className="mt-6 pt-4 border-t border-[var(--bg-tertiary)]" aria-label="Randomness">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-medium text-[var(--text-primary)]">Randomness</h3>
+        <button onClick={() => onChange(createRandomSeed())} className={buttonClass}>
+          New seed
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor="seed" className="text-[var(--text-secondary)]">
+          Seed
+        </label>
+        <input
+          id="seed"
+          type="number"
+          min={0}
+          max={MAX_SEED}
+          step={1}
+          value={seed}
+          onChange={(e) => {
+            const value = e.target.valueAsNumber;
+            if (isValidSeed(value)) onChange(value);
+          }}
+          className="w-32 px-2 py-1 rounded-md bg-[var(--bg-tertiary)] text-[var(--text-primary)] tabular-nums"
+        />
+      </div>
+    </section>
+  );
+}
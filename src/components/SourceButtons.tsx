@@ -0,0 +1,85 @@
+"use client";
+
+import {
+  createDisplayCaptureSource,
+  createOscillatorSource,
+  type AudioSource,
+  type AudioSourceKind,
+  type AudioSourceMetadata,
+} from "@/audio/sources";
+
+interface SourceButtonsProps {
+  source: AudioSourceMetadata | null;
+  onSourceChange: (source: AudioSource | null) => void;
+}
+
+// Inputs beyond the microphone and files: tab capture and a test tone
+export function SourceButtons({ source, onSourceChange }: SourceButtonsProps) {
+  const toggle = (kind: AudioSourceKind, create: () => AudioSource) => {
+    onSourceChange(source?.kind === kind ? null : create());
+  };
+
+  const buttonClass = (kind: AudioSourceKind) =>
+    `flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-[var(--bg-secondary)] transition-colors ${
+      source?.kind === kind
+        ? "text-[var(--accent-green)]"
+        : "text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+    }`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => toggle("display-capture", createDisplayCaptureSource)}
+        className={buttonClass("display-capture")}
+        aria-pressed={source?.kind === "display-capture"}
+      >
+        <ScreenIcon />
+        <span>Tab audio</span>
+      </button>
+      <button
+        onClick={() => toggle("oscillator", createOscillatorSource)}
+        className={buttonClass("oscillator")}
+        aria-pressed={source?.kind === "oscillator"}
+      >
+        <WaveIcon />
+        <span>Test tone</span>
+      </button>
+    </div>
+  );
+}
+
+function ScreenIcon() {
+  return (
+    <svg
+      width="18"
+      height="18"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <rect x="2" y="3" width="20" height="14" rx="2" />
+      <line x1="8" x2="16" y1="21" y2="21" />
+      <line x1="12" x2="12" y1="17" y2="21" />
+    </svg>
+  );
+}
+
+function WaveIcon() {
+  return (
+    <svg
+      width="18"
+      height="18"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M2 12c2-6 4-6 6 0s4 6 6 0 4-6 6 0" />
+    </svg>
+  );
+}
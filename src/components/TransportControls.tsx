@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatTime } from "@/utils/audioPlayback";
+
+interface TransportControlsProps {
+  trackName: string | null;
+  duration: number;
+  isPlaying: boolean;
+  loop: boolean;
+  error: string | null;
+  getCurrentTime: () => number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  onClose: () => void;
+}
+
+// How often the position readout refreshes while playing
+const POSITION_UPDATE_MS = 250;
+
+export function TransportControls({
+  trackName,
+  duration,
+  isPlaying,
+  loop,
+  error,
+  getCurrentTime,
+  onPlay,
+  onPause,
+  onSeek,
+  onLoopChange,
+  onClose,
+}: TransportControlsProps) {
+  const [position, setPosition] = useState(0);
+
+  // Poll the engine instead of re-rendering every animation frame
+  useEffect(() => {
+    const update = () => setPosition(getCurrentTime());
+    const interval = setInterval(update, POSITION_UPDATE_MS);
+    return () => clearInterval(interval);
+  }, [getCurrentTime]);
+
+  const canSeek = duration > 0;
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const time = Number(e.target.value);
+    setPosition(time);
+    onSeek(time);
+  };
+
+  const iconButtonClass =
+    "p-2 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors";
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full max-w-md">
+      <div className="flex items-center gap-3 w-full px-4 py-2 rounded-full bg-[var(--bg-secondary)]">
+        <button
+          onClick={isPlaying ? onPause : onPlay}
+          className="p-2 rounded-full bg-[var(--accent-blue)] text-[var(--bg-primary)]"
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? <PauseIcon /> : <PlayIcon />}
+        </button>
+
+        <div className="flex flex-col flex-1 min-w-0">
+          <span className="truncate text-sm text-[var(--text-primary)]" title={trackName ?? undefined}>
+            {trackName ?? "Untitled"}
+          </span>
+          <div className="flex items-center gap-2 text-xs tabular-nums text-[var(--text-secondary)]">
+            <span>{formatTime(position)}</span>
+            <input
+              type="range"
+              min={0}
+              max={canSeek ? duration : 0}
+              step={0.1}
+              value={canSeek ? Math.min(position, duration) : 0}
+              onChange={handleSeek}
+              disabled={!canSeek}
+              className="flex-1 accent-[var(--accent-blue)]"
+              aria-label="Seek"
+            />
+            <span>{canSeek ? formatTime(duration) : "Live"}</span>
+          </div>
+        </div>
+
+        <button
+          onClick={() => onLoopChange(!loop)}
+          className={`${iconButtonClass} ${loop ? "text-[var(--accent-green)]" : ""}`}
+          aria-label="Loop"
+          aria-pressed={loop}
+        >
+          <LoopIcon />
+        </button>
+        <button onClick={onClose} className={iconButtonClass} aria-label="Close audio">
+          <EjectIcon />
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm max-w-xs text-center">{error}</p>}
+    </div>
+  );
+}
+
+function PlayIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+      <path d="M7 4v16l13-8z" />
+    </svg>
+  );
+}
+
+function PauseIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+      <rect x="6" y="4" width="4" height="16" rx="1" />
+      <rect x="14" y="4" width="4" height="16" rx="1" />
+    </svg>
+  );
+}
+
+function LoopIcon() {
+  return (
+    <svg
+      width="18"
+      height="18"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="m17 2 4 4-4 4" />
+      <path d="M3 11v-1a4 4 0 0 1 4-4h14" />
+      <path d="m7 22-4-4 4-4" />
+      <path d="M21 13v1a4 4 0 0 1-4 4H3" />
+    </svg>
+  );
+}
+
+function EjectIcon() {
+  return (
+    <svg
+      width="18"
+      height="18"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M5 15h14L12 6z" />
+      <line x1="5" x2="19" y1="19" y2="19" />
+    </svg>
+  );
+}
@@ -1,52 +1,145 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import { useVisualizerState } from "@/hooks/useVisualizerState";
+import { useVisualizerList } from "@/hooks/useVisualizerList";
+import { useSavedPresets } from "@/hooks/useSavedPresets";
+import { getSavedSceneMode, useSavedScenes } from "@/hooks/useSavedScenes";
+import { getEquationPresetMode, useEquationPresets } from "@/hooks/useEquationPresets";
+import { useVideoRecorder } from "@/hooks/useVideoRecorder";
 import { VisualizerCanvas } from "./VisualizerCanvas";
 import { MicrophoneButton } from "./MicrophoneButton";
+import { MicrophoneDeviceSelect } from "./MicrophoneDeviceSelect";
 import { ModeSelector } from "./ModeSelector";
+import { ControlPanel, SettingsSection } from "./ControlPanel";
+import { AudioFileInput } from "./AudioFileInput";
+import { TransportControls } from "./TransportControls";
+import { SourceButtons } from "./SourceButtons";
+import { PresetManager } from "./PresetManager";
+import { SceneManager } from "./SceneManager";
+import { EquationPresetManager } from "./EquationPresetManager";
+import { PaletteEditor } from "./PaletteEditor";
+import { SeedControl } from "./SeedControl";
+import { RecordingControls } from "./RecordingControls";
+import { getVisualizer, getVisualizerDefinition, listVisualizers } from "@/visualizers";
+import { audioSettingsSchema } from "@/audio/settings";
+import { displaySettingsSchema } from "@/visualizers/displaySettings";
+import { getPalette, getPaletteCssVariables } from "@/visualizers/palettes";
+import { recordingSettingsSchema } from "@/recording";
 import type { VisualizerMode } from "@/visualizers/types";
+import { decodeSharedPreset, SHARE_PARAM, SavedPresetError, type SavedPreset } from "@/presets";
+
+interface VisualizerProps {
+  // Encoded preset from a share link
+  sharedPreset?: string;
+}
+
+export function Visualizer({ sharedPreset }: VisualizerProps) {
+  // Decoded once; a damaged link falls back to the last session
+  const [shared] = useState(() => readSharedPreset(sharedPreset));
 
-export function Visualizer() {
   const {
     currentMode,
+    config,
+    audioSettings,
+    displaySettings,
+    customPalette,
+    seed,
+    source,
+    sourceError,
     isActive,
+    isMicrophoneActive,
     isRequesting,
     permissionState,
     error,
+    microphoneDevices,
+    microphoneDeviceId,
+    setSource,
     toggleMicrophone,
+    selectMicrophoneDevice,
+    loadAudioFile,
+    loadAudioUrl,
+    closeAudio,
+    playback,
     setMode,
+    updateConfig,
+    resetConfig,
+    updateAudioSetting,
+    resetAudioSettings,
+    updateDisplaySetting,
+    resetDisplaySettings,
+    setCustomPalette,
+    setSeed,
+    applyPreset,
+    getPreset,
     getData,
-  } = useVisualizerState();
+    getAudioStream,
+  } = useVisualizerState({ initialPreset: shared.preset });
+
+  const {
+    isLoaded: isPlaybackLoaded,
+    isPlaying,
+    play: playPlayback,
+    pause: pausePlayback,
+  } = playback;
 
+  const { presets, savePreset, removePreset } = useSavedPresets();
+  const { scenes, saveScene, removeScene, getScene } = useSavedScenes();
+  const equationPresets = useEquationPresets();
+
+  // Followed across the canvas swaps VisualizerCanvas makes, so recording carries on through them
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const handleCanvasChange = useCallback((canvas: HTMLCanvasElement | null) => {
+    canvasRef.current = canvas;
+  }, []);
+  const getCanvas = useCallback(() => canvasRef.current, []);
+  const recorder = useVideoRecorder({ getCanvas, getAudioStream });
+  const modeCount = useVisualizerList().length;
   const [showControls, setShowControls] = useState(true);
+  const [showSettings, setShowSettings] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
 
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Ignore if typing in an input
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement
+      ) {
         return;
       }
 
       switch (e.key) {
-        case " ": // Space - toggle microphone
+        case " ": // Space - play/pause loaded audio, otherwise toggle microphone
           e.preventDefault();
-          toggleMicrophone();
+          if (isPlaybackLoaded) {
+            if (isPlaying) {
+              pausePlayback();
+            } else {
+              playPlayback();
+            }
+          } else {
+            toggleMicrophone();
+          }
           break;
         case "1":
-          setMode("bars");
-          break;
         case "2":
-          setMode("waveform");
-          break;
         case "3":
-          setMode("scope");
-          break;
         case "4":
-          setMode("ambiance");
+        case "5":
+        case "6":
+        case "7":
+        case "8":
+        case "9": {
+          // Number keys pick modes in the order they were registered
+          const mode = listVisualizers()[Number(e.key) - 1];
+          if (mode) {
+            setMode(mode.id);
+          }
           break;
+        }
         case "f": // Fullscreen
         case "F":
           toggleFullscreen();
@@ -55,12 +148,33 @@ export function Visualizer() {
         case "H":
           setShowControls((prev) => !prev);
           break;
+        case "s": // Toggle settings panel
+        case "S":
+          setShowSettings((prev) => !prev);
+          break;
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [toggleMicrophone, setMode]);
+  }, [toggleMicrophone, setMode, isPlaybackLoaded, isPlaying, playPlayback, pausePlayback]);
+
+  // Drop the preset from the address bar once applied, so a reload restores the session instead
+  useEffect(() => {
+    if (!sharedPreset) return;
+    const url = new URL(window.location.href);
+    url.searchParams.delete(SHARE_PARAM);
+    window.history.replaceState(window.history.state, "", url.href);
+  }, [sharedPreset]);
+
+  // The controls take their colors from the palette the canvas is drawing with
+  useEffect(() => {
+    const { style } = document.documentElement;
+    const variables = getPaletteCssVariables(getPalette(config.palette, customPalette));
+    for (const [name, value] of Object.entries(variables)) {
+      style.setProperty(name, value);
+    }
+  }, [config.palette, customPalette]);
 
   // Track fullscreen state
   useEffect(() => {
@@ -114,7 +228,19 @@ export function Visualizer() {
   return (
     <div className="relative w-full h-screen overflow-hidden bg-[var(--bg-primary)]">
       {/* Canvas */}
-      <VisualizerCanvas getData={getData} mode={currentMode} isActive={isActive} />
+      <VisualizerCanvas
+        getData={getData}
+        mode={currentMode}
+        config={config}
+        isActive={isActive}
+        renderInWorker={displaySettings.renderInWorker}
+        transition={displaySettings.transition}
+        transitionDuration={displaySettings.transitionDuration}
+        customPalette={customPalette}
+        seed={seed}
+        onFileDrop={loadAudioFile}
+        onCanvasChange={handleCanvasChange}
+      />
 
       {/* Controls overlay - with safe area padding for iOS */}
       <div
@@ -126,32 +252,153 @@ export function Visualizer() {
         {/* Mode selector */}
         <ModeSelector currentMode={currentMode} onModeChange={setMode} />
 
-        {/* Microphone button */}
-        <MicrophoneButton
-          isActive={isActive}
-          isRequesting={isRequesting}
-          permissionState={permissionState}
-          error={error}
-          onClick={toggleMicrophone}
+        {/* Transport for file/URL playback */}
+        {playback.isLoaded && (
+          <TransportControls
+            trackName={playback.trackName}
+            duration={playback.duration}
+            isPlaying={playback.isPlaying}
+            loop={playback.loop}
+            error={playback.error}
+            getCurrentTime={playback.getCurrentTime}
+            onPlay={playback.play}
+            onPause={playback.pause}
+            onSeek={playback.seek}
+            onLoopChange={playback.setLoop}
+            onClose={closeAudio}
+          />
+        )}
+
+        {/* Input sources */}
+        <div className="flex flex-wrap items-start justify-center gap-3">
+          <MicrophoneButton
+            isActive={isMicrophoneActive}
+            isRequesting={isRequesting}
+            permissionState={permissionState}
+            error={error}
+            onClick={toggleMicrophone}
+          />
+          <MicrophoneDeviceSelect
+            devices={microphoneDevices}
+            deviceId={microphoneDeviceId}
+            disabled={isRequesting}
+            onChange={selectMicrophoneDevice}
+          />
+          <AudioFileInput
+            isLoading={playback.isLoading}
+            onFileSelect={loadAudioFile}
+            onUrlSubmit={loadAudioUrl}
+          />
+          <SourceButtons source={source} onSourceChange={setSource} />
+        </div>
+
+        <RecordingControls
+          status={recorder.status}
+          elapsed={recorder.elapsed}
+          recording={recorder.recording}
+          error={recorder.error}
+          onStart={recorder.start}
+          onStop={recorder.stop}
+          onDiscard={recorder.discard}
         />
 
+        {/* Playback errors before anything is loaded (e.g. unsupported file) */}
+        {!playback.isLoaded && playback.error && (
+          <p className="text-red-400 text-sm max-w-xs text-center">{playback.error}</p>
+        )}
+        {sourceError && <p className="text-red-400 text-sm max-w-xs text-center">{sourceError.message}</p>}
+        {shared.error && <p className="text-red-400 text-sm max-w-xs text-center">{shared.error}</p>}
+
         {/* Keyboard hints - hidden on mobile */}
         <div className="hidden sm:flex gap-4 text-xs text-[var(--text-secondary)]">
-          <span>Space: Toggle mic</span>
-          <span>1-4: Switch mode</span>
+          <span>Space: Toggle mic / play</span>
+          <span>1-{Math.min(modeCount, 9)}: Switch mode</span>
+          <span>S: Settings</span>
           <span>F: Fullscreen</span>
           <span>H: Hide controls</span>
         </div>
       </div>
 
-      {/* Fullscreen button (always visible in corner) */}
-      <button
-        onClick={toggleFullscreen}
-        className="absolute top-4 right-4 p-2 rounded-lg bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
-        aria-label={isFullscreen ? "Exit fullscreen" : "Enter fullscreen"}
-      >
-        {isFullscreen ? <ExitFullscreenIcon /> : <FullscreenIcon />}
-      </button>
+      {/* Top-right buttons (always visible in corner) */}
+      <div className="absolute top-4 right-4 flex gap-2">
+        <button
+          onClick={() => setShowSettings((prev) => !prev)}
+          className={`p-2 rounded-lg bg-[var(--bg-secondary)] transition-colors ${
+            showSettings ? "text-[var(--accent-blue)]" : "text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+          }`}
+          aria-label={showSettings ? "Hide settings" : "Show settings"}
+          aria-pressed={showSettings}
+        >
+          <SettingsIcon />
+        </button>
+        <button
+          onClick={toggleFullscreen}
+          className="p-2 rounded-lg bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+          aria-label={isFullscreen ? "Exit fullscreen" : "Enter fullscreen"}
+        >
+          {isFullscreen ? <ExitFullscreenIcon /> : <FullscreenIcon />}
+        </button>
+      </div>
+
+      {/* Live settings for the current visualizer */}
+      {showSettings && (
+        <ControlPanel
+          title={`${getModeLabel(currentMode)} settings`}
+          schema={getVisualizer(currentMode).configSchema}
+          config={config}
+          onChange={updateConfig}
+          onReset={resetConfig}
+          onClose={() => setShowSettings(false)}
+        >
+          <SettingsSection
+            title="Audio settings"
+            idPrefix="audio"
+            schema={audioSettingsSchema}
+            config={audioSettings}
+            onChange={updateAudioSetting}
+            onReset={resetAudioSettings}
+          />
+          <SettingsSection
+            title="Display settings"
+            idPrefix="display"
+            schema={displaySettingsSchema}
+            config={displaySettings}
+            onChange={updateDisplaySetting}
+            onReset={resetDisplaySettings}
+          />
+          <SettingsSection
+            title="Recording settings"
+            idPrefix="recording"
+            schema={recordingSettingsSchema}
+            config={recorder.settings}
+            onChange={recorder.updateSetting}
+            onReset={recorder.resetSettings}
+          />
+          <PaletteEditor palette={customPalette} onChange={setCustomPalette} />
+          <SeedControl seed={seed} onChange={setSeed} />
+          <PresetManager
+            presets={presets}
+            getPreset={getPreset}
+            onApply={applyPreset}
+            onSave={savePreset}
+            onRemove={removePreset}
+          />
+          <SceneManager
+            scenes={scenes}
+            currentScene={getScene(currentMode, config)}
+            onSave={saveScene}
+            onSelect={(name) => setMode(getSavedSceneMode(name))}
+            onRemove={removeScene}
+          />
+          <EquationPresetManager
+            presets={equationPresets.presets}
+            currentPreset={equationPresets.getPreset(currentMode, config)}
+            onSave={equationPresets.savePreset}
+            onSelect={(name) => setMode(getEquationPresetMode(name))}
+            onRemove={equationPresets.removePreset}
+          />
+        </ControlPanel>
+      )}
 
       {/* Mode indicator (always visible) */}
       <div className="absolute top-4 left-4 px-3 py-1.5 rounded-full bg-[var(--bg-secondary)] text-[var(--text-secondary)] text-sm">
@@ -161,14 +408,39 @@ export function Visualizer() {
   );
 }
 
+function readSharedPreset(code: string | undefined): { preset: SavedPreset | null; error: string | null } {
+  if (!code) return { preset: null, error: null };
+  try {
+    return { preset: decodeSharedPreset(code), error: null };
+  } catch (err) {
+    return { preset: null, error: err instanceof SavedPresetError ? err.message : "Could not open the shared preset" };
+  }
+}
+
 function getModeLabel(mode: VisualizerMode): string {
-  const labels: Record<VisualizerMode, string> = {
-    bars: "Bars",
-    waveform: "Waveform",
-    scope: "Scope",
-    ambiance: "Ambiance",
-  };
-  return labels[mode];
+  return getVisualizerDefinition(mode)?.label ?? mode;
+}
+
+function SettingsIcon() {
+  return (
+    <svg
+      width="20"
+      height="20"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <line x1="4" x2="20" y1="6" y2="6" />
+      <line x1="4" x2="20" y1="12" y2="12" />
+      <line x1="4" x2="20" y1="18" y2="18" />
+      <circle cx="9" cy="6" r="2" fill="currentColor" />
+      <circle cx="15" cy="12" r="2" fill="currentColor" />
+      <circle cx="7" cy="18" r="2" fill="currentColor" />
+    </svg>
+  );
 }
 
 function FullscreenIcon() {
@@ -1,46 +1,96 @@
 "use client";
 
-import { useRef, useEffect, useCallback } from "react";
+import { useRef, useEffect, useCallback, useState } from "react";
 import { useAnimationFrame } from "@/hooks/useAnimationFrame";
-import type { AnalyserData, VisualizerMode } from "@/visualizers/types";
-import { visualizers } from "@/visualizers";
+import type { AnalyserData, VisualizerConfig, VisualizerMode } from "@/visualizers/types";
+import { getVisualizer, isBuiltinVisualizer } from "@/visualizers";
+import { createCanvasRenderer, type CanvasRenderer } from "@/visualizers/canvasRenderer";
+import { canRenderInWorker, createWorkerRenderer } from "@/visualizers/worker";
+import type { TransitionKind } from "@/visualizers/transitions";
+import type { Palette } from "@/visualizers/palettes";
 
 interface VisualizerCanvasProps {
   getData: () => AnalyserData;
   mode: VisualizerMode;
+  config: VisualizerConfig;
   isActive: boolean;
+  // Draw from a worker when the browser supports OffscreenCanvas
+  renderInWorker?: boolean;
+  // How to blend into a new mode; modes needing a new canvas always switch at once
+  transition?: TransitionKind;
+  transitionDuration?: number;
+  // Drawn by configs that pick the "custom" palette
+  customPalette?: Palette;
+  // Seeds the random sequence visualizers draw from; changing it restarts the animation
+  seed?: number;
+  // Called with an audio file dropped onto the canvas
+  onFileDrop?: (file: File) => void;
+  // Called with each new canvas element, and null when it goes away
+  onCanvasChange?: (canvas: HTMLCanvasElement | null) => void;
 }
 
-export function VisualizerCanvas({ getData, mode, isActive }: VisualizerCanvasProps) {
+const IDLE_MESSAGE = "Click 'Start' to enable microphone or drop an audio file";
+
+export function VisualizerCanvas({
+  getData,
+  mode,
+  config,
+  isActive,
+  renderInWorker = false,
+  transition = "none",
+  transitionDuration = 0,
+  customPalette,
+  seed,
+  onFileDrop,
+  onCanvasChange,
+}: VisualizerCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const dimensionsRef = useRef({ width: 0, height: 0 });
-
-  // Handle canvas resize
+  // Renderer owned by this canvas, on this thread or in a worker
+  const rendererRef = useRef<CanvasRenderer | null>(null);
+  // Mode the renderer is showing, so a new renderer starts in it
+  const modeRef = useRef(mode);
+  // Canvas key the current renderer was made for
+  const rendererKeyRef = useRef<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  // Once the worker fails, this canvas stays on the main thread
+  const [workerFailed, setWorkerFailed] = useState(false);
+  // Visualizers registered at runtime only exist on this thread
+  const useWorker = renderInWorker && !workerFailed && isBuiltinVisualizer(mode);
+  // A canvas handed to a worker can't be drawn on here again, and keeps the first kind of
+  // context it hands out, so each path and context type gets its own canvas
+  const canvasKey = `${useWorker ? "worker" : "main"}-${getVisualizer(mode).contextType}`;
+
+  // Runs before the renderer effect so a renderer made for a new canvas starts in the new mode
+  useEffect(() => {
+    if (modeRef.current === mode) return;
+    modeRef.current = mode;
+    if (rendererKeyRef.current === canvasKey) {
+      rendererRef.current?.setMode(mode, { kind: transition, duration: transitionDuration });
+    }
+  }, [mode, canvasKey, transition, transitionDuration]);
+
+  // Create the renderer and keep it sized to the container
   useEffect(() => {
     const container = containerRef.current;
     const canvas = canvasRef.current;
     if (!container || !canvas) return;
 
+    const renderer =
+      useWorker && canRenderInWorker(canvas)
+        ? createWorkerRenderer(canvas, modeRef.current, { onError: () => setWorkerFailed(true) })
+        : createCanvasRenderer(canvas, modeRef.current);
+    rendererRef.current = renderer;
+    rendererKeyRef.current = canvasKey;
+
     const updateSize = () => {
       const rect = container.getBoundingClientRect();
-      const dpr = window.devicePixelRatio || 1;
-
-      // Set canvas size accounting for device pixel ratio
-      canvas.width = rect.width * dpr;
-      canvas.height = rect.height * dpr;
 
-      // Set CSS size
+      // Set CSS size; the renderer sizes the backing store for the device pixel ratio
       canvas.style.width = `${rect.width}px`;
       canvas.style.height = `${rect.height}px`;
 
-      // Scale context for high-DPI displays
-      const ctx = canvas.getContext("2d");
-      if (ctx) {
-        ctx.scale(dpr, dpr);
-      }
-
-      dimensionsRef.current = { width: rect.width, height: rect.height };
+      renderer.resize({ width: rect.width, height: rect.height }, window.devicePixelRatio || 1);
     };
 
     // Initial size
@@ -50,27 +100,49 @@ export function VisualizerCanvas({ getData, mode, isActive }: VisualizerCanvasPr
     const resizeObserver = new ResizeObserver(updateSize);
     resizeObserver.observe(container);
 
-    return () => resizeObserver.disconnect();
-  }, []);
+    return () => {
+      resizeObserver.disconnect();
+      renderer.dispose();
+      if (rendererRef.current === renderer) {
+        rendererRef.current = null;
+        rendererKeyRef.current = null;
+      }
+    };
+  }, [useWorker, canvasKey]);
+
+  // A new renderer, possibly on a new thread, needs the palette again
+  useEffect(() => {
+    if (customPalette) {
+      rendererRef.current?.setCustomPalette(customPalette);
+    }
+  }, [customPalette, canvasKey]);
 
-  // Render loop
-  const render = useCallback(
-    (deltaTime: number) => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
+  useEffect(() => {
+    if (seed !== undefined) {
+      rendererRef.current?.setSeed(seed);
+    }
+  }, [seed, canvasKey]);
 
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
+  // Let the owner follow the canvas across the swaps above, e.g. to record it
+  useEffect(() => {
+    if (!onCanvasChange) return;
+    onCanvasChange(canvasRef.current);
+    return () => onCanvasChange(null);
+  }, [onCanvasChange, canvasKey]);
 
-      const { width, height } = dimensionsRef.current;
-      const data = getData();
-      const visualizer = visualizers[mode];
+  // Start from a clean slate each time audio starts again
+  useEffect(() => {
+    if (isActive) {
+      rendererRef.current?.reset();
+    }
+  }, [isActive]);
 
-      if (visualizer) {
-        visualizer.render(ctx, data, visualizer.defaultConfig, { width, height }, deltaTime);
-      }
+  // Render loop
+  const render = useCallback(
+    (deltaTime: number) => {
+      rendererRef.current?.render(getData(), config, deltaTime);
     },
-    [getData, mode]
+    [getData, config]
   );
 
   // Animation loop
@@ -78,32 +150,44 @@ export function VisualizerCanvas({ getData, mode, isActive }: VisualizerCanvasPr
 
   // Draw idle state when not active
   useEffect(() => {
-    if (isActive) return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    const { width, height } = dimensionsRef.current;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
-    ctx.fillStyle = "var(--bg-primary)";
-    ctx.fillRect(0, 0, width, height);
-
-    // Draw idle message
-    ctx.fillStyle = "var(--text-secondary)";
-    ctx.font = "16px system-ui, sans-serif";
-    ctx.textAlign = "center";
-    ctx.textBaseline = "middle";
-    ctx.fillText("Click 'Start' to enable microphone", width / 2, height / 2);
-  }, [isActive]);
+    if (!isActive) {
+      rendererRef.current?.drawIdle(IDLE_MESSAGE);
+    }
+  }, [isActive, canvasKey]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onFileDrop || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onFileDrop) return;
+    e.preventDefault();
+    setIsDragging(false);
+
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      onFileDrop(file);
+    }
+  };
 
   return (
-    <div ref={containerRef} className="absolute inset-0 bg-[var(--bg-primary)]">
-      <canvas ref={canvasRef} className="block w-full h-full" />
+    <div
+      ref={containerRef}
+      className="absolute inset-0 bg-[var(--bg-primary)]"
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <canvas key={canvasKey} ref={canvasRef} className="block w-full h-full" />
+
+      {isDragging && (
+        <div className="absolute inset-4 flex items-center justify-center rounded-2xl border-2 border-dashed border-[var(--accent-blue)] bg-[var(--bg-primary)]/60 text-[var(--text-primary)] pointer-events-none">
+          Drop audio file to play
+        </div>
+      )}
     </div>
   );
 }
@@ -1,61 +1,209 @@
 "use client";
 
 import { useRef, useCallback } from "react";
-import type { AnalyserData } from "@/visualizers/types";
+import type { AnalyserData, ChannelData, FloatAnalyserData } from "@/visualizers/types";
+import type { ChannelAnalysers } from "./useAudioContext";
 import { getAverageAmplitude, getPeakFrequencyIndex } from "@/utils/audioHelpers";
+import { createFloatAnalyserData } from "@/audio/analysis";
+import { createBeatDetector, silentBeatInfo, type BeatDetector, type BeatInfo } from "@/audio/beatDetector";
+import { createSectionDetector, type SectionDetector } from "@/audio/sectionDetector";
+import type { AudioFeatureFrame, FeatureExtractorNode } from "@/audio/worklet";
 
 interface UseAnalyserReturn {
   getData: () => AnalyserData;
-  setAnalyser: (analyser: AnalyserNode | null) => void;
+  // Pass channel analysers for stereo sources; omit them for mono input
+  setAnalyser: (analyser: AnalyserNode | null, channels?: ChannelAnalysers | null) => void;
+  // Also read float data and fill AnalyserData.float; the byte data is always read
+  setFloatMode: (enabled: boolean) => void;
+  // Worklet whose latest frame is attached as AnalyserData.features
+  setFeatureExtractor: (extractor: FeatureExtractorNode | null) => void;
+}
+
+interface ChannelReader {
+  analyser: AnalyserNode;
+  frequencyData: Uint8Array<ArrayBuffer>;
+  timeDomainData: Uint8Array<ArrayBuffer>;
+  // Allocated the first time float mode reads this channel
+  floatFrequencyData: Float32Array<ArrayBuffer> | null;
+  floatTimeDomainData: Float32Array<ArrayBuffer> | null;
+}
+
+function createReader(analyser: AnalyserNode): ChannelReader {
+  // Pre-allocate typed arrays for performance
+  return {
+    analyser,
+    frequencyData: new Uint8Array(analyser.frequencyBinCount),
+    timeDomainData: new Uint8Array(analyser.fftSize),
+    floatFrequencyData: null,
+    floatTimeDomainData: null,
+  };
+}
+
+function readChannel(reader: ChannelReader): ChannelData {
+  // The FFT size can change live from the audio settings
+  if (reader.timeDomainData.length !== reader.analyser.fftSize) {
+    reader.frequencyData = new Uint8Array(reader.analyser.frequencyBinCount);
+    reader.timeDomainData = new Uint8Array(reader.analyser.fftSize);
+    reader.floatFrequencyData = null;
+    reader.floatTimeDomainData = null;
+  }
+
+  reader.analyser.getByteFrequencyData(reader.frequencyData);
+  reader.analyser.getByteTimeDomainData(reader.timeDomainData);
+
+  return {
+    frequencyData: reader.frequencyData,
+    timeDomainData: reader.timeDomainData,
+  };
+}
+
+// Unlike the byte data, float data isn't clamped to the analyser's decibel window
+function readFloat(reader: ChannelReader): FloatAnalyserData {
+  const { analyser } = reader;
+  reader.floatFrequencyData ??= new Float32Array(analyser.frequencyBinCount);
+  reader.floatTimeDomainData ??= new Float32Array(analyser.fftSize);
+
+  analyser.getFloatFrequencyData(reader.floatFrequencyData);
+  analyser.getFloatTimeDomainData(reader.floatTimeDomainData);
+
+  return createFloatAnalyserData(reader.floatFrequencyData, reader.floatTimeDomainData, analyser.context.sampleRate);
+}
+
+// Band levels for the section detector: the worklet's energy shares scaled by loudness, so a drop
+// in level reads as a change too
+function getFeatureProfile(features: AudioFeatureFrame, target: Float32Array): Float32Array {
+  target[0] = features.bass * features.rms;
+  target[1] = features.mid * features.rms;
+  target[2] = features.treble * features.rms;
+  return target;
 }
 
 export function useAnalyser(): UseAnalyserReturn {
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const frequencyDataRef = useRef<Uint8Array<ArrayBuffer> | null>(null);
-  const timeDomainDataRef = useRef<Uint8Array<ArrayBuffer> | null>(null);
+  const readerRef = useRef<ChannelReader | null>(null);
+  const channelReadersRef = useRef<{ left: ChannelReader; right: ChannelReader } | null>(null);
+  const beatDetectorRef = useRef<BeatDetector | null>(null);
+  const sectionDetectorRef = useRef<SectionDetector | null>(null);
+  const floatModeRef = useRef(false);
+  const featureExtractorRef = useRef<FeatureExtractorNode | null>(null);
+  // Worklet frames are timed in AudioContext seconds and the fallback in performance.now() seconds,
+  // so the detectors start over when the source of their input changes
+  const detectorInputRef = useRef<"features" | "spectrum" | null>(null);
+  const lastFeatureTimeRef = useRef(-Infinity);
+  const lastBeatRef = useRef<BeatInfo>(silentBeatInfo);
+  const featureProfileRef = useRef(new Float32Array(3));
 
-  const setAnalyser = useCallback((analyser: AnalyserNode | null) => {
-    analyserRef.current = analyser;
+  const setAnalyser = useCallback((analyser: AnalyserNode | null, channels: ChannelAnalysers | null = null) => {
+    readerRef.current = analyser ? createReader(analyser) : null;
+    channelReadersRef.current =
+      analyser && channels ? { left: createReader(channels.left), right: createReader(channels.right) } : null;
+    // A new source starts with no onset history, tempo or section
+    beatDetectorRef.current?.reset();
+    sectionDetectorRef.current?.reset();
+    featureExtractorRef.current?.reset();
+  }, []);
 
-    if (analyser) {
-      // Pre-allocate typed arrays for performance
-      frequencyDataRef.current = new Uint8Array(analyser.frequencyBinCount);
-      timeDomainDataRef.current = new Uint8Array(analyser.fftSize);
-    } else {
-      frequencyDataRef.current = null;
-      timeDomainDataRef.current = null;
-    }
+  const setFloatMode = useCallback((enabled: boolean) => {
+    floatModeRef.current = enabled;
+  }, []);
+
+  const setFeatureExtractor = useCallback((extractor: FeatureExtractorNode | null) => {
+    featureExtractorRef.current = extractor;
   }, []);
 
   const getData = useCallback((): AnalyserData => {
-    const analyser = analyserRef.current;
-    const frequencyData = frequencyDataRef.current;
-    const timeDomainData = timeDomainDataRef.current;
+    const reader = readerRef.current;
 
     // Return empty data if not initialized
-    if (!analyser || !frequencyData || !timeDomainData) {
+    if (!reader) {
       return {
         frequencyData: new Uint8Array(0),
         timeDomainData: new Uint8Array(0),
         averageFrequency: 0,
         peakFrequency: 0,
+        ...silentBeatInfo,
+        isSectionChange: false,
       };
     }
 
     // Update arrays with current audio data
-    analyser.getByteFrequencyData(frequencyData);
-    analyser.getByteTimeDomainData(timeDomainData);
+    const { frequencyData, timeDomainData } = readChannel(reader);
+    const sampleRate = reader.analyser.context.sampleRate;
+    const beatDetector = (beatDetectorRef.current ??= createBeatDetector());
+    const sectionDetector = (sectionDetectorRef.current ??= createSectionDetector());
+
+    // The worklet measures every hop at audio rate, so its frames drive beat and section detection.
+    // The analyser's spectrum stands in until the first frame, or where AudioWorklet is unsupported.
+    // Level and peak always come from the byte spectrum the renderers are tuned to.
+    const features = featureExtractorRef.current?.readLatest() ?? null;
+    const detectorInput = features ? "features" : "spectrum";
+    if (detectorInputRef.current !== detectorInput) {
+      detectorInputRef.current = detectorInput;
+      beatDetector.reset();
+      sectionDetector.reset();
+      lastFeatureTimeRef.current = -Infinity;
+    }
+
+    let beat: BeatInfo;
+    let isSectionChange = false;
+    if (features) {
+      // Frames arrive faster than the display draws, so feed every one since the last call,
+      // or an onset in a frame between two draws would be missed
+      const frameBeats: BeatInfo[] = [];
+      featureExtractorRef.current?.readSince(lastFeatureTimeRef.current, (frame) => {
+        lastFeatureTimeRef.current = frame.time;
+        frameBeats.push(beatDetector.updateFlux(frame.spectralFlux, frame.time));
+        if (sectionDetector.updateProfile(getFeatureProfile(frame, featureProfileRef.current), frame.time)) {
+          isSectionChange = true;
+        }
+      });
+
+      const latestBeat = frameBeats.at(-1);
+      if (latestBeat) {
+        lastBeatRef.current = latestBeat;
+        // Tempo and phase from the newest frame, the beat from any frame that had one
+        const onset = frameBeats.find((frameBeat) => frameBeat.isBeat);
+        beat = onset ? { ...latestBeat, isBeat: true, beatConfidence: onset.beatConfidence } : latestBeat;
+      } else {
+        // No new frame since the last call: keep the tempo without firing the beat again
+        beat = { ...lastBeatRef.current, isBeat: false, beatConfidence: 0 };
+      }
+    } else {
+      const time = performance.now() / 1000;
+      beat = beatDetector.update(frequencyData, time);
+      isSectionChange = sectionDetector.update(frequencyData, time);
+    }
 
-    return {
+    const data: AnalyserData = {
       frequencyData,
       timeDomainData,
       averageFrequency: getAverageAmplitude(frequencyData),
       peakFrequency: getPeakFrequencyIndex(frequencyData),
+      sampleRate,
+      ...beat,
+      isSectionChange,
     };
+
+    if (floatModeRef.current) {
+      data.float = readFloat(reader);
+    }
+
+    if (features) {
+      data.features = features;
+    }
+
+    const channels = channelReadersRef.current;
+    if (channels) {
+      data.left = readChannel(channels.left);
+      data.right = readChannel(channels.right);
+    }
+
+    return data;
   }, []);
 
   return {
     getData,
     setAnalyser,
+    setFloatMode,
+    setFeatureExtractor,
   };
 }
@@ -1,6 +1,10 @@
 "use client";
 
 import { useRef, useState, useCallback } from "react";
+import { defaultAudioSettings, dbToGain, type AudioSettings } from "@/audio/settings";
+import { AUTO_LEVEL_INTERVAL_MS, getAutoLevelGain } from "@/audio/autoLevel";
+import { getTimeDomainRms } from "@/utils/audioHelpers";
+import { createFeatureExtractorNode, type FeatureExtractorNode } from "@/audio/worklet";
 
 interface AudioContextState {
   audioContext: AudioContext | null;
@@ -9,16 +13,56 @@ interface AudioContextState {
   error: Error | null;
 }
 
+// One analyser per channel, fed by a splitter after the input gain
+export interface ChannelAnalysers {
+  left: AnalyserNode;
+  right: AnalyserNode;
+}
+
+interface ConnectOptions {
+  // Also route the analysed audio to the speakers. Off for the microphone to avoid feedback.
+  monitor?: boolean;
+}
+
 interface UseAudioContextReturn extends AudioContextState {
   initializeAudioContext: () => Promise<AudioContext>;
   connectSource: (stream: MediaStream) => AnalyserNode | null;
+  connectNode: (node: AudioNode, options?: ConnectOptions) => AnalyserNode | null;
+  disconnectSource: () => void;
+  getChannelAnalysers: () => ChannelAnalysers | null;
+  // Null until initialized, or when the browser has no AudioWorklet
+  getFeatureExtractor: () => FeatureExtractorNode | null;
+  // The connected source as a stream, for recording. Null until initialized.
+  getRecordingStream: () => MediaStream | null;
+  // Apply analyser and gain settings to the live graph
+  applySettings: (settings: AudioSettings) => void;
   cleanup: () => void;
 }
 
+// The analyser throws if min ends up >= max mid-update, so order the writes
+function applyAnalyserSettings(analyser: AnalyserNode, settings: AudioSettings) {
+  analyser.fftSize = settings.fftSize;
+  analyser.smoothingTimeConstant = settings.smoothing;
+  if (settings.minDecibels >= analyser.maxDecibels) {
+    analyser.maxDecibels = settings.maxDecibels;
+    analyser.minDecibels = settings.minDecibels;
+  } else {
+    analyser.minDecibels = settings.minDecibels;
+    analyser.maxDecibels = settings.maxDecibels;
+  }
+}
+
 export function useAudioContext(): UseAudioContextReturn {
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const sourceRef = useRef<AudioNode | null>(null);
+  // Software gain between the source and the analyser
+  const inputGainRef = useRef<GainNode | null>(null);
+  const channelAnalysersRef = useRef<ChannelAnalysers | null>(null);
+  const featureExtractorRef = useRef<FeatureExtractorNode | null>(null);
+  const recordingDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const settingsRef = useRef<AudioSettings>(defaultAudioSettings);
+  const autoLevelTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const [state, setState] = useState<AudioContextState>({
     audioContext: null,
@@ -27,6 +71,59 @@ export function useAudioContext(): UseAudioContextReturn {
     error: null,
   });
 
+  const stopAutoLevel = useCallback(() => {
+    if (autoLevelTimerRef.current !== null) {
+      clearInterval(autoLevelTimerRef.current);
+      autoLevelTimerRef.current = null;
+    }
+  }, []);
+
+  // Measure the analysed level and steer the input gain towards the target
+  const startAutoLevel = useCallback(() => {
+    stopAutoLevel();
+
+    let samples = new Uint8Array(0);
+    autoLevelTimerRef.current = setInterval(() => {
+      const analyser = analyserRef.current;
+      const inputGain = inputGainRef.current;
+      if (!analyser || !inputGain || !sourceRef.current) return;
+
+      // fftSize can change while running
+      if (samples.length !== analyser.fftSize) {
+        samples = new Uint8Array(analyser.fftSize);
+      }
+      analyser.getByteTimeDomainData(samples);
+      const rms = getTimeDomainRms(samples);
+      inputGain.gain.value = getAutoLevelGain(inputGain.gain.value, rms, AUTO_LEVEL_INTERVAL_MS / 1000);
+    }, AUTO_LEVEL_INTERVAL_MS);
+  }, [stopAutoLevel]);
+
+  const applySettings = useCallback(
+    (settings: AudioSettings) => {
+      settingsRef.current = settings;
+
+      const analyser = analyserRef.current;
+      const inputGain = inputGainRef.current;
+      if (!analyser || !inputGain) return;
+
+      applyAnalyserSettings(analyser, settings);
+      if (channelAnalysersRef.current) {
+        applyAnalyserSettings(channelAnalysersRef.current.left, settings);
+        applyAnalyserSettings(channelAnalysersRef.current.right, settings);
+      }
+
+      if (settings.autoLevel) {
+        if (autoLevelTimerRef.current === null) {
+          startAutoLevel();
+        }
+      } else {
+        stopAutoLevel();
+        inputGain.gain.value = dbToGain(settings.inputGain);
+      }
+    },
+    [startAutoLevel, stopAutoLevel]
+  );
+
   const initializeAudioContext = useCallback(async (): Promise<AudioContext> => {
     // Return existing context if already initialized
     if (audioContextRef.current && audioContextRef.current.state !== "closed") {
@@ -44,14 +141,40 @@ export function useAudioContext(): UseAudioContextReturn {
       const ctx = new AudioContextClass();
       audioContextRef.current = ctx;
 
-      // Create and configure analyser - super sensitive settings
+      // Create and configure analyser from the current settings
       const analyser = ctx.createAnalyser();
-      analyser.fftSize = 2048;
-      analyser.smoothingTimeConstant = 0.15;  // Ultra fast response
-      analyser.minDecibels = -80;              // Pick up quiet sounds
-      analyser.maxDecibels = -20;              // Compress loud sounds for consistent energy
       analyserRef.current = analyser;
 
+      const inputGain = ctx.createGain();
+      inputGain.connect(analyser);
+      inputGainRef.current = inputGain;
+
+      // Mono input is upmixed by the splitter, so both channels always carry signal
+      const splitter = ctx.createChannelSplitter(2);
+      const left = ctx.createAnalyser();
+      const right = ctx.createAnalyser();
+      inputGain.connect(splitter);
+      splitter.connect(left, 0);
+      splitter.connect(right, 1);
+      channelAnalysersRef.current = { left, right };
+
+      // Sources feed this as well, so recordings get the audio as heard, before the input gain
+      recordingDestinationRef.current = ctx.createMediaStreamDestination();
+
+      applySettings(settingsRef.current);
+
+      // Audio-rate features run off the main thread, fed from the same gained signal
+      const features = await createFeatureExtractorNode(ctx);
+      // Cleaned up while the worklet loaded; this context is closed and must not be reported
+      if (audioContextRef.current !== ctx) {
+        features?.dispose();
+        return ctx;
+      }
+      if (features) {
+        inputGain.connect(features.node);
+        featureExtractorRef.current = features;
+      }
+
       setState({
         audioContext: ctx,
         analyser: analyser,
@@ -65,10 +188,13 @@ export function useAudioContext(): UseAudioContextReturn {
       setState((prev) => ({ ...prev, error, isInitialized: false }));
       throw error;
     }
-  }, []);
+  }, [applySettings]);
 
-  const connectSource = useCallback((stream: MediaStream): AnalyserNode | null => {
-    if (!audioContextRef.current || !analyserRef.current) {
+  const connectNode = useCallback((node: AudioNode, options: ConnectOptions = {}): AnalyserNode | null => {
+    const ctx = audioContextRef.current;
+    const analyser = analyserRef.current;
+    const inputGain = inputGainRef.current;
+    if (!ctx || !analyser || !inputGain) {
       console.error("AudioContext not initialized");
       return null;
     }
@@ -78,18 +204,64 @@ export function useAudioContext(): UseAudioContextReturn {
       sourceRef.current.disconnect();
     }
 
+    try {
+      node.connect(inputGain);
+      if (recordingDestinationRef.current) {
+        node.connect(recordingDestinationRef.current);
+      }
+      // Monitor the source itself so the input gain only affects what is analysed
+      if (options.monitor) {
+        node.connect(ctx.destination);
+      }
+      sourceRef.current = node;
+      return analyser;
+    } catch (err) {
+      console.error("Failed to connect audio source:", err);
+      return null;
+    }
+  }, []);
+
+  const connectSource = useCallback((stream: MediaStream): AnalyserNode | null => {
+    if (!audioContextRef.current || !analyserRef.current) {
+      console.error("AudioContext not initialized");
+      return null;
+    }
+
     try {
       const source = audioContextRef.current.createMediaStreamSource(stream);
-      source.connect(analyserRef.current);
-      sourceRef.current = source;
-      return analyserRef.current;
+      return connectNode(source);
     } catch (err) {
       console.error("Failed to connect audio source:", err);
       return null;
     }
+  }, [connectNode]);
+
+  const disconnectSource = useCallback(() => {
+    if (sourceRef.current) {
+      sourceRef.current.disconnect();
+      sourceRef.current = null;
+    }
   }, []);
 
+  const getChannelAnalysers = useCallback(() => channelAnalysersRef.current, []);
+
+  const getFeatureExtractor = useCallback(() => featureExtractorRef.current, []);
+
+  const getRecordingStream = useCallback(() => recordingDestinationRef.current?.stream ?? null, []);
+
   const cleanup = useCallback(() => {
+    stopAutoLevel();
+    channelAnalysersRef.current = null;
+    recordingDestinationRef.current = null;
+
+    if (featureExtractorRef.current) {
+      featureExtractorRef.current.dispose();
+      featureExtractorRef.current = null;
+    }
+    if (inputGainRef.current) {
+      inputGainRef.current.disconnect();
+      inputGainRef.current = null;
+    }
     if (sourceRef.current) {
       sourceRef.current.disconnect();
       sourceRef.current = null;
@@ -111,12 +283,18 @@ export function useAudioContext(): UseAudioContextReturn {
       isInitialized: false,
       error: null,
     });
-  }, []);
+  }, [stopAutoLevel]);
 
   return {
     ...state,
     initializeAudioContext,
     connectSource,
+    connectNode,
+    disconnectSource,
+    getChannelAnalysers,
+    getFeatureExtractor,
+    getRecordingStream,
+    applySettings,
     cleanup,
   };
 }
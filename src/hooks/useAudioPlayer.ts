@@ -0,0 +1,166 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import { isSupportedAudioFile, loadAudioElement } from "@/utils/audioPlayback";
+import { createBufferSource, createMediaElementSource, type PlaybackSource } from "@/audio/sources";
+
+interface AudioPlayerState {
+  trackName: string | null;
+  duration: number;
+  isLoaded: boolean;
+  isLoading: boolean;
+  isPlaying: boolean;
+  loop: boolean;
+  error: string | null;
+}
+
+export interface UseAudioPlayerReturn extends AudioPlayerState {
+  loadFile: (ctx: AudioContext, file: File) => Promise<PlaybackSource | null>;
+  loadUrl: (ctx: AudioContext, url: string) => Promise<PlaybackSource | null>;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (time: number) => void;
+  setLoop: (loop: boolean) => void;
+  getCurrentTime: () => number;
+  unload: () => void;
+}
+
+const initialState: AudioPlayerState = {
+  trackName: null,
+  duration: 0,
+  isLoaded: false,
+  isLoading: false,
+  isPlaying: false,
+  loop: false,
+  error: null,
+};
+
+export function useAudioPlayer(): UseAudioPlayerReturn {
+  const sourceRef = useRef<PlaybackSource | null>(null);
+  const loopRef = useRef(false);
+
+  const [state, setState] = useState<AudioPlayerState>(initialState);
+
+  const releaseSource = useCallback(() => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+  }, []);
+
+  const handleEnded = useCallback(() => {
+    setState((prev) => ({ ...prev, isPlaying: false }));
+  }, []);
+
+  // Shared tail of loadFile/loadUrl: start the new source so its transport is ready
+  const attachSource = useCallback(
+    async (ctx: AudioContext, source: PlaybackSource): Promise<PlaybackSource> => {
+      await source.start(ctx);
+      source.transport?.setLoop(loopRef.current);
+      sourceRef.current = source;
+
+      setState((prev) => ({
+        ...prev,
+        trackName: source.metadata.label,
+        duration: source.metadata.duration,
+        isLoaded: true,
+        isLoading: false,
+        isPlaying: false,
+        error: null,
+      }));
+
+      return source;
+    },
+    []
+  );
+
+  const failLoad = useCallback((message: string) => {
+    setState((prev) => ({ ...prev, isLoading: false, error: message }));
+    return null;
+  }, []);
+
+  const loadFile = useCallback(
+    async (ctx: AudioContext, file: File): Promise<PlaybackSource | null> => {
+      if (!isSupportedAudioFile(file)) {
+        return failLoad(`Unsupported file type: ${file.name}. Use MP3, WAV, OGG or FLAC.`);
+      }
+
+      releaseSource();
+      setState((prev) => ({ ...initialState, loop: prev.loop, isLoading: true }));
+
+      try {
+        const data = await file.arrayBuffer();
+        const buffer = await ctx.decodeAudioData(data);
+        const source = createBufferSource(buffer, { label: file.name, onPlaybackEnded: handleEnded });
+        return await attachSource(ctx, source);
+      } catch {
+        return failLoad(`Could not decode ${file.name}. The file may be corrupt or unsupported.`);
+      }
+    },
+    [releaseSource, handleEnded, attachSource, failLoad]
+  );
+
+  const loadUrl = useCallback(
+    async (ctx: AudioContext, url: string): Promise<PlaybackSource | null> => {
+      releaseSource();
+      setState((prev) => ({ ...initialState, loop: prev.loop, isLoading: true }));
+
+      try {
+        const element = await loadAudioElement(url);
+        const label = decodeURIComponent(new URL(url, window.location.href).pathname.split("/").pop() || url);
+        const source = createMediaElementSource(element, { label, onPlaybackEnded: handleEnded });
+        return await attachSource(ctx, source);
+      } catch (err) {
+        return failLoad(err instanceof Error ? err.message : "Could not load audio from this URL.");
+      }
+    },
+    [releaseSource, handleEnded, attachSource, failLoad]
+  );
+
+  const play = useCallback(async () => {
+    const engine = sourceRef.current?.transport;
+    if (!engine) return;
+
+    try {
+      await engine.play();
+      setState((prev) => ({ ...prev, isPlaying: true, error: null }));
+    } catch {
+      setState((prev) => ({ ...prev, isPlaying: false, error: "Playback was blocked by the browser." }));
+    }
+  }, []);
+
+  const pause = useCallback(() => {
+    sourceRef.current?.transport?.pause();
+    setState((prev) => ({ ...prev, isPlaying: false }));
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    sourceRef.current?.transport?.seek(time);
+  }, []);
+
+  const setLoop = useCallback((loop: boolean) => {
+    loopRef.current = loop;
+    sourceRef.current?.transport?.setLoop(loop);
+    setState((prev) => ({ ...prev, loop }));
+  }, []);
+
+  const getCurrentTime = useCallback(() => sourceRef.current?.transport?.getCurrentTime() ?? 0, []);
+
+  const unload = useCallback(() => {
+    releaseSource();
+    setState((prev) => ({ ...initialState, loop: prev.loop }));
+  }, [releaseSource]);
+
+  // Cleanup on unmount
+  useEffect(() => releaseSource, [releaseSource]);
+
+  return {
+    ...state,
+    loadFile,
+    loadUrl,
+    play,
+    pause,
+    seek,
+    setLoop,
+    getCurrentTime,
+    unload,
+  };
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadEquationPresets, storeEquationPresets } from "@/presets";
+import { presetIcon, registerVisualizer } from "@/visualizers";
+import { compilePreset, createPresetRenderer, getBuiltinPreset, type Preset } from "@/visualizers/preset";
+import type { VisualizerConfig, VisualizerMode } from "@/visualizers/types";
+
+interface UseEquationPresetsReturn {
+  presets: Preset[];
+  // Replaces a saved preset with the same name
+  savePreset: (preset: Preset) => void;
+  removePreset: (name: string) => void;
+  // The preset a mode draws: a saved preset, or the one picked in the presets mode's config
+  getPreset: (mode: VisualizerMode, config: VisualizerConfig) => Preset | null;
+}
+
+// Mode a saved equation preset is offered as
+export function getEquationPresetMode(name: string): VisualizerMode {
+  return `preset:${name}`;
+}
+
+// Equation presets saved in this browser, each offered as a mode of its own while mounted
+export function useEquationPresets(): UseEquationPresetsReturn {
+  // Storage is read once mounted, so the first render matches the server's
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    const saved = loadEquationPresets();
+    // Applied as a follow-up update once mounted
+    void Promise.resolve(saved).then((loaded) => {
+      loadedRef.current = true;
+      setPresets(loaded);
+    });
+  }, []);
+
+  useEffect(() => {
+    // Until then, the empty list would overwrite what was stored
+    if (loadedRef.current) storeEquationPresets(presets);
+  }, [presets]);
+
+  useEffect(() => {
+    const unregister = presets.map((preset) =>
+      registerVisualizer({
+        id: getEquationPresetMode(preset.name),
+        label: preset.name,
+        renderer: createPresetRenderer(compilePreset(preset)),
+        icon: presetIcon,
+      })
+    );
+    return () => unregister.forEach((remove) => remove());
+  }, [presets]);
+
+  const savePreset = useCallback((preset: Preset) => {
+    setPresets((prev) => {
+      const index = prev.findIndex(({ name }) => name === preset.name);
+      return index === -1 ? [...prev, preset] : prev.map((saved, i) => (i === index ? preset : saved));
+    });
+  }, []);
+
+  const removePreset = useCallback((name: string) => {
+    setPresets((prev) => prev.filter((preset) => preset.name !== name));
+  }, []);
+
+  const getPreset = useCallback(
+    (mode: VisualizerMode, config: VisualizerConfig) => {
+      if (mode === "preset") return getBuiltinPreset(String(config.preset)).preset;
+      return presets.find(({ name }) => getEquationPresetMode(name) === mode) ?? null;
+    },
+    [presets]
+  );
+
+  return { presets, savePreset, removePreset, getPreset };
+}
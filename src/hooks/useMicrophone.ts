@@ -2,6 +2,7 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { getMicrophoneErrorMessage, type MicrophoneErrorType } from "@/utils/audioHelpers";
+import { defaultAudioSettings, getMicrophoneProcessing, type MicrophoneProcessing } from "@/audio/settings";
 
 export type PermissionState = "prompt" | "granted" | "denied" | "unavailable";
 
@@ -10,29 +11,135 @@ export interface MicrophoneError {
   message: string;
 }
 
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
 interface MicrophoneState {
   stream: MediaStream | null;
   permissionState: PermissionState;
   isActive: boolean;
   isRequesting: boolean;
   error: MicrophoneError | null;
+  devices: AudioInputDevice[];
+  // Null means the browser's default input
+  deviceId: string | null;
+}
+
+interface UseMicrophoneOptions {
+  // Called when the active device disappears (unplugged, disabled, revoked)
+  onDisconnect?: () => void;
 }
 
 interface UseMicrophoneReturn extends MicrophoneState {
-  requestMicrophone: () => Promise<MediaStream | null>;
+  requestMicrophone: (deviceId?: string | null) => Promise<MediaStream | null>;
   stopMicrophone: () => void;
+  selectDevice: (deviceId: string | null) => void;
+  // Used by the next request; call requestMicrophone again to apply it to a live stream
+  setProcessing: (processing: MicrophoneProcessing) => void;
+}
+
+const DEVICE_STORAGE_KEY = "dancing-lights:microphone-device";
+
+// localStorage throws in some private browsing modes, so treat it as best effort
+function loadStoredDeviceId(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage.getItem(DEVICE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
 }
 
-export function useMicrophone(): UseMicrophoneReturn {
+function storeDeviceId(deviceId: string | null) {
+  try {
+    if (deviceId) {
+      window.localStorage.setItem(DEVICE_STORAGE_KEY, deviceId);
+    } else {
+      window.localStorage.removeItem(DEVICE_STORAGE_KEY);
+    }
+  } catch {
+    // Not remembered, but the selection still applies to this session
+  }
+}
+
+export function useMicrophone({ onDisconnect }: UseMicrophoneOptions = {}): UseMicrophoneReturn {
   const streamRef = useRef<MediaStream | null>(null);
+  const onDisconnectRef = useRef(onDisconnect);
+  const processingRef = useRef<MicrophoneProcessing>(getMicrophoneProcessing(defaultAudioSettings));
 
-  const [state, setState] = useState<MicrophoneState>({
+  const [state, setState] = useState<MicrophoneState>(() => ({
     stream: null,
     permissionState: "prompt",
     isActive: false,
     isRequesting: false,
     error: null,
-  });
+    devices: [],
+    deviceId: loadStoredDeviceId(),
+  }));
+
+  useEffect(() => {
+    onDisconnectRef.current = onDisconnect;
+  }, [onDisconnect]);
+
+  const releaseStream = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    }
+  }, []);
+
+  // The stream died underneath us: drop it so isActive reflects reality
+  const handleDisconnect = useCallback(() => {
+    if (!streamRef.current) return;
+
+    releaseStream();
+    setState((prev) => ({
+      ...prev,
+      stream: null,
+      isActive: false,
+      error: {
+        type: "NotFoundError",
+        message: "The microphone was disconnected.",
+      },
+    }));
+    onDisconnectRef.current?.();
+  }, [releaseStream]);
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const inputs = all.filter((device) => device.kind === "audioinput" && device.deviceId !== "");
+      const devices = inputs.map((device, index) => ({
+        deviceId: device.deviceId,
+        // Labels stay empty until permission is granted
+        label: device.label || `Microphone ${index + 1}`,
+      }));
+
+      setState((prev) => ({ ...prev, devices }));
+
+      // Some browsers only report an unplug as a device change, without ending the track
+      const activeDeviceId = streamRef.current?.getAudioTracks()[0]?.getSettings().deviceId;
+      if (activeDeviceId && devices.length > 0 && !devices.some((device) => device.deviceId === activeDeviceId)) {
+        handleDisconnect();
+      }
+    } catch {
+      // Enumeration is optional; the default device still works
+    }
+  }, [handleDisconnect]);
+
+  // Keep the device list current as inputs are plugged in and out
+  useEffect(() => {
+    const mediaDevices = typeof navigator === "undefined" ? undefined : navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) return;
+
+    refreshDevices();
+    mediaDevices.addEventListener("devicechange", refreshDevices);
+    return () => mediaDevices.removeEventListener("devicechange", refreshDevices);
+  }, [refreshDevices]);
 
   // Check initial permission state
   useEffect(() => {
@@ -85,9 +192,11 @@ export function useMicrophone(): UseMicrophoneReturn {
     }
   }, []);
 
-  const requestMicrophone = useCallback(async (): Promise<MediaStream | null> => {
-    // Check if already active
-    if (streamRef.current && state.isActive) {
+  const requestMicrophone = useCallback(async (requestedDeviceId?: string | null): Promise<MediaStream | null> => {
+    const deviceId = requestedDeviceId === undefined ? state.deviceId : requestedDeviceId;
+
+    // Check if already active on the same device
+    if (streamRef.current && state.isActive && requestedDeviceId === undefined) {
       return streamRef.current;
     }
 
@@ -113,24 +222,47 @@ export function useMicrophone(): UseMicrophoneReturn {
 
     setState((prev) => ({ ...prev, isRequesting: true, error: null }));
 
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
+    const getStream = (id: string | null) =>
+      navigator.mediaDevices.getUserMedia({
         audio: {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
+          ...processingRef.current,
+          ...(id ? { deviceId: { exact: id } } : {}),
         },
       });
 
+    try {
+      let stream: MediaStream;
+      let activeDeviceId = deviceId;
+      try {
+        stream = await getStream(deviceId);
+      } catch (err) {
+        // The remembered device is gone; fall back to the default input
+        const name = err instanceof Error ? err.name : "";
+        if (!deviceId || (name !== "NotFoundError" && name !== "OverconstrainedError")) {
+          throw err;
+        }
+        stream = await getStream(null);
+        activeDeviceId = null;
+        storeDeviceId(null);
+      }
+
+      // Replacing a live stream, e.g. after switching devices
+      releaseStream();
       streamRef.current = stream;
+      stream.getAudioTracks().forEach((track) => track.addEventListener("ended", handleDisconnect));
 
-      setState({
+      setState((prev) => ({
+        ...prev,
         stream,
         permissionState: "granted",
         isActive: true,
         isRequesting: false,
         error: null,
-      });
+        deviceId: activeDeviceId,
+      }));
+
+      // Labels become available once permission is granted
+      refreshDevices();
 
       return stream;
     } catch (err) {
@@ -148,13 +280,10 @@ export function useMicrophone(): UseMicrophoneReturn {
 
       return null;
     }
-  }, [state.isActive]);
+  }, [state.isActive, state.deviceId, releaseStream, handleDisconnect, refreshDevices]);
 
   const stopMicrophone = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop());
-      streamRef.current = null;
-    }
+    releaseStream();
 
     setState((prev) => ({
       ...prev,
@@ -162,6 +291,15 @@ export function useMicrophone(): UseMicrophoneReturn {
       isActive: false,
       isRequesting: false,
     }));
+  }, [releaseStream]);
+
+  const setProcessing = useCallback((processing: MicrophoneProcessing) => {
+    processingRef.current = processing;
+  }, []);
+
+  const selectDevice = useCallback((deviceId: string | null) => {
+    storeDeviceId(deviceId);
+    setState((prev) => ({ ...prev, deviceId }));
   }, []);
 
   // Cleanup on unmount
@@ -177,5 +315,7 @@ export function useMicrophone(): UseMicrophoneReturn {
     ...state,
     requestMicrophone,
     stopMicrophone,
+    selectDevice,
+    setProcessing,
   };
 }
@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadSavedPresets, storeSavedPresets, type SavedPreset } from "@/presets";
+
+interface UseSavedPresetsReturn {
+  presets: SavedPreset[];
+  // Replaces a saved preset with the same name
+  savePreset: (preset: SavedPreset) => void;
+  removePreset: (name: string) => void;
+}
+
+// Presets saved in this browser
+export function useSavedPresets(): UseSavedPresetsReturn {
+  // Starts empty on both server and client; what's saved is loaded once mounted
+  const [presets, setPresets] = useState<SavedPreset[]>([]);
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    const saved = loadSavedPresets();
+    void Promise.resolve(saved).then((loaded) => {
+      loadedRef.current = true;
+      setPresets(loaded);
+    });
+  }, []);
+
+  useEffect(() => {
+    // The list rendered before loading isn't what was saved
+    if (loadedRef.current) storeSavedPresets(presets);
+  }, [presets]);
+
+  const savePreset = useCallback((preset: SavedPreset) => {
+    setPresets((prev) => {
+      const index = prev.findIndex(({ name }) => name === preset.name);
+      return index === -1 ? [...prev, preset] : prev.map((saved, i) => (i === index ? preset : saved));
+    });
+  }, []);
+
+  const removePreset = useCallback((name: string) => {
+    setPresets((prev) => prev.filter((preset) => preset.name !== name));
+  }, []);
+
+  return { presets, savePreset, removePreset };
+}
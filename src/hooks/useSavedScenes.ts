@@ -0,0 +1,74 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { loadSavedScenes, storeSavedScenes } from "@/presets";
+import { registerVisualizer, sceneIcon } from "@/visualizers";
+import { createSceneRenderer, getBuiltinScene, type Scene } from "@/visualizers/scene";
+import type { VisualizerConfig, VisualizerMode } from "@/visualizers/types";
+
+interface UseSavedScenesReturn {
+  scenes: Scene[];
+  // Replaces a saved scene with the same name
+  saveScene: (scene: Scene) => void;
+  removeScene: (name: string) => void;
+  // The scene a mode draws: a saved scene, or the one picked in the layers mode's config
+  getScene: (mode: VisualizerMode, config: VisualizerConfig) => Scene | null;
+}
+
+// Mode a saved scene is offered as
+export function getSavedSceneMode(name: string): VisualizerMode {
+  return `scene:${name}`;
+}
+
+// Scenes saved in this browser, each offered as a mode of its own while mounted
+export function useSavedScenes(): UseSavedScenesReturn {
+  // Empty until mounted, as storage isn't there to read when rendering on the server
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    const saved = loadSavedScenes();
+    void Promise.resolve(saved).then((loaded) => {
+      loadedRef.current = true;
+      setScenes(loaded);
+    });
+  }, []);
+
+  useEffect(() => {
+    // Nothing is stored before the load lands, so it can't clear the saved scenes
+    if (loadedRef.current) storeSavedScenes(scenes);
+  }, [scenes]);
+
+  useEffect(() => {
+    const unregister = scenes.map((scene) =>
+      registerVisualizer({
+        id: getSavedSceneMode(scene.name),
+        label: scene.name,
+        renderer: createSceneRenderer(scene),
+        icon: sceneIcon,
+      })
+    );
+    return () => unregister.forEach((remove) => remove());
+  }, [scenes]);
+
+  const saveScene = useCallback((scene: Scene) => {
+    setScenes((prev) => {
+      const index = prev.findIndex(({ name }) => name === scene.name);
+      return index === -1 ? [...prev, scene] : prev.map((saved, i) => (i === index ? scene : saved));
+    });
+  }, []);
+
+  const removeScene = useCallback((name: string) => {
+    setScenes((prev) => prev.filter((scene) => scene.name !== name));
+  }, []);
+
+  const getScene = useCallback(
+    (mode: VisualizerMode, config: VisualizerConfig) => {
+      if (mode === "scene") return getBuiltinScene(String(config.scene));
+      return scenes.find(({ name }) => getSavedSceneMode(name) === mode) ?? null;
+    },
+    [scenes]
+  );
+
+  return { scenes, saveScene, removeScene, getScene };
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ConfigValue } from "@/visualizers/types";
+import {
+  createVideoRecorder,
+  initialRecorderState,
+  resolveRecordingSettings,
+  type RecorderState,
+  type RecordingSettings,
+  type VideoRecorder,
+} from "@/recording";
+
+interface UseVideoRecorderOptions {
+  getCanvas: () => HTMLCanvasElement | null;
+  getAudioStream: () => MediaStream | null;
+}
+
+interface UseVideoRecorderReturn extends RecorderState {
+  settings: RecordingSettings;
+  updateSetting: (key: string, value: ConfigValue) => void;
+  resetSettings: () => void;
+  start: () => void;
+  stop: () => void;
+  discard: () => void;
+}
+
+// Records the visualizer to a WebM file with the chosen size and frame rate
+export function useVideoRecorder({ getCanvas, getAudioStream }: UseVideoRecorderOptions): UseVideoRecorderReturn {
+  const [state, setState] = useState<RecorderState>(initialRecorderState);
+  const [settings, setSettings] = useState<RecordingSettings>(() => resolveRecordingSettings());
+  const recorderRef = useRef<VideoRecorder | null>(null);
+  // The recorder lives as long as the component, reading whichever callbacks are current
+  const sourcesRef = useRef({ getCanvas, getAudioStream });
+
+  useEffect(() => {
+    sourcesRef.current = { getCanvas, getAudioStream };
+  }, [getCanvas, getAudioStream]);
+
+  useEffect(() => {
+    const recorder = createVideoRecorder({
+      getCanvas: () => sourcesRef.current.getCanvas(),
+      getAudioStream: () => sourcesRef.current.getAudioStream(),
+      onChange: setState,
+    });
+    recorderRef.current = recorder;
+
+    return () => {
+      recorder.dispose();
+      recorderRef.current = null;
+      setState(initialRecorderState);
+    };
+  }, []);
+
+  const updateSetting = useCallback((key: string, value: ConfigValue) => {
+    setSettings((prev) => resolveRecordingSettings({ ...prev, [key]: value }));
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    setSettings(resolveRecordingSettings());
+  }, []);
+
+  const start = useCallback(() => {
+    recorderRef.current?.start(settings);
+  }, [settings]);
+
+  const stop = useCallback(() => {
+    recorderRef.current?.stop();
+  }, []);
+
+  const discard = useCallback(() => {
+    recorderRef.current?.discard();
+  }, []);
+
+  return { ...state, settings, updateSetting, resetSettings, start, stop, discard };
+}
@@ -0,0 +1,9 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { listVisualizers, subscribeVisualizers, type VisualizerDefinition } from "@/visualizers";
+
+// Registered visualizers, re-rendering when one is added or removed
+export function useVisualizerList(): VisualizerDefinition[] {
+  return useSyncExternalStore(subscribeVisualizers, listVisualizers, listVisualizers);
+}
@@ -1,72 +1,469 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useAudioContext } from "./useAudioContext";
-import { useMicrophone, type MicrophoneError, type PermissionState } from "./useMicrophone";
+import {
+  useMicrophone,
+  type AudioInputDevice,
+  type MicrophoneError,
+  type PermissionState,
+} from "./useMicrophone";
 import { useAnalyser } from "./useAnalyser";
-import type { AnalyserData, VisualizerMode } from "@/visualizers/types";
+import { useAudioPlayer, type UseAudioPlayerReturn } from "./useAudioPlayer";
+import type { AnalyserData, ConfigValue, VisualizerConfig, VisualizerMode } from "@/visualizers/types";
+import {
+  DEFAULT_MODE,
+  getNextVisualizer,
+  getVisualizer,
+  hasVisualizer,
+  listVisualizers,
+  resolveConfig,
+  subscribeVisualizers,
+} from "@/visualizers";
+import {
+  createMicrophoneSource,
+  toAudioSourceError,
+  type AudioSource,
+  type AudioSourceError,
+  type AudioSourceMetadata,
+  type PlaybackSource,
+} from "@/audio/sources";
+import {
+  MICROPHONE_PROCESSING_KEYS,
+  getMicrophoneProcessing,
+  resolveAudioSettings,
+  type AudioSettings,
+} from "@/audio/settings";
+import { resolveDisplaySettings, type DisplaySettings } from "@/visualizers/displaySettings";
+import { defaultCustomPalette, type Palette } from "@/visualizers/palettes";
+import { DEFAULT_SEED } from "@/visualizers/random";
+import { createSavedPreset, loadLastSession, storeLastSession, type SavedPreset } from "@/presets";
+
+// Modes registered after startup get their defaults on first use
+type VisualizerConfigs = Partial<Record<VisualizerMode, VisualizerConfig>>;
+
+function createDefaultConfigs(): VisualizerConfigs {
+  return Object.fromEntries(listVisualizers().map(({ id, renderer }) => [id, resolveConfig(renderer)]));
+}
+
+// A preset whose mode isn't registered leaves the mode alone
+function getPresetMode(preset: SavedPreset | null): VisualizerMode | null {
+  return preset && hasVisualizer(preset.mode) ? preset.mode : null;
+}
+
+interface UseVisualizerStateOptions {
+  // Opened from a share link; otherwise the last session is restored
+  initialPreset?: SavedPreset | null;
+}
 
 interface VisualizerState {
   currentMode: VisualizerMode;
+  config: VisualizerConfig;
+  audioSettings: AudioSettings;
+  displaySettings: DisplaySettings;
+  // Drawn by configs that pick the "custom" palette
+  customPalette: Palette;
+  // Seeds the random parts of the visuals
+  seed: number;
+  // The input currently feeding the analyser
+  source: AudioSourceMetadata | null;
+  sourceError: AudioSourceError | null;
   isActive: boolean;
+  isMicrophoneActive: boolean;
   isRequesting: boolean;
   permissionState: PermissionState;
   error: MicrophoneError | null;
+  microphoneDevices: AudioInputDevice[];
+  microphoneDeviceId: string | null;
 }
 
 interface UseVisualizerStateReturn extends VisualizerState {
+  // Replace the current input. Pass null to stop listening.
+  setSource: (source: AudioSource | null) => Promise<void>;
   toggleMicrophone: () => Promise<void>;
+  selectMicrophoneDevice: (deviceId: string | null) => Promise<void>;
+  loadAudioFile: (file: File) => Promise<void>;
+  loadAudioUrl: (url: string) => Promise<void>;
+  closeAudio: () => void;
+  playback: UseAudioPlayerReturn;
   setMode: (mode: VisualizerMode) => void;
+  updateConfig: (key: string, value: ConfigValue) => void;
+  resetConfig: () => void;
+  updateAudioSetting: (key: string, value: ConfigValue) => Promise<void>;
+  resetAudioSettings: () => Promise<void>;
+  updateDisplaySetting: (key: string, value: ConfigValue) => void;
+  resetDisplaySettings: () => void;
+  setCustomPalette: (palette: Palette) => void;
+  setSeed: (seed: number) => void;
+  // Switch to a preset's mode, config and settings
+  applyPreset: (preset: SavedPreset) => Promise<void>;
+  // The current mode, config and settings as a preset
+  getPreset: (name: string) => SavedPreset;
   getData: () => AnalyserData;
+  // Audio of the current source, for recording
+  getAudioStream: () => MediaStream | null;
   cleanup: () => void;
 }
 
-export function useVisualizerState(): UseVisualizerStateReturn {
-  const [currentMode, setCurrentMode] = useState<VisualizerMode>("bars");
+export function useVisualizerState({ initialPreset }: UseVisualizerStateOptions = {}): UseVisualizerStateReturn {
+  // The last session lives in localStorage, which the server can't see, so it's restored after mount
+  const [startingPreset] = useState(() => initialPreset ?? null);
+  const [currentMode, setCurrentMode] = useState<VisualizerMode>(() => getPresetMode(startingPreset) ?? DEFAULT_MODE);
+  // Each mode keeps its own settings so switching back restores them
+  const [configs, setConfigs] = useState<VisualizerConfigs>(() => {
+    const configs = createDefaultConfigs();
+    const mode = getPresetMode(startingPreset);
+    if (startingPreset && mode) {
+      configs[mode] = resolveConfig(getVisualizer(mode), startingPreset.config);
+    }
+    return configs;
+  });
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(
+    () => startingPreset?.audioSettings ?? resolveAudioSettings()
+  );
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(
+    () => startingPreset?.displaySettings ?? resolveDisplaySettings()
+  );
+  const [customPalette, setCustomPalette] = useState<Palette>(
+    () => startingPreset?.customPalette ?? defaultCustomPalette
+  );
+  const [seed, setSeed] = useState(() => startingPreset?.seed ?? DEFAULT_SEED);
+  const sourceRef = useRef<AudioSource | null>(null);
+  const [source, setSourceMetadata] = useState<AudioSourceMetadata | null>(null);
+  const [sourceError, setSourceError] = useState<AudioSourceError | null>(null);
+
+  const {
+    initializeAudioContext,
+    connectNode,
+    disconnectSource,
+    getChannelAnalysers,
+    getFeatureExtractor,
+    getRecordingStream,
+    applySettings,
+    cleanup: cleanupAudio,
+  } = useAudioContext();
+  // Set once setSource exists; the microphone hook needs it before then
+  const recoverMicrophoneRef = useRef<(() => void) | null>(null);
+  const handleMicrophoneDisconnect = useCallback(() => {
+    recoverMicrophoneRef.current?.();
+  }, []);
 
-  const { initializeAudioContext, connectSource, cleanup: cleanupAudio } = useAudioContext();
   const {
-    isActive,
     isRequesting,
     permissionState,
     error,
+    devices: microphoneDevices,
+    deviceId: microphoneDeviceId,
     requestMicrophone,
     stopMicrophone,
-  } = useMicrophone();
-  const { getData, setAnalyser } = useAnalyser();
+    selectDevice,
+    setProcessing,
+  } = useMicrophone({ onDisconnect: handleMicrophoneDisconnect });
+  const { getData: getAnalyserData, setAnalyser, setFloatMode, setFeatureExtractor } = useAnalyser();
+  const playback = useAudioPlayer();
+  const { loadFile, loadUrl, play, unload: unloadPlayback } = playback;
+
+  const isActive = source !== null;
+  const isMicrophoneActive = source?.kind === "microphone";
+
+  // Restored settings have to reach the audio graph and microphone before the first source starts
+  const startingAudioSettingsRef = useRef(audioSettings);
+  useEffect(() => {
+    const settings = startingAudioSettingsRef.current;
+    applySettings(settings);
+    setFloatMode(settings.floatAnalysis);
+    setProcessing(getMicrophoneProcessing(settings));
+  }, [applySettings, setFloatMode, setProcessing]);
+
+  const setSource = useCallback(
+    async (next: AudioSource | null) => {
+      const previous = sourceRef.current;
+      if (previous && previous !== next) {
+        previous.onended = null;
+        previous.stop();
+      }
+      sourceRef.current = next;
+      setSourceError(null);
+
+      // The microphone and player hooks own their inputs, so release whichever one isn't taking over
+      if (next?.metadata.kind !== "microphone") {
+        stopMicrophone();
+      }
+      if (!isPlaybackSource(next)) {
+        unloadPlayback();
+      }
+
+      const clear = () => {
+        disconnectSource();
+        setAnalyser(null);
+        setSourceMetadata(null);
+      };
+
+      if (!next) {
+        clear();
+        return;
+      }
 
-  const toggleMicrophone = useCallback(async () => {
-    if (isActive) {
-      stopMicrophone();
-      setAnalyser(null);
-    } else {
       try {
-        // Initialize audio context first (needs user interaction)
-        await initializeAudioContext();
+        const ctx = await initializeAudioContext();
+        const node = await next.start(ctx);
 
-        // Request microphone access
-        const stream = await requestMicrophone();
+        // Replaced while starting
+        if (sourceRef.current !== next) return;
 
-        if (stream) {
-          // Connect the stream to the analyser
-          const analyser = connectSource(stream);
-          setAnalyser(analyser);
-        }
+        // Mono inputs skip the per-channel analysers; renderers fall back to the mixed signal
+        const channels = next.metadata.channels > 1 ? getChannelAnalysers() : null;
+        setFeatureExtractor(getFeatureExtractor());
+        setAnalyser(connectNode(node, { monitor: next.metadata.monitor }), channels);
+        setSourceMetadata(next.metadata);
+
+        next.onended = () => {
+          if (sourceRef.current !== next) return;
+          sourceRef.current = null;
+          clear();
+        };
       } catch (err) {
-        console.error("Failed to start audio:", err);
+        if (sourceRef.current !== next) return;
+        sourceRef.current = null;
+        setSourceError(next.error ?? toAudioSourceError(err, "audio source"));
+        clear();
       }
+    },
+    [
+      initializeAudioContext,
+      connectNode,
+      disconnectSource,
+      getChannelAnalysers,
+      getFeatureExtractor,
+      setAnalyser,
+      setFeatureExtractor,
+      stopMicrophone,
+      unloadPlayback,
+    ]
+  );
+
+  const toggleMicrophone = useCallback(async () => {
+    if (isMicrophoneActive) {
+      await setSource(null);
+      return;
     }
-  }, [isActive, initializeAudioContext, requestMicrophone, stopMicrophone, connectSource, setAnalyser]);
+
+    try {
+      // Initialize audio context first (needs user interaction)
+      await initializeAudioContext();
+
+      // The microphone hook owns the permission prompt and its errors
+      const stream = await requestMicrophone();
+
+      if (stream) {
+        await setSource(createMicrophoneSource({ stream }));
+      }
+    } catch (err) {
+      console.error("Failed to start audio:", err);
+    }
+  }, [isMicrophoneActive, initializeAudioContext, requestMicrophone, setSource]);
+
+  // Swap a live microphone for a fresh stream. Permission is already granted, so there is
+  // no prompt, and the old stream keeps running if the new one fails.
+  const reopenMicrophone = useCallback(
+    async (deviceId: string | null) => {
+      const stream = await requestMicrophone(deviceId);
+      if (stream) {
+        await setSource(createMicrophoneSource({ stream }));
+      }
+    },
+    [requestMicrophone, setSource]
+  );
+
+  const selectMicrophoneDevice = useCallback(
+    async (deviceId: string | null) => {
+      selectDevice(deviceId);
+      if (isMicrophoneActive) {
+        await reopenMicrophone(deviceId);
+      }
+    },
+    [isMicrophoneActive, selectDevice, reopenMicrophone]
+  );
+
+  // Fall back to the default input when the active microphone is unplugged
+  const recoverMicrophone = useCallback(async () => {
+    if (sourceRef.current?.metadata.kind !== "microphone") return;
+
+    const stream = await requestMicrophone(null);
+    await setSource(stream ? createMicrophoneSource({ stream }) : null);
+  }, [requestMicrophone, setSource]);
+
+  useEffect(() => {
+    recoverMicrophoneRef.current = recoverMicrophone;
+  }, [recoverMicrophone]);
+
+  // Decoded files and URLs both end up as playback sources the player controls
+  const startPlayback = useCallback(
+    async (load: (ctx: AudioContext) => Promise<PlaybackSource | null>) => {
+      try {
+        const ctx = await initializeAudioContext();
+        const loaded = await load(ctx);
+
+        if (loaded) {
+          await setSource(loaded);
+          await play();
+        }
+      } catch (err) {
+        console.error("Failed to start playback:", err);
+      }
+    },
+    [initializeAudioContext, setSource, play]
+  );
+
+  const loadAudioFile = useCallback(
+    (file: File) => startPlayback((ctx) => loadFile(ctx, file)),
+    [startPlayback, loadFile]
+  );
+
+  const loadAudioUrl = useCallback(
+    (url: string) => startPlayback((ctx) => loadUrl(ctx, url)),
+    [startPlayback, loadUrl]
+  );
+
+  const closeAudio = useCallback(() => {
+    setSource(null);
+  }, [setSource]);
 
   const setMode = useCallback((mode: VisualizerMode) => {
+    if (!hasVisualizer(mode)) return;
+    setConfigs((prev) => (prev[mode] ? prev : { ...prev, [mode]: resolveConfig(getVisualizer(mode)) }));
     setCurrentMode(mode);
   }, []);
 
+  // Next registered mode, wrapping round
+  const cycleMode = useCallback(() => {
+    setMode(getNextVisualizer(currentMode));
+  }, [currentMode, setMode]);
+
+  // Timed auto-cycle counts from the last change of mode, however it happened
+  useEffect(() => {
+    if (!isActive || displaySettings.autoCycle !== "timer") return;
+    const timer = setInterval(cycleMode, displaySettings.autoCycleInterval * 1000);
+    return () => clearInterval(timer);
+  }, [isActive, displaySettings.autoCycle, displaySettings.autoCycleInterval, cycleMode]);
+
+  // Read once per animation frame by the canvas, which is where section changes show up
+  const getData = useCallback(() => {
+    const data = getAnalyserData();
+    if (data.isSectionChange && displaySettings.autoCycle === "sections") {
+      cycleMode();
+    }
+    return data;
+  }, [getAnalyserData, displaySettings.autoCycle, cycleMode]);
+
+  // Leave a mode whose visualizer is unregistered
+  useEffect(
+    () =>
+      subscribeVisualizers(() => {
+        setCurrentMode((mode) => (hasVisualizer(mode) ? mode : DEFAULT_MODE));
+      }),
+    []
+  );
+
+  const updateConfig = useCallback(
+    (key: string, value: ConfigValue) => {
+      setConfigs((prev) => ({
+        ...prev,
+        [currentMode]: resolveConfig(getVisualizer(currentMode), { ...prev[currentMode], [key]: value }),
+      }));
+    },
+    [currentMode]
+  );
+
+  const resetConfig = useCallback(() => {
+    setConfigs((prev) => ({
+      ...prev,
+      [currentMode]: resolveConfig(getVisualizer(currentMode)),
+    }));
+  }, [currentMode]);
+
+  const changeAudioSettings = useCallback(
+    async (next: AudioSettings) => {
+      const processingChanged = MICROPHONE_PROCESSING_KEYS.some((key) => next[key] !== audioSettings[key]);
+
+      setAudioSettings(next);
+      applySettings(next);
+      setFloatMode(next.floatAnalysis);
+      setProcessing(getMicrophoneProcessing(next));
+
+      // Browser processing is fixed when a stream opens
+      if (processingChanged && isMicrophoneActive) {
+        await reopenMicrophone(microphoneDeviceId);
+      }
+    },
+    [audioSettings, applySettings, setFloatMode, setProcessing, isMicrophoneActive, reopenMicrophone, microphoneDeviceId]
+  );
+
+  const updateAudioSetting = useCallback(
+    (key: string, value: ConfigValue) => changeAudioSettings(resolveAudioSettings({ ...audioSettings, [key]: value })),
+    [audioSettings, changeAudioSettings]
+  );
+
+  const resetAudioSettings = useCallback(
+    () => changeAudioSettings(resolveAudioSettings()),
+    [changeAudioSettings]
+  );
+
+  const updateDisplaySetting = useCallback((key: string, value: ConfigValue) => {
+    setDisplaySettings((prev) => resolveDisplaySettings({ ...prev, [key]: value }));
+  }, []);
+
+  const resetDisplaySettings = useCallback(() => {
+    setDisplaySettings(resolveDisplaySettings());
+  }, []);
+
+  const applyPreset = useCallback(
+    async (preset: SavedPreset) => {
+      const mode = getPresetMode(preset);
+      if (mode) {
+        setConfigs((prev) => ({ ...prev, [mode]: resolveConfig(getVisualizer(mode), preset.config) }));
+        setCurrentMode(mode);
+      }
+      setDisplaySettings(resolveDisplaySettings(preset.displaySettings));
+      setCustomPalette(preset.customPalette);
+      setSeed(preset.seed);
+      await changeAudioSettings(resolveAudioSettings(preset.audioSettings));
+    },
+    [changeAudioSettings]
+  );
+
+  const config = configs[currentMode] ?? resolveConfig(getVisualizer(currentMode));
+
+  const getPreset = useCallback(
+    (name: string) =>
+      createSavedPreset(name, { mode: currentMode, config, audioSettings, displaySettings, customPalette, seed }),
+    [currentMode, config, audioSettings, displaySettings, customPalette, seed]
+  );
+
+  // Pick up where the last visit left off, unless the page opened a shared preset. Runs before the
+  // effect below first stores the session, so the defaults don't overwrite it.
+  const sessionRestoredRef = useRef(initialPreset != null);
+  useEffect(() => {
+    if (sessionRestoredRef.current) return;
+    sessionRestoredRef.current = true;
+    const session = loadLastSession();
+    // Applied as a follow-up update once the defaults have mounted
+    if (session) void Promise.resolve(session).then(applyPreset);
+  }, [applyPreset]);
+
+  // Remember where the app was left for the next visit
+  useEffect(() => {
+    storeLastSession(getPreset("Last session"));
+  }, [getPreset]);
+
   const cleanup = useCallback(() => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
     stopMicrophone();
+    unloadPlayback();
     cleanupAudio();
     setAnalyser(null);
-  }, [stopMicrophone, cleanupAudio, setAnalyser]);
+  }, [stopMicrophone, unloadPlayback, cleanupAudio, setAnalyser]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -75,13 +472,44 @@ export function useVisualizerState(): UseVisualizerStateReturn {
 
   return {
     currentMode,
+    config,
+    audioSettings,
+    displaySettings,
+    customPalette,
+    seed,
+    source,
+    sourceError,
     isActive,
+    isMicrophoneActive,
     isRequesting,
     permissionState,
     error,
+    microphoneDevices,
+    microphoneDeviceId,
+    setSource,
     toggleMicrophone,
+    selectMicrophoneDevice,
+    loadAudioFile,
+    loadAudioUrl,
+    closeAudio,
+    playback,
     setMode,
+    updateConfig,
+    resetConfig,
+    updateAudioSetting,
+    resetAudioSettings,
+    updateDisplaySetting,
+    resetDisplaySettings,
+    setCustomPalette,
+    setSeed,
+    applyPreset,
+    getPreset,
     getData,
+    getAudioStream: getRecordingStream,
     cleanup,
   };
 }
+
+function isPlaybackSource(source: AudioSource | null): source is PlaybackSource {
+  return source?.metadata.kind === "buffer" || source?.metadata.kind === "media-element";
+}
@@ -0,0 +1,159 @@
+import type { ConfigValue, VisualizerConfig, VisualizerMode } from "@/visualizers/types";
+import { resolveAudioSettings, type AudioSettings } from "@/audio/settings";
+import { resolveDisplaySettings, type DisplaySettings } from "@/visualizers/displaySettings";
+import { defaultCustomPalette, validatePalette, PaletteError, type Palette } from "@/visualizers/palettes";
+import { DEFAULT_SEED, isValidSeed, MAX_SEED } from "@/visualizers/random";
+
+// Everything needed to bring the app back to a look: the mode, its config and the settings
+// around it. Saved in localStorage, exported as JSON files and packed into share links.
+export interface SavedPreset {
+  version: 3;
+  name: string;
+  mode: VisualizerMode;
+  // Checked against the mode's schema when applied, since plugin modes may not be registered yet
+  config: VisualizerConfig;
+  audioSettings: AudioSettings;
+  displaySettings: DisplaySettings;
+  // Drawn by configs that pick the "custom" palette
+  customPalette: Palette;
+  // Seeds the random parts of the visuals (particles, offsets), so the preset looks the same each time
+  seed: number;
+}
+
+export const SAVED_PRESET_VERSION = 3;
+
+// Thrown for a preset that can't be read, naming the field at fault
+export class SavedPresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SavedPresetError";
+  }
+}
+
+type PresetData = Record<string, unknown>;
+
+// Upgrades from each older version to the next, keyed by the version they upgrade from
+const migrations: Record<number, (preset: PresetData) => PresetData> = {
+  // Version 1 predates palettes
+  1: (preset) => ({ ...preset, version: 2, customPalette: defaultCustomPalette }),
+  // Version 2 drew with unseeded randomness
+  2: (preset) => ({ ...preset, version: 3, seed: DEFAULT_SEED }),
+};
+
+function isRecord(value: unknown): value is PresetData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Bring a preset written by an older version of the app up to the current format
+export function migrateSavedPreset(value: PresetData): PresetData {
+  let preset = value;
+  let version = preset.version;
+
+  while (version !== SAVED_PRESET_VERSION) {
+    const migrate = typeof version === "number" ? migrations[version] : undefined;
+    if (!migrate) {
+      throw new SavedPresetError(`Unsupported preset version ${JSON.stringify(version)}`);
+    }
+    preset = migrate(preset);
+    version = preset.version;
+  }
+
+  return preset;
+}
+
+function validateSettings(value: unknown, field: string): PresetData {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    throw new SavedPresetError(`"${field}" must map names to values`);
+  }
+  return value;
+}
+
+// Check an untrusted value is a well-formed preset. Settings are resolved against their
+// schemas, so unknown keys are dropped and out-of-range values fall back to the defaults.
+export function validateSavedPreset(value: unknown): SavedPreset {
+  if (!isRecord(value)) {
+    throw new SavedPresetError("Preset must be an object");
+  }
+  const preset = migrateSavedPreset(value);
+
+  if (typeof preset.name !== "string" || preset.name.trim() === "") {
+    throw new SavedPresetError("Preset needs a name");
+  }
+  if (typeof preset.mode !== "string" || preset.mode.trim() === "") {
+    throw new SavedPresetError('"mode" must name a visualizer');
+  }
+
+  const config: VisualizerConfig = {};
+  for (const [key, setting] of Object.entries(validateSettings(preset.config, "config"))) {
+    if (!isConfigValue(setting)) {
+      throw new SavedPresetError(`"config.${key}" must be a number, boolean or string`);
+    }
+    config[key] = setting;
+  }
+
+  return {
+    version: SAVED_PRESET_VERSION,
+    name: preset.name.trim(),
+    mode: preset.mode,
+    config,
+    audioSettings: resolveAudioSettings(validateSettings(preset.audioSettings, "audioSettings")),
+    displaySettings: resolveDisplaySettings(validateSettings(preset.displaySettings, "displaySettings")),
+    customPalette: validateCustomPalette(preset.customPalette),
+    seed: validateSeed(preset.seed),
+  };
+}
+
+function validateSeed(value: unknown): number {
+  if (value === undefined) return DEFAULT_SEED;
+  if (!isValidSeed(value)) {
+    throw new SavedPresetError(`"seed" must be a whole number from 0 to ${MAX_SEED}`);
+  }
+  return value;
+}
+
+function validateCustomPalette(value: unknown): Palette {
+  if (value === undefined) return defaultCustomPalette;
+  try {
+    return validatePalette(value);
+  } catch (err) {
+    if (err instanceof PaletteError) {
+      throw new SavedPresetError(`"customPalette" is invalid: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+function isConfigValue(value: unknown): value is ConfigValue {
+  return (
+    typeof value === "boolean" || typeof value === "string" || (typeof value === "number" && Number.isFinite(value))
+  );
+}
+
+export function createSavedPreset(name: string, state: Omit<SavedPreset, "version" | "name">): SavedPreset {
+  return {
+    version: SAVED_PRESET_VERSION,
+    name,
+    mode: state.mode,
+    config: { ...state.config },
+    audioSettings: { ...state.audioSettings },
+    displaySettings: { ...state.displaySettings },
+    customPalette: { ...state.customPalette, stops: [...state.customPalette.stops] },
+    seed: state.seed,
+  };
+}
+
+// Load a preset file's text. Throws SavedPresetError with a readable message.
+export function parseSavedPreset(text: string): SavedPreset {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SavedPresetError("Preset file is not valid JSON");
+  }
+  return validateSavedPreset(json);
+}
+
+export function serializeSavedPreset(preset: SavedPreset): string {
+  return JSON.stringify(preset, null, 2);
+}
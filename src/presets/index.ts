@@ -0,0 +1,21 @@
+export {
+  SAVED_PRESET_VERSION,
+  SavedPresetError,
+  migrateSavedPreset,
+  validateSavedPreset,
+  createSavedPreset,
+  parseSavedPreset,
+  serializeSavedPreset,
+} from "./format";
+export type { SavedPreset } from "./format";
+export {
+  loadSavedPresets,
+  storeSavedPresets,
+  loadSavedScenes,
+  storeSavedScenes,
+  loadEquationPresets,
+  storeEquationPresets,
+  loadLastSession,
+  storeLastSession,
+} from "./storage";
+export { SHARE_PARAM, encodeSharedPreset, decodeSharedPreset, getShareUrl } from "./shareUrl";
@@ -0,0 +1,92 @@
+import { getVisualizer, hasVisualizer } from "@/visualizers";
+import { defaultAudioSettings } from "@/audio/settings";
+import { defaultDisplaySettings } from "@/visualizers/displaySettings";
+import { defaultCustomPalette, type Palette } from "@/visualizers/palettes";
+import { DEFAULT_SEED } from "@/visualizers/random";
+import type { VisualizerConfig } from "@/visualizers/types";
+import { SavedPresetError, validateSavedPreset, type SavedPreset } from "./format";
+
+// Query parameter holding a shared preset, e.g. /?preset=eyJ2Ijox...
+export const SHARE_PARAM = "preset";
+
+// Short keys, and only values that differ from the defaults, to keep links short
+interface SharedPresetData {
+  v: number;
+  n: string;
+  m: string;
+  c?: VisualizerConfig;
+  a?: VisualizerConfig;
+  d?: VisualizerConfig;
+  p?: Palette;
+  s?: number;
+}
+
+function getChanges(values: VisualizerConfig, defaults: VisualizerConfig): VisualizerConfig | undefined {
+  const changes = Object.entries(values).filter(([key, value]) => defaults[key] !== value);
+  return changes.length > 0 ? Object.fromEntries(changes) : undefined;
+}
+
+// URL-safe base64 of the UTF-8 bytes, without padding
+function toBase64Url(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(code: string): string {
+  const base64 = code.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return new TextDecoder("utf-8", { fatal: true }).decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+export function encodeSharedPreset(preset: SavedPreset): string {
+  // Modes that aren't registered here keep their whole config
+  const configDefaults = hasVisualizer(preset.mode) ? getVisualizer(preset.mode).defaultConfig : {};
+  const data: SharedPresetData = {
+    v: preset.version,
+    n: preset.name,
+    m: preset.mode,
+    c: getChanges(preset.config, configDefaults),
+    a: getChanges(preset.audioSettings, defaultAudioSettings),
+    d: getChanges(preset.displaySettings, defaultDisplaySettings),
+    p: JSON.stringify(preset.customPalette) === JSON.stringify(defaultCustomPalette) ? undefined : preset.customPalette,
+    s: preset.seed === DEFAULT_SEED ? undefined : preset.seed,
+  };
+  return toBase64Url(JSON.stringify(data));
+}
+
+// Read the value of a share link's preset parameter. Throws SavedPresetError when it is damaged.
+export function decodeSharedPreset(code: string): SavedPreset {
+  let data: unknown;
+  try {
+    data = JSON.parse(fromBase64Url(code));
+  } catch {
+    throw new SavedPresetError("Shared preset link is damaged");
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new SavedPresetError("Shared preset link is damaged");
+  }
+
+  const { v, n, m, c, a, d, p, s } = data as Partial<Record<keyof SharedPresetData, unknown>>;
+  return validateSavedPreset({
+    version: v,
+    name: n,
+    mode: m,
+    config: c,
+    audioSettings: a,
+    displaySettings: d,
+    customPalette: p,
+    seed: s,
+  });
+}
+
+// Link that opens the app at baseUrl in this preset
+export function getShareUrl(preset: SavedPreset, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set(SHARE_PARAM, encodeSharedPreset(preset));
+  return url.href;
+}
@@ -0,0 +1,99 @@
+import { compilePreset, validatePreset, type Preset } from "@/visualizers/preset";
+import { validateScene, type Scene } from "@/visualizers/scene";
+import { validateSavedPreset, type SavedPreset } from "./format";
+
+const PRESETS_STORAGE_KEY = "dancing-lights:presets";
+// Imported layer scenes, kept next to the presets that may show them
+const SCENES_STORAGE_KEY = "dancing-lights:scenes";
+// Imported equation presets for the presets mode
+const EQUATION_PRESETS_STORAGE_KEY = "dancing-lights:equation-presets";
+// The state the app was last left in, restored on the next visit
+const SESSION_STORAGE_KEY = "dancing-lights:session";
+
+// localStorage throws in some private browsing modes, so treat it as best effort
+function readJson(key: string): unknown {
+  if (typeof window === "undefined") return null;
+  try {
+    const text = window.localStorage.getItem(key);
+    return text === null ? null : JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Not remembered, but still applies to this session
+  }
+}
+
+// Saved presets, in the order they were saved. Entries that no longer validate are dropped.
+export function loadSavedPresets(): SavedPreset[] {
+  const stored = readJson(PRESETS_STORAGE_KEY);
+  if (!Array.isArray(stored)) return [];
+
+  return stored.flatMap((entry) => {
+    try {
+      return [validateSavedPreset(entry)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function storeSavedPresets(presets: SavedPreset[]) {
+  writeJson(PRESETS_STORAGE_KEY, presets);
+}
+
+// Saved scenes, in the order they were saved. Entries that no longer validate are dropped.
+export function loadSavedScenes(): Scene[] {
+  const stored = readJson(SCENES_STORAGE_KEY);
+  if (!Array.isArray(stored)) return [];
+
+  return stored.flatMap((entry) => {
+    try {
+      return [validateScene(entry)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function storeSavedScenes(scenes: Scene[]) {
+  writeJson(SCENES_STORAGE_KEY, scenes);
+}
+
+// Saved equation presets, in the order they were saved. Entries that no longer validate or
+// compile are dropped.
+export function loadEquationPresets(): Preset[] {
+  const stored = readJson(EQUATION_PRESETS_STORAGE_KEY);
+  if (!Array.isArray(stored)) return [];
+
+  return stored.flatMap((entry) => {
+    try {
+      return [compilePreset(validatePreset(entry)).preset];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function storeEquationPresets(presets: Preset[]) {
+  writeJson(EQUATION_PRESETS_STORAGE_KEY, presets);
+}
+
+export function loadLastSession(): SavedPreset | null {
+  const stored = readJson(SESSION_STORAGE_KEY);
+  if (stored === null) return null;
+  try {
+    return validateSavedPreset(stored);
+  } catch {
+    return null;
+  }
+}
+
+export function storeLastSession(preset: SavedPreset) {
+  writeJson(SESSION_STORAGE_KEY, preset);
+}
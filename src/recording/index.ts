@@ -0,0 +1,24 @@
+export {
+  createVideoRecorder,
+  fitFrame,
+  getRecordingFileName,
+  initialRecorderState,
+  pickMimeType,
+} from "./recorder";
+export type { Recording, RecorderState, RecorderStatus, VideoRecorder, VideoRecorderOptions } from "./recorder";
+export {
+  defaultRecordingSettings,
+  getRecordingSize,
+  recordingSettingsSchema,
+  resolveRecordingSettings,
+} from "./settings";
+export type { RecordingResolution, RecordingSettings } from "./settings";
+export {
+  canvasToPng,
+  decodeAudioFile,
+  DEFAULT_OFFLINE_FRAME_RATE,
+  getFrameFileName,
+  getOfflineFrameCount,
+  renderOffline,
+} from "./offline";
+export type { OfflineFrame, OfflineRenderOptions } from "./offline";
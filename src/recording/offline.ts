@@ -0,0 +1,140 @@
+import type { VisualizerConfig, VisualizerMode } from "@/visualizers/types";
+import { createCanvasRenderer } from "@/visualizers/canvasRenderer";
+import { DEFAULT_SEED } from "@/visualizers/random";
+import type { Palette } from "@/visualizers/palettes";
+import { createFrameAnalyser } from "@/audio/analysis";
+import { dbToGain, resolveAudioSettings, type AudioSettings } from "@/audio/settings";
+
+export interface OfflineFrame {
+  // 0-based
+  index: number;
+  count: number;
+  // Seconds into the audio
+  time: number;
+}
+
+export interface OfflineRenderOptions {
+  // Decoded audio, see decodeAudioFile
+  audio: AudioBuffer;
+  mode: VisualizerMode;
+  config: VisualizerConfig;
+  // Output size in pixels
+  width: number;
+  height: number;
+  // Frames per second of audio; every frame advances the visualizer by exactly 1000 / frameRate ms
+  frameRate?: number;
+  // Same seed, audio and config give the same frames
+  seed?: number;
+  // FFT size, smoothing, decibel range, input gain and float analysis, as in the live analyser
+  audioSettings?: AudioSettings;
+  customPalette?: Palette;
+  // Called once each frame is drawn; the canvas is redrawn after the returned promise settles,
+  // so this can write a PNG (see canvasToPng) or hand the frame to an encoder
+  onFrame: (canvas: HTMLCanvasElement | OffscreenCanvas, frame: OfflineFrame) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_OFFLINE_FRAME_RATE = 60;
+
+// Decode a whole file up front. Nothing plays, so no AudioContext or user gesture is needed.
+export async function decodeAudioFile(data: ArrayBuffer, sampleRate = 44100): Promise<AudioBuffer> {
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  return ctx.decodeAudioData(data);
+}
+
+export function getOfflineFrameCount(duration: number, frameRate: number): number {
+  return Math.max(0, Math.ceil(duration * frameRate));
+}
+
+// frame-000001.png and so on, numbered from 1 as image sequence tools expect
+export function getFrameFileName(index: number, count: number): string {
+  const digits = Math.max(6, String(count).length);
+  return `frame-${String(index + 1).padStart(digits, "0")}.png`;
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<Blob> {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type: "image/png" });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the frame"))), "image/png");
+  });
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  return typeof OffscreenCanvas !== "undefined"
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement("canvas"), { width, height });
+}
+
+// Channels with the input gain applied, plus the mono mix the main analyser reads.
+// AnalyserNode mixes down by averaging, so this does too.
+function prepareChannels(audio: AudioBuffer, gain: number) {
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, channel) => {
+    const samples = Float32Array.from(audio.getChannelData(channel));
+    if (gain !== 1) {
+      for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+    }
+    return samples;
+  });
+
+  const mono = new Float32Array(audio.length);
+  for (const samples of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += samples[i] / channels.length;
+  }
+  return { mono, stereo: channels.length >= 2 ? { left: channels[0], right: channels[1] } : null };
+}
+
+// Renders a decoded file frame by frame, as fast as onFrame keeps up rather than in real time.
+// Analysis runs in JavaScript at fixed steps instead of through an AnalyserNode, and the
+// visualizer is seeded, so the same input always gives the same frames. Resolves with the
+// number of frames rendered.
+export async function renderOffline({
+  audio,
+  mode,
+  config,
+  width,
+  height,
+  frameRate = DEFAULT_OFFLINE_FRAME_RATE,
+  seed = DEFAULT_SEED,
+  audioSettings = resolveAudioSettings(),
+  customPalette,
+  onFrame,
+  signal,
+}: OfflineRenderOptions): Promise<number> {
+  const canvas = createCanvas(width, height);
+  const renderer = createCanvasRenderer(canvas, mode, seed);
+  renderer.resize({ width, height }, 1);
+  if (customPalette) renderer.setCustomPalette(customPalette);
+
+  const { mono, stereo } = prepareChannels(audio, dbToGain(audioSettings.inputGain));
+  const analyser = createFrameAnalyser({
+    fftSize: audioSettings.fftSize,
+    smoothingTimeConstant: audioSettings.smoothing,
+    minDecibels: audioSettings.minDecibels,
+    maxDecibels: audioSettings.maxDecibels,
+    sampleRate: audio.sampleRate,
+    float: audioSettings.floatAnalysis,
+  });
+
+  const count = getOfflineFrameCount(audio.duration, frameRate);
+  const deltaTime = 1000 / frameRate;
+
+  try {
+    for (let index = 0; index < count; index++) {
+      signal?.throwIfAborted();
+
+      // What a live analyser would hold at this moment: the samples just played
+      const time = index / frameRate;
+      const end = Math.round(time * audio.sampleRate);
+      const data = analyser.analyse(mono, end, time, stereo);
+
+      renderer.render(data, config, deltaTime);
+      await onFrame(canvas, { index, count, time });
+    }
+  } finally {
+    renderer.dispose();
+  }
+
+  return count;
+}
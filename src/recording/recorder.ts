@@ -0,0 +1,237 @@
+import { getRecordingSize, type RecordingSettings } from "./settings";
+
+export type RecorderStatus = "idle" | "recording" | "stopping" | "finished" | "error";
+
+// A finished video, ready to download until it is discarded or replaced
+export interface Recording {
+  blob: Blob;
+  // Object URL of the blob, revoked when the recording is discarded or replaced
+  url: string;
+  fileName: string;
+  // Milliseconds
+  duration: number;
+}
+
+export interface RecorderState {
+  status: RecorderStatus;
+  // Milliseconds since recording started, updated about once a second
+  elapsed: number;
+  recording: Recording | null;
+  error: string | null;
+}
+
+export interface VideoRecorderOptions {
+  // Read on every frame, since the visualizer swaps canvases when it changes context type
+  getCanvas: () => HTMLCanvasElement | null;
+  // Audio mixed into the video; recorded silent when null
+  getAudioStream: () => MediaStream | null;
+  onChange: (state: RecorderState) => void;
+  // Replaced in tests, where there is no MediaRecorder
+  createMediaRecorder?: (stream: MediaStream, mimeType: string) => MediaRecorder;
+  isTypeSupported?: (mimeType: string) => boolean;
+}
+
+export interface VideoRecorder {
+  start: (settings: RecordingSettings) => void;
+  stop: () => void;
+  // Drop a finished recording or an error and go back to idle
+  discard: () => void;
+  getState: () => RecorderState;
+  dispose: () => void;
+}
+
+// Best first; every browser with MediaRecorder and WebM supports the last
+const MIME_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+// MediaRecorder hands over data in slices this long, so a crash doesn't lose the whole take
+const TIMESLICE_MS = 1000;
+
+export const initialRecorderState: RecorderState = { status: "idle", elapsed: 0, recording: null, error: null };
+
+export function pickMimeType(isTypeSupported: (mimeType: string) => boolean): string | null {
+  return MIME_TYPES.find((mimeType) => isTypeSupported(mimeType)) ?? null;
+}
+
+// Largest rectangle with the source's aspect ratio that fits in the target, centered
+export function fitFrame(
+  source: { width: number; height: number },
+  target: { width: number; height: number }
+): { x: number; y: number; width: number; height: number } {
+  if (source.width === 0 || source.height === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const scale = Math.min(target.width / source.width, target.height / source.height);
+  const width = source.width * scale;
+  const height = source.height * scale;
+  return { x: (target.width - width) / 2, y: (target.height - height) / 2, width, height };
+}
+
+export function getRecordingFileName(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `dancing-lights-${day}-${time}.webm`;
+}
+
+interface Session {
+  mediaRecorder: MediaRecorder;
+  // The visualizer canvas is copied into this one, which is what gets captured
+  frameCanvas: HTMLCanvasElement;
+  frameCtx: CanvasRenderingContext2D;
+  videoTracks: MediaStreamTrack[];
+  frameTimer: ReturnType<typeof setInterval>;
+  chunks: Blob[];
+  startedAt: number;
+}
+
+// Records the visualizer canvas and the current audio to WebM.
+//
+//   idle -> recording -> stopping -> finished
+//
+// Starting again from finished or error replaces the last take. Any failure lands in error.
+export function createVideoRecorder({
+  getCanvas,
+  getAudioStream,
+  onChange,
+  createMediaRecorder = (stream, mimeType) => new MediaRecorder(stream, { mimeType }),
+  isTypeSupported = (mimeType) => typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(mimeType),
+}: VideoRecorderOptions): VideoRecorder {
+  let state = initialRecorderState;
+  let session: Session | null = null;
+
+  const setState = (next: Partial<RecorderState>) => {
+    state = { ...state, ...next };
+    onChange(state);
+  };
+
+  const fail = (error: string) => {
+    endSession();
+    setState({ status: "error", error });
+  };
+
+  // Stops capturing. The audio tracks belong to the audio graph and are left running.
+  function endSession() {
+    if (!session) return;
+    clearInterval(session.frameTimer);
+    session.videoTracks.forEach((track) => track.stop());
+    session.mediaRecorder.ondataavailable = null;
+    session.mediaRecorder.onstop = null;
+    session.mediaRecorder.onerror = null;
+    if (session.mediaRecorder.state !== "inactive") {
+      session.mediaRecorder.stop();
+    }
+    session = null;
+  }
+
+  function releaseRecording() {
+    if (state.recording) {
+      URL.revokeObjectURL(state.recording.url);
+    }
+  }
+
+  function drawFrame(current: Session) {
+    const source = getCanvas();
+    const ctx = current.frameCtx;
+    const { width, height } = current.frameCanvas;
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, 0, width, height);
+    if (source) {
+      const frame = fitFrame(source, current.frameCanvas);
+      ctx.drawImage(source, frame.x, frame.y, frame.width, frame.height);
+    }
+
+    // Only whole seconds are shown, so don't wake listeners every frame
+    const elapsed = Date.now() - current.startedAt;
+    if (Math.floor(elapsed / 1000) !== Math.floor(state.elapsed / 1000)) {
+      setState({ elapsed });
+    }
+  }
+
+  function start(settings: RecordingSettings) {
+    if (state.status === "recording" || state.status === "stopping") return;
+
+    const canvas = getCanvas();
+    if (!canvas) {
+      fail("There is nothing to record yet");
+      return;
+    }
+    const mimeType = pickMimeType(isTypeSupported);
+    const frameCanvas = document.createElement("canvas");
+    const size = getRecordingSize(settings.resolution, canvas);
+    frameCanvas.width = size.width;
+    frameCanvas.height = size.height;
+    const frameCtx = frameCanvas.getContext("2d");
+    if (!mimeType || !frameCtx || typeof frameCanvas.captureStream !== "function") {
+      fail("Recording isn't supported in this browser");
+      return;
+    }
+
+    const videoTracks = frameCanvas.captureStream(settings.frameRate).getTracks();
+    const audioTracks = getAudioStream()?.getAudioTracks() ?? [];
+
+    let mediaRecorder: MediaRecorder;
+    try {
+      mediaRecorder = createMediaRecorder(new MediaStream([...videoTracks, ...audioTracks]), mimeType);
+    } catch {
+      videoTracks.forEach((track) => track.stop());
+      fail("Could not start recording");
+      return;
+    }
+
+    releaseRecording();
+    const current: Session = {
+      mediaRecorder,
+      frameCanvas,
+      frameCtx,
+      videoTracks,
+      frameTimer: setInterval(() => drawFrame(current), 1000 / settings.frameRate),
+      chunks: [],
+      startedAt: Date.now(),
+    };
+    session = current;
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) current.chunks.push(event.data);
+    };
+    mediaRecorder.onstop = () => {
+      const duration = Date.now() - current.startedAt;
+      const blob = new Blob(current.chunks, { type: "video/webm" });
+      endSession();
+      setState({
+        status: "finished",
+        elapsed: duration,
+        recording: { blob, url: URL.createObjectURL(blob), fileName: getRecordingFileName(new Date()), duration },
+      });
+    };
+    mediaRecorder.onerror = () => fail("Recording failed");
+
+    // Draw once now so the video doesn't open on an empty frame
+    drawFrame(current);
+    mediaRecorder.start(TIMESLICE_MS);
+    setState({ status: "recording", elapsed: 0, recording: null, error: null });
+  }
+
+  function stop() {
+    if (state.status !== "recording" || !session) return;
+    clearInterval(session.frameTimer);
+    setState({ status: "stopping" });
+    // onstop finishes up once the last data has arrived
+    session.mediaRecorder.stop();
+  }
+
+  function discard() {
+    if (state.status === "recording" || state.status === "stopping") return;
+    releaseRecording();
+    setState(initialRecorderState);
+  }
+
+  return {
+    start,
+    stop,
+    discard,
+    getState: () => state,
+    dispose() {
+      endSession();
+      releaseRecording();
+      state = initialRecorderState;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import type { ConfigSchema, VisualizerConfig } from "@/visualizers/types";
+import { resolveSchemaConfig } from "@/visualizers/config";
+
+export type RecordingResolution = "canvas" | "720p" | "1080p";
+
+export interface RecordingSettings extends VisualizerConfig {
+  // Frame size of the video. "canvas" keeps the canvas's own pixel size.
+  resolution: RecordingResolution;
+  frameRate: number;
+}
+
+export const defaultRecordingSettings: RecordingSettings = {
+  resolution: "720p",
+  frameRate: 30,
+};
+
+export const recordingSettingsSchema = {
+  resolution: {
+    type: "enum",
+    label: "Resolution",
+    options: [
+      { value: "canvas", label: "Same as window" },
+      { value: "720p", label: "720p" },
+      { value: "1080p", label: "1080p" },
+    ],
+  },
+  frameRate: {
+    type: "enum",
+    label: "Frame rate",
+    options: [24, 30, 60].map((fps) => ({ value: fps, label: `${fps} fps` })),
+  },
+} satisfies ConfigSchema<RecordingSettings>;
+
+export function resolveRecordingSettings(overrides: Record<string, unknown> = {}): RecordingSettings {
+  return resolveSchemaConfig(defaultRecordingSettings, recordingSettingsSchema, overrides);
+}
+
+const fixedSizes = {
+  "720p": { width: 1280, height: 720 },
+  "1080p": { width: 1920, height: 1080 },
+};
+
+// Video frame size in pixels for the canvas being recorded. Encoders want even sizes.
+export function getRecordingSize(
+  resolution: RecordingResolution,
+  canvas: { width: number; height: number }
+): { width: number; height: number } {
+  const size = resolution === "canvas" ? canvas : fixedSizes[resolution];
+  return { width: Math.max(2, Math.round(size.width / 2) * 2), height: Math.max(2, Math.round(size.height / 2) * 2) };
+}
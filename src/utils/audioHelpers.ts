@@ -65,6 +65,69 @@ export function getAverageAmplitude(data: Uint8Array): number {
   return sum / data.length / 255;
 }
 
+// RMS of byte time-domain data (128 = silence), 0-1
+export function getTimeDomainRms(data: Uint8Array): number {
+  if (data.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    const sample = (data[i] - 128) / 128;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / data.length);
+}
+
+// RMS of float samples (-1..1)
+export function getFloatRms(data: Float32Array): number {
+  if (data.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i] * data[i];
+  }
+  return Math.sqrt(sum / data.length);
+}
+
+// Largest absolute float sample
+export function getFloatPeak(data: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.abs(data[i]);
+    if (sample > peak) peak = sample;
+  }
+  return peak;
+}
+
+// Linear amplitude to dBFS; silence is -Infinity
+export function amplitudeToDb(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
+
+// Loudest frequency in Hz from float (dB) frequency data. Parabolic interpolation
+// between neighbouring bins gives a finer answer than the bin spacing.
+export function getPeakFrequencyHz(data: Float32Array, sampleRate: number): number {
+  let maxIndex = -1;
+  let maxValue = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] > maxValue) {
+      maxValue = data[i];
+      maxIndex = i;
+    }
+  }
+  if (maxIndex < 0) return 0;
+
+  // frequencyBinCount is half the FFT size, so each bin spans nyquist / length
+  const binWidth = sampleRate / 2 / data.length;
+  let offset = 0;
+  if (maxIndex > 0 && maxIndex < data.length - 1) {
+    const left = data[maxIndex - 1];
+    const right = data[maxIndex + 1];
+    const curvature = left - 2 * maxValue + right;
+    if (Number.isFinite(curvature) && curvature < 0) {
+      offset = (0.5 * (left - right)) / curvature;
+    }
+  }
+  return (maxIndex + offset) * binWidth;
+}
+
 // Find peak frequency index
 export function getPeakFrequencyIndex(data: Uint8Array): number {
   let maxValue = 0;
@@ -115,3 +178,90 @@ export function getLogarithmicIndex(
   const logScale = Math.pow(linearIndex / totalBars, 1.2);
   return Math.floor(logScale * dataLength);
 }
+
+export type FrequencyScale = "linear" | "log" | "mel" | "bark";
+
+// Perceptual frequency scales (mel: O'Shaughnessy, bark: Traunmüller)
+export function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+export function hzToBark(hz: number): number {
+  return (26.81 * hz) / (1960 + hz) - 0.53;
+}
+
+export function barkToHz(bark: number): number {
+  return (1960 * (bark + 0.53)) / (26.28 - bark);
+}
+
+// Map a bar position onto a frequency bin using the selected scale
+export function getScaledIndex(
+  barIndex: number,
+  totalBars: number,
+  dataLength: number,
+  scale: FrequencyScale,
+  sampleRate: number = 44100
+): number {
+  if (totalBars <= 0 || dataLength <= 0) return 0;
+
+  const position = Math.max(0, Math.min(1, barIndex / totalBars));
+  if (position === 1) return dataLength;
+  const nyquist = sampleRate / 2;
+  let index: number;
+
+  switch (scale) {
+    case "log":
+      index = getLogarithmicIndex(barIndex, totalBars, dataLength);
+      break;
+    case "mel": {
+      const hz = melToHz(position * hzToMel(nyquist));
+      index = Math.floor((hz / nyquist) * dataLength);
+      break;
+    }
+    case "bark": {
+      // Bark is slightly negative at 0 Hz, so interpolate from the scale's own origin
+      const minBark = hzToBark(0);
+      const hz = barkToHz(minBark + position * (hzToBark(nyquist) - minBark));
+      index = Math.floor((hz / nyquist) * dataLength);
+      break;
+    }
+    default:
+      index = Math.floor(position * dataLength);
+  }
+
+  return Math.max(0, Math.min(dataLength, index));
+}
+
+// Get the bin range [start, end) that feeds a single bar
+export function getBandRange(
+  barIndex: number,
+  totalBars: number,
+  dataLength: number,
+  scale: FrequencyScale,
+  sampleRate: number = 44100
+): { start: number; end: number } {
+  const start = Math.min(
+    dataLength - 1,
+    getScaledIndex(barIndex, totalBars, dataLength, scale, sampleRate)
+  );
+  const end = getScaledIndex(barIndex + 1, totalBars, dataLength, scale, sampleRate);
+  // Always cover at least one bin so low bars don't go blank on coarse FFTs
+  return { start: Math.max(0, start), end: Math.max(start + 1, end) };
+}
+
+// Average normalized level (0-1) over a bin range
+export function getBandLevel(data: Uint8Array, start: number, end: number): number {
+  const from = Math.max(0, start);
+  const to = Math.min(data.length, end);
+  if (to <= from) return 0;
+
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    sum += data[i];
+  }
+  return sum / (to - from) / 255;
+}
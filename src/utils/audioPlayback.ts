@@ -0,0 +1,175 @@
+// Playback of decoded files and streamed URLs with a shared transport
+
+export const SUPPORTED_AUDIO_EXTENSIONS = ["mp3", "wav", "ogg", "oga", "flac"];
+
+export const AUDIO_FILE_ACCEPT = ["audio/*", ...SUPPORTED_AUDIO_EXTENSIONS.map((ext) => `.${ext}`)].join(",");
+
+export function isSupportedAudioFile(file: File): boolean {
+  if (file.type.startsWith("audio/")) return true;
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return SUPPORTED_AUDIO_EXTENSIONS.includes(extension);
+}
+
+// Format seconds as m:ss for transport displays
+export function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
+
+export interface PlaybackEngine {
+  // Seconds, or 0 when unknown (live streams)
+  readonly duration: number;
+  readonly isPlaying: boolean;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (time: number) => void;
+  setLoop: (loop: boolean) => void;
+  getCurrentTime: () => number;
+  dispose: () => void;
+}
+
+// Plays a fully decoded AudioBuffer. Buffer sources are single-use, so every
+// play or seek starts a fresh one from the remembered offset.
+export function createBufferPlayback(
+  ctx: AudioContext,
+  buffer: AudioBuffer,
+  output: AudioNode,
+  onEnded: () => void
+): PlaybackEngine {
+  let source: AudioBufferSourceNode | null = null;
+  let offset = 0;      // Position while paused
+  let startedAt = 0;   // Context time at which position 0 would have played
+  let loop = false;
+
+  const getCurrentTime = () => {
+    if (!source) return offset;
+    const elapsed = ctx.currentTime - startedAt;
+    return loop ? elapsed % buffer.duration : Math.min(elapsed, buffer.duration);
+  };
+
+  const stopSource = () => {
+    if (!source) return;
+    source.onended = null;
+    source.stop();
+    source.disconnect();
+    source = null;
+  };
+
+  const play = async () => {
+    if (source) return;
+
+    const next = ctx.createBufferSource();
+    next.buffer = buffer;
+    next.loop = loop;
+    next.connect(output);
+    next.onended = () => {
+      source = null;
+      offset = 0;
+      onEnded();
+    };
+
+    startedAt = ctx.currentTime - offset;
+    next.start(0, offset);
+    source = next;
+  };
+
+  const pause = () => {
+    if (!source) return;
+    offset = getCurrentTime();
+    stopSource();
+  };
+
+  const seek = (time: number) => {
+    const wasPlaying = source !== null;
+    stopSource();
+    offset = Math.max(0, Math.min(buffer.duration, time));
+    if (wasPlaying) {
+      play();
+    }
+  };
+
+  const setLoop = (value: boolean) => {
+    const position = getCurrentTime();
+    loop = value;
+    if (source) {
+      source.loop = value;
+      // Re-anchor so the wrapped position stays continuous
+      startedAt = ctx.currentTime - position;
+    }
+  };
+
+  return {
+    duration: buffer.duration,
+    get isPlaying() {
+      return source !== null;
+    },
+    play,
+    pause,
+    seek,
+    setLoop,
+    getCurrentTime,
+    dispose: stopSource,
+  };
+}
+
+// Plays an <audio> element, used for URLs the browser streams instead of decoding up front
+export function createElementPlayback(
+  ctx: AudioContext,
+  element: HTMLMediaElement,
+  output: AudioNode,
+  onEnded: () => void
+): PlaybackEngine {
+  const node = ctx.createMediaElementSource(element);
+  node.connect(output);
+  element.onended = onEnded;
+
+  return {
+    get duration() {
+      return Number.isFinite(element.duration) ? element.duration : 0;
+    },
+    get isPlaying() {
+      return !element.paused && !element.ended;
+    },
+    play: () => element.play(),
+    pause: () => element.pause(),
+    seek: (time: number) => {
+      element.currentTime = time;
+    },
+    setLoop: (loop: boolean) => {
+      element.loop = loop;
+    },
+    getCurrentTime: () => element.currentTime,
+    dispose: () => {
+      element.onended = null;
+      element.pause();
+      element.removeAttribute("src");
+      element.load();
+      node.disconnect();
+    },
+  };
+}
+
+// Resolve once the element knows its duration, or reject if the URL can't be loaded
+export function loadAudioElement(url: string): Promise<HTMLAudioElement> {
+  return new Promise((resolve, reject) => {
+    const element = new Audio();
+    // Needed so the analyser can read cross-origin audio (the server must allow it)
+    element.crossOrigin = "anonymous";
+    element.preload = "auto";
+
+    element.onloadedmetadata = () => {
+      element.onloadedmetadata = null;
+      element.onerror = null;
+      resolve(element);
+    };
+    element.onerror = () => {
+      element.onloadedmetadata = null;
+      element.onerror = null;
+      reject(new Error("Could not load audio from this URL."));
+    };
+
+    element.src = url;
+  });
+}
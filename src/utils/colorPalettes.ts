@@ -51,7 +51,7 @@ export function hslColor(
 }
 
 // Interpolate between two hex colors
-function interpolateColor(color1: string, color2: string, t: number): string {
+export function interpolateColor(color1: string, color2: string, t: number): string {
   const r1 = parseInt(color1.slice(1, 3), 16);
   const g1 = parseInt(color1.slice(3, 5), 16);
   const b1 = parseInt(color1.slice(5, 7), 16);
@@ -1,11 +1,17 @@
-import type { VisualizerRenderer, AnalyserData, VisualizerConfig } from "./types";
+import type {
+  ConfigSchema,
+  Canvas2DVisualizerRenderer,
+  VisualizerInstance,
+  VisualizerInstanceOptions,
+  AnalyserData,
+  VisualizerConfig,
+  VisualizerDimensions,
+} from "./types";
 import { getBassEnergy, getTrebleEnergy } from "@/utils/audioHelpers";
+import { getGradientRgb, getPalette, mixRgb, paletteField, parseHexColor, toRgba, type PaletteId } from "./palettes";
+import type { RandomSource } from "./random";
 
-// Firefly color palette - warm yellow-green bioluminescent colors
-const FIREFLY_HUES = {
-  min: 45,   // Warm yellow
-  max: 95,   // Yellow-green
-};
+const WHITE = parseHexColor("#ffffff");
 
 interface AmbianceConfig extends VisualizerConfig {
   particleCount: number;
@@ -13,6 +19,7 @@ interface AmbianceConfig extends VisualizerConfig {
   minSize: number;
   flowSpeed: number;
   reactivity: number;
+  palette: PaletteId;
 }
 
 interface Particle {
@@ -22,54 +29,68 @@ interface Particle {
   vy: number;
   size: number;
   baseSize: number;
-  hue: number;
+  // Position (0-1) along the palette's stops, drifting with the music
+  shade: number;
   life: number;
   maxLife: number;
 }
 
-let particles: Particle[] = [];
-let time = 0;
-let initialized = false;
+interface AmbianceState {
+  particles: Particle[];
+  time: number;
+  // Size the particles were spawned for, so a resize can rescale them
+  dimensions: VisualizerDimensions | null;
+}
+
+function createState(): AmbianceState {
+  return { particles: [], time: 0, dimensions: null };
+}
 
-function initParticles(width: number, height: number, count: number, config: AmbianceConfig) {
-  particles = [];
+function initParticles(
+  width: number,
+  height: number,
+  count: number,
+  config: AmbianceConfig,
+  random: RandomSource
+): Particle[] {
+  const particles: Particle[] = [];
   for (let i = 0; i < count; i++) {
-    particles.push(createParticle(width, height, config, true));
+    particles.push(createParticle(width, height, config, random, true));
   }
-  initialized = true;
+  return particles;
 }
 
 function createParticle(
   width: number,
   height: number,
   config: AmbianceConfig,
+  random: RandomSource,
   randomPosition: boolean = false
 ): Particle {
-  const baseSize = config.minSize + Math.random() * (config.maxSize - config.minSize);
+  const baseSize = config.minSize + random() * (config.maxSize - config.minSize);
   return {
     // Fireflies spawn randomly across entire screen
-    x: Math.random() * width,
-    y: Math.random() * height,
+    x: random() * width,
+    y: random() * height,
     // Random slow drift in any direction like real fireflies
-    vx: (Math.random() - 0.5) * config.flowSpeed * 0.8,
-    vy: (Math.random() - 0.5) * config.flowSpeed * 0.8,
+    vx: (random() - 0.5) * config.flowSpeed * 0.8,
+    vy: (random() - 0.5) * config.flowSpeed * 0.8,
     size: baseSize,
     baseSize: baseSize,
-    hue: FIREFLY_HUES.min + Math.random() * (FIREFLY_HUES.max - FIREFLY_HUES.min),
+    shade: random(),
     life: 0,
-    maxLife: 1500 + Math.random() * 800,  // Long life for slow dreamy drift across screen
+    maxLife: 1500 + random() * 800,  // Long life for slow dreamy drift across screen
   };
 }
 
-export const ambianceVisualizer: VisualizerRenderer = {
-  name: "Fireflies",
-  description: "Glowing fireflies drifting through a forest night",
+function createAmbianceInstance({ random = Math.random }: VisualizerInstanceOptions = {}): VisualizerInstance {
+  let state = createState();
 
-  render(
+  function render(
     ctx: CanvasRenderingContext2D,
     data: AnalyserData,
     config: VisualizerConfig,
-    { width, height }: { width: number; height: number },
+    { width, height }: VisualizerDimensions,
     deltaTime: number
   ) {
     const { frequencyData, averageFrequency } = data;
@@ -77,15 +98,23 @@ export const ambianceVisualizer: VisualizerRenderer = {
     const { particleCount, reactivity } = ambianceConfig;
 
     // Initialize particles if needed
-    if (!initialized || particles.length !== particleCount) {
-      initParticles(width, height, particleCount, ambianceConfig);
+    if (state.particles.length !== particleCount) {
+      state.particles = initParticles(width, height, particleCount, ambianceConfig, random);
     }
+    state.dimensions = { width, height };
+    const { particles } = state;
 
-    // Clear with heavy fade for smooth firefly trails - dark forest night
-    ctx.fillStyle = "rgba(5, 10, 8, 0.06)";
+    const palette = getPalette(config.palette);
+    const background = parseHexColor(palette.background);
+    const accent = parseHexColor(palette.accent);
+    const glow = parseHexColor(palette.glow);
+
+    // Clear with heavy fade for smooth firefly trails
+    ctx.fillStyle = toRgba(background, 0.06);
     ctx.fillRect(0, 0, width, height);
 
-    time += deltaTime;
+    state.time += deltaTime;
+    const { time } = state;
 
     // Get bass and treble energy
     const bassEnergy = frequencyData.length > 0 ? getBassEnergy(frequencyData) : 0;
@@ -98,7 +127,7 @@ export const ambianceVisualizer: VisualizerRenderer = {
 
       // Reset particle if life expires - respawn randomly on screen
       if (particle.life > particle.maxLife) {
-        const newParticle = createParticle(width, height, ambianceConfig);
+        const newParticle = createParticle(width, height, ambianceConfig, random);
         particles[index] = newParticle;
         return;
       }
@@ -134,15 +163,12 @@ export const ambianceVisualizer: VisualizerRenderer = {
           ? (1 - lifeRatio) * 5
           : 1;
 
-      // Update hue - oscillate within firefly color range based on audio
-      const hueRange = FIREFLY_HUES.max - FIREFLY_HUES.min;
-      particle.hue = FIREFLY_HUES.min + ((particle.hue - FIREFLY_HUES.min + averageFrequency * 0.5) % hueRange);
-
-      // Firefly glow color - warm yellow-green
-      const glowColor = `hsl(${particle.hue}, 100%, 60%)`;
+      // Drift along the palette, faster when the music is loud
+      particle.shade = (particle.shade + averageFrequency * 0.01) % 1;
+      const color = getGradientRgb(palette, particle.shade);
 
-      // Outer glow - warm firefly glow
-      ctx.shadowColor = glowColor;
+      // Outer glow
+      ctx.shadowColor = toRgba(color);
       ctx.shadowBlur = particle.size * 2.5 * (1 + bassEnergy);
 
       // Create gradient for soft firefly particle
@@ -154,10 +180,10 @@ export const ambianceVisualizer: VisualizerRenderer = {
         particle.y,
         particle.size
       );
-      // Bright white-yellow core fading to warm green
-      gradient.addColorStop(0, `hsla(60, 100%, 95%, ${alpha * 0.9})`);
-      gradient.addColorStop(0.3, `hsla(${particle.hue}, 100%, 70%, ${alpha * 0.7})`);
-      gradient.addColorStop(0.6, `hsla(${particle.hue}, 90%, 50%, ${alpha * 0.3})`);
+      // Bright accent core fading out through the particle's color
+      gradient.addColorStop(0, toRgba(accent, alpha * 0.9));
+      gradient.addColorStop(0.3, toRgba(mixRgb(color, WHITE, 0.2), alpha * 0.7));
+      gradient.addColorStop(0.6, toRgba(color, alpha * 0.3));
       gradient.addColorStop(1, "transparent");
 
       ctx.beginPath();
@@ -165,18 +191,18 @@ export const ambianceVisualizer: VisualizerRenderer = {
       ctx.fillStyle = gradient;
       ctx.fill();
 
-      // Draw inner bright core - white-yellow firefly center
+      // Draw inner bright core
       if (alpha > 0.5) {
         ctx.beginPath();
         ctx.arc(particle.x, particle.y, particle.size * 0.25, 0, Math.PI * 2);
-        ctx.fillStyle = `rgba(255, 255, 220, ${alpha * 0.8})`;
+        ctx.fillStyle = toRgba(accent, alpha * 0.8);
         ctx.fill();
       }
     });
 
     ctx.shadowBlur = 0;
 
-    // Draw ambient background gradient - dark forest night atmosphere
+    // Draw ambient background gradient - a faint haze of the glow color
     const bgGradient = ctx.createRadialGradient(
       width / 2,
       height / 2,
@@ -185,14 +211,43 @@ export const ambianceVisualizer: VisualizerRenderer = {
       height / 2,
       Math.max(width, height) * 0.7
     );
-    // Dark blue-green forest night colors
-    bgGradient.addColorStop(0, `hsla(180, 30%, 8%, ${0.05 + averageFrequency * 0.1})`);
-    bgGradient.addColorStop(0.5, `hsla(200, 40%, 5%, ${averageFrequency * 0.05})`);
+    bgGradient.addColorStop(0, toRgba(mixRgb(background, glow, 0.08), 0.05 + averageFrequency * 0.1));
+    bgGradient.addColorStop(0.5, toRgba(mixRgb(background, glow, 0.04), averageFrequency * 0.05));
     bgGradient.addColorStop(1, "transparent");
 
     ctx.fillStyle = bgGradient;
     ctx.fillRect(0, 0, width, height);
-  },
+  }
+
+  return {
+    render,
+    // Keep fireflies spread over the new area instead of bunching up
+    resize({ width, height }) {
+      const previous = state.dimensions;
+      if (!previous || previous.width === 0 || previous.height === 0) return;
+
+      const scaleX = width / previous.width;
+      const scaleY = height / previous.height;
+      state.particles.forEach((particle) => {
+        particle.x *= scaleX;
+        particle.y *= scaleY;
+      });
+      state.dimensions = { width, height };
+    },
+    reset() {
+      state = createState();
+    },
+    dispose() {
+      state = createState();
+    },
+  };
+}
+
+export const ambianceVisualizer: Canvas2DVisualizerRenderer = {
+  name: "Fireflies",
+  description: "Glowing fireflies drifting through a forest night",
+  contextType: "2d",
+  create: createAmbianceInstance,
 
   defaultConfig: {
     particleCount: 60,
@@ -200,5 +255,15 @@ export const ambianceVisualizer: VisualizerRenderer = {
     minSize: 8,
     flowSpeed: 1.2,  // Slow dreamy drift
     reactivity: 1.5,
+    palette: "fireflies",
   } as AmbianceConfig,
+
+  configSchema: {
+    particleCount: { type: "number", label: "Fireflies", min: 10, max: 200, step: 5 },
+    minSize: { type: "number", label: "Min size", min: 2, max: 30, step: 1 },
+    maxSize: { type: "number", label: "Max size", min: 10, max: 80, step: 1 },
+    flowSpeed: { type: "number", label: "Drift speed", min: 0.1, max: 5, step: 0.1 },
+    reactivity: { type: "number", label: "Reactivity", min: 0, max: 5, step: 0.1 },
+    palette: paletteField,
+  } satisfies ConfigSchema<AmbianceConfig>,
 };
@@ -1,66 +1,155 @@
-import type { VisualizerRenderer, AnalyserData, VisualizerConfig } from "./types";
-import { getBarColor } from "@/utils/colorPalettes";
+import type {
+  ConfigSchema,
+  Canvas2DVisualizerRenderer,
+  VisualizerInstance,
+  VisualizerInstanceOptions,
+  AnalyserData,
+  VisualizerConfig,
+  VisualizerDimensions,
+} from "./types";
+import { getBandRange, getBandLevel, type FrequencyScale } from "@/utils/audioHelpers";
+import { frequencyScaleOptions } from "./config";
+import { getGradientRgb, getPalette, paletteField, toRgba, type PaletteId } from "./palettes";
+import type { RandomSource } from "./random";
+
+export type BarsStyle = "spectrum" | "energetic";
 
 interface BarsConfig extends VisualizerConfig {
   barCount: number;
   barWidthRatio: number;
   showReflection: boolean;
   smoothing: number;
+  style: BarsStyle;
+  frequencyScale: FrequencyScale;
+  showPeaks: boolean;
+  peakHoldTime: number;   // ms a peak cap stays put before falling
+  peakFallSpeed: number;  // Fraction of max bar height per second
+  palette: PaletteId;
 }
 
-// Store previous values for smooth animation
-let previousHeights: number[] = [];
-// Random offsets for each bar (regenerated periodically)
-let randomOffsets: number[] = [];
-let lastOffsetUpdate = 0;
+interface BarsState {
+  // Previous values for smooth animation
+  previousHeights: number[];
+  // Random offsets for each bar (regenerated periodically)
+  randomOffsets: number[];
+  // Milliseconds since the offsets last moved
+  sinceOffsetUpdate: number;
+  // Peak-hold caps and how long each has been held
+  peakHeights: number[];
+  peakHoldTimers: number[];
+}
 
-export const barsVisualizer: VisualizerRenderer = {
-  name: "Bars",
-  description: "Classic frequency spectrum analyzer with gradient coloring",
+function createState(): BarsState {
+  return {
+    previousHeights: [],
+    randomOffsets: [],
+    sinceOffsetUpdate: 0,
+    peakHeights: [],
+    peakHoldTimers: [],
+  };
+}
+
+// Spectrum style: each bar averages its own band of FFT bins. Mel and bark band edges are in Hz,
+// so they need the sample rate.
+function getSpectrumAmplitude(
+  frequencyData: Uint8Array,
+  index: number,
+  barCount: number,
+  scale: FrequencyScale,
+  sampleRate?: number
+): number {
+  if (frequencyData.length === 0) return 0;
+  const { start, end } = getBandRange(index, barCount, frequencyData.length, scale, sampleRate);
+  return getBandLevel(frequencyData, start, end);
+}
+
+// Energetic style: overall loudness scaled by a wandering random offset per bar
+function getEnergeticAmplitude(state: BarsState, averageFrequency: number, index: number): number {
+  // Boost weak signals and add random variation for energetic movement
+  const boostedFreq = Math.pow(averageFrequency, 0.5) * 1.5;  // Square root boost for weak signals
+  const randomVariation = 0.4 + state.randomOffsets[index] * 1.4;  // 0.4 to 1.8 range
+  return Math.min(1, boostedFreq * randomVariation + 0.05);  // Floor of 0.05
+}
+
+function updateRandomOffsets(
+  state: BarsState,
+  barCount: number,
+  averageFrequency: number,
+  deltaTime: number,
+  random: RandomSource
+) {
+  const { randomOffsets } = state;
+  if (randomOffsets.length !== barCount) {
+    state.randomOffsets = new Array(barCount).fill(0).map(() => random());
+    state.sinceOffsetUpdate = 0;
+    return;
+  }
+
+  // Update random offsets frequently for energetic movement. Timed by frame deltas rather
+  // than the clock, so a render at a fixed frame step comes out the same every time.
+  state.sinceOffsetUpdate += deltaTime;
+  if (state.sinceOffsetUpdate > 30 + (1 - averageFrequency) * 50) {
+    // More aggressive random shifts
+    for (let i = 0; i < barCount; i++) {
+      randomOffsets[i] += (random() - 0.5) * 0.5;
+      randomOffsets[i] = Math.max(0, Math.min(1, randomOffsets[i]));
+    }
+    state.sinceOffsetUpdate = 0;
+  }
+}
 
-  render(
+function createBarsInstance({ random = Math.random }: VisualizerInstanceOptions = {}): VisualizerInstance {
+  let state = createState();
+
+  function render(
     ctx: CanvasRenderingContext2D,
     data: AnalyserData,
     config: VisualizerConfig,
-    { width, height }: { width: number; height: number }
+    { width, height }: VisualizerDimensions,
+    deltaTime: number
   ) {
-    const { averageFrequency } = data;
-    const { barCount, barWidthRatio, showReflection, smoothing } = config as BarsConfig;
+    const { frequencyData, averageFrequency, sampleRate } = data;
+    const {
+      barCount,
+      barWidthRatio,
+      showReflection,
+      smoothing,
+      style,
+      frequencyScale,
+      showPeaks,
+      peakHoldTime,
+      peakFallSpeed,
+    } = config as BarsConfig;
+    const palette = getPalette(config.palette);
 
     // Clear canvas
-    ctx.fillStyle = "#0a0a0f";
+    ctx.fillStyle = palette.background;
     ctx.fillRect(0, 0, width, height);
 
     // Initialize arrays if needed
-    if (previousHeights.length !== barCount) {
-      previousHeights = new Array(barCount).fill(0);
+    if (state.previousHeights.length !== barCount) {
+      state.previousHeights = new Array(barCount).fill(0);
     }
-    if (randomOffsets.length !== barCount) {
-      randomOffsets = new Array(barCount).fill(0).map(() => Math.random());
+    if (state.peakHeights.length !== barCount) {
+      state.peakHeights = new Array(barCount).fill(0);
+      state.peakHoldTimers = new Array(barCount).fill(0);
     }
-
-    // Update random offsets frequently for energetic movement
-    const now = Date.now();
-    if (now - lastOffsetUpdate > 30 + (1 - averageFrequency) * 50) {
-      // More aggressive random shifts
-      for (let i = 0; i < barCount; i++) {
-        randomOffsets[i] += (Math.random() - 0.5) * 0.5;
-        randomOffsets[i] = Math.max(0, Math.min(1, randomOffsets[i]));
-      }
-      lastOffsetUpdate = now;
+    if (style === "energetic") {
+      updateRandomOffsets(state, barCount, averageFrequency, deltaTime, random);
     }
+    const { previousHeights, peakHeights, peakHoldTimers } = state;
 
     const totalBarWidth = width / barCount;
     const barWidth = totalBarWidth * barWidthRatio;
     const gap = totalBarWidth * (1 - barWidthRatio);
     const maxBarHeight = height * 0.85;
     const baseY = height * 0.9;
+    const peakFall = peakFallSpeed * maxBarHeight * (deltaTime / 1000);
 
     for (let i = 0; i < barCount; i++) {
-      // Boost weak signals and add random variation for energetic movement
-      const boostedFreq = Math.pow(averageFrequency, 0.5) * 1.5;  // Square root boost for weak signals
-      const randomVariation = 0.4 + randomOffsets[i] * 1.4;  // 0.4 to 1.8 range
-      const amplitude = Math.min(1, boostedFreq * randomVariation + 0.05);  // Floor of 0.05
+      const amplitude = style === "energetic"
+        ? getEnergeticAmplitude(state, averageFrequency, i)
+        : getSpectrumAmplitude(frequencyData, i, barCount, frequencyScale, sampleRate);
 
       // Calculate target height
       const targetHeight = amplitude * maxBarHeight;
@@ -75,7 +164,8 @@ export const barsVisualizer: VisualizerRenderer = {
 
       // Get color based on amplitude and frequency position
       const colorIntensity = (i / barCount + amplitude) / 2;
-      const color = getBarColor(colorIntensity);
+      const rgb = getGradientRgb(palette, colorIntensity);
+      const color = toRgba(rgb);
 
       // Draw main bar
       ctx.fillStyle = color;
@@ -93,7 +183,7 @@ export const barsVisualizer: VisualizerRenderer = {
       // Draw reflection
       if (showReflection) {
         const gradient = ctx.createLinearGradient(0, baseY, 0, baseY + barHeight * 0.4);
-        gradient.addColorStop(0, color.replace(")", ", 0.3)").replace("rgb", "rgba"));
+        gradient.addColorStop(0, toRgba(rgb, 0.3));
         gradient.addColorStop(1, "transparent");
         ctx.fillStyle = gradient;
         ctx.fillRect(x, baseY, barWidth, barHeight * 0.4);
@@ -102,6 +192,21 @@ export const barsVisualizer: VisualizerRenderer = {
       // Draw bar cap (small highlight at top)
       ctx.fillStyle = `rgba(255, 255, 255, ${amplitude * 0.3})`;
       ctx.fillRect(x, y, barWidth, 2);
+
+      // Peak-hold cap: jumps up with the bar, waits, then falls slowly
+      if (barHeight >= peakHeights[i]) {
+        peakHeights[i] = barHeight;
+        peakHoldTimers[i] = 0;
+      } else if (peakHoldTimers[i] < peakHoldTime) {
+        peakHoldTimers[i] += deltaTime;
+      } else {
+        peakHeights[i] = Math.max(barHeight, peakHeights[i] - peakFall);
+      }
+
+      if (showPeaks) {
+        ctx.fillStyle = "rgba(255, 255, 255, 0.85)";
+        ctx.fillRect(x, baseY - peakHeights[i] - 4, barWidth, 2);
+      }
     }
 
     // Draw baseline
@@ -111,12 +216,57 @@ export const barsVisualizer: VisualizerRenderer = {
     ctx.moveTo(0, baseY);
     ctx.lineTo(width, baseY);
     ctx.stroke();
-  },
+  }
+
+  return {
+    render,
+    // Bars are laid out from the dimensions every frame, nothing to recompute
+    resize() {},
+    reset() {
+      state = createState();
+    },
+    dispose() {
+      state = createState();
+    },
+  };
+}
+
+export const barsVisualizer: Canvas2DVisualizerRenderer = {
+  name: "Bars",
+  description: "Classic frequency spectrum analyzer with gradient coloring",
+  contextType: "2d",
+  create: createBarsInstance,
 
   defaultConfig: {
     barCount: 64,
     barWidthRatio: 0.75,
     showReflection: true,
     smoothing: 0.3,
+    style: "spectrum",
+    frequencyScale: "log",
+    showPeaks: true,
+    peakHoldTime: 400,
+    peakFallSpeed: 0.6,
+    palette: "classic",
   } as BarsConfig,
+
+  configSchema: {
+    style: {
+      type: "enum",
+      label: "Style",
+      options: [
+        { value: "spectrum", label: "Spectrum" },
+        { value: "energetic", label: "Energetic" },
+      ],
+    },
+    frequencyScale: { type: "enum", label: "Frequency scale", options: frequencyScaleOptions },
+    barCount: { type: "number", label: "Bar count", min: 8, max: 128, step: 1 },
+    barWidthRatio: { type: "number", label: "Bar width", min: 0.2, max: 1, step: 0.05 },
+    smoothing: { type: "number", label: "Smoothing", min: 0, max: 0.95, step: 0.05 },
+    showReflection: { type: "boolean", label: "Reflection" },
+    showPeaks: { type: "boolean", label: "Peak caps" },
+    peakHoldTime: { type: "number", label: "Peak hold (ms)", min: 0, max: 2000, step: 50 },
+    peakFallSpeed: { type: "number", label: "Peak fall speed", min: 0.1, max: 3, step: 0.1 },
+    palette: paletteField,
+  } satisfies ConfigSchema<BarsConfig>,
 };
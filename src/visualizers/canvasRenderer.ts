@@ -0,0 +1,233 @@
+import type {
+  AnalyserData,
+  RenderContextType,
+  VisualizerConfig,
+  VisualizerDimensions,
+  VisualizerInstance,
+  VisualizerMode,
+} from "./types";
+import { getVisualizer } from "./index";
+import { drawTransition, type ModeTransition, type TransitionKind } from "./transitions";
+import { createOffscreenBuffer, type OffscreenBuffer } from "./offscreen";
+import { setCustomPalette, type Palette } from "./palettes";
+import { createSeededRandom, DEFAULT_SEED } from "./random";
+
+// Drives the current visualizer on one canvas. Implemented directly on the main thread,
+// and by a proxy that forwards each call to a render worker.
+export interface CanvasRenderer {
+  // Fixed by the mode the renderer was created with
+  contextType: RenderContextType;
+  // Only between modes of the same context type; otherwise create a new canvas and renderer.
+  // With a transition the two modes are blended on 2D canvases; WebGL modes switch at once.
+  setMode: (mode: VisualizerMode, transition?: ModeTransition) => void;
+  // CSS pixel size; the backing store is scaled by pixelRatio
+  resize: (dimensions: VisualizerDimensions, pixelRatio: number) => void;
+  reset: () => void;
+  render: (data: AnalyserData, config: VisualizerConfig, deltaTime: number) => void;
+  // What configs with the "custom" palette draw with
+  setCustomPalette: (palette: Palette) => void;
+  // Restart the random sequence visualizers draw from, see src/visualizers/random.ts
+  setSeed: (seed: number) => void;
+  drawIdle: (message: string) => void;
+  dispose: () => void;
+}
+
+export function drawIdleState(
+  ctx: CanvasRenderingContext2D,
+  { width, height }: VisualizerDimensions,
+  message: string
+) {
+  // Clear canvas
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = "var(--bg-primary)";
+  ctx.fillRect(0, 0, width, height);
+
+  // Draw idle message
+  ctx.fillStyle = "var(--text-secondary)";
+  ctx.font = "16px system-ui, sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(message, width / 2, height / 2);
+}
+
+// A running instance together with the kind of context it draws into
+type ActiveInstance =
+  | { contextType: "2d"; instance: VisualizerInstance }
+  | { contextType: "webgl2"; instance: VisualizerInstance<WebGL2RenderingContext> };
+
+interface ActiveTransition {
+  // The outgoing mode keeps running with the last config it was given
+  from: VisualizerInstance;
+  fromConfig: VisualizerConfig;
+  // Each side draws into its own buffer at the device pixel size
+  fromBuffer: OffscreenBuffer;
+  toBuffer: OffscreenBuffer;
+  kind: TransitionKind;
+  duration: number;
+  elapsed: number;
+}
+
+export function createCanvasRenderer(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  mode: VisualizerMode,
+  seed: number = DEFAULT_SEED
+): CanvasRenderer {
+  const contextType = getVisualizer(mode).contextType;
+  // Asked for once up front; null means WebGL2 is unavailable and the 2D fallbacks are used
+  const gl = contextType === "webgl2" ? (canvas.getContext("webgl2") as WebGL2RenderingContext | null) : null;
+  // Renderers are written against the DOM context; the offscreen one has the same drawing API
+  const get2dContext = () => canvas.getContext("2d") as CanvasRenderingContext2D | null;
+
+  // Every instance draws from one seeded sequence, restarted whenever the renderer is reset,
+  // so the same seed, audio and frame steps give the same frames
+  let currentSeed = seed;
+  let random = createSeededRandom(seed);
+  const options = { random: () => random() };
+
+  const createInstance = (next: VisualizerMode): ActiveInstance => {
+    const renderer = getVisualizer(next);
+    if (renderer.contextType === "webgl2") {
+      return gl
+        ? { contextType: "webgl2", instance: renderer.create(options) }
+        : { contextType: "2d", instance: renderer.createFallback(options) };
+    }
+    return { contextType: "2d", instance: renderer.create(options) };
+  };
+
+  let dimensions: VisualizerDimensions = { width: 0, height: 0 };
+  let pixelRatio = 1;
+  let currentMode = mode;
+  let active = createInstance(mode);
+  let lastConfig: VisualizerConfig | null = null;
+  let transition: ActiveTransition | null = null;
+
+  // Stop blending and keep only the incoming mode, which then draws straight to the canvas
+  const finishTransition = () => {
+    transition?.from.dispose();
+    transition = null;
+  };
+
+  const startTransition = (from: VisualizerInstance, fromConfig: VisualizerConfig, { kind, duration }: ModeTransition) => {
+    const fromBuffer = createOffscreenBuffer(canvas.width, canvas.height);
+    const toBuffer = createOffscreenBuffer(canvas.width, canvas.height);
+    if (!fromBuffer || !toBuffer) return false;
+
+    // The outgoing mode carries on from what is on screen, which matters for trail effects
+    fromBuffer.ctx.drawImage(canvas, 0, 0);
+    fromBuffer.ctx.scale(pixelRatio, pixelRatio);
+    toBuffer.ctx.scale(pixelRatio, pixelRatio);
+
+    transition = { from, fromConfig, fromBuffer, toBuffer, kind, duration, elapsed: 0 };
+    return true;
+  };
+
+  const reset = () => {
+    finishTransition();
+    random = createSeededRandom(currentSeed);
+    active.instance.reset();
+  };
+
+  return {
+    contextType,
+
+    setMode(next, modeTransition) {
+      finishTransition();
+      const outgoing = active;
+      const outgoingConfig = lastConfig ?? getVisualizer(currentMode).defaultConfig;
+
+      active = createInstance(next);
+      active.instance.resize(dimensions);
+      currentMode = next;
+      lastConfig = null;
+
+      // WebGL modes switch at once
+      const canBlend =
+        modeTransition &&
+        modeTransition.kind !== "none" &&
+        modeTransition.duration > 0 &&
+        outgoing.contextType === "2d" &&
+        active.contextType === "2d";
+      if (canBlend && startTransition(outgoing.instance, outgoingConfig, modeTransition)) return;
+
+      outgoing.instance.dispose();
+    },
+
+    resize(next, nextPixelRatio) {
+      // Buffers would be cleared too, so a transition in progress ends here
+      finishTransition();
+
+      // Setting the size clears the canvas and its transform
+      canvas.width = next.width * nextPixelRatio;
+      canvas.height = next.height * nextPixelRatio;
+
+      // Scale context for high-DPI displays. WebGL draws in device pixels instead.
+      if (!gl) {
+        get2dContext()?.scale(nextPixelRatio, nextPixelRatio);
+      }
+
+      dimensions = next;
+      pixelRatio = nextPixelRatio;
+      active.instance.resize(dimensions);
+    },
+
+    reset,
+
+    render(data, config, deltaTime) {
+      lastConfig = config;
+
+      if (active.contextType === "webgl2") {
+        if (gl) active.instance.render(gl, data, config, dimensions, deltaTime);
+        return;
+      }
+
+      const ctx = get2dContext();
+      if (!ctx) return;
+
+      if (!transition) {
+        active.instance.render(ctx, data, config, dimensions, deltaTime);
+        return;
+      }
+
+      const { from, fromConfig, fromBuffer, toBuffer, kind, duration } = transition;
+      transition.elapsed += deltaTime;
+      const progress = Math.min(1, transition.elapsed / duration);
+
+      from.render(fromBuffer.ctx, data, fromConfig, dimensions, deltaTime);
+      active.instance.render(toBuffer.ctx, data, config, dimensions, deltaTime);
+      drawTransition(ctx, fromBuffer.canvas, toBuffer.canvas, kind, progress, dimensions);
+
+      // The last blended frame is the incoming mode alone, so it can carry on from there
+      if (progress >= 1) {
+        finishTransition();
+      }
+    },
+
+    // Palettes are looked up by each visualizer, so this applies to every renderer on the thread
+    setCustomPalette,
+
+    setSeed(next) {
+      currentSeed = next;
+      reset();
+    },
+
+    drawIdle(message) {
+      finishTransition();
+
+      if (gl) {
+        gl.clearColor(10 / 255, 10 / 255, 15 / 255, 1);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        return;
+      }
+
+      const ctx = get2dContext();
+      if (ctx) {
+        drawIdleState(ctx, dimensions, message);
+      }
+    },
+
+    dispose() {
+      finishTransition();
+      active.instance.dispose();
+    },
+  };
+}
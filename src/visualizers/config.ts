@@ -0,0 +1,69 @@
+import type {
+  ConfigField,
+  ConfigSchema,
+  ConfigValue,
+  EnumField,
+  VisualizerConfig,
+  VisualizerRenderer,
+} from "./types";
+
+// Shared choices for renderers that map bars onto the spectrum
+export const frequencyScaleOptions: EnumField["options"] = [
+  { value: "linear", label: "Linear" },
+  { value: "log", label: "Logarithmic" },
+  { value: "mel", label: "Mel" },
+  { value: "bark", label: "Bark" },
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Validate a single value against its schema field, falling back when it doesn't fit
+export function coerceConfigValue(
+  field: ConfigField,
+  value: unknown,
+  fallback: ConfigValue
+): ConfigValue {
+  switch (field.type) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+      return Math.max(field.min, Math.min(field.max, value));
+    case "boolean":
+      return typeof value === "boolean" ? value : fallback;
+    case "color":
+      return typeof value === "string" && HEX_COLOR.test(value) ? value : fallback;
+    case "enum":
+      return field.options.some((option) => option.value === value) ? (value as ConfigValue) : fallback;
+  }
+}
+
+// Merge overrides onto a renderer's defaults. Unknown keys are dropped and
+// values outside the schema are replaced by the default.
+export function resolveConfig(
+  renderer: VisualizerRenderer,
+  overrides: Record<string, unknown> = {}
+): VisualizerConfig {
+  return resolveSchemaConfig(renderer.defaultConfig, renderer.configSchema, overrides);
+}
+
+// Same as resolveConfig for settings that aren't tied to a renderer
+export function resolveSchemaConfig<T extends VisualizerConfig>(
+  defaultConfig: T,
+  configSchema: ConfigSchema<T>,
+  overrides: Record<string, unknown> = {}
+): T {
+  const config: VisualizerConfig = { ...defaultConfig };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    // Own keys only, so names like "constructor" from a saved file aren't taken for settings
+    if (!Object.hasOwn(defaultConfig, key)) continue;
+
+    const field = Object.hasOwn(configSchema, key) ? configSchema[key] : undefined;
+    if (field) {
+      config[key] = coerceConfigValue(field, value, defaultConfig[key]);
+    } else if (typeof value === typeof defaultConfig[key]) {
+      config[key] = value as ConfigValue;
+    }
+  }
+
+  return config as T;
+}
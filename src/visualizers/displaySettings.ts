@@ -0,0 +1,47 @@
+import type { ConfigSchema, VisualizerConfig } from "./types";
+import { resolveSchemaConfig } from "./config";
+import { transitionOptions, type TransitionKind } from "./transitions";
+
+export type AutoCycleMode = "off" | "timer" | "sections";
+
+export interface DisplaySettings extends VisualizerConfig {
+  // Draw in a worker on an OffscreenCanvas so React work can't drop frames.
+  // Falls back to the main thread where OffscreenCanvas is missing.
+  renderInWorker: boolean;
+  // How one mode gives way to the next
+  transition: TransitionKind;
+  // Milliseconds
+  transitionDuration: number;
+  // Move to the next mode on a timer or when the music changes section
+  autoCycle: AutoCycleMode;
+  // Seconds between modes when cycling on a timer
+  autoCycleInterval: number;
+}
+
+export const defaultDisplaySettings: DisplaySettings = {
+  renderInWorker: false,
+  transition: "fade",
+  transitionDuration: 800,
+  autoCycle: "off",
+  autoCycleInterval: 30,
+};
+
+export const displaySettingsSchema = {
+  renderInWorker: { type: "boolean", label: "Render in background thread" },
+  transition: { type: "enum", label: "Mode transition", options: transitionOptions },
+  transitionDuration: { type: "number", label: "Transition length (ms)", min: 100, max: 5000, step: 100 },
+  autoCycle: {
+    type: "enum",
+    label: "Auto-cycle modes",
+    options: [
+      { value: "off", label: "Off" },
+      { value: "timer", label: "On a timer" },
+      { value: "sections", label: "On section changes" },
+    ],
+  },
+  autoCycleInterval: { type: "number", label: "Cycle every (s)", min: 5, max: 300, step: 5 },
+} satisfies ConfigSchema<DisplaySettings>;
+
+export function resolveDisplaySettings(overrides: Record<string, unknown> = {}): DisplaySettings {
+  return resolveSchemaConfig(defaultDisplaySettings, displaySettingsSchema, overrides);
+}
@@ -0,0 +1,260 @@
+import type {
+  ConfigSchema,
+  Canvas2DVisualizerRenderer,
+  VisualizerInstance,
+  AnalyserData,
+  VisualizerConfig,
+  VisualizerDimensions,
+} from "./types";
+import { wmpColors } from "@/utils/colorPalettes";
+import { getGradientRgb, getPalette, paletteField, parseHexColor, toRgba, type Palette, type PaletteId } from "./palettes";
+
+export type GoniometerStyle = "lines" | "dots";
+
+interface GoniometerConfig extends VisualizerConfig {
+  style: GoniometerStyle;
+  color: string;
+  zoom: number;
+  lineWidth: number;
+  persistence: number;
+  showGrid: boolean;
+  showCorrelation: boolean;
+  palette: PaletteId;
+}
+
+interface GoniometerState {
+  // Smoothed so the meter needle doesn't jitter every frame
+  correlation: number;
+}
+
+// Most points drawn per frame; longer buffers are sampled down
+const MAX_POINTS = 1024;
+// Time constant of the correlation needle, in ms
+const CORRELATION_SMOOTHING = 150;
+
+function createState(): GoniometerState {
+  return { correlation: 0 };
+}
+
+// Pearson correlation of the two channels: +1 mono, 0 wide/uncorrelated, -1 out of phase.
+// Silence counts as 0 so the meter rests in the middle.
+export function getPhaseCorrelation(left: Uint8Array, right: Uint8Array): number {
+  const length = Math.min(left.length, right.length);
+  let sumLR = 0;
+  let sumLL = 0;
+  let sumRR = 0;
+
+  for (let i = 0; i < length; i++) {
+    const l = (left[i] - 128) / 128;
+    const r = (right[i] - 128) / 128;
+    sumLR += l * r;
+    sumLL += l * l;
+    sumRR += r * r;
+  }
+
+  const denominator = Math.sqrt(sumLL * sumRR);
+  return denominator > 1e-9 ? Math.max(-1, Math.min(1, sumLR / denominator)) : 0;
+}
+
+// Left/right time-domain buffers, using the mixed signal for both when the source is mono
+export function getStereoChannels(data: AnalyserData): { left: Uint8Array; right: Uint8Array; isMono: boolean } {
+  if (data.left && data.right) {
+    return { left: data.left.timeDomainData, right: data.right.timeDomainData, isMono: false };
+  }
+  return { left: data.timeDomainData, right: data.timeDomainData, isMono: true };
+}
+
+function drawGrid(ctx: CanvasRenderingContext2D, cx: number, cy: number, radius: number) {
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.08)";
+  ctx.lineWidth = 1;
+
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // Mid (vertical), side (horizontal) and the two channel diagonals
+  const diagonal = radius * Math.SQRT1_2;
+  ctx.beginPath();
+  ctx.moveTo(cx, cy - radius);
+  ctx.lineTo(cx, cy + radius);
+  ctx.moveTo(cx - radius, cy);
+  ctx.lineTo(cx + radius, cy);
+  ctx.moveTo(cx - diagonal, cy - diagonal);
+  ctx.lineTo(cx + diagonal, cy + diagonal);
+  ctx.moveTo(cx + diagonal, cy - diagonal);
+  ctx.lineTo(cx - diagonal, cy + diagonal);
+  ctx.stroke();
+
+  ctx.fillStyle = "rgba(255, 255, 255, 0.35)";
+  ctx.font = "12px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText("L", cx - diagonal - 10, cy - diagonal - 10);
+  ctx.fillText("R", cx + diagonal + 10, cy - diagonal - 10);
+  ctx.fillText("M", cx, cy - radius - 12);
+}
+
+function drawCorrelationMeter(
+  ctx: CanvasRenderingContext2D,
+  palette: Palette,
+  correlation: number,
+  isMono: boolean,
+  x: number,
+  y: number,
+  width: number
+) {
+  const height = 6;
+
+  ctx.fillStyle = "rgba(255, 255, 255, 0.1)";
+  ctx.fillRect(x, y, width, height);
+
+  // Center tick at 0
+  ctx.fillStyle = "rgba(255, 255, 255, 0.3)";
+  ctx.fillRect(x + width / 2 - 0.5, y - 3, 1, height + 6);
+
+  // Fully correlated reads as the palette's quiet end, out of phase as its loud end
+  const color = toRgba(getGradientRgb(palette, (1 - correlation) / 2));
+  const markerX = x + ((correlation + 1) / 2) * width;
+  ctx.fillStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 8;
+  ctx.fillRect(markerX - 2, y - 4, 4, height + 8);
+  ctx.shadowBlur = 0;
+
+  ctx.fillStyle = "rgba(255, 255, 255, 0.45)";
+  ctx.font = "11px sans-serif";
+  ctx.textBaseline = "top";
+  ctx.textAlign = "left";
+  ctx.fillText("-1", x, y + height + 6);
+  ctx.textAlign = "right";
+  ctx.fillText("+1", x + width, y + height + 6);
+  ctx.textAlign = "center";
+  ctx.fillText(isMono ? "MONO" : correlation.toFixed(2), x + width / 2, y + height + 6);
+}
+
+function createGoniometerInstance(): VisualizerInstance {
+  let state = createState();
+
+  function render(
+    ctx: CanvasRenderingContext2D,
+    data: AnalyserData,
+    config: VisualizerConfig,
+    { width, height }: VisualizerDimensions,
+    deltaTime: number
+  ) {
+    const { style, color, zoom, lineWidth, persistence, showGrid, showCorrelation } = config as GoniometerConfig;
+    const palette = getPalette(config.palette);
+
+    // Fade the previous frame for phosphor-style trails
+    ctx.fillStyle = toRgba(parseHexColor(palette.background), 1 - persistence);
+    ctx.fillRect(0, 0, width, height);
+
+    // Leave room for the meter under the scope
+    const meterSpace = showCorrelation ? 56 : 0;
+    const radius = Math.max(0, Math.min(width, height - meterSpace) * 0.42);
+    const cx = width / 2;
+    const cy = (height - meterSpace) / 2;
+
+    if (showGrid) {
+      drawGrid(ctx, cx, cy, radius);
+    }
+
+    const { left, right, isMono } = getStereoChannels(data);
+    const length = Math.min(left.length, right.length);
+
+    const target = length > 0 ? getPhaseCorrelation(left, right) : 0;
+    state.correlation += (target - state.correlation) * (1 - Math.exp(-deltaTime / CORRELATION_SMOOTHING));
+
+    if (length > 0) {
+      const step = Math.max(1, Math.ceil(length / MAX_POINTS));
+      const scale = radius * zoom;
+
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.lineJoin = "round";
+      ctx.shadowColor = palette.glow;
+      ctx.shadowBlur = 6;
+
+      if (style === "lines") {
+        ctx.beginPath();
+      }
+
+      for (let i = 0; i < length; i += step) {
+        const l = (left[i] - 128) / 128;
+        const r = (right[i] - 128) / 128;
+        // Rotate 45 degrees so mid is vertical and side is horizontal
+        const side = Math.max(-1, Math.min(1, ((r - l) * Math.SQRT1_2 * scale) / radius));
+        const mid = Math.max(-1, Math.min(1, ((l + r) * Math.SQRT1_2 * scale) / radius));
+        const x = cx + side * radius;
+        const y = cy - mid * radius;
+
+        if (style === "dots") {
+          ctx.fillRect(x - lineWidth / 2, y - lineWidth / 2, lineWidth, lineWidth);
+        } else if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      }
+
+      if (style === "lines") {
+        ctx.stroke();
+      }
+      ctx.shadowBlur = 0;
+    }
+
+    if (showCorrelation) {
+      const meterWidth = Math.min(radius * 2, width - 40);
+      drawCorrelationMeter(ctx, palette, state.correlation, isMono, cx - meterWidth / 2, cy + radius + 24, meterWidth);
+    }
+  }
+
+  return {
+    render,
+    // Everything is laid out from the current dimensions each frame
+    resize() {},
+    reset() {
+      state = createState();
+    },
+    dispose() {
+      state = createState();
+    },
+  };
+}
+
+export const goniometerVisualizer: Canvas2DVisualizerRenderer = {
+  name: "Goniometer",
+  description: "Stereo X/Y Lissajous display with a phase correlation meter",
+  contextType: "2d",
+  create: createGoniometerInstance,
+
+  defaultConfig: {
+    style: "lines",
+    color: wmpColors.green,
+    zoom: 1.5,
+    lineWidth: 1.5,
+    persistence: 0.7,
+    showGrid: true,
+    showCorrelation: true,
+    palette: "classic",
+  } as GoniometerConfig,
+
+  configSchema: {
+    style: {
+      type: "enum",
+      label: "Style",
+      options: [
+        { value: "lines", label: "Lines" },
+        { value: "dots", label: "Dots" },
+      ],
+    },
+    color: { type: "color", label: "Color" },
+    zoom: { type: "number", label: "Zoom", min: 0.5, max: 8, step: 0.1 },
+    lineWidth: { type: "number", label: "Line width", min: 0.5, max: 4, step: 0.5 },
+    persistence: { type: "number", label: "Persistence", min: 0, max: 0.95, step: 0.05 },
+    showGrid: { type: "boolean", label: "Grid" },
+    showCorrelation: { type: "boolean", label: "Correlation meter" },
+    palette: paletteField,
+  } satisfies ConfigSchema<GoniometerConfig>,
+};
@@ -0,0 +1,54 @@
+// Mode button icons for the built-in visualizers, as SVG markup for a 24x24 viewBox.
+// The markup is filled with currentColor unless it says otherwise.
+
+const stroked = (content: string) =>
+  `<g fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${content}</g>`;
+
+export const barsIcon = `
+  <rect x="4" y="10" width="3" height="10" rx="1" />
+  <rect x="9" y="6" width="3" height="14" rx="1" />
+  <rect x="14" y="8" width="3" height="12" rx="1" />
+  <rect x="19" y="12" width="3" height="8" rx="1" />`;
+
+export const waveformIcon = stroked(
+  `<path d="M2 12c.6-.5 1.2-1.5 2-1.5s1.4 1 2 1.5c.6.5 1.2 1.5 2 1.5s1.4-1 2-1.5c.6-.5 1.2-1.5 2-1.5s1.4 1 2 1.5c.6.5 1.2 1.5 2 1.5s1.4-1 2-1.5c.6-.5 1.2-1.5 2-1.5s1.4 1 2 1.5" />`
+);
+
+export const scopeIcon = stroked(`
+  <circle cx="12" cy="12" r="8" />
+  <circle cx="12" cy="12" r="3" fill="currentColor" />`);
+
+export const ambianceIcon = `
+  <circle cx="7" cy="12" r="3" opacity="0.8" />
+  <circle cx="17" cy="8" r="2" opacity="0.6" />
+  <circle cx="12" cy="16" r="2.5" opacity="0.7" />
+  <circle cx="18" cy="15" r="1.5" opacity="0.5" />
+  <circle cx="5" cy="7" r="1.5" opacity="0.5" />`;
+
+export const goniometerIcon = stroked(`
+  <path d="M12 3c5 4 5 14 0 18c-5-4-5-14 0-18z" />
+  <path d="M5 5l14 14M19 5L5 19" opacity="0.4" />`);
+
+export const warpIcon = stroked(`
+  <path d="M12 12c0-2 2-3 3.5-2s1.5 4-1 5.5s-6.5 0.5-7.5-3s2-8 6.5-8s8 4 7 9" />
+  <path d="M3 19c3-2 6-2 9 0s6 2 9 0" opacity="0.5" />`);
+
+export const spectrogramIcon = `
+  <rect x="3" y="4" width="18" height="16" rx="2" opacity="0.25" />
+  <rect x="5" y="13" width="3" height="5" opacity="0.5" />
+  <rect x="9" y="9" width="3" height="9" opacity="0.7" />
+  <rect x="13" y="6" width="3" height="12" />
+  <rect x="17" y="11" width="2" height="7" opacity="0.6" />`;
+
+export const presetIcon = stroked(`
+  <path d="M8 4c-2 0-2 2-2 4s-2 4-2 4s2 0 2 4s0 4 2 4" />
+  <path d="M16 4c2 0 2 2 2 4s2 4 2 4s-2 0-2 4s0 4-2 4" />
+  <path d="M10 12h4" />`);
+
+export const sceneIcon = stroked(`
+  <path d="M12 3l9 5l-9 5l-9-5z" />
+  <path d="M3 12l9 5l9-5" opacity="0.7" />
+  <path d="M3 16l9 5l9-5" opacity="0.4" />`);
+
+// Shown for visualizers registered without an icon
+export const defaultIcon = stroked(`<rect x="4" y="4" width="16" height="16" rx="3" /><path d="M8 14l3-4l2 3l3-5" />`);
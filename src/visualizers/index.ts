@@ -1,15 +1,79 @@
-import type { VisualizerRenderer, VisualizerMode } from "./types";
 import { barsVisualizer } from "./bars";
 import { waveformVisualizer } from "./waveform";
 import { scopeVisualizer } from "./scope";
 import { ambianceVisualizer } from "./ambiance";
+import { goniometerVisualizer } from "./goniometer";
+import { warpVisualizer } from "./warp";
+import { spectrogramVisualizer } from "./spectrogram";
+import { presetVisualizer } from "./preset";
+import { sceneVisualizer } from "./scene";
+import { registerBuiltinVisualizer } from "./registry";
+import {
+  barsIcon,
+  waveformIcon,
+  scopeIcon,
+  ambianceIcon,
+  goniometerIcon,
+  warpIcon,
+  spectrogramIcon,
+  presetIcon,
+  sceneIcon,
+} from "./icons";
 
-export const visualizers: Record<VisualizerMode, VisualizerRenderer> = {
-  bars: barsVisualizer,
-  waveform: waveformVisualizer,
-  scope: scopeVisualizer,
-  ambiance: ambianceVisualizer,
-};
+// Registered in the order they are offered; number keys follow this order
+registerBuiltinVisualizer({ id: "bars", label: "Bars", renderer: barsVisualizer, icon: barsIcon });
+registerBuiltinVisualizer({ id: "waveform", label: "Wave", renderer: waveformVisualizer, icon: waveformIcon });
+registerBuiltinVisualizer({ id: "scope", label: "Scope", renderer: scopeVisualizer, icon: scopeIcon });
+registerBuiltinVisualizer({ id: "ambiance", label: "Ambiance", renderer: ambianceVisualizer, icon: ambianceIcon });
+registerBuiltinVisualizer({
+  id: "goniometer",
+  label: "Goniometer",
+  renderer: goniometerVisualizer,
+  icon: goniometerIcon,
+});
+registerBuiltinVisualizer({ id: "warp", label: "Warp", renderer: warpVisualizer, icon: warpIcon });
+registerBuiltinVisualizer({
+  id: "spectrogram",
+  label: "Spectrogram",
+  renderer: spectrogramVisualizer,
+  icon: spectrogramIcon,
+});
+registerBuiltinVisualizer({ id: "preset", label: "Presets", renderer: presetVisualizer, icon: presetIcon });
+registerBuiltinVisualizer({ id: "scene", label: "Layers", renderer: sceneVisualizer, icon: sceneIcon });
 
-export { barsVisualizer, waveformVisualizer, scopeVisualizer, ambianceVisualizer };
-export type { VisualizerRenderer, VisualizerMode };
+export {
+  barsVisualizer,
+  waveformVisualizer,
+  scopeVisualizer,
+  ambianceVisualizer,
+  goniometerVisualizer,
+  warpVisualizer,
+  spectrogramVisualizer,
+  presetVisualizer,
+  sceneVisualizer,
+};
+export {
+  DEFAULT_MODE,
+  VisualizerRegistryError,
+  registerVisualizer,
+  unregisterVisualizer,
+  hasVisualizer,
+  isBuiltinVisualizer,
+  getVisualizer,
+  getVisualizerDefinition,
+  getNextVisualizer,
+  listVisualizers,
+  subscribeVisualizers,
+  loadVisualizerModule,
+  validateVisualizerDefinition,
+} from "./registry";
+export type { VisualizerDefinition } from "./registry";
+export { defaultIcon, presetIcon, sceneIcon } from "./icons";
+export { resolveConfig, resolveSchemaConfig, coerceConfigValue } from "./config";
+export type {
+  VisualizerRenderer,
+  Canvas2DVisualizerRenderer,
+  WebGLVisualizerRenderer,
+  VisualizerMode,
+  BuiltinVisualizerMode,
+} from "./types";
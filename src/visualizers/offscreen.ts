@@ -0,0 +1,16 @@
+// 2D canvas that isn't on screen, for drawing one part of a frame before compositing it
+export interface OffscreenBuffer {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  ctx: CanvasRenderingContext2D;
+}
+
+// Sized in device pixels. Null when no 2D context is available.
+export function createOffscreenBuffer(width: number, height: number): OffscreenBuffer | null {
+  // Workers have OffscreenCanvas but no document
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(width, height)
+      : Object.assign(document.createElement("canvas"), { width, height });
+  const ctx = canvas.getContext("2d") as CanvasRenderingContext2D | null;
+  return ctx ? { canvas, ctx } : null;
+}
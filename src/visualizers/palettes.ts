@@ -0,0 +1,192 @@
+import type { EnumField } from "./types";
+
+// The colors a visualizer draws with. Renderers pick one by id from their config
+// and map these roles onto their own shapes.
+export interface Palette {
+  name: string;
+  // Hex colors from quiet to loud (or low to high), spread evenly. At least two.
+  stops: string[];
+  background: string;
+  // Lines and shapes that aren't driven by level
+  accent: string;
+  // Shadows and halos
+  glow: string;
+}
+
+// Red, green and blue, 0-255
+export type Rgb = [number, number, number];
+
+export const builtinPalettes = {
+  classic: {
+    name: "WMP classic",
+    stops: ["#00bfff", "#00ffff", "#00ff7f", "#ffff00", "#ff4500"],
+    background: "#0a0a0f",
+    accent: "#00bfff",
+    glow: "#00ff7f",
+  },
+  synthwave: {
+    name: "Synthwave",
+    stops: ["#2de2e6", "#035ee8", "#f6019d", "#ff6c11", "#f9c80e"],
+    background: "#120422",
+    accent: "#f6019d",
+    glow: "#2de2e6",
+  },
+  monochrome: {
+    name: "Monochrome",
+    stops: ["#3a3a3a", "#8a8a8a", "#d0d0d0", "#ffffff"],
+    background: "#0a0a0a",
+    accent: "#ffffff",
+    glow: "#bbbbbb",
+  },
+  highContrast: {
+    name: "High contrast",
+    stops: ["#00ffff", "#ffff00", "#ffffff"],
+    background: "#000000",
+    accent: "#ffff00",
+    glow: "#ffffff",
+  },
+  // Okabe-Ito colors, distinguishable with the common kinds of color blindness
+  colorblind: {
+    name: "Colorblind-safe",
+    stops: ["#0072b2", "#56b4e9", "#009e73", "#f0e442", "#e69f00", "#d55e00"],
+    background: "#0a0a0f",
+    accent: "#56b4e9",
+    glow: "#e69f00",
+  },
+  fireflies: {
+    name: "Fireflies",
+    stops: ["#ffcc33", "#ddff33", "#88ff33"],
+    background: "#050a08",
+    accent: "#ffffdc",
+    glow: "#ddff33",
+  },
+  amethyst: {
+    name: "Amethyst",
+    stops: ["#9952e0", "#cf79ec", "#f0a8f0"],
+    background: "#0a0a0f",
+    accent: "#b482ff",
+    glow: "#b482ff",
+  },
+} satisfies Record<string, Palette>;
+
+export type BuiltinPaletteId = keyof typeof builtinPalettes;
+
+// Id of the palette the user edits
+export const CUSTOM_PALETTE = "custom";
+
+export type PaletteId = BuiltinPaletteId | typeof CUSTOM_PALETTE;
+
+export const DEFAULT_PALETTE: BuiltinPaletteId = "classic";
+
+// Most stops a palette can have
+export const MAX_PALETTE_STOPS = 8;
+
+export const defaultCustomPalette: Palette = { ...builtinPalettes.synthwave, name: "Custom" };
+
+// Config field for renderers that draw with a palette
+export const paletteField: EnumField = {
+  type: "enum",
+  label: "Palette",
+  options: [
+    ...Object.entries(builtinPalettes).map(([value, palette]) => ({ value, label: palette.name })),
+    { value: CUSTOM_PALETTE, label: "Custom" },
+  ],
+};
+
+// Thrown for a palette that can't be loaded, naming the field at fault
+export class PaletteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaletteError";
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+// Check an untrusted value is a well-formed palette
+export function validatePalette(value: unknown): Palette {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new PaletteError("Palette must be an object");
+  }
+  const palette = value as Record<string, unknown>;
+  if (typeof palette.name !== "string" || palette.name.trim() === "") {
+    throw new PaletteError("Palette needs a name");
+  }
+  if (
+    !Array.isArray(palette.stops) ||
+    palette.stops.length < 2 ||
+    palette.stops.length > MAX_PALETTE_STOPS ||
+    !palette.stops.every(isHexColor)
+  ) {
+    throw new PaletteError(`"stops" must be 2 to ${MAX_PALETTE_STOPS} hex colors`);
+  }
+  for (const field of ["background", "accent", "glow"] as const) {
+    if (!isHexColor(palette[field])) {
+      throw new PaletteError(`"${field}" must be a hex color`);
+    }
+  }
+
+  return {
+    name: palette.name,
+    stops: [...palette.stops],
+    background: palette.background as string,
+    accent: palette.accent as string,
+    glow: palette.glow as string,
+  };
+}
+
+// Each thread keeps its own copy, set through its canvas renderer
+let customPalette: Palette = defaultCustomPalette;
+
+export function setCustomPalette(palette: Palette) {
+  customPalette = palette;
+}
+
+// Palette for a config value, falling back to the default for unknown ids
+export function getPalette(id: unknown, custom: Palette = customPalette): Palette {
+  if (id === CUSTOM_PALETTE) return custom;
+  return typeof id === "string" && Object.hasOwn(builtinPalettes, id)
+    ? builtinPalettes[id as BuiltinPaletteId]
+    : builtinPalettes[DEFAULT_PALETTE];
+}
+
+export function parseHexColor(hex: string): Rgb {
+  if (!HEX_COLOR.test(hex)) return [255, 255, 255];
+  return [parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16)];
+}
+
+export function mixRgb(from: Rgb, to: Rgb, t: number): Rgb {
+  return [
+    Math.round(from[0] + (to[0] - from[0]) * t),
+    Math.round(from[1] + (to[1] - from[1]) * t),
+    Math.round(from[2] + (to[2] - from[2]) * t),
+  ];
+}
+
+// Color at a point (0-1) along the palette's stops
+export function getGradientRgb({ stops }: Palette, t: number): Rgb {
+  const position = Math.max(0, Math.min(1, t)) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  return mixRgb(parseHexColor(stops[index]), parseHexColor(stops[index + 1]), position - index);
+}
+
+export function toRgba([r, g, b]: Rgb, alpha = 1): string {
+  return alpha >= 1 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${Math.max(0, alpha)})`;
+}
+
+// CSS variables from globals.css the palette takes over, so the controls match the canvas
+export function getPaletteCssVariables(palette: Palette): Record<string, string> {
+  const glow = parseHexColor(palette.glow);
+  return {
+    "--bg-primary": palette.background,
+    "--accent-blue": palette.accent,
+    "--accent-cyan": toRgba(getGradientRgb(palette, 0.25)),
+    "--accent-green": toRgba(getGradientRgb(palette, 0.5)),
+    "--glow-blue": toRgba(parseHexColor(palette.accent), 0.4),
+    "--glow-green": toRgba(glow, 0.4),
+  };
+}
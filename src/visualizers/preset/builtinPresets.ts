@@ -0,0 +1,51 @@
+import type { Preset } from "./format";
+
+// Presets that ship with the app, keyed by the id stored in the preset mode's config
+export const builtinPresets = {
+  tunnel: {
+    version: 1,
+    name: "Tunnel",
+    values: { decay: 0.93, wave_mode: 1 },
+    perFrame: `
+      zoom = 1.03 + bass_att * 0.06;
+      rot = 0.01 * sin(time * 0.4);
+      wave_r = 0.5 + 0.5 * sin(time * 1.3);
+      wave_g = 0.5 + 0.5 * sin(time * 1.7 + 2);
+      wave_b = 0.5 + 0.5 * sin(time * 2.1 + 4);
+      wave_scale = 1 + treb;
+    `,
+  },
+  drift: {
+    version: 1,
+    name: "Drift",
+    values: { decay: 0.97, wave_r: 0.2, wave_g: 0.8, wave_b: 1 },
+    init: "phase = 0;",
+    perFrame: `
+      phase += 0.02 + mid * 0.05;
+      dx = 0.004 * sin(phase);
+      dy = 0.003 * cos(phase * 0.7);
+      zoom = 0.99 + beat * 0.04;
+    `,
+    perPoint: `
+      y = 0.5 + value * 0.4 * sin(sample * 3.1416);
+      a = 0.4 + 0.6 * sample;
+    `,
+  },
+  bloom: {
+    version: 1,
+    name: "Bloom",
+    values: { decay: 0.9, wave_mode: 1, wave_thick: 3 },
+    perFrame: `
+      rot = 0.02 + bass * 0.03;
+      zoom = 0.98 + if(beat, 0.08, 0);
+      wave_scale = 0.6 + vol;
+    `,
+    perPoint: `
+      r = 0.5 + 0.5 * sin(sample * 6.2832 + time);
+      g = 0.5 + 0.5 * cos(sample * 6.2832 - time);
+      b = 1;
+    `,
+  },
+} satisfies Record<string, Preset>;
+
+export type BuiltinPresetId = keyof typeof builtinPresets;
@@ -0,0 +1,177 @@
+import type { AnalyserData } from "../types";
+import { getBandLevel, getBassEnergy, getTrebleEnergy } from "@/utils/audioHelpers";
+import { createScope, type Scope } from "./interpreter";
+import type { RandomSource } from "../random";
+import type { CompiledPreset } from "./format";
+
+// Values the per-frame equations drive. Reset to these (plus the preset's "values")
+// at the start of every frame; any other variable a preset sets carries over.
+export const FRAME_DEFAULTS = {
+  // Feedback: scale and turn (radians) per 60 fps frame about cx/cy, then shift by dx/dy
+  zoom: 1,
+  rot: 0,
+  cx: 0.5,
+  cy: 0.5,
+  dx: 0,
+  dy: 0,
+  // Share of the previous frame kept each frame
+  decay: 0.95,
+  // Waveform color and opacity, 0-1
+  wave_r: 1,
+  wave_g: 1,
+  wave_b: 1,
+  wave_a: 1,
+  // Waveform center, size and shape: 0 a line across, 1 a ring
+  wave_x: 0.5,
+  wave_y: 0.5,
+  wave_scale: 1,
+  wave_mode: 0,
+  wave_thick: 2,
+};
+
+export type FrameValues = typeof FRAME_DEFAULTS;
+
+export interface WavePoint {
+  // 0-1 across and up the canvas
+  x: number;
+  y: number;
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Most waveform points per frame; per-point equations run once for each
+export const MAX_WAVE_POINTS = 256;
+const FRAME_MS = 1000 / 60;
+// Time constant of the *_att band variables, in ms
+const ATTENUATION_SMOOTHING = 250;
+
+export interface PresetEngine {
+  // Run the per-frame equations for this frame's audio
+  runFrame: (data: AnalyserData, deltaTime: number) => FrameValues;
+  // Run the per-point equations over the waveform, filling and returning the points
+  runPoints: (data: AnalyserData, frame: FrameValues, aspect: number) => WavePoint[];
+  reset: () => void;
+}
+
+// rand() in the preset's equations draws from random
+export function createPresetEngine(compiled: CompiledPreset, random: RandomSource = Math.random): PresetEngine {
+  const baseValues = { ...FRAME_DEFAULTS, ...compiled.preset.values };
+  const points: WavePoint[] = Array.from({ length: MAX_WAVE_POINTS }, () => ({ x: 0, y: 0, r: 0, g: 0, b: 0, a: 0 }));
+
+  let scope: Scope = createScope();
+  let frame = 0;
+  let time = 0;
+
+  function runFrame(data: AnalyserData, deltaTime: number): FrameValues {
+    const length = data.frequencyData.length;
+    const bass = length > 0 ? getBassEnergy(data.frequencyData) : 0;
+    const mid = getBandLevel(data.frequencyData, Math.floor(length * 0.1), Math.floor(length * 0.7));
+    const treb = getTrebleEnergy(data.frequencyData);
+
+    // Smoothed bands start at the first frame's levels rather than rising from 0
+    const smoothing = frame === 0 ? 1 : 1 - Math.exp(-deltaTime / ATTENUATION_SMOOTHING);
+    const attenuate = (name: string, level: number) => (scope[name] ?? 0) + (level - (scope[name] ?? 0)) * smoothing;
+
+    Object.assign(scope, baseValues, {
+      time,
+      frame,
+      fps: deltaTime > 0 ? 1000 / deltaTime : 60,
+      bass,
+      mid,
+      treb,
+      vol: data.averageFrequency,
+      bass_att: attenuate("bass_att", bass),
+      mid_att: attenuate("mid_att", mid),
+      treb_att: attenuate("treb_att", treb),
+      beat: data.isBeat ? 1 : 0,
+      bpm: data.bpm,
+      beat_phase: data.beatPhase,
+    });
+
+    if (frame === 0) {
+      compiled.init?.(scope, random);
+    }
+    compiled.perFrame(scope, random);
+
+    frame++;
+    time += deltaTime / 1000;
+
+    const values = {} as FrameValues;
+    for (const key of Object.keys(FRAME_DEFAULTS) as (keyof FrameValues)[]) {
+      values[key] = scope[key];
+    }
+    return values;
+  }
+
+  function runPoints(data: AnalyserData, values: FrameValues, aspect: number): WavePoint[] {
+    const samples = data.timeDomainData;
+    const count = Math.min(MAX_WAVE_POINTS, samples.length);
+    if (count < 2) return [];
+
+    const step = samples.length / count;
+    const ring = values.wave_mode >= 1;
+
+    for (let i = 0; i < count; i++) {
+      const sample = i / (count - 1);
+      const value = (samples[Math.floor(i * step)] - 128) / 128;
+
+      // Starting position from the wave mode, before the per-point equations move it
+      let x: number;
+      let y: number;
+      if (ring) {
+        const angle = sample * Math.PI * 2;
+        const radius = (0.25 + value * 0.1) * values.wave_scale;
+        x = values.wave_x + (Math.cos(angle) * radius) / aspect;
+        y = values.wave_y + Math.sin(angle) * radius;
+      } else {
+        x = sample;
+        y = values.wave_y + value * 0.5 * values.wave_scale;
+      }
+
+      scope.sample = sample;
+      scope.value = value;
+      scope.x = x;
+      scope.y = y;
+      scope.r = values.wave_r;
+      scope.g = values.wave_g;
+      scope.b = values.wave_b;
+      scope.a = values.wave_a;
+
+      compiled.perPoint?.(scope, random);
+
+      const point = points[i];
+      point.x = scope.x;
+      point.y = scope.y;
+      point.r = scope.r;
+      point.g = scope.g;
+      point.b = scope.b;
+      point.a = scope.a;
+    }
+
+    return points.slice(0, count);
+  }
+
+  return {
+    runFrame,
+    runPoints,
+    reset() {
+      scope = createScope();
+      frame = 0;
+      time = 0;
+    },
+  };
+}
+
+// Feedback values scaled from the 60 fps the equations are written for to this frame's length
+export function getFrameStep(values: FrameValues, deltaTime: number) {
+  const frames = deltaTime / FRAME_MS;
+  return {
+    zoom: Math.pow(Math.max(values.zoom, 0.01), frames),
+    rot: values.rot * frames,
+    dx: values.dx * frames,
+    dy: values.dy * frames,
+    decay: Math.pow(Math.max(0, Math.min(1, values.decay)), frames),
+  };
+}
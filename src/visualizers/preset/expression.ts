@@ -0,0 +1,236 @@
+// Parser for preset equations. A program is a list of assignments separated by semicolons:
+//
+//   zoom = 1 + 0.05 * sin(time);
+//   wave_r += bass * 0.2;  // comments run to the end of the line
+//
+// Expressions have numbers, variables, function calls, arithmetic (+ - * / % ^),
+// comparisons and logic (== != < > <= >= && || !), with 1 for true and 0 for false.
+// There are no loops, so every program finishes in time proportional to its length.
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "^" | "==" | "!=" | "<" | ">" | "<=" | ">=" | "&&" | "||";
+export type UnaryOperator = "-" | "+" | "!";
+export type AssignmentOperator = "=" | "+=" | "-=" | "*=" | "/=";
+
+export type Expression =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: string }
+  | { type: "unary"; operator: UnaryOperator; operand: Expression }
+  | { type: "binary"; operator: BinaryOperator; left: Expression; right: Expression }
+  | { type: "call"; name: string; args: Expression[] };
+
+export interface Assignment {
+  name: string;
+  operator: AssignmentOperator;
+  value: Expression;
+}
+
+export type Program = Assignment[];
+
+// Thrown for malformed source, with the 1-based position of the problem
+export class ExpressionSyntaxError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, source: string, offset: number) {
+    const before = source.slice(0, offset).split("\n");
+    const line = before.length;
+    const column = before[before.length - 1].length + 1;
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = "ExpressionSyntaxError";
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type TokenType = "number" | "identifier" | "operator" | "(" | ")" | "," | ";" | "end";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  offset: number;
+}
+
+// Longest first so "<=" isn't read as "<" then "="
+const OPERATORS = ["+=", "-=", "*=", "/=", "==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "^", "<", ">", "!", "="];
+
+const NUMBER = /^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i;
+const IDENTIFIER = /^[a-z_][a-z0-9_]*/i;
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+
+  while (offset < source.length) {
+    const char = source[offset];
+
+    if (/\s/.test(char)) {
+      offset++;
+      continue;
+    }
+
+    // Line comment
+    if (source.startsWith("//", offset)) {
+      const end = source.indexOf("\n", offset);
+      offset = end === -1 ? source.length : end;
+      continue;
+    }
+
+    const rest = source.slice(offset);
+    const number = NUMBER.exec(rest);
+    if (number) {
+      tokens.push({ type: "number", value: number[0], offset });
+      offset += number[0].length;
+      continue;
+    }
+
+    const identifier = IDENTIFIER.exec(rest);
+    if (identifier) {
+      // Names are case-insensitive, as in Milkdrop
+      tokens.push({ type: "identifier", value: identifier[0].toLowerCase(), offset });
+      offset += identifier[0].length;
+      continue;
+    }
+
+    if (char === "(" || char === ")" || char === "," || char === ";") {
+      tokens.push({ type: char, value: char, offset });
+      offset++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, offset));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, offset });
+      offset += operator.length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, source, offset);
+  }
+
+  tokens.push({ type: "end", value: "", offset: source.length });
+  return tokens;
+}
+
+// Binary operators from loosest to tightest; "^" and unary operators are handled below these
+const PRECEDENCE: BinaryOperator[][] = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", ">", "<=", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const ASSIGNMENT_OPERATORS: AssignmentOperator[] = ["=", "+=", "-=", "*=", "/="];
+
+export function parseProgram(source: string): Program {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const fail = (message: string, token = peek()): never => {
+    throw new ExpressionSyntaxError(message, source, token.offset);
+  };
+  const describe = (token: Token) => (token.type === "end" ? "end of input" : `"${token.value}"`);
+
+  const expect = (type: TokenType, value?: string) => {
+    const token = peek();
+    if (token.type !== type || (value !== undefined && token.value !== value)) {
+      fail(`Expected "${value ?? type}" but found ${describe(token)}`);
+    }
+    return next();
+  };
+
+  const isOperator = (token: Token, operators: readonly string[]) =>
+    token.type === "operator" && operators.includes(token.value);
+
+  function parseBinary(level: number): Expression {
+    if (level === PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    while (isOperator(peek(), PRECEDENCE[level])) {
+      const operator = next().value as BinaryOperator;
+      left = { type: "binary", operator, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  }
+
+  // Unary operators bind looser than "^", so -2^2 is -4
+  function parseUnary(): Expression {
+    if (isOperator(peek(), ["-", "+", "!"])) {
+      const operator = next().value as UnaryOperator;
+      return { type: "unary", operator, operand: parseUnary() };
+    }
+    return parsePower();
+  }
+
+  // Right-associative: 2^3^2 is 2^9
+  function parsePower(): Expression {
+    const base = parsePrimary();
+    if (isOperator(peek(), ["^"])) {
+      next();
+      return { type: "binary", operator: "^", left: base, right: parseUnary() };
+    }
+    return base;
+  }
+
+  function parsePrimary(): Expression {
+    const token = peek();
+
+    if (token.type === "number") {
+      next();
+      return { type: "number", value: parseFloat(token.value) };
+    }
+
+    if (token.type === "identifier") {
+      next();
+      if (peek().type !== "(") {
+        return { type: "variable", name: token.value };
+      }
+
+      next();
+      const args: Expression[] = [];
+      if (peek().type !== ")") {
+        args.push(parseBinary(0));
+        while (peek().type === ",") {
+          next();
+          args.push(parseBinary(0));
+        }
+      }
+      expect(")");
+      return { type: "call", name: token.value, args };
+    }
+
+    if (token.type === "(") {
+      next();
+      const inner = parseBinary(0);
+      expect(")");
+      return inner;
+    }
+
+    return fail(`Unexpected ${describe(token)}`);
+  }
+
+  const program: Program = [];
+  while (peek().type !== "end") {
+    // Empty statements are allowed, so trailing and doubled semicolons are fine
+    if (peek().type === ";") {
+      next();
+      continue;
+    }
+
+    const name = expect("identifier").value;
+    if (!isOperator(peek(), ASSIGNMENT_OPERATORS)) {
+      fail(`Expected an assignment to "${name}" but found ${describe(peek())}`);
+    }
+    const operator = next().value as AssignmentOperator;
+    program.push({ name, operator, value: parseBinary(0) });
+
+    if (peek().type !== "end") {
+      expect(";");
+    }
+  }
+
+  return program;
+}
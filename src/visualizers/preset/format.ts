@@ -0,0 +1,129 @@
+import { compileSource, type CompiledProgram } from "./interpreter";
+
+// A preset as stored on disk: JSON with equations as source strings.
+//
+//   {
+//     "version": 1,
+//     "name": "Tunnel",
+//     "values": { "decay": 0.96 },
+//     "perFrame": "zoom = 1.02 + bass * 0.05; rot = 0.01 * sin(time);",
+//     "perPoint": "y = 0.5 + value * 0.3;"
+//   }
+export interface Preset {
+  version: 1;
+  name: string;
+  author?: string;
+  // Starting values for frame variables, applied before the equations every frame
+  values?: Record<string, number>;
+  // Runs once, before the first frame. Variables it sets persist.
+  init?: string;
+  // Runs every frame
+  perFrame: string;
+  // Runs for every waveform point
+  perPoint?: string;
+}
+
+export const PRESET_VERSION = 1;
+
+// Thrown for a preset file that can't be loaded, naming the field at fault
+export class PresetFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetFormatError";
+  }
+}
+
+export interface CompiledPreset {
+  preset: Preset;
+  init: CompiledProgram | null;
+  perFrame: CompiledProgram;
+  perPoint: CompiledProgram | null;
+}
+
+const EQUATION_FIELDS = ["init", "perFrame", "perPoint"] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Check an untrusted value is a well-formed preset
+export function validatePreset(value: unknown): Preset {
+  if (!isRecord(value)) {
+    throw new PresetFormatError("Preset must be an object");
+  }
+  if (value.version !== PRESET_VERSION) {
+    throw new PresetFormatError(`Unsupported preset version ${JSON.stringify(value.version)}`);
+  }
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    throw new PresetFormatError("Preset needs a name");
+  }
+  if (value.author !== undefined && typeof value.author !== "string") {
+    throw new PresetFormatError('"author" must be a string');
+  }
+  if (typeof value.perFrame !== "string") {
+    throw new PresetFormatError('"perFrame" equations are required');
+  }
+  for (const field of EQUATION_FIELDS) {
+    if (value[field] !== undefined && typeof value[field] !== "string") {
+      throw new PresetFormatError(`"${field}" must be a string of equations`);
+    }
+  }
+
+  const values: Record<string, number> = {};
+  if (value.values !== undefined) {
+    if (!isRecord(value.values)) {
+      throw new PresetFormatError('"values" must map names to numbers');
+    }
+    for (const [name, initial] of Object.entries(value.values)) {
+      if (typeof initial !== "number" || !Number.isFinite(initial)) {
+        throw new PresetFormatError(`"values.${name}" must be a number`);
+      }
+      values[name.toLowerCase()] = initial;
+    }
+  }
+
+  return {
+    version: PRESET_VERSION,
+    name: value.name,
+    ...(typeof value.author === "string" && { author: value.author }),
+    ...(value.values !== undefined && { values }),
+    ...(typeof value.init === "string" && { init: value.init }),
+    perFrame: value.perFrame,
+    ...(typeof value.perPoint === "string" && { perPoint: value.perPoint }),
+  };
+}
+
+// Compile every equation up front so a broken preset fails on load, not mid-frame
+export function compilePreset(preset: Preset): CompiledPreset {
+  const compile = (field: (typeof EQUATION_FIELDS)[number]) => {
+    const source = preset[field];
+    if (source === undefined || source.trim() === "") return null;
+    try {
+      return compileSource(source);
+    } catch (err) {
+      throw new PresetFormatError(`Error in "${field}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return {
+    preset,
+    init: compile("init"),
+    perFrame: compile("perFrame") ?? (() => {}),
+    perPoint: compile("perPoint"),
+  };
+}
+
+// Load a preset file's text. Throws PresetFormatError with a readable message.
+export function parsePreset(text: string): CompiledPreset {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new PresetFormatError("Preset file is not valid JSON");
+  }
+  return compilePreset(validatePreset(json));
+}
+
+export function serializePreset(preset: Preset): string {
+  return JSON.stringify(preset, null, 2);
+}
@@ -0,0 +1,18 @@
+export { parseProgram, tokenize, ExpressionSyntaxError } from "./expression";
+export type { Program, Assignment, Expression, BinaryOperator, UnaryOperator, AssignmentOperator } from "./expression";
+export { compileProgram, compileSource, createScope, ExpressionCompileError } from "./interpreter";
+export type { Scope, CompiledProgram } from "./interpreter";
+export {
+  PRESET_VERSION,
+  PresetFormatError,
+  validatePreset,
+  compilePreset,
+  parsePreset,
+  serializePreset,
+} from "./format";
+export type { Preset, CompiledPreset } from "./format";
+export { createPresetEngine, getFrameStep, FRAME_DEFAULTS, MAX_WAVE_POINTS } from "./engine";
+export type { PresetEngine, FrameValues, WavePoint } from "./engine";
+export { builtinPresets } from "./builtinPresets";
+export type { BuiltinPresetId } from "./builtinPresets";
+export { presetVisualizer, createPresetRenderer, getBuiltinPreset } from "./presetVisualizer";
@@ -0,0 +1,197 @@
+import { parseProgram, type Expression, type Program } from "./expression";
+import type { RandomSource } from "../random";
+
+// Variables shared by a preset's equations. Missing variables read as 0.
+export type Scope = Record<string, number>;
+
+// Runs a compiled program against a scope, updating it in place. rand() draws from random.
+export type CompiledProgram = (scope: Scope, random?: RandomSource) => void;
+
+// Thrown when a program parses but refers to something the interpreter doesn't have
+export class ExpressionCompileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionCompileError";
+  }
+}
+
+type Evaluator = (scope: Scope, random: RandomSource) => number;
+
+const truth = (value: boolean) => (value ? 1 : 0);
+
+// Keeps a bad equation from poisoning every later frame with NaN or Infinity
+const finite = (value: number) => (Number.isFinite(value) ? value : 0);
+
+// Division by zero gives 0, as in Milkdrop
+const divide = (a: number, b: number) => (b === 0 ? 0 : a / b);
+
+interface FunctionDefinition {
+  arity: number;
+  fn: (...args: number[]) => number;
+}
+
+// The only functions equations can call, along with if() and rand(n), a random number in [0, n).
+// Nothing here reaches outside the scope.
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  asin: { arity: 1, fn: Math.asin },
+  acos: { arity: 1, fn: Math.acos },
+  atan: { arity: 1, fn: Math.atan },
+  atan2: { arity: 2, fn: Math.atan2 },
+  abs: { arity: 1, fn: Math.abs },
+  sqr: { arity: 1, fn: (x) => x * x },
+  sqrt: { arity: 1, fn: (x) => Math.sqrt(Math.abs(x)) },
+  pow: { arity: 2, fn: Math.pow },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: 1, fn: Math.log },
+  log10: { arity: 1, fn: Math.log10 },
+  min: { arity: 2, fn: Math.min },
+  max: { arity: 2, fn: Math.max },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  round: { arity: 1, fn: Math.round },
+  sign: { arity: 1, fn: Math.sign },
+  clamp: { arity: 3, fn: (x, lo, hi) => Math.max(lo, Math.min(hi, x)) },
+  above: { arity: 2, fn: (a, b) => truth(a > b) },
+  below: { arity: 2, fn: (a, b) => truth(a < b) },
+  equal: { arity: 2, fn: (a, b) => truth(a === b) },
+};
+
+const BINARY: Record<string, (a: number, b: number) => number> = {
+  "+": (a, b) => a + b,
+  "-": (a, b) => a - b,
+  "*": (a, b) => a * b,
+  "/": divide,
+  "%": (a, b) => (b === 0 ? 0 : a % b),
+  "^": Math.pow,
+  "==": (a, b) => truth(a === b),
+  "!=": (a, b) => truth(a !== b),
+  "<": (a, b) => truth(a < b),
+  ">": (a, b) => truth(a > b),
+  "<=": (a, b) => truth(a <= b),
+  ">=": (a, b) => truth(a >= b),
+};
+
+const COMPOUND: Record<string, (a: number, b: number) => number> = {
+  "+=": BINARY["+"],
+  "-=": BINARY["-"],
+  "*=": BINARY["*"],
+  "/=": divide,
+};
+
+// Scopes have no prototype, so names like "constructor" are ordinary variables
+export function createScope(values: Record<string, number> = {}): Scope {
+  return Object.assign(Object.create(null) as Scope, values);
+}
+
+function compileExpression(expression: Expression): Evaluator {
+  switch (expression.type) {
+    case "number": {
+      const { value } = expression;
+      return () => value;
+    }
+
+    case "variable": {
+      const { name } = expression;
+      return (scope) => scope[name] ?? 0;
+    }
+
+    case "unary": {
+      const operand = compileExpression(expression.operand);
+      switch (expression.operator) {
+        case "-":
+          return (scope, random) => -operand(scope, random);
+        case "+":
+          return operand;
+        case "!":
+          return (scope, random) => truth(operand(scope, random) === 0);
+      }
+      break;
+    }
+
+    case "binary": {
+      const left = compileExpression(expression.left);
+      const right = compileExpression(expression.right);
+      // Short-circuit, so the right side only runs when it matters
+      if (expression.operator === "&&") {
+        return (scope, random) => truth(left(scope, random) !== 0 && right(scope, random) !== 0);
+      }
+      if (expression.operator === "||") {
+        return (scope, random) => truth(left(scope, random) !== 0 || right(scope, random) !== 0);
+      }
+      const operate = BINARY[expression.operator];
+      return (scope, random) => operate(left(scope, random), right(scope, random));
+    }
+
+    case "call": {
+      const { name } = expression;
+      const args = expression.args.map(compileExpression);
+
+      // rand(n) draws from the source the program is run with, so seeded runs repeat
+      if (name === "rand") {
+        if (args.length !== 1) {
+          throw new ExpressionCompileError(`rand() takes 1 argument but was given ${args.length}`);
+        }
+        const [n] = args;
+        return (scope, random) => random() * n(scope, random);
+      }
+
+      // if(condition, then, else) only evaluates the branch it takes
+      if (name === "if") {
+        if (args.length !== 3) {
+          throw new ExpressionCompileError(`if() takes 3 arguments but was given ${args.length}`);
+        }
+        const [condition, then, otherwise] = args;
+        return (scope, random) => (condition(scope, random) !== 0 ? then(scope, random) : otherwise(scope, random));
+      }
+
+      const definition = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+      if (!definition) {
+        throw new ExpressionCompileError(`Unknown function "${name}"`);
+      }
+      if (args.length !== definition.arity) {
+        throw new ExpressionCompileError(
+          `${name}() takes ${definition.arity} argument${definition.arity === 1 ? "" : "s"} but was given ${args.length}`
+        );
+      }
+
+      const { fn } = definition;
+      if (args.length === 1) {
+        const [a] = args;
+        return (scope, random) => fn(a(scope, random));
+      }
+      return (scope, random) => fn(...args.map((arg) => arg(scope, random)));
+    }
+  }
+
+  throw new ExpressionCompileError("Unsupported expression");
+}
+
+export function compileProgram(program: Program): CompiledProgram {
+  const statements = program.map(({ name, operator, value }) => {
+    const evaluate = compileExpression(value);
+    if (operator === "=") {
+      return (scope: Scope, random: RandomSource) => {
+        scope[name] = finite(evaluate(scope, random));
+      };
+    }
+
+    const combine = COMPOUND[operator];
+    return (scope: Scope, random: RandomSource) => {
+      scope[name] = finite(combine(scope[name] ?? 0, evaluate(scope, random)));
+    };
+  });
+
+  return (scope, random = Math.random) => {
+    for (const statement of statements) {
+      statement(scope, random);
+    }
+  };
+}
+
+// Parse and compile in one step. Throws ExpressionSyntaxError or ExpressionCompileError.
+export function compileSource(source: string): CompiledProgram {
+  return compileProgram(parseProgram(source));
+}
@@ -0,0 +1,155 @@
+import type {
+  ConfigSchema,
+  Canvas2DVisualizerRenderer,
+  VisualizerInstance,
+  VisualizerInstanceOptions,
+  AnalyserData,
+  VisualizerConfig,
+  VisualizerDimensions,
+} from "../types";
+import { compilePreset, type CompiledPreset } from "./format";
+import { createPresetEngine, getFrameStep, type PresetEngine } from "./engine";
+import { builtinPresets, type BuiltinPresetId } from "./builtinPresets";
+import { getPalette, paletteField, parseHexColor, toRgba, type Palette, type PaletteId } from "../palettes";
+
+interface PresetConfig extends VisualizerConfig {
+  preset: BuiltinPresetId;
+  // Multiplies the waveform thickness a preset asks for
+  lineScale: number;
+  // Presets color their own waves; the palette only sets what the trails fade to
+  palette: PaletteId;
+}
+
+const channel = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  engine: PresetEngine,
+  data: AnalyserData,
+  lineScale: number,
+  palette: Palette,
+  { width, height }: VisualizerDimensions,
+  deltaTime: number
+) {
+  const values = engine.runFrame(data, deltaTime);
+  const step = getFrameStep(values, deltaTime);
+
+  // Previous frame, moved the way the equations asked; y runs up in preset space
+  const cx = values.cx * width;
+  const cy = (1 - values.cy) * height;
+  ctx.save();
+  ctx.globalAlpha = step.decay;
+  ctx.translate(cx + step.dx * width, cy - step.dy * height);
+  ctx.rotate(step.rot);
+  ctx.scale(step.zoom, step.zoom);
+  ctx.drawImage(ctx.canvas, -cx, -cy, width, height);
+  ctx.restore();
+
+  ctx.fillStyle = toRgba(parseHexColor(palette.background), 1 - step.decay);
+  ctx.fillRect(0, 0, width, height);
+
+  const points = engine.runPoints(data, values, height > 0 ? width / height : 1);
+  if (points.length < 2) return;
+
+  // Colors can change along the wave, so each segment is stroked on its own
+  ctx.lineWidth = Math.max(0.5, values.wave_thick * lineScale);
+  ctx.lineCap = "round";
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    ctx.strokeStyle = `rgba(${channel(to.r)}, ${channel(to.g)}, ${channel(to.b)}, ${Math.max(0, Math.min(1, to.a))})`;
+    ctx.beginPath();
+    ctx.moveTo(from.x * width, (1 - from.y) * height);
+    ctx.lineTo(to.x * width, (1 - to.y) * height);
+    ctx.stroke();
+  }
+}
+
+function createPresetInstance(
+  getPreset: (config: PresetConfig) => CompiledPreset,
+  { random = Math.random }: VisualizerInstanceOptions = {}
+): VisualizerInstance {
+  let current: { compiled: CompiledPreset; engine: PresetEngine } | null = null;
+
+  function render(
+    ctx: CanvasRenderingContext2D,
+    data: AnalyserData,
+    config: VisualizerConfig,
+    dimensions: VisualizerDimensions,
+    deltaTime: number
+  ) {
+    const presetConfig = config as PresetConfig;
+    const compiled = getPreset(presetConfig);
+    // A different preset starts from its init equations
+    if (current?.compiled !== compiled) {
+      current = { compiled, engine: createPresetEngine(compiled, random) };
+    }
+    drawFrame(ctx, current.engine, data, presetConfig.lineScale, getPalette(presetConfig.palette), dimensions, deltaTime);
+  }
+
+  return {
+    render,
+    // Everything is laid out from the current dimensions each frame
+    resize() {},
+    reset() {
+      current?.engine.reset();
+    },
+    dispose() {
+      current = null;
+    },
+  };
+}
+
+const defaultConfig: PresetConfig = {
+  preset: "tunnel",
+  lineScale: 1,
+  palette: "classic",
+};
+
+const configSchema = {
+  lineScale: { type: "number", label: "Line width", min: 0.25, max: 4, step: 0.25 },
+  palette: paletteField,
+} satisfies ConfigSchema<PresetConfig>;
+
+// Renderer for a single preset, such as one loaded from a file
+export function createPresetRenderer(compiled: CompiledPreset): Canvas2DVisualizerRenderer {
+  return {
+    name: compiled.preset.name,
+    description: compiled.preset.author ? `Preset by ${compiled.preset.author}` : "Equation-driven preset",
+    contextType: "2d",
+    create: (options) => createPresetInstance(() => compiled, options),
+    defaultConfig: { ...defaultConfig },
+    configSchema,
+  };
+}
+
+// Compiled once, on first use, and shared by every instance
+const compiledBuiltins = new Map<BuiltinPresetId, CompiledPreset>();
+
+// The built-in preset for an id, or the default one for ids that aren't built in
+export function getBuiltinPreset(id: string): CompiledPreset {
+  const key = Object.hasOwn(builtinPresets, id) ? (id as BuiltinPresetId) : defaultConfig.preset;
+  let compiled = compiledBuiltins.get(key);
+  if (!compiled) {
+    compiled = compilePreset(builtinPresets[key]);
+    compiledBuiltins.set(key, compiled);
+  }
+  return compiled;
+}
+
+export const presetVisualizer: Canvas2DVisualizerRenderer = {
+  name: "Presets",
+  description: "Milkdrop-style presets written as per-frame and per-point equations",
+  contextType: "2d",
+  create: (options) => createPresetInstance((config) => getBuiltinPreset(config.preset), options),
+  defaultConfig,
+
+  configSchema: {
+    preset: {
+      type: "enum",
+      label: "Preset",
+      options: Object.entries(builtinPresets).map(([value, preset]) => ({ value, label: preset.name })),
+    },
+    ...configSchema,
+  } satisfies ConfigSchema<PresetConfig>,
+};
@@ -0,0 +1,30 @@
+// Random numbers in [0, 1), the same contract as Math.random
+export type RandomSource = () => number;
+
+// mulberry32: tiny and plenty random enough for visuals. The same seed always gives
+// the same sequence, which is what makes offline renders repeatable.
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Seeds are unsigned 32-bit integers
+export const MAX_SEED = 0xffffffff;
+
+// What renderers are seeded with until a preset or the user picks another
+export const DEFAULT_SEED = 1;
+
+export function isValidSeed(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+}
+
+// A fresh seed for when the user wants a different look
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
@@ -0,0 +1,171 @@
+import type { VisualizerMode, VisualizerRenderer } from "./types";
+
+// Everything the app needs to offer a visualizer: the renderer plus how it's shown
+export interface VisualizerDefinition {
+  // Stable id, used for the mode and to key saved settings
+  id: VisualizerMode;
+  // Short name for the mode button and indicator
+  label: string;
+  renderer: VisualizerRenderer;
+  // SVG markup for a 24x24 viewBox, drawn with currentColor
+  icon?: string;
+}
+
+// Thrown when a definition can't be registered or a plugin module can't be loaded
+export class VisualizerRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VisualizerRegistryError";
+  }
+}
+
+// Mode shown first, and the fallback for modes that aren't registered
+export const DEFAULT_MODE: VisualizerMode = "bars";
+
+const definitions = new Map<VisualizerMode, VisualizerDefinition>();
+// Built-ins stay registered so there is always something to fall back to
+const builtinIds = new Set<VisualizerMode>();
+const listeners = new Set<() => void>();
+// Replaced on every change so React can compare snapshots by identity
+let snapshot: VisualizerDefinition[] = [];
+
+function notify() {
+  snapshot = [...definitions.values()];
+  listeners.forEach((listener) => listener());
+}
+
+const CONTEXT_TYPES = ["2d", "webgl2"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// Definitions can come from plugin modules, so check the shape before trusting it
+export function validateVisualizerDefinition(value: unknown): VisualizerDefinition {
+  if (!isObject(value)) {
+    throw new VisualizerRegistryError("Visualizer definition must be an object");
+  }
+  if (typeof value.id !== "string" || value.id.trim() === "") {
+    throw new VisualizerRegistryError("Visualizer definition needs an id");
+  }
+  if (typeof value.label !== "string" || value.label.trim() === "") {
+    throw new VisualizerRegistryError(`Visualizer "${value.id}" needs a label`);
+  }
+  if (value.icon !== undefined && typeof value.icon !== "string") {
+    throw new VisualizerRegistryError(`Visualizer "${value.id}" icon must be SVG markup`);
+  }
+
+  const renderer = value.renderer;
+  if (
+    !isObject(renderer) ||
+    typeof renderer.create !== "function" ||
+    !CONTEXT_TYPES.includes(renderer.contextType as string) ||
+    !isObject(renderer.defaultConfig) ||
+    !isObject(renderer.configSchema)
+  ) {
+    throw new VisualizerRegistryError(`Visualizer "${value.id}" has an invalid renderer`);
+  }
+  if (renderer.contextType === "webgl2" && typeof renderer.createFallback !== "function") {
+    throw new VisualizerRegistryError(`WebGL visualizer "${value.id}" needs a 2D fallback`);
+  }
+
+  return value as unknown as VisualizerDefinition;
+}
+
+// Add a visualizer. Returns a function that removes it again.
+export function registerVisualizer(definition: VisualizerDefinition): () => void {
+  const valid = validateVisualizerDefinition(definition);
+  if (definitions.has(valid.id)) {
+    throw new VisualizerRegistryError(`A visualizer with id "${valid.id}" is already registered`);
+  }
+
+  definitions.set(valid.id, valid);
+  notify();
+  return () => {
+    if (definitions.get(valid.id) === valid) {
+      unregisterVisualizer(valid.id);
+    }
+  };
+}
+
+// Register as built-in; only the app's own visualizers should use this
+export function registerBuiltinVisualizer(definition: VisualizerDefinition) {
+  registerVisualizer(definition);
+  builtinIds.add(definition.id);
+}
+
+// Remove a visualizer. Returns false for unknown ids and built-ins.
+export function unregisterVisualizer(id: VisualizerMode): boolean {
+  if (builtinIds.has(id) || !definitions.delete(id)) return false;
+  notify();
+  return true;
+}
+
+export function hasVisualizer(id: VisualizerMode): boolean {
+  return definitions.has(id);
+}
+
+export function isBuiltinVisualizer(id: VisualizerMode): boolean {
+  return builtinIds.has(id);
+}
+
+export function getVisualizerDefinition(id: VisualizerMode): VisualizerDefinition | undefined {
+  return definitions.get(id);
+}
+
+// Renderer for a mode, or the default mode's for one that has been unregistered
+export function getVisualizer(id: VisualizerMode): VisualizerRenderer {
+  const definition = definitions.get(id) ?? definitions.get(DEFAULT_MODE);
+  if (!definition) {
+    throw new VisualizerRegistryError(`No visualizer registered for "${id}"`);
+  }
+  return definition.renderer;
+}
+
+// The mode after this one in registration order, wrapping round
+export function getNextVisualizer(id: VisualizerMode): VisualizerMode {
+  const index = snapshot.findIndex((definition) => definition.id === id);
+  return snapshot[(index + 1) % snapshot.length]?.id ?? DEFAULT_MODE;
+}
+
+// Registered visualizers in registration order. The same array is returned until the next change.
+export function listVisualizers(): VisualizerDefinition[] {
+  return snapshot;
+}
+
+export function subscribeVisualizers(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+type ModuleImporter = (url: string) => Promise<Record<string, unknown>>;
+
+// Left to the browser so the bundler doesn't try to resolve the URL at build time
+const importModule: ModuleImporter = (url) => import(/* webpackIgnore: true */ /* turbopackIgnore: true */ url);
+
+// Load and register a visualizer from an ES module whose default export is a definition,
+// e.g. a file in public/ on the dev server. Only same-origin URLs are accepted.
+export async function loadVisualizerModule(
+  url: string,
+  importer: ModuleImporter = importModule
+): Promise<VisualizerDefinition> {
+  const resolved = new URL(url, window.location.href);
+  if (resolved.origin !== window.location.origin) {
+    throw new VisualizerRegistryError(`Visualizer modules must be served from ${window.location.origin}`);
+  }
+
+  let exports: Record<string, unknown>;
+  try {
+    exports = await importer(resolved.href);
+  } catch (err) {
+    throw new VisualizerRegistryError(
+      `Could not load visualizer module: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  const definition = validateVisualizerDefinition(exports.default);
+  registerVisualizer(definition);
+  return definition;
+}
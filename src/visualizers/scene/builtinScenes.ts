@@ -0,0 +1,25 @@
+import { createLayer, type Scene } from "./format";
+
+// Scenes that ship with the app, keyed by the id stored in the layers mode's config
+export const builtinScenes = {
+  fireflyWave: {
+    version: 1,
+    name: "Wave over fireflies",
+    layers: [createLayer("ambiance"), createLayer("waveform", { config: { fillMode: false }, blend: "screen" })],
+  },
+  scopeBars: {
+    version: 1,
+    name: "Scope over bars",
+    layers: [createLayer("bars", { opacity: 0.6 }), createLayer("scope", { blend: "lighter" })],
+  },
+  mirrorBars: {
+    version: 1,
+    name: "Mirrored bars",
+    layers: [
+      createLayer("bars"),
+      createLayer("bars", { opacity: 0.5, blend: "screen", transform: { x: 0, y: 0, scale: 1, rotation: 180 } }),
+    ],
+  },
+} satisfies Record<string, Scene>;
+
+export type BuiltinSceneId = keyof typeof builtinScenes;
@@ -0,0 +1,195 @@
+import type { ConfigValue, EnumField, VisualizerConfig, VisualizerMode } from "../types";
+
+// A scene as stored on disk: visualizers stacked bottom to top, each drawn on its own
+// and composited onto the ones below.
+//
+//   {
+//     "version": 1,
+//     "name": "Wave over fireflies",
+//     "layers": [
+//       { "mode": "ambiance" },
+//       { "mode": "waveform", "config": { "lineWidth": 3 }, "opacity": 0.8, "blend": "screen" }
+//     ]
+//   }
+export interface Scene {
+  version: 1;
+  name: string;
+  layers: SceneLayer[];
+}
+
+export interface SceneLayer {
+  // Id of a registered visualizer. Layers whose visualizer isn't registered are skipped.
+  mode: VisualizerMode;
+  // Overrides for the visualizer's defaults, checked against its schema when drawn
+  config: VisualizerConfig;
+  // 0-1
+  opacity: number;
+  blend: BlendMode;
+  transform: LayerTransform;
+}
+
+// Where a layer's frame lands on the canvas, about the canvas center
+export interface LayerTransform {
+  // Offset as a fraction of the canvas width and height
+  x: number;
+  y: number;
+  scale: number;
+  // Degrees clockwise
+  rotation: number;
+}
+
+// The canvas composite operations a layer can be drawn with
+export type BlendMode =
+  | "source-over"
+  | "lighter"
+  | "screen"
+  | "multiply"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "color-dodge"
+  | "difference"
+  | "exclusion";
+
+export const blendModeOptions: EnumField["options"] = [
+  { value: "source-over", label: "Normal" },
+  { value: "lighter", label: "Add" },
+  { value: "screen", label: "Screen" },
+  { value: "multiply", label: "Multiply" },
+  { value: "overlay", label: "Overlay" },
+  { value: "darken", label: "Darken" },
+  { value: "lighten", label: "Lighten" },
+  { value: "color-dodge", label: "Color dodge" },
+  { value: "difference", label: "Difference" },
+  { value: "exclusion", label: "Exclusion" },
+];
+
+export const SCENE_VERSION = 1;
+
+// Layers beyond this are refused, since each one draws a full frame
+export const MAX_LAYERS = 8;
+
+export const defaultLayerTransform: LayerTransform = { x: 0, y: 0, scale: 1, rotation: 0 };
+
+// Thrown for a scene file that can't be loaded, naming the field at fault
+export class SceneFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SceneFormatError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isConfigValue(value: unknown): value is ConfigValue {
+  return (
+    typeof value === "boolean" || typeof value === "string" || (typeof value === "number" && Number.isFinite(value))
+  );
+}
+
+// A layer showing a visualizer at its defaults, drawn normally
+export function createLayer(mode: VisualizerMode, overrides: Partial<Omit<SceneLayer, "mode">> = {}): SceneLayer {
+  return {
+    mode,
+    config: {},
+    opacity: 1,
+    blend: "source-over",
+    ...overrides,
+    transform: { ...defaultLayerTransform, ...overrides.transform },
+  };
+}
+
+function validateNumber(value: unknown, field: string, min: number, max: number, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    throw new SceneFormatError(`"${field}" must be a number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function validateLayer(value: unknown, index: number): SceneLayer {
+  const field = `layers[${index}]`;
+  if (!isRecord(value)) {
+    throw new SceneFormatError(`"${field}" must be an object`);
+  }
+  if (typeof value.mode !== "string" || value.mode.trim() === "") {
+    throw new SceneFormatError(`"${field}.mode" must name a visualizer`);
+  }
+
+  const config: VisualizerConfig = {};
+  if (value.config !== undefined) {
+    if (!isRecord(value.config)) {
+      throw new SceneFormatError(`"${field}.config" must map names to values`);
+    }
+    for (const [key, setting] of Object.entries(value.config)) {
+      if (!isConfigValue(setting)) {
+        throw new SceneFormatError(`"${field}.config.${key}" must be a number, boolean or string`);
+      }
+      config[key] = setting;
+    }
+  }
+
+  if (value.blend !== undefined && !blendModeOptions.some((option) => option.value === value.blend)) {
+    throw new SceneFormatError(`"${field}.blend" is not a known blend mode`);
+  }
+
+  const transform = value.transform ?? {};
+  if (!isRecord(transform)) {
+    throw new SceneFormatError(`"${field}.transform" must be an object`);
+  }
+
+  return {
+    mode: value.mode,
+    config,
+    opacity: validateNumber(value.opacity, `${field}.opacity`, 0, 1, 1),
+    blend: (value.blend as BlendMode | undefined) ?? "source-over",
+    transform: {
+      x: validateNumber(transform.x, `${field}.transform.x`, -1, 1, 0),
+      y: validateNumber(transform.y, `${field}.transform.y`, -1, 1, 0),
+      scale: validateNumber(transform.scale, `${field}.transform.scale`, 0.1, 4, 1),
+      rotation: validateNumber(transform.rotation, `${field}.transform.rotation`, -360, 360, 0),
+    },
+  };
+}
+
+// Check an untrusted value is a well-formed scene, filling in defaults for optional layer fields
+export function validateScene(value: unknown): Scene {
+  if (!isRecord(value)) {
+    throw new SceneFormatError("Scene must be an object");
+  }
+  if (value.version !== SCENE_VERSION) {
+    throw new SceneFormatError(`Unsupported scene version ${JSON.stringify(value.version)}`);
+  }
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    throw new SceneFormatError("Scene needs a name");
+  }
+  if (!Array.isArray(value.layers) || value.layers.length === 0) {
+    throw new SceneFormatError('"layers" must be a list with at least one layer');
+  }
+  if (value.layers.length > MAX_LAYERS) {
+    throw new SceneFormatError(`Scenes can have at most ${MAX_LAYERS} layers`);
+  }
+
+  return {
+    version: SCENE_VERSION,
+    name: value.name,
+    layers: value.layers.map(validateLayer),
+  };
+}
+
+// Load a scene file's text. Throws SceneFormatError with a readable message.
+export function parseScene(text: string): Scene {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SceneFormatError("Scene file is not valid JSON");
+  }
+  return validateScene(json);
+}
+
+export function serializeScene(scene: Scene): string {
+  return JSON.stringify(scene, null, 2);
+}
@@ -0,0 +1,15 @@
+export {
+  SCENE_VERSION,
+  MAX_LAYERS,
+  SceneFormatError,
+  blendModeOptions,
+  defaultLayerTransform,
+  createLayer,
+  validateScene,
+  parseScene,
+  serializeScene,
+} from "./format";
+export type { Scene, SceneLayer, LayerTransform, BlendMode } from "./format";
+export { builtinScenes } from "./builtinScenes";
+export type { BuiltinSceneId } from "./builtinScenes";
+export { sceneVisualizer, createSceneRenderer, compositeLayer, getBuiltinScene } from "./sceneVisualizer";
@@ -0,0 +1,174 @@
+import type {
+  ConfigSchema,
+  Canvas2DVisualizerRenderer,
+  VisualizerInstance,
+  VisualizerInstanceOptions,
+  AnalyserData,
+  VisualizerConfig,
+  VisualizerDimensions,
+  VisualizerRenderer,
+} from "../types";
+import { getVisualizerDefinition } from "../registry";
+import { resolveConfig } from "../config";
+import { createOffscreenBuffer, type OffscreenBuffer } from "../offscreen";
+import { DEFAULT_PALETTE, getPalette, paletteField, type PaletteId } from "../palettes";
+import type { Scene, SceneLayer } from "./format";
+import { builtinScenes, type BuiltinSceneId } from "./builtinScenes";
+
+interface SceneConfig extends VisualizerConfig {
+  scene: BuiltinSceneId;
+  // Background behind the layers; each layer keeps its own palette
+  palette: PaletteId;
+}
+
+// A layer's running visualizer and the buffer it draws its frames into
+interface LayerState {
+  layer: SceneLayer;
+  instance: VisualizerInstance;
+  config: VisualizerConfig;
+  buffer: OffscreenBuffer | null;
+}
+
+// Scene renderers can't be layers themselves, or a scene could end up containing itself
+const sceneRenderers = new WeakSet<VisualizerRenderer>();
+
+// Layers are composited in 2D, so WebGL visualizers use their 2D fallbacks
+function createLayerState(
+  layer: SceneLayer,
+  dimensions: VisualizerDimensions,
+  options: VisualizerInstanceOptions
+): LayerState | null {
+  const renderer = getVisualizerDefinition(layer.mode)?.renderer;
+  if (!renderer || sceneRenderers.has(renderer)) return null;
+
+  const instance = renderer.contextType === "webgl2" ? renderer.createFallback(options) : renderer.create(options);
+  instance.resize(dimensions);
+  return { layer, instance, config: resolveConfig(renderer, layer.config), buffer: null };
+}
+
+// Draw one layer's frame onto the canvas with its opacity, blend mode and transform
+export function compositeLayer(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  { opacity, blend, transform }: SceneLayer,
+  { width, height }: VisualizerDimensions
+) {
+  if (opacity <= 0) return;
+
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.globalCompositeOperation = blend;
+  ctx.translate(width / 2 + transform.x * width, height / 2 + transform.y * height);
+  ctx.rotate((transform.rotation * Math.PI) / 180);
+  ctx.scale(transform.scale, transform.scale);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  ctx.restore();
+}
+
+// Layers share the scene's options, so a seeded scene seeds every layer
+function createSceneInstance(
+  getScene: (config: SceneConfig) => Scene,
+  options: VisualizerInstanceOptions = {}
+): VisualizerInstance {
+  let current: { scene: Scene; layers: LayerState[] } | null = null;
+  let dimensions: VisualizerDimensions = { width: 0, height: 0 };
+
+  const disposeLayers = () => {
+    current?.layers.forEach(({ instance }) => instance.dispose());
+    current = null;
+  };
+
+  function render(
+    ctx: CanvasRenderingContext2D,
+    data: AnalyserData,
+    config: VisualizerConfig,
+    frameDimensions: VisualizerDimensions,
+    deltaTime: number
+  ) {
+    dimensions = frameDimensions;
+    const scene = getScene(config as SceneConfig);
+    // A different scene starts its layers from scratch
+    if (current?.scene !== scene) {
+      disposeLayers();
+      const layers = scene.layers
+        .map((layer) => createLayerState(layer, dimensions, options))
+        .filter((state): state is LayerState => state !== null);
+      current = { scene, layers };
+    }
+
+    const { width, height } = dimensions;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = getPalette(config.palette).background;
+    ctx.fillRect(0, 0, width, height);
+
+    // Buffers match the canvas's device pixels and draw in CSS pixels like the canvas does
+    const bufferWidth = ctx.canvas.width;
+    const bufferHeight = ctx.canvas.height;
+    const pixelRatio = width > 0 ? bufferWidth / width : 1;
+
+    for (const state of current.layers) {
+      if (state.buffer?.canvas.width !== bufferWidth || state.buffer.canvas.height !== bufferHeight) {
+        state.buffer = createOffscreenBuffer(bufferWidth, bufferHeight);
+        state.buffer?.ctx.scale(pixelRatio, pixelRatio);
+      }
+      if (!state.buffer) continue;
+
+      state.instance.render(state.buffer.ctx, data, state.config, dimensions, deltaTime);
+      compositeLayer(ctx, state.buffer.canvas, state.layer, dimensions);
+    }
+  }
+
+  return {
+    render,
+    resize(next) {
+      dimensions = next;
+      current?.layers.forEach(({ instance }) => instance.resize(next));
+    },
+    reset() {
+      current?.layers.forEach(({ instance }) => instance.reset());
+    },
+    dispose: disposeLayers,
+  };
+}
+
+const defaultConfig: SceneConfig = {
+  scene: "fireflyWave",
+  palette: DEFAULT_PALETTE,
+};
+
+// Renderer for a single scene, such as one loaded from a file
+export function createSceneRenderer(scene: Scene): Canvas2DVisualizerRenderer {
+  const renderer: Canvas2DVisualizerRenderer = {
+    name: scene.name,
+    description: `${scene.layers.length} layered visualizers`,
+    contextType: "2d",
+    create: (options) => createSceneInstance(() => scene, options),
+    defaultConfig: { palette: DEFAULT_PALETTE },
+    configSchema: { palette: paletteField },
+  };
+  sceneRenderers.add(renderer);
+  return renderer;
+}
+
+// The built-in scene for an id, or the default one for ids that aren't built in
+export function getBuiltinScene(id: string): Scene {
+  return builtinScenes[Object.hasOwn(builtinScenes, id) ? (id as BuiltinSceneId) : defaultConfig.scene];
+}
+
+export const sceneVisualizer: Canvas2DVisualizerRenderer = {
+  name: "Layers",
+  description: "Several visualizers stacked with blend modes",
+  contextType: "2d",
+  create: (options) => createSceneInstance((config) => getBuiltinScene(config.scene), options),
+  defaultConfig,
+
+  configSchema: {
+    scene: {
+      type: "enum",
+      label: "Scene",
+      options: Object.entries(builtinScenes).map(([value, scene]) => ({ value, label: scene.name })),
+    },
+    palette: paletteField,
+  } satisfies ConfigSchema<SceneConfig>,
+};
+sceneRenderers.add(sceneVisualizer);
@@ -1,4 +1,18 @@
-import type { VisualizerRenderer, AnalyserData, VisualizerConfig } from "./types";
+import type {
+  ConfigSchema,
+  Canvas2DVisualizerRenderer,
+  VisualizerInstance,
+  VisualizerInstanceOptions,
+  AnalyserData,
+  VisualizerConfig,
+  VisualizerDimensions,
+} from "./types";
+import { getBandRange, getBandLevel, type FrequencyScale } from "@/utils/audioHelpers";
+import { frequencyScaleOptions } from "./config";
+import { getGradientRgb, getPalette, mixRgb, paletteField, parseHexColor, toRgba, type PaletteId, type Rgb } from "./palettes";
+import type { RandomSource } from "./random";
+
+export type ScopeLayout = "mirrored" | "full";
 
 interface ScopeConfig extends VisualizerConfig {
   barCount: number;
@@ -6,6 +20,11 @@ interface ScopeConfig extends VisualizerConfig {
   maxBarHeight: number;
   rotationSpeed: number;
   barWidth: number;
+  layout: ScopeLayout;
+  frequencyScale: FrequencyScale;
+  lowFrequencyAngle: number;  // Degrees, 0 = right, -90 = top
+  showWaveformRing: boolean;
+  palette: PaletteId;
 }
 
 interface Triangle {
@@ -19,36 +38,54 @@ interface Triangle {
   alpha: number;
 }
 
-let rotation = 0;
-let time = 0;
-let triangles: Triangle[] = [];
-let initialized = false;
-// Random offsets for each bar segment
-let randomOffsets: number[] = [];
-let lastOffsetUpdate = 0;
+interface ScopeState {
+  rotation: number;
+  triangles: Triangle[];
+  // Size the triangles were laid out for, so a resize can rescale them
+  dimensions: VisualizerDimensions | null;
+  // Flash on the base ring, kicked on each beat and decaying between them
+  beatPulse: number;
+}
+
+// Time constant of the beat flash decay, in ms
+const BEAT_PULSE_DECAY = 180;
+
+const WHITE: Rgb = [255, 255, 255];
+
+function createState(): ScopeState {
+  return { rotation: 0, triangles: [], dimensions: null, beatPulse: 0 };
+}
 
-function initTriangles(width: number, height: number, count: number) {
-  triangles = [];
+function initTriangles(width: number, height: number, count: number, random: RandomSource): Triangle[] {
+  const triangles: Triangle[] = [];
   for (let i = 0; i < count; i++) {
-    triangles.push(createTriangle(width, height));
+    triangles.push(createTriangle(width, height, random));
   }
-  initialized = true;
+  return triangles;
 }
 
-function createTriangle(width: number, height: number): Triangle {
+function createTriangle(width: number, height: number, random: RandomSource): Triangle {
   return {
-    x: Math.random() * width,
-    y: Math.random() * height,
-    size: 15 + Math.random() * 35,
-    rotation: Math.random() * Math.PI * 2,
-    rotationSpeed: (Math.random() - 0.5) * 0.02,
-    vx: (Math.random() - 0.5) * 0.5,
-    vy: (Math.random() - 0.5) * 0.5,
-    alpha: 0.1 + Math.random() * 0.25,
+    x: random() * width,
+    y: random() * height,
+    size: 15 + random() * 35,
+    rotation: random() * Math.PI * 2,
+    rotationSpeed: (random() - 0.5) * 0.02,
+    vx: (random() - 0.5) * 0.5,
+    vy: (random() - 0.5) * 0.5,
+    alpha: 0.1 + random() * 0.25,
   };
 }
 
-function drawTriangle(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, rotation: number, alpha: number) {
+function drawTriangle(
+  ctx: CanvasRenderingContext2D,
+  color: Rgb,
+  x: number,
+  y: number,
+  size: number,
+  rotation: number,
+  alpha: number
+) {
   ctx.save();
   ctx.translate(x, y);
   ctx.rotate(rotation);
@@ -57,46 +94,117 @@ function drawTriangle(ctx: CanvasRenderingContext2D, x: number, y: number, size:
   ctx.lineTo(-size / 2, size / 2);
   ctx.lineTo(size / 2, size / 2);
   ctx.closePath();
-  ctx.fillStyle = `rgba(180, 130, 255, ${alpha})`;
+  ctx.fillStyle = toRgba(color, alpha);
   ctx.fill();
   ctx.restore();
 }
 
-export const scopeVisualizer: VisualizerRenderer = {
-  name: "Scope",
-  description: "Circular equalizer with radial bars",
+// Level (0-1) for each radial bar. Mirrored layouts sweep low to high on both
+// halves so the circle stays symmetric around the low-frequency angle.
+export function getScopeBarLevels(
+  frequencyData: Uint8Array,
+  barCount: number,
+  layout: ScopeLayout,
+  scale: FrequencyScale
+): number[] {
+  const levels = new Array(barCount).fill(0);
+  if (frequencyData.length === 0 || barCount === 0) return levels;
+
+  const bandCount = layout === "mirrored" ? Math.ceil(barCount / 2) : barCount;
+  const bandLevels = new Array(bandCount);
+  for (let band = 0; band < bandCount; band++) {
+    const { start, end } = getBandRange(band, bandCount, frequencyData.length, scale);
+    bandLevels[band] = getBandLevel(frequencyData, start, end);
+  }
+
+  for (let i = 0; i < barCount; i++) {
+    const band = layout === "mirrored" && i >= bandCount ? barCount - i : i;
+    levels[i] = bandLevels[Math.min(band, bandCount - 1)];
+  }
+  return levels;
+}
+
+function drawWaveformRing(
+  ctx: CanvasRenderingContext2D,
+  timeDomainData: Uint8Array,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  startAngle: number,
+  color: Rgb
+) {
+  if (timeDomainData.length === 0) return;
+
+  const pointCount = Math.min(256, timeDomainData.length);
+  const step = timeDomainData.length / pointCount;
+
+  ctx.strokeStyle = toRgba(color, 0.6);
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  for (let i = 0; i < pointCount; i++) {
+    const normalized = (timeDomainData[Math.floor(i * step)] - 128) / 128;
+    const r = radius * (1 + normalized * 0.35);
+    const angle = startAngle + (i / pointCount) * Math.PI * 2;
+    const x = centerX + Math.cos(angle) * r;
+    const y = centerY + Math.sin(angle) * r;
+
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  }
+  ctx.closePath();
+  ctx.stroke();
+}
+
+function createScopeInstance({ random = Math.random }: VisualizerInstanceOptions = {}): VisualizerInstance {
+  let state = createState();
 
-  render(
+  function render(
     ctx: CanvasRenderingContext2D,
     data: AnalyserData,
     config: VisualizerConfig,
-    { width, height }: { width: number; height: number },
+    { width, height }: VisualizerDimensions,
     deltaTime: number
   ) {
-    const { frequencyData, averageFrequency } = data;
-    const { barCount, baseRadius, maxBarHeight, rotationSpeed, barWidth } = config as ScopeConfig;
+    const { frequencyData, timeDomainData, averageFrequency, isBeat, beatConfidence } = data;
+    const {
+      barCount,
+      baseRadius,
+      maxBarHeight,
+      rotationSpeed,
+      barWidth,
+      layout,
+      frequencyScale,
+      lowFrequencyAngle,
+      showWaveformRing,
+    } = config as ScopeConfig;
+    const palette = getPalette(config.palette);
+    const background = parseHexColor(palette.background);
+    const accent = parseHexColor(palette.accent);
 
     // Initialize triangles if needed
-    if (!initialized) {
-      initTriangles(width, height, 25);
+    if (state.triangles.length === 0) {
+      state.triangles = initTriangles(width, height, 25, random);
     }
+    state.dimensions = { width, height };
 
-    // Clear with purple radial gradient background
+    // Clear with a radial gradient from the accent color out to the background
     const bgGradient = ctx.createRadialGradient(
       width / 2, height / 2, 0,
       width / 2, height / 2, Math.max(width, height) * 0.7
     );
-    bgGradient.addColorStop(0, `rgba(80, 40, 120, ${0.3 + averageFrequency * 0.2})`);
-    bgGradient.addColorStop(0.5, "rgba(40, 20, 60, 0.2)");
-    bgGradient.addColorStop(1, "rgba(10, 10, 15, 1)");
+    bgGradient.addColorStop(0, toRgba(mixRgb(background, accent, 0.45), 0.3 + averageFrequency * 0.2));
+    bgGradient.addColorStop(0.5, toRgba(mixRgb(background, accent, 0.2), 0.2));
+    bgGradient.addColorStop(1, toRgba(background));
 
-    ctx.fillStyle = "rgba(10, 10, 15, 0.25)";
+    ctx.fillStyle = toRgba(background, 0.25);
     ctx.fillRect(0, 0, width, height);
     ctx.fillStyle = bgGradient;
     ctx.fillRect(0, 0, width, height);
 
-    time += deltaTime;
-    rotation += rotationSpeed * deltaTime * 0.001 * (1 + averageFrequency);
+    state.rotation += rotationSpeed * deltaTime * 0.001 * (1 + averageFrequency);
 
     const centerX = width / 2;
     const centerY = height / 2;
@@ -105,7 +213,7 @@ export const scopeVisualizer: VisualizerRenderer = {
     const maxHeight = minDimension * maxBarHeight;
 
     // Update and draw triangles in background
-    triangles.forEach((tri, index) => {
+    state.triangles.forEach((tri) => {
       tri.x += tri.vx + averageFrequency * tri.vx * 2;
       tri.y += tri.vy + averageFrequency * tri.vy * 2;
       tri.rotation += tri.rotationSpeed * (1 + averageFrequency * 2);
@@ -116,34 +224,17 @@ export const scopeVisualizer: VisualizerRenderer = {
       if (tri.y < -50) tri.y = height + 50;
       if (tri.y > height + 50) tri.y = -50;
 
-      drawTriangle(ctx, tri.x, tri.y, tri.size, tri.rotation, tri.alpha);
+      drawTriangle(ctx, accent, tri.x, tri.y, tri.size, tri.rotation, tri.alpha);
     });
 
-    // Initialize random offsets if needed
-    if (randomOffsets.length !== barCount) {
-      randomOffsets = new Array(barCount).fill(0).map(() => Math.random());
-    }
-
-    // Update random offsets frequently for energetic movement
-    const now = Date.now();
-    if (now - lastOffsetUpdate > 30 + (1 - averageFrequency) * 50) {
-      for (let i = 0; i < barCount; i++) {
-        randomOffsets[i] += (Math.random() - 0.5) * 0.5;
-        randomOffsets[i] = Math.max(0, Math.min(1, randomOffsets[i]));
-      }
-      lastOffsetUpdate = now;
-    }
-
-    // Draw the circular equalizer
+    // Draw the circular equalizer, starting the lowest band at the configured angle
     const angleStep = (Math.PI * 2) / barCount;
+    const startAngle = (lowFrequencyAngle * Math.PI) / 180 + state.rotation;
+    const levels = getScopeBarLevels(frequencyData, barCount, layout, frequencyScale);
 
     for (let i = 0; i < barCount; i++) {
-      const angle = i * angleStep + rotation;
-
-      // Boost weak signals and add random variation for energetic movement
-      const boostedFreq = Math.pow(averageFrequency, 0.5) * 1.5;  // Square root boost for weak signals
-      const randomVariation = 0.4 + randomOffsets[i] * 1.4;  // 0.4 to 1.8 range
-      const amplitude = Math.min(1, boostedFreq * randomVariation + 0.05);  // Floor of 0.05
+      const angle = startAngle + i * angleStep;
+      const amplitude = levels[i];
 
       // Bar height based on amplitude
       const barHeight = amplitude * maxHeight;
@@ -160,14 +251,13 @@ export const scopeVisualizer: VisualizerRenderer = {
       const x2 = centerX + cosAngle * outerRadius;
       const y2 = centerY + sinAngle * outerRadius;
 
-      // Draw bar with glow
-      const hue = 270 + amplitude * 30; // Purple to pink
-      const lightness = 60 + amplitude * 20;
+      // Draw bar with glow, louder bars further along the palette
+      const color = getGradientRgb(palette, amplitude);
 
-      ctx.shadowColor = `hsl(${hue}, 80%, ${lightness}%)`;
+      ctx.shadowColor = toRgba(color);
       ctx.shadowBlur = 8 + amplitude * 15;
 
-      ctx.strokeStyle = `hsla(${hue}, 70%, ${lightness}%, ${0.7 + amplitude * 0.3})`;
+      ctx.strokeStyle = toRgba(color, 0.7 + amplitude * 0.3);
       ctx.lineWidth = barWidth + amplitude * 2;
       ctx.lineCap = "round";
 
@@ -186,11 +276,19 @@ export const scopeVisualizer: VisualizerRenderer = {
       ctx.stroke();
     }
 
+    state.beatPulse *= Math.exp(-deltaTime / BEAT_PULSE_DECAY);
+    if (isBeat) {
+      state.beatPulse = Math.max(state.beatPulse, 0.5 + beatConfidence * 0.5);
+    }
+
     // Draw base circle ring
-    ctx.shadowColor = "rgba(180, 130, 255, 0.8)";
-    ctx.shadowBlur = 15 + averageFrequency * 10;
-    ctx.strokeStyle = `rgba(200, 170, 255, ${0.4 + averageFrequency * 0.3})`;
-    ctx.lineWidth = 2;
+    ctx.shadowColor = toRgba(parseHexColor(palette.glow), 0.8);
+    ctx.shadowBlur = 15 + averageFrequency * 10 + state.beatPulse * 20;
+    ctx.strokeStyle = toRgba(
+      mixRgb(accent, WHITE, 0.25),
+      Math.min(1, 0.4 + averageFrequency * 0.3 + state.beatPulse * 0.3)
+    );
+    ctx.lineWidth = 2 + state.beatPulse * 3;
     ctx.beginPath();
     ctx.arc(centerX, centerY, baseR, 0, Math.PI * 2);
     ctx.stroke();
@@ -201,15 +299,50 @@ export const scopeVisualizer: VisualizerRenderer = {
       centerX, centerY, 0,
       centerX, centerY, baseR * 0.8
     );
-    innerGlow.addColorStop(0, `rgba(150, 100, 200, ${averageFrequency * 0.15})`);
+    innerGlow.addColorStop(0, toRgba(accent, averageFrequency * 0.15));
     innerGlow.addColorStop(1, "transparent");
     ctx.fillStyle = innerGlow;
     ctx.beginPath();
     ctx.arc(centerX, centerY, baseR * 0.8, 0, Math.PI * 2);
     ctx.fill();
 
+    // Time-domain waveform traced around the inside of the ring
+    if (showWaveformRing) {
+      drawWaveformRing(ctx, timeDomainData, centerX, centerY, baseR * 0.6, startAngle, mixRgb(accent, WHITE, 0.5));
+    }
+
     ctx.shadowBlur = 0;
-  },
+  }
+
+  return {
+    render,
+    // Keep background triangles spread over the new area instead of bunching up
+    resize({ width, height }) {
+      const previous = state.dimensions;
+      if (!previous || previous.width === 0 || previous.height === 0) return;
+
+      const scaleX = width / previous.width;
+      const scaleY = height / previous.height;
+      state.triangles.forEach((tri) => {
+        tri.x *= scaleX;
+        tri.y *= scaleY;
+      });
+      state.dimensions = { width, height };
+    },
+    reset() {
+      state = createState();
+    },
+    dispose() {
+      state = createState();
+    },
+  };
+}
+
+export const scopeVisualizer: Canvas2DVisualizerRenderer = {
+  name: "Scope",
+  description: "Circular equalizer with radial bars",
+  contextType: "2d",
+  create: createScopeInstance,
 
   defaultConfig: {
     barCount: 128,
@@ -217,5 +350,30 @@ export const scopeVisualizer: VisualizerRenderer = {
     maxBarHeight: 0.18,
     rotationSpeed: 0.15,
     barWidth: 2,
+    layout: "mirrored",
+    frequencyScale: "log",
+    lowFrequencyAngle: -90,
+    showWaveformRing: true,
+    palette: "amethyst",
   } as ScopeConfig,
+
+  configSchema: {
+    layout: {
+      type: "enum",
+      label: "Layout",
+      options: [
+        { value: "mirrored", label: "Mirrored" },
+        { value: "full", label: "Full circle" },
+      ],
+    },
+    frequencyScale: { type: "enum", label: "Frequency scale", options: frequencyScaleOptions },
+    barCount: { type: "number", label: "Bar count", min: 16, max: 256, step: 8 },
+    baseRadius: { type: "number", label: "Ring radius", min: 0.1, max: 0.4, step: 0.01 },
+    maxBarHeight: { type: "number", label: "Bar height", min: 0.05, max: 0.4, step: 0.01 },
+    barWidth: { type: "number", label: "Bar width", min: 1, max: 8, step: 0.5 },
+    rotationSpeed: { type: "number", label: "Rotation speed", min: -1, max: 1, step: 0.05 },
+    lowFrequencyAngle: { type: "number", label: "Bass angle (°)", min: -180, max: 180, step: 15 },
+    showWaveformRing: { type: "boolean", label: "Waveform ring" },
+    palette: paletteField,
+  } satisfies ConfigSchema<ScopeConfig>,
 };
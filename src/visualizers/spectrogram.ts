@@ -0,0 +1,386 @@
+import type {
+  ConfigSchema,
+  Canvas2DVisualizerRenderer,
+  VisualizerInstance,
+  AnalyserData,
+  VisualizerConfig,
+  VisualizerDimensions,
+} from "./types";
+import { createOffscreenBuffer, type OffscreenBuffer } from "./offscreen";
+import {
+  getGradientRgb,
+  getPalette,
+  mixRgb,
+  paletteField,
+  parseHexColor,
+  toRgba,
+  type Palette,
+  type PaletteId,
+} from "./palettes";
+
+// Scroll left (time along x), scroll down (time along y), or recent spectra stacked in perspective
+export type SpectrogramView = "horizontal" | "vertical" | "waterfall";
+export type SpectrogramAxis = "log" | "linear";
+
+interface SpectrogramConfig extends VisualizerConfig {
+  view: SpectrogramView;
+  scale: SpectrogramAxis;
+  // Pixels of history per second
+  speed: number;
+  showGrid: boolean;
+  palette: PaletteId;
+}
+
+interface SpectrogramState {
+  // History drawn so far, in CSS pixels, and the view it was drawn for. Null until the first
+  // frame or after a resize.
+  buffer: OffscreenBuffer | null;
+  bufferView: SpectrogramView | null;
+  // Scroll owed but not yet drawn, in pixels
+  scroll: number;
+  // Waterfall rows, newest first
+  rows: Uint8Array[];
+}
+
+// Used when the analyser doesn't report its sample rate
+export const DEFAULT_SAMPLE_RATE = 44100;
+// Lowest frequency on a log axis; a log axis can't reach 0 Hz
+export const MIN_LOG_FREQUENCY = 20;
+
+const LOG_GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+const LINEAR_GRID_STEPS = [1000, 2000, 5000, 10000];
+const MAX_LINEAR_GRID_LINES = 8;
+
+const WATERFALL_ROWS = 40;
+const WATERFALL_POINTS = 128;
+// Pixels of scroll between waterfall rows
+const WATERFALL_ROW_SPACING = 6;
+// How far back the oldest row sits; it is drawn at 1 / (1 + depth) of the front row's size
+const WATERFALL_DEPTH = 2.5;
+
+function createState(): SpectrogramState {
+  return { buffer: null, bufferView: null, scroll: 0, rows: [] };
+}
+
+// Position (0 low, 1 high) of a frequency on the axis
+export function getFrequencyPosition(frequency: number, scale: SpectrogramAxis, nyquist: number): number {
+  if (scale === "linear") return nyquist > 0 ? frequency / nyquist : 0;
+  if (nyquist <= MIN_LOG_FREQUENCY) return 0;
+  return Math.log(Math.max(frequency, MIN_LOG_FREQUENCY) / MIN_LOG_FREQUENCY) / Math.log(nyquist / MIN_LOG_FREQUENCY);
+}
+
+// Frequency at a position on the axis, the inverse of getFrequencyPosition
+export function getPositionFrequency(position: number, scale: SpectrogramAxis, nyquist: number): number {
+  if (scale === "linear") return position * nyquist;
+  return MIN_LOG_FREQUENCY * Math.pow(nyquist / MIN_LOG_FREQUENCY, position);
+}
+
+// Frequencies to draw gridlines at: decades of 1-2-5 on a log axis, an even step on a linear one
+export function getGridFrequencies(scale: SpectrogramAxis, nyquist: number): number[] {
+  if (scale === "log") {
+    return LOG_GRID_FREQUENCIES.filter((frequency) => frequency > MIN_LOG_FREQUENCY && frequency < nyquist);
+  }
+  const step =
+    LINEAR_GRID_STEPS.find((candidate) => nyquist / candidate <= MAX_LINEAR_GRID_LINES) ?? LINEAR_GRID_STEPS.at(-1)!;
+  const frequencies: number[] = [];
+  for (let frequency = step; frequency < nyquist; frequency += step) frequencies.push(frequency);
+  return frequencies;
+}
+
+export function formatFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000} kHz` : `${frequency} Hz`;
+}
+
+// Resample the spectrum onto out.length points spread evenly along the axis, low to high.
+// Each point takes the loudest bin it covers so narrow peaks survive downsampling.
+export function sampleSpectrum(
+  frequencyData: Uint8Array,
+  sampleRate: number,
+  scale: SpectrogramAxis,
+  out: Uint8Array
+): Uint8Array {
+  const bins = frequencyData.length;
+  const nyquist = sampleRate / 2;
+  if (bins === 0) return out.fill(0);
+
+  const binWidth = nyquist / bins;
+  for (let i = 0; i < out.length; i++) {
+    const low = getPositionFrequency(i / out.length, scale, nyquist);
+    const high = getPositionFrequency((i + 1) / out.length, scale, nyquist);
+    const first = Math.min(bins - 1, Math.floor(low / binWidth));
+    const last = Math.min(bins - 1, Math.max(first, Math.ceil(high / binWidth) - 1));
+    let value = 0;
+    for (let bin = first; bin <= last; bin++) value = Math.max(value, frequencyData[bin]);
+    out[i] = value;
+  }
+  return out;
+}
+
+// RGB for each level 0-255: silence is the palette background, rising into the palette's stops
+export function createIntensityColors(palette: Palette): Uint8ClampedArray {
+  const background = parseHexColor(palette.background);
+  const colors = new Uint8ClampedArray(256 * 3);
+  for (let level = 0; level < 256; level++) {
+    const t = level / 255;
+    colors.set(mixRgb(background, getGradientRgb(palette, t), Math.min(1, t * 2)), level * 3);
+  }
+  return colors;
+}
+
+function drawGrid(
+  ctx: CanvasRenderingContext2D,
+  view: SpectrogramView,
+  scale: SpectrogramAxis,
+  nyquist: number,
+  { width, height }: VisualizerDimensions
+) {
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.12)";
+  ctx.lineWidth = 1;
+  ctx.fillStyle = "rgba(255, 255, 255, 0.5)";
+  ctx.font = "11px sans-serif";
+
+  const frequencies = getGridFrequencies(scale, nyquist);
+  ctx.beginPath();
+  for (const frequency of frequencies) {
+    const position = getFrequencyPosition(frequency, scale, nyquist);
+    if (view === "horizontal") {
+      const y = Math.round(height - position * height) + 0.5;
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+    } else {
+      const x = Math.round(position * width) + 0.5;
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+    }
+  }
+  ctx.stroke();
+
+  ctx.textAlign = "left";
+  ctx.textBaseline = view === "horizontal" ? "bottom" : "top";
+  for (const frequency of frequencies) {
+    const position = getFrequencyPosition(frequency, scale, nyquist);
+    if (view === "horizontal") {
+      ctx.fillText(formatFrequency(frequency), 6, height - position * height - 2);
+    } else {
+      ctx.fillText(formatFrequency(frequency), position * width + 4, 6);
+    }
+  }
+}
+
+// Newest spectrum at the front, older ones shrinking towards a vanishing point above it.
+// Each row is filled with the background first so it hides the rows behind.
+function drawWaterfall(
+  ctx: CanvasRenderingContext2D,
+  rows: Uint8Array[],
+  palette: Palette,
+  { width, height }: VisualizerDimensions
+) {
+  const horizon = height * 0.15;
+  const front = height * 0.92;
+  const frontWidth = width * 0.9;
+  const amplitude = height * 0.4;
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = "round";
+
+  for (let index = rows.length - 1; index >= 0; index--) {
+    const row = rows[index];
+    const depth = index / (WATERFALL_ROWS - 1);
+    const size = 1 / (1 + depth * WATERFALL_DEPTH);
+    const baseline = horizon + (front - horizon) * size;
+    const rowWidth = frontWidth * size;
+    const left = (width - rowWidth) / 2;
+
+    let loudest = 0;
+    ctx.beginPath();
+    ctx.moveTo(left, baseline);
+    for (let i = 0; i < row.length; i++) {
+      loudest = Math.max(loudest, row[i]);
+      ctx.lineTo(left + (i / (row.length - 1)) * rowWidth, baseline - (row[i] / 255) * amplitude * size);
+    }
+    ctx.lineTo(left + rowWidth, baseline);
+    ctx.closePath();
+
+    ctx.fillStyle = palette.background;
+    ctx.fill();
+    ctx.strokeStyle = toRgba(getGradientRgb(palette, loudest / 255), 1 - depth * 0.7);
+    ctx.stroke();
+  }
+}
+
+function createSpectrogramInstance(): VisualizerInstance {
+  let state = createState();
+  // Reused between frames, rebuilt when the palette or axis length changes
+  let colors: { palette: Palette; values: Uint8ClampedArray } | null = null;
+  let line: { values: Uint8Array; image: ImageData } | null = null;
+
+  function getColors(palette: Palette) {
+    if (colors?.palette !== palette) colors = { palette, values: createIntensityColors(palette) };
+    return colors.values;
+  }
+
+  // Buffer the size of the canvas in CSS pixels, cleared to the background
+  function getBuffer(view: SpectrogramView, width: number, height: number, palette: Palette) {
+    const bufferWidth = Math.max(1, Math.round(width));
+    const bufferHeight = Math.max(1, Math.round(height));
+    if (
+      state.bufferView !== view ||
+      state.buffer?.canvas.width !== bufferWidth ||
+      state.buffer.canvas.height !== bufferHeight
+    ) {
+      state.buffer = createOffscreenBuffer(bufferWidth, bufferHeight);
+      state.bufferView = view;
+      if (state.buffer) {
+        state.buffer.ctx.fillStyle = palette.background;
+        state.buffer.ctx.fillRect(0, 0, bufferWidth, bufferHeight);
+      }
+    }
+    return state.buffer;
+  }
+
+  // One column (horizontal) or row (vertical) of the current spectrum, ready to put
+  function getLine(ctx: CanvasRenderingContext2D, view: SpectrogramView, length: number) {
+    const column = view === "horizontal";
+    if (line?.values.length !== length || line.image.width !== (column ? 1 : length)) {
+      line = {
+        values: new Uint8Array(length),
+        image: column ? ctx.createImageData(1, length) : ctx.createImageData(length, 1),
+      };
+    }
+    return line;
+  }
+
+  // Scroll the buffer by shift pixels and paint the new spectrum into the gap
+  function drawFlat(
+    data: AnalyserData,
+    { view, scale }: SpectrogramConfig,
+    palette: Palette,
+    sampleRate: number,
+    buffer: OffscreenBuffer,
+    shift: number
+  ) {
+    const { canvas, ctx } = buffer;
+    const horizontal = view === "horizontal";
+    // Frequency runs up a column when scrolling left, across a row when scrolling down
+    const length = horizontal ? canvas.height : canvas.width;
+    const { values, image } = getLine(ctx, view, length);
+    sampleSpectrum(data.frequencyData, sampleRate, scale, values);
+
+    const intensity = getColors(palette);
+    for (let i = 0; i < length; i++) {
+      const pixel = (horizontal ? length - 1 - i : i) * 4;
+      const color = values[i] * 3;
+      image.data[pixel] = intensity[color];
+      image.data[pixel + 1] = intensity[color + 1];
+      image.data[pixel + 2] = intensity[color + 2];
+      image.data[pixel + 3] = 255;
+    }
+
+    shift = Math.min(shift, horizontal ? canvas.width : canvas.height);
+    if (horizontal) {
+      ctx.drawImage(canvas, -shift, 0);
+      for (let x = canvas.width - shift; x < canvas.width; x++) ctx.putImageData(image, x, 0);
+    } else {
+      ctx.drawImage(canvas, 0, shift);
+      for (let y = 0; y < shift; y++) ctx.putImageData(image, 0, y);
+    }
+  }
+
+  function render(
+    ctx: CanvasRenderingContext2D,
+    data: AnalyserData,
+    config: VisualizerConfig,
+    dimensions: VisualizerDimensions,
+    deltaTime: number
+  ) {
+    const spectrogramConfig = config as SpectrogramConfig;
+    const { view, scale, speed, showGrid } = spectrogramConfig;
+    const { width, height } = dimensions;
+    const palette = getPalette(config.palette);
+    const sampleRate = data.sampleRate ?? DEFAULT_SAMPLE_RATE;
+
+    state.scroll += (speed * deltaTime) / 1000;
+
+    ctx.fillStyle = palette.background;
+    ctx.fillRect(0, 0, width, height);
+
+    if (view === "waterfall") {
+      // A row straight away, then one each time enough scroll builds up
+      if (state.rows.length === 0 || state.scroll >= WATERFALL_ROW_SPACING) {
+        state.scroll %= WATERFALL_ROW_SPACING;
+        state.rows.unshift(sampleSpectrum(data.frequencyData, sampleRate, scale, new Uint8Array(WATERFALL_POINTS)));
+        state.rows.length = Math.min(state.rows.length, WATERFALL_ROWS);
+      }
+      drawWaterfall(ctx, state.rows, palette, dimensions);
+      return;
+    }
+
+    // Scroll by whole pixels, carrying the rest so slow speeds still move
+    const shift = Math.floor(state.scroll);
+    state.scroll -= shift;
+
+    const buffer = getBuffer(view, width, height, palette);
+    if (!buffer) return;
+    if (shift > 0) {
+      drawFlat(data, spectrogramConfig, palette, sampleRate, buffer, shift);
+    }
+    ctx.drawImage(buffer.canvas, 0, 0, width, height);
+
+    if (showGrid) {
+      drawGrid(ctx, view, scale, sampleRate / 2, dimensions);
+    }
+  }
+
+  return {
+    render,
+    resize() {
+      // The history is drawn at the old size; start over at the new one
+      state.buffer = null;
+    },
+    reset() {
+      state = createState();
+    },
+    dispose() {
+      state = createState();
+      colors = null;
+      line = null;
+    },
+  };
+}
+
+export const spectrogramVisualizer: Canvas2DVisualizerRenderer = {
+  name: "Spectrogram",
+  description: "Frequency content over time as a scrolling heat map or 3D waterfall",
+  contextType: "2d",
+  create: createSpectrogramInstance,
+
+  defaultConfig: {
+    view: "horizontal",
+    scale: "log",
+    speed: 120,
+    showGrid: true,
+    palette: "classic",
+  } as SpectrogramConfig,
+
+  configSchema: {
+    view: {
+      type: "enum",
+      label: "View",
+      options: [
+        { value: "horizontal", label: "Scroll left" },
+        { value: "vertical", label: "Scroll down" },
+        { value: "waterfall", label: "3D waterfall" },
+      ],
+    },
+    scale: {
+      type: "enum",
+      label: "Frequency scale",
+      options: [
+        { value: "log", label: "Logarithmic" },
+        { value: "linear", label: "Linear" },
+      ],
+    },
+    speed: { type: "number", label: "Speed", min: 20, max: 600, step: 10 },
+    showGrid: { type: "boolean", label: "Frequency grid" },
+    palette: paletteField,
+  } satisfies ConfigSchema<SpectrogramConfig>,
+};
@@ -0,0 +1,101 @@
+import type { EnumField, VisualizerDimensions } from "./types";
+
+export type TransitionKind = "none" | "fade" | "wipe" | "zoom" | "dissolve";
+
+export interface ModeTransition {
+  kind: TransitionKind;
+  // Milliseconds
+  duration: number;
+}
+
+export const transitionOptions: EnumField["options"] = [
+  { value: "none", label: "None" },
+  { value: "fade", label: "Fade" },
+  { value: "wipe", label: "Wipe" },
+  { value: "zoom", label: "Zoom" },
+  { value: "dissolve", label: "Dissolve" },
+];
+
+// Size of the dissolve's blocks, in CSS pixels
+const DISSOLVE_CELL = 24;
+
+// Slow start and end, so the blend doesn't visibly snap at either edge
+export function easeInOut(t: number): number {
+  const x = Math.max(0, Math.min(1, t));
+  return x * x * (3 - 2 * x);
+}
+
+// Fixed pseudo-random threshold for a dissolve cell, so cells appear in the same
+// scattered order every frame of a transition
+export function getDissolveThreshold(column: number, row: number): number {
+  let hash = Math.imul(column, 0x27d4eb2d) ^ Math.imul(row, 0x165667b1);
+  hash = Math.imul(hash ^ (hash >>> 15), 0x85ebca6b);
+  hash ^= hash >>> 13;
+  return (hash >>> 0) / 0x100000000;
+}
+
+// Draw the blend of two frames at a point through the transition. Both sources hold a
+// full frame at the device pixel size; ctx is scaled so drawing is in CSS pixels.
+export function drawTransition(
+  ctx: CanvasRenderingContext2D,
+  from: CanvasImageSource,
+  to: CanvasImageSource,
+  kind: TransitionKind,
+  progress: number,
+  { width, height }: VisualizerDimensions
+) {
+  const t = easeInOut(progress);
+
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+
+  switch (kind) {
+    case "none":
+      ctx.drawImage(to, 0, 0, width, height);
+      break;
+
+    case "fade":
+      ctx.drawImage(from, 0, 0, width, height);
+      ctx.globalAlpha = t;
+      ctx.drawImage(to, 0, 0, width, height);
+      break;
+
+    case "wipe":
+      // Left to right, the new mode uncovered behind a moving edge
+      ctx.drawImage(from, 0, 0, width, height);
+      ctx.beginPath();
+      ctx.rect(0, 0, width * t, height);
+      ctx.clip();
+      ctx.drawImage(to, 0, 0, width, height);
+      break;
+
+    case "zoom": {
+      // The old mode rushes past the viewer while the new one grows in from the center
+      const outgoing = 1 + t;
+      const incoming = 0.5 + t * 0.5;
+      ctx.globalAlpha = 1 - t;
+      ctx.drawImage(from, (width * (1 - outgoing)) / 2, (height * (1 - outgoing)) / 2, width * outgoing, height * outgoing);
+      ctx.globalAlpha = t;
+      ctx.drawImage(to, (width * (1 - incoming)) / 2, (height * (1 - incoming)) / 2, width * incoming, height * incoming);
+      break;
+    }
+
+    case "dissolve": {
+      ctx.drawImage(from, 0, 0, width, height);
+      // Cells of the new mode appear in a scattered order until they cover the frame
+      ctx.beginPath();
+      for (let y = 0, row = 0; y < height; y += DISSOLVE_CELL, row++) {
+        for (let x = 0, column = 0; x < width; x += DISSOLVE_CELL, column++) {
+          if (getDissolveThreshold(column, row) < t) {
+            ctx.rect(x, y, DISSOLVE_CELL, DISSOLVE_CELL);
+          }
+        }
+      }
+      ctx.clip();
+      ctx.drawImage(to, 0, 0, width, height);
+      break;
+    }
+  }
+
+  ctx.restore();
+}
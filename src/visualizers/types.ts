@@ -1,25 +1,152 @@
+import type { AudioFeatureFrame } from "@/audio/worklet/features";
+import type { RandomSource } from "./random";
+
+export interface ChannelData {
+  frequencyData: Uint8Array;
+  timeDomainData: Uint8Array;
+}
+
+// Full-precision analysis for metering, only filled when float analysis is on
+export interface FloatAnalyserData {
+  // Per-bin level in dBFS, -Infinity for silent bins
+  frequencyData: Float32Array;
+  // Samples in -1..1
+  timeDomainData: Float32Array;
+  // Linear 0-1 and dBFS
+  rms: number;
+  rmsDb: number;
+  peak: number;
+  peakDb: number;
+  // Peak over RMS, in dB; 0 for silence
+  crestFactor: number;
+  peakFrequencyHz: number;
+}
+
 export interface AnalyserData {
   frequencyData: Uint8Array;
   timeDomainData: Uint8Array;
   averageFrequency: number;
   peakFrequency: number;
+  // Of the analysed audio, for placing bins in Hz; frequencyData spans 0 to half of it
+  sampleRate?: number;
+  // Per-channel data for stereo sources. Absent for mono input such as most microphones.
+  left?: ChannelData;
+  right?: ChannelData;
+  // Beat tracking, see src/audio/beatDetector.ts
+  isBeat: boolean;
+  beatConfidence: number;
+  bpm: number;  // 0 until a tempo is found
+  beatPhase: number;  // 0-1 through the current beat
+  // True on the frame a new musical section starts, see src/audio/sectionDetector.ts
+  isSectionChange: boolean;
+  float?: FloatAnalyserData;
+  // Latest frame from the audio-rate feature worklet, when the browser supports it
+  features?: AudioFeatureFrame;
 }
 
+export type ConfigValue = number | boolean | string;
+
 export interface VisualizerConfig {
-  [key: string]: unknown;
+  [key: string]: ConfigValue;
 }
 
-export interface VisualizerRenderer {
-  name: string;
-  description: string;
+// Schema fields describe how a config value is edited in the control panel
+interface ConfigFieldBase {
+  label: string;
+}
+
+export interface NumberField extends ConfigFieldBase {
+  type: "number";
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface BooleanField extends ConfigFieldBase {
+  type: "boolean";
+}
+
+export interface ColorField extends ConfigFieldBase {
+  type: "color";
+}
+
+export interface EnumField extends ConfigFieldBase {
+  type: "enum";
+  options: { value: string | number; label: string }[];
+}
+
+export type ConfigField = NumberField | BooleanField | ColorField | EnumField;
+
+// Field order is the order controls are shown in
+export type ConfigSchema<T extends VisualizerConfig = VisualizerConfig> = {
+  [K in keyof T]?: ConfigField;
+};
+
+export interface VisualizerDimensions {
+  width: number;
+  height: number;
+}
+
+// Which kind of canvas context a renderer draws with. A canvas keeps the first context it
+// hands out, so switching between types needs a new canvas.
+export type RenderContextType = "2d" | "webgl2";
+
+// A running visualizer owned by a single canvas. All animation state
+// (particles, smoothed heights, rotation) lives here, never at module level.
+export interface VisualizerInstance<TContext = CanvasRenderingContext2D> {
   render: (
-    ctx: CanvasRenderingContext2D,
+    ctx: TContext,
     data: AnalyserData,
     config: VisualizerConfig,
-    dimensions: { width: number; height: number },
+    dimensions: VisualizerDimensions,
     deltaTime: number
   ) => void;
+  // Called when the canvas changes size
+  resize: (dimensions: VisualizerDimensions) => void;
+  // Drop accumulated animation state so the next frame starts fresh
+  reset: () => void;
+  // Release anything held by the instance; it must not be used afterwards
+  dispose: () => void;
+}
+
+// Passed to create(). Anything left out falls back to what live rendering uses.
+export interface VisualizerInstanceOptions {
+  // Stands in for Math.random, so a seeded instance draws the same frames every run
+  random?: RandomSource;
+}
+
+interface VisualizerRendererBase {
+  name: string;
+  description: string;
   defaultConfig: VisualizerConfig;
+  configSchema: ConfigSchema;
+}
+
+export interface Canvas2DVisualizerRenderer extends VisualizerRendererBase {
+  contextType: "2d";
+  create: (options?: VisualizerInstanceOptions) => VisualizerInstance;
 }
 
-export type VisualizerMode = "bars" | "waveform" | "scope" | "ambiance";
+// Dimensions passed to a WebGL instance are in CSS pixels; draw at gl.drawingBufferWidth/Height
+export interface WebGLVisualizerRenderer extends VisualizerRendererBase {
+  contextType: "webgl2";
+  create: (options?: VisualizerInstanceOptions) => VisualizerInstance<WebGL2RenderingContext>;
+  // 2D version for browsers without WebGL2, also what runs under tests
+  createFallback: (options?: VisualizerInstanceOptions) => VisualizerInstance;
+}
+
+export type VisualizerRenderer = Canvas2DVisualizerRenderer | WebGLVisualizerRenderer;
+
+// Id of a registered visualizer, see src/visualizers/registry.ts
+export type VisualizerMode = string;
+
+export type BuiltinVisualizerMode =
+  | "bars"
+  | "waveform"
+  | "scope"
+  | "ambiance"
+  | "goniometer"
+  | "warp"
+  | "spectrogram"
+  | "preset"
+  | "scene";
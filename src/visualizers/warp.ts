@@ -0,0 +1,377 @@
+import type {
+  ConfigSchema,
+  WebGLVisualizerRenderer,
+  VisualizerInstance,
+  AnalyserData,
+  VisualizerConfig,
+  VisualizerDimensions,
+} from "./types";
+import { wmpColors } from "@/utils/colorPalettes";
+import {
+  COPY_FRAGMENT_SHADER,
+  FULLSCREEN_VERTEX_SHADER,
+  POSITION_ATTRIBUTE,
+  createFullscreenQuad,
+  createProgram,
+  createRenderTarget,
+  getUniformLocations,
+  hexToRgb,
+  type FullscreenQuad,
+  type RenderTarget,
+} from "./webgl";
+import { getPalette, paletteField, parseHexColor, toRgba, type PaletteId } from "./palettes";
+
+interface WarpConfig extends VisualizerConfig {
+  color: string;
+  // Scale applied to the previous frame per 60 fps frame; above 1 flies inward
+  zoom: number;
+  // Degrees per second the feedback turns
+  rotation: number;
+  // Strength of the rippling swirl
+  warp: number;
+  // How much of the previous frame survives each frame
+  decay: number;
+  amplitude: number;
+  beatZoom: boolean;
+  // Trails fade toward its background
+  palette: PaletteId;
+}
+
+// Most waveform points drawn per frame
+const MAX_POINTS = 512;
+const FRAME_MS = 1000 / 60;
+// Extra zoom a full-confidence beat adds, fading at the feedback decay rate
+const BEAT_ZOOM = 0.04;
+
+// Per-frame feedback parameters, shared by the WebGL and 2D paths
+interface FeedbackStep {
+  zoom: number;
+  angle: number;
+  decay: number;
+}
+
+interface FeedbackState {
+  time: number;
+  beatKick: number;
+}
+
+function createFeedbackState(): FeedbackState {
+  return { time: 0, beatKick: 0 };
+}
+
+// Frame-rate independent version of the per-frame config values
+export function getFeedbackStep(
+  state: FeedbackState,
+  data: AnalyserData,
+  config: WarpConfig,
+  deltaTime: number
+): FeedbackStep {
+  const frames = deltaTime / FRAME_MS;
+  state.time += deltaTime / 1000;
+  state.beatKick *= Math.pow(config.decay, frames);
+  if (config.beatZoom && data.isBeat) {
+    state.beatKick = Math.max(state.beatKick, 0.5 + data.beatConfidence * 0.5);
+  }
+
+  return {
+    zoom: Math.pow(config.zoom + state.beatKick * BEAT_ZOOM, frames),
+    angle: ((config.rotation * Math.PI) / 180) * (deltaTime / 1000),
+    decay: Math.pow(config.decay, frames),
+  };
+}
+
+// Waveform as x/y pairs in -1..1, bass-boosted by the average level
+function getWavePoints(data: AnalyserData, amplitude: number, target: Float32Array): number {
+  const samples = data.timeDomainData;
+  const count = Math.min(MAX_POINTS, samples.length);
+  if (count < 2) return 0;
+
+  const step = samples.length / count;
+  const gain = amplitude * (1 + data.averageFrequency);
+  for (let i = 0; i < count; i++) {
+    target[i * 2] = (i / (count - 1)) * 1.8 - 0.9;
+    target[i * 2 + 1] = ((samples[Math.floor(i * step)] - 128) / 128) * gain;
+  }
+  return count;
+}
+
+const WARP_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+in vec2 uv;
+uniform sampler2D previous;
+uniform float zoom;
+uniform float angle;
+uniform float warp;
+uniform float time;
+uniform float decay;
+uniform float aspect;
+uniform vec3 background;
+out vec4 color;
+void main() {
+  vec2 p = uv - 0.5;
+  p.x *= aspect;
+  float radius = length(p);
+  // Ripples travel outward and twist the feedback a little more at some radii than others
+  float turn = angle + warp * 0.05 * sin(time * 1.7 + radius * 12.0);
+  float c = cos(turn);
+  float s = sin(turn);
+  p = mat2(c, -s, s, c) * p / zoom;
+  p.x /= aspect;
+  color = vec4(mix(background, texture(previous, p + 0.5).rgb, decay), 1.0);
+}`;
+
+const WAVE_VERTEX_SHADER = `#version 300 es
+in vec2 position;
+void main() {
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+const WAVE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform vec3 waveColor;
+out vec4 color;
+void main() {
+  color = vec4(waveColor, 1.0);
+}`;
+
+interface GLResources {
+  gl: WebGL2RenderingContext;
+  quad: FullscreenQuad;
+  warpProgram: WebGLProgram;
+  warpUniforms: Record<
+    "previous" | "zoom" | "angle" | "warp" | "time" | "decay" | "aspect" | "background",
+    WebGLUniformLocation | null
+  >;
+  waveProgram: WebGLProgram;
+  waveColor: WebGLUniformLocation | null;
+  waveVao: WebGLVertexArrayObject | null;
+  waveBuffer: WebGLBuffer | null;
+  copyProgram: WebGLProgram;
+  copySource: WebGLUniformLocation | null;
+  // Ping-pong pair: read last frame from one, draw the next into the other
+  targets: [RenderTarget, RenderTarget] | null;
+}
+
+function createResources(gl: WebGL2RenderingContext): GLResources {
+  const warpProgram = createProgram(gl, FULLSCREEN_VERTEX_SHADER, WARP_FRAGMENT_SHADER);
+  const waveProgram = createProgram(gl, WAVE_VERTEX_SHADER, WAVE_FRAGMENT_SHADER);
+  const copyProgram = createProgram(gl, FULLSCREEN_VERTEX_SHADER, COPY_FRAGMENT_SHADER);
+
+  const waveVao = gl.createVertexArray();
+  const waveBuffer = gl.createBuffer();
+  gl.bindVertexArray(waveVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, waveBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, MAX_POINTS * 2 * Float32Array.BYTES_PER_ELEMENT, gl.DYNAMIC_DRAW);
+  gl.enableVertexAttribArray(POSITION_ATTRIBUTE);
+  gl.vertexAttribPointer(POSITION_ATTRIBUTE, 2, gl.FLOAT, false, 0, 0);
+  gl.bindVertexArray(null);
+
+  return {
+    gl,
+    quad: createFullscreenQuad(gl),
+    warpProgram,
+    warpUniforms: getUniformLocations(gl, warpProgram, [
+      "previous",
+      "zoom",
+      "angle",
+      "warp",
+      "time",
+      "decay",
+      "aspect",
+      "background",
+    ] as const),
+    waveProgram,
+    waveColor: gl.getUniformLocation(waveProgram, "waveColor"),
+    waveVao,
+    waveBuffer,
+    copyProgram,
+    copySource: gl.getUniformLocation(copyProgram, "source"),
+    targets: null,
+  };
+}
+
+function disposeResources(resources: GLResources) {
+  const { gl } = resources;
+  resources.quad.dispose();
+  gl.deleteProgram(resources.warpProgram);
+  gl.deleteProgram(resources.waveProgram);
+  gl.deleteProgram(resources.copyProgram);
+  gl.deleteVertexArray(resources.waveVao);
+  gl.deleteBuffer(resources.waveBuffer);
+  resources.targets?.forEach((target) => target.dispose());
+}
+
+function createWarpInstance(): VisualizerInstance<WebGL2RenderingContext> {
+  let state = createFeedbackState();
+  let resources: GLResources | null = null;
+  const points = new Float32Array(MAX_POINTS * 2);
+
+  function render(
+    gl: WebGL2RenderingContext,
+    data: AnalyserData,
+    config: VisualizerConfig,
+    _dimensions: VisualizerDimensions,
+    deltaTime: number
+  ) {
+    const warpConfig = config as WarpConfig;
+    resources ??= createResources(gl);
+    const width = gl.drawingBufferWidth;
+    const height = gl.drawingBufferHeight;
+    if (width === 0 || height === 0) return;
+
+    // Targets follow the drawing buffer; resizing starts the trails over
+    if (!resources.targets || resources.targets[0].width !== width || resources.targets[0].height !== height) {
+      resources.targets?.forEach((target) => target.dispose());
+      resources.targets = [createRenderTarget(gl, width, height), createRenderTarget(gl, width, height)];
+    }
+    const [read, write] = resources.targets;
+    const step = getFeedbackStep(state, data, warpConfig, deltaTime);
+
+    gl.viewport(0, 0, width, height);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, write.framebuffer);
+
+    // Feed the previous frame back in, warped and faded
+    const { warpUniforms } = resources;
+    gl.useProgram(resources.warpProgram);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, read.texture);
+    gl.uniform1i(warpUniforms.previous, 0);
+    gl.uniform1f(warpUniforms.zoom, step.zoom);
+    gl.uniform1f(warpUniforms.angle, step.angle);
+    gl.uniform1f(warpUniforms.warp, warpConfig.warp);
+    gl.uniform1f(warpUniforms.time, state.time);
+    gl.uniform1f(warpUniforms.decay, step.decay);
+    gl.uniform1f(warpUniforms.aspect, width / height);
+    gl.uniform3f(warpUniforms.background, ...hexToRgb(getPalette(warpConfig.palette).background));
+    resources.quad.draw();
+
+    // New waveform on top, to be carried along by the next frames
+    const count = getWavePoints(data, warpConfig.amplitude, points);
+    if (count > 0) {
+      gl.useProgram(resources.waveProgram);
+      gl.uniform3f(resources.waveColor, ...hexToRgb(warpConfig.color));
+      gl.bindVertexArray(resources.waveVao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, resources.waveBuffer);
+      gl.bufferSubData(gl.ARRAY_BUFFER, 0, points.subarray(0, count * 2));
+      gl.drawArrays(gl.LINE_STRIP, 0, count);
+      gl.bindVertexArray(null);
+    }
+
+    // Show the result
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.useProgram(resources.copyProgram);
+    gl.bindTexture(gl.TEXTURE_2D, write.texture);
+    gl.uniform1i(resources.copySource, 0);
+    resources.quad.draw();
+
+    resources.targets = [write, read];
+  }
+
+  return {
+    render,
+    // Render targets follow the drawing buffer size on the next frame
+    resize() {},
+    reset() {
+      state = createFeedbackState();
+      // Recreated, and so cleared, on the next frame
+      resources?.targets?.forEach((target) => target.dispose());
+      if (resources) resources.targets = null;
+    },
+    dispose() {
+      if (resources) disposeResources(resources);
+      resources = null;
+      state = createFeedbackState();
+    },
+  };
+}
+
+// The same feedback loop on a 2D canvas, feeding the canvas back into itself
+function createWarpFallbackInstance(): VisualizerInstance {
+  let state = createFeedbackState();
+  const points = new Float32Array(MAX_POINTS * 2);
+
+  function render(
+    ctx: CanvasRenderingContext2D,
+    data: AnalyserData,
+    config: VisualizerConfig,
+    { width, height }: VisualizerDimensions,
+    deltaTime: number
+  ) {
+    const warpConfig = config as WarpConfig;
+    const step = getFeedbackStep(state, data, warpConfig, deltaTime);
+
+    // Previous frame, zoomed and turned about the center
+    ctx.save();
+    ctx.globalAlpha = step.decay;
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(step.angle);
+    ctx.scale(step.zoom, step.zoom);
+    ctx.drawImage(ctx.canvas, -width / 2, -height / 2, width, height);
+    ctx.restore();
+
+    ctx.fillStyle = toRgba(parseHexColor(getPalette(warpConfig.palette).background), 1 - step.decay);
+    ctx.fillRect(0, 0, width, height);
+
+    const count = getWavePoints(data, warpConfig.amplitude, points);
+    if (count === 0) return;
+
+    ctx.strokeStyle = warpConfig.color;
+    ctx.lineWidth = 2;
+    ctx.shadowColor = warpConfig.color;
+    ctx.shadowBlur = 10;
+    ctx.beginPath();
+    for (let i = 0; i < count; i++) {
+      const x = ((points[i * 2] + 1) / 2) * width;
+      const y = ((1 - points[i * 2 + 1]) / 2) * height;
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+    ctx.stroke();
+    ctx.shadowBlur = 0;
+  }
+
+  return {
+    render,
+    // Everything is laid out from the current dimensions each frame
+    resize() {},
+    reset() {
+      state = createFeedbackState();
+    },
+    dispose() {
+      state = createFeedbackState();
+    },
+  };
+}
+
+export const warpVisualizer: WebGLVisualizerRenderer = {
+  name: "Warp",
+  description: "Milkdrop-style feedback warp drawn with WebGL",
+  contextType: "webgl2",
+  create: createWarpInstance,
+  createFallback: createWarpFallbackInstance,
+
+  defaultConfig: {
+    color: wmpColors.cyan,
+    zoom: 1.02,
+    rotation: 6,
+    warp: 1,
+    decay: 0.94,
+    amplitude: 0.5,
+    beatZoom: true,
+    palette: "classic",
+  } as WarpConfig,
+
+  configSchema: {
+    color: { type: "color", label: "Color" },
+    zoom: { type: "number", label: "Zoom", min: 0.95, max: 1.1, step: 0.005 },
+    rotation: { type: "number", label: "Rotation (°/s)", min: -90, max: 90, step: 1 },
+    warp: { type: "number", label: "Warp", min: 0, max: 4, step: 0.1 },
+    decay: { type: "number", label: "Trail decay", min: 0.5, max: 0.99, step: 0.01 },
+    amplitude: { type: "number", label: "Amplitude", min: 0.1, max: 1, step: 0.05 },
+    beatZoom: { type: "boolean", label: "Zoom on beat" },
+    palette: paletteField,
+  } satisfies ConfigSchema<WarpConfig>,
+};
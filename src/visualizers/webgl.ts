@@ -0,0 +1,152 @@
+// Small helpers shared by WebGL2 renderers: shader programs, a fullscreen quad and
+// framebuffer-backed textures for feedback effects.
+
+// Vertex shader for full-canvas passes. uv runs 0-1 across the canvas.
+export const FULLSCREEN_VERTEX_SHADER = `#version 300 es
+in vec2 position;
+out vec2 uv;
+void main() {
+  uv = position * 0.5 + 0.5;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+// Copies a texture to the current framebuffer
+export const COPY_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 uv;
+uniform sampler2D source;
+out vec4 color;
+void main() {
+  color = texture(source, uv);
+}`;
+
+// Every program takes its vertices from attribute 0, so one quad serves them all
+export const POSITION_ATTRIBUTE = 0;
+
+export function compileShader(gl: WebGL2RenderingContext, type: GLenum, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    throw new Error("Failed to create shader");
+  }
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+}
+
+export function createProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram();
+  if (!program) {
+    throw new Error("Failed to create program");
+  }
+
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.bindAttribLocation(program, POSITION_ATTRIBUTE, "position");
+  gl.linkProgram(program);
+
+  // Linked programs keep working without their shader objects
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`Program link failed: ${log}`);
+  }
+  return program;
+}
+
+export function getUniformLocations<T extends string>(
+  gl: WebGL2RenderingContext,
+  program: WebGLProgram,
+  names: readonly T[]
+): Record<T, WebGLUniformLocation | null> {
+  const locations = {} as Record<T, WebGLUniformLocation | null>;
+  for (const name of names) {
+    locations[name] = gl.getUniformLocation(program, name);
+  }
+  return locations;
+}
+
+export interface FullscreenQuad {
+  // Draws with whatever program is in use
+  draw: () => void;
+  dispose: () => void;
+}
+
+export function createFullscreenQuad(gl: WebGL2RenderingContext): FullscreenQuad {
+  const vao = gl.createVertexArray();
+  const buffer = gl.createBuffer();
+
+  gl.bindVertexArray(vao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(POSITION_ATTRIBUTE);
+  gl.vertexAttribPointer(POSITION_ATTRIBUTE, 2, gl.FLOAT, false, 0, 0);
+  gl.bindVertexArray(null);
+
+  return {
+    draw() {
+      gl.bindVertexArray(vao);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      gl.bindVertexArray(null);
+    },
+    dispose() {
+      gl.deleteVertexArray(vao);
+      gl.deleteBuffer(buffer);
+    },
+  };
+}
+
+// A texture that can be drawn into and then sampled on the next pass
+export interface RenderTarget {
+  texture: WebGLTexture | null;
+  framebuffer: WebGLFramebuffer | null;
+  width: number;
+  height: number;
+  dispose: () => void;
+}
+
+export function createRenderTarget(gl: WebGL2RenderingContext, width: number, height: number): RenderTarget {
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  // Warped lookups that leave the texture fade out instead of smearing the edge
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  const framebuffer = gl.createFramebuffer();
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+  gl.clearColor(0, 0, 0, 1);
+  gl.clear(gl.COLOR_BUFFER_BIT);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+  return {
+    texture,
+    framebuffer,
+    width,
+    height,
+    dispose() {
+      gl.deleteFramebuffer(framebuffer);
+      gl.deleteTexture(texture);
+    },
+  };
+}
+
+// Parse "#rrggbb" into 0-1 components for a vec3 uniform
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", ""), 16);
+  if (Number.isNaN(value)) return [1, 1, 1];
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
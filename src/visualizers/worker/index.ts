@@ -0,0 +1,3 @@
+export { canRenderInWorker, createWorkerRenderer, type WorkerRendererOptions } from "./workerRenderer";
+export { createRenderHost } from "./renderHost";
+export type { RenderWorkerRequest, RenderWorkerResponse } from "./protocol";
@@ -0,0 +1,17 @@
+import type { AnalyserData, VisualizerConfig, VisualizerDimensions, VisualizerMode } from "../types";
+import type { ModeTransition } from "../transitions";
+import type { Palette } from "../palettes";
+
+// Main thread to render worker. The canvas arrives once, in "init".
+export type RenderWorkerRequest =
+  | { type: "init"; canvas: OffscreenCanvas; mode: VisualizerMode }
+  | { type: "mode"; mode: VisualizerMode; transition?: ModeTransition }
+  | { type: "resize"; dimensions: VisualizerDimensions; pixelRatio: number }
+  | { type: "reset" }
+  | { type: "render"; data: AnalyserData; config: VisualizerConfig; deltaTime: number }
+  | { type: "palette"; palette: Palette }
+  | { type: "seed"; seed: number }
+  | { type: "idle"; message: string };
+
+// Render worker to main thread. "rendered" acknowledges each frame so frames never queue up.
+export type RenderWorkerResponse = { type: "rendered" } | { type: "error"; message: string };
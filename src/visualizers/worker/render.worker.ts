@@ -0,0 +1,6 @@
+import { createRenderHost } from "./renderHost";
+import type { RenderWorkerRequest, RenderWorkerResponse } from "./protocol";
+
+const handleMessage = createRenderHost((response: RenderWorkerResponse) => self.postMessage(response));
+
+self.onmessage = (event: MessageEvent<RenderWorkerRequest>) => handleMessage(event.data);
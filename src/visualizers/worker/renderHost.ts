@@ -0,0 +1,45 @@
+import { createCanvasRenderer, type CanvasRenderer } from "../canvasRenderer";
+import type { RenderWorkerRequest, RenderWorkerResponse } from "./protocol";
+
+// Worker-side message handling, kept apart from the worker global so it can be tested
+export function createRenderHost(post: (response: RenderWorkerResponse) => void) {
+  let renderer: CanvasRenderer | null = null;
+
+  return function handleMessage(request: RenderWorkerRequest) {
+    if (request.type === "init") {
+      renderer?.dispose();
+      renderer = createCanvasRenderer(request.canvas, request.mode);
+      return;
+    }
+    if (!renderer) return;
+
+    switch (request.type) {
+      case "mode":
+        renderer.setMode(request.mode, request.transition);
+        break;
+      case "resize":
+        renderer.resize(request.dimensions, request.pixelRatio);
+        break;
+      case "reset":
+        renderer.reset();
+        break;
+      case "render":
+        try {
+          renderer.render(request.data, request.config, request.deltaTime);
+        } catch (err) {
+          post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+        }
+        post({ type: "rendered" });
+        break;
+      case "palette":
+        renderer.setCustomPalette(request.palette);
+        break;
+      case "seed":
+        renderer.setSeed(request.seed);
+        break;
+      case "idle":
+        renderer.drawIdle(request.message);
+        break;
+    }
+  };
+}
@@ -0,0 +1,89 @@
+import type { CanvasRenderer } from "../canvasRenderer";
+import type { VisualizerMode } from "../types";
+import { getVisualizer } from "../index";
+import type { RenderWorkerRequest, RenderWorkerResponse } from "./protocol";
+
+export function canRenderInWorker(canvas: HTMLCanvasElement): boolean {
+  return typeof Worker !== "undefined" && typeof canvas.transferControlToOffscreen === "function";
+}
+
+export interface WorkerRendererOptions {
+  // Defaults to the bundled render worker
+  worker?: Worker;
+  // Called when the worker fails, e.g. a frame throws, it throws outside a frame or a message
+  // can't be read. Frames keep being posted, but the owner should switch back to the main thread.
+  onError?: (message: string) => void;
+}
+
+// Hands the canvas to a worker and forwards every call to it. The worker only has the
+// built-in visualizers, not ones registered at runtime. The canvas can't be drawn on
+// from the main thread afterwards, so switching back needs a fresh canvas element.
+export function createWorkerRenderer(
+  canvas: HTMLCanvasElement,
+  mode: VisualizerMode,
+  {
+    worker = new Worker(new URL("./render.worker.ts", import.meta.url), { type: "module" }),
+    onError,
+  }: WorkerRendererOptions = {}
+): CanvasRenderer {
+  const offscreen = canvas.transferControlToOffscreen();
+  const post = (request: RenderWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  // Skip frames while the worker is still drawing, carrying their time into the next one
+  let inFlight = false;
+  let skippedTime = 0;
+
+  // A frame in flight when the worker fails is never acknowledged, so stop waiting for it
+  const fail = (message: string) => {
+    inFlight = false;
+    skippedTime = 0;
+    console.error("Render worker failed:", message);
+    onError?.(message);
+  };
+
+  worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+    if (event.data.type === "rendered") {
+      inFlight = false;
+    } else {
+      // A renderer that threw will likely throw on every frame, so hand back to the owner
+      fail(event.data.message);
+    }
+  };
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    fail(event.message || "Worker error");
+  };
+  worker.onmessageerror = () => fail("Could not read a message from the worker");
+
+  post({ type: "init", canvas: offscreen, mode }, [offscreen]);
+
+  return {
+    contextType: getVisualizer(mode).contextType,
+    setMode: (next, transition) => post({ type: "mode", mode: next, transition }),
+    resize: (dimensions, pixelRatio) => post({ type: "resize", dimensions, pixelRatio }),
+    reset: () => post({ type: "reset" }),
+
+    render(data, config, deltaTime) {
+      if (inFlight) {
+        skippedTime += deltaTime;
+        return;
+      }
+      inFlight = true;
+      // Structured cloning copies the analyser arrays, so the next getData can't race the worker
+      post({ type: "render", data, config, deltaTime: deltaTime + skippedTime });
+      skippedTime = 0;
+    },
+
+    setCustomPalette: (palette) => post({ type: "palette", palette }),
+    setSeed: (seed) => post({ type: "seed", seed }),
+    drawIdle: (message) => post({ type: "idle", message }),
+
+    // Terminating drops the worker's renderer along with everything it holds
+    dispose() {
+      worker.onmessage = null;
+      worker.onerror = null;
+      worker.onmessageerror = null;
+      worker.terminate();
+    },
+  };
+}